@@ -12,6 +12,12 @@ const morgan = require('morgan');
 const { body, validationResult } = require('express-validator');
 const multer = require('multer');
 const path = require('path');
+const fs = require('fs');
+const crypto = require('crypto');
+const net = require('net');
+const zlib = require('zlib');
+const axios = require('axios');
+const nodemailer = require('nodemailer');
 const app = express();
 const PORT = process.env.PORT || 5000;
 const HOST = process.env.HOST || '0.0.0.0';
@@ -56,6 +62,13 @@ const authLimiter = rateLimit({
   message: 'Too many login attempts, please try again later.'
 });
 
+// Approval PINs are short, so guesses are limited separately from logins
+const pinLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: 'Too many PIN attempts, please try again later.'
+});
+
 // Simple CORS configuration to debug
 app.use((req, res, next) => {
   // Log CORS details for debugging
@@ -132,11 +145,31 @@ const authenticateToken = (req, res, next) => {
       }
       return res.status(403).json({ error: 'Invalid token' });
     }
+    // Other signed tokens, like discount approvals, are not logins
+    if (user.type) {
+      return res.status(403).json({ error: 'Invalid token' });
+    }
     req.user = user;
     next();
   });
 };
 
+// Restrict a route to administrators
+const requireAdmin = (req, res, next) => {
+  if (req.user?.role_name !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+};
+
+// Restrict a route to managers and administrators
+const requireManager = (req, res, next) => {
+  if (!['admin', 'manager'].includes(req.user?.role_name)) {
+    return res.status(403).json({ error: 'Manager access required' });
+  }
+  next();
+};
+
 // Input validation middleware
 const validateLogin = [
   body('email').isEmail().normalizeEmail(),
@@ -269,47 +302,70 @@ app.post('/api/auth/register', async (req, res) => {
 });
 
 // Package routes
+
+// Parse features from JSON string to array with error handling
+function parsePackageFeatures(pkg) {
+  try {
+    if (!pkg.features) return [];
+    try {
+      return JSON.parse(pkg.features);
+    } catch (jsonErr) {
+      // If JSON parsing fails, try to split by newlines
+      return String(pkg.features)
+        .split('\n')
+        .map(feature => feature.trim())
+        .filter(feature => feature.length > 0);
+    }
+  } catch (err) {
+    console.error(`Error parsing features for package ${pkg.id}:`, err);
+    return [];
+  }
+}
+
+// Format a package row for the API response
+function formatPackage(pkg) {
+  return {
+    id: pkg.id.toString(),
+    name: pkg.name,
+    description: pkg.description || '',
+    days: pkg.days,
+    type: pkg.type || 'days',
+    visits: pkg.visits === null || pkg.visits === undefined ? null : pkg.visits,
+    price: parseFloat(pkg.price),
+    features: parsePackageFeatures(pkg),
+    isPopular: pkg.is_popular === 1,
+    maxFreezes: pkg.max_freezes === null || pkg.max_freezes === undefined ? null : pkg.max_freezes,
+    maxFreezeDays: pkg.max_freeze_days === null || pkg.max_freeze_days === undefined ? null : pkg.max_freeze_days,
+    branchId: pkg.branch_id ? pkg.branch_id.toString() : null,
+    createdAt: pkg.created_at,
+    updatedAt: pkg.updated_at
+  };
+}
+
+// Normalize an optional non-negative integer limit (empty means no limit)
+function parseOptionalLimit(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = parseInt(value);
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+}
+
+// Validate the package type and visit allowance, returning an error message if invalid
+function validatePackageType(type, visits) {
+  if (type && !['days', 'sessions'].includes(type)) {
+    return 'Invalid package type';
+  }
+  if (type === 'sessions' && (!visits || parseInt(visits) < 1)) {
+    return 'Session packages require a visit allowance';
+  }
+  return null;
+}
+
 // Get all packages
 app.get('/api/packages', authenticateToken, branchFilter, async (req, res) => {
   try {
     const [packages] = await pool.query('SELECT * FROM packages WHERE branch_id = ? OR branch_id IS NULL', [req.branch_id]);
     
-    // Parse features from JSON string to array with error handling
-    const formattedPackages = packages.map(pkg => {
-      let parsedFeatures = [];
-      try {
-        if (pkg.features) {
-          // Try to parse as JSON first
-          try {
-            parsedFeatures = JSON.parse(pkg.features);
-          } catch (jsonErr) {
-            // If JSON parsing fails, try to split by newlines
-            parsedFeatures = String(pkg.features)
-              .split('\n')
-              .map(feature => feature.trim())
-              .filter(feature => feature.length > 0);
-          }
-        }
-      } catch (err) {
-        console.error(`Error parsing features for package ${pkg.id}:`, err);
-        parsedFeatures = [];
-      }
-      
-      return {
-        id: pkg.id.toString(),
-        name: pkg.name,
-        description: pkg.description || '',
-        days: pkg.days,
-        price: parseFloat(pkg.price),
-        features: parsedFeatures,
-        isPopular: pkg.is_popular === 1,
-        branchId: pkg.branch_id ? pkg.branch_id.toString() : null,
-        createdAt: pkg.created_at,
-        updatedAt: pkg.updated_at
-      };
-    });
-    
-    res.json(formattedPackages);
+    res.json(packages.map(formatPackage));
   } catch (error) {
     console.error('Error fetching packages:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -326,42 +382,7 @@ app.get('/api/packages/:id', async (req, res) => {
       return res.status(404).json({ message: 'Package not found' });
     }
     
-    const pkg = packages[0];
-    
-    // Parse features from JSON string to array with error handling
-    let parsedFeatures = [];
-    try {
-      if (pkg.features) {
-        // Try to parse as JSON first
-        try {
-          parsedFeatures = JSON.parse(pkg.features);
-        } catch (jsonErr) {
-          // If JSON parsing fails, try to split by newlines
-          parsedFeatures = String(pkg.features)
-            .split('\n')
-            .map(feature => feature.trim())
-            .filter(feature => feature.length > 0);
-        }
-      }
-    } catch (err) {
-      console.error(`Error parsing features for package ${pkg.id}:`, err);
-      parsedFeatures = [];
-    }
-    
-    // Format response
-    const formattedPackage = {
-      id: pkg.id.toString(),
-      name: pkg.name,
-      description: pkg.description || '',
-      days: pkg.days,
-      price: parseFloat(pkg.price),
-      features: parsedFeatures,
-      isPopular: pkg.is_popular === 1,
-      createdAt: pkg.created_at,
-      updatedAt: pkg.updated_at
-    };
-    
-    res.json(formattedPackage);
+    res.json(formatPackage(packages[0]));
   } catch (error) {
     console.error('Error fetching package:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -371,60 +392,34 @@ app.get('/api/packages/:id', async (req, res) => {
 // Create package
 app.post('/api/packages', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const { name, description, days, price, features, isPopular, branch_id } = req.body;
+    const { name, description, days, type, visits, price, features, isPopular, maxFreezes, maxFreezeDays, branch_id } = req.body;
     
     // Validate required fields
     if (!name || !days || price === undefined || !features || !Array.isArray(features)) {
       return res.status(400).json({ message: 'Missing required fields' });
     }
     
+    const typeError = validatePackageType(type, visits);
+    if (typeError) {
+      return res.status(400).json({ message: typeError });
+    }
+    
+    const packageType = type || 'days';
+    const packageVisits = packageType === 'sessions' ? parseInt(visits) : null;
+    
     // Use the branch_id from request or from the branchFilter middleware
     const branchId = branch_id || req.branch_id;
     
     // Insert new package
     const [result] = await pool.execute(
-      'INSERT INTO packages (name, description, days, price, features, is_popular, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [name, description || '', days, price, JSON.stringify(features), isPopular || false, branchId]
+      'INSERT INTO packages (name, description, days, type, visits, price, features, is_popular, max_freezes, max_freeze_days, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [name, description || '', days, packageType, packageVisits, price, JSON.stringify(features), isPopular || false, parseOptionalLimit(maxFreezes), parseOptionalLimit(maxFreezeDays), branchId]
     );
     
     // Get the newly created package
     const [packages] = await pool.execute('SELECT * FROM packages WHERE id = ?', [result.insertId]);
-    const pkg = packages[0];
-    
-    // Parse features from JSON string to array with error handling
-    let parsedFeatures = [];
-    try {
-      if (pkg.features) {
-        // Try to parse as JSON first
-        try {
-          parsedFeatures = JSON.parse(pkg.features);
-        } catch (jsonErr) {
-          // If JSON parsing fails, try to split by newlines
-          parsedFeatures = pkg.features.split('\n')
-            .map(feature => feature.trim())
-            .filter(feature => feature.length > 0);
-        }
-      }
-    } catch (err) {
-      console.error(`Error parsing features for package ${pkg.id}:`, err);
-      parsedFeatures = [];
-    }
-    
-    // Format response
-    const newPackage = {
-      id: pkg.id.toString(),
-      name: pkg.name,
-      description: pkg.description || '',
-      days: pkg.days,
-      price: parseFloat(pkg.price),
-      features: parsedFeatures,
-      isPopular: pkg.is_popular === 1,
-      branchId: pkg.branch_id ? pkg.branch_id.toString() : null,
-      createdAt: pkg.created_at,
-      updatedAt: pkg.updated_at
-    };
     
-    res.status(201).json(newPackage);
+    res.status(201).json(formatPackage(packages[0]));
   } catch (error) {
     console.error('Error creating package:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -435,13 +430,21 @@ app.post('/api/packages', authenticateToken, branchFilter, async (req, res) => {
 app.put('/api/packages/:id', authenticateToken, branchFilter, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, description, days, price, features, isPopular, branch_id } = req.body;
+    const { name, description, days, type, visits, price, features, isPopular, maxFreezes, maxFreezeDays, branch_id } = req.body;
     
     // Validate required fields
     if (!name || !days || price === undefined || !features || !Array.isArray(features)) {
       return res.status(400).json({ message: 'Missing required fields' });
     }
     
+    const typeError = validatePackageType(type, visits);
+    if (typeError) {
+      return res.status(400).json({ message: typeError });
+    }
+    
+    const packageType = type || 'days';
+    const packageVisits = packageType === 'sessions' ? parseInt(visits) : null;
+    
     // Use the branch_id from request or from the branchFilter middleware
     const branchId = branch_id || req.branch_id;
     
@@ -457,48 +460,14 @@ app.put('/api/packages/:id', authenticateToken, branchFilter, async (req, res) =
     
     // Update package
     await pool.execute(
-      'UPDATE packages SET name = ?, description = ?, days = ?, price = ?, features = ?, is_popular = ?, branch_id = ? WHERE id = ?',
-      [name, description || '', days, price, JSON.stringify(features), isPopular || false, branchId, id]
+      'UPDATE packages SET name = ?, description = ?, days = ?, type = ?, visits = ?, price = ?, features = ?, is_popular = ?, max_freezes = ?, max_freeze_days = ?, branch_id = ? WHERE id = ?',
+      [name, description || '', days, packageType, packageVisits, price, JSON.stringify(features), isPopular || false, parseOptionalLimit(maxFreezes), parseOptionalLimit(maxFreezeDays), branchId, id]
     );
     
     // Get updated package
     const [packages] = await pool.execute('SELECT * FROM packages WHERE id = ?', [id]);
-    const pkg = packages[0];
-    
-    // Parse features from JSON string to array with error handling
-    let parsedFeatures = [];
-    try {
-      if (pkg.features) {
-        // Try to parse as JSON first
-        try {
-          parsedFeatures = JSON.parse(pkg.features);
-        } catch (jsonErr) {
-          // If JSON parsing fails, try to split by newlines
-          parsedFeatures = pkg.features.split('\n')
-            .map(feature => feature.trim())
-            .filter(feature => feature.length > 0);
-        }
-      }
-    } catch (err) {
-      console.error(`Error parsing features for package ${pkg.id}:`, err);
-      parsedFeatures = [];
-    }
-    
-    // Format response
-    const updatedPackage = {
-      id: pkg.id.toString(),
-      name: pkg.name,
-      description: pkg.description || '',
-      days: pkg.days,
-      price: parseFloat(pkg.price),
-      features: parsedFeatures,
-      isPopular: pkg.is_popular === 1,
-      branchId: pkg.branch_id ? pkg.branch_id.toString() : null,
-      createdAt: pkg.created_at,
-      updatedAt: pkg.updated_at
-    };
     
-    res.json(updatedPackage);
+    res.json(formatPackage(packages[0]));
   } catch (error) {
     console.error('Error updating package:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -540,7 +509,8 @@ function getUserFromToken(req) {
   if (!token) return null;
   
   try {
-    return jwt.verify(token, JWT_SECRET);
+    const user = jwt.verify(token, JWT_SECRET);
+    return user.type ? null : user;
   } catch (error) {
     return null;
   }
@@ -566,6 +536,7 @@ app.get(['/api/inventory', '/api/inventory/items'], authenticateToken, branchFil
     `;
 
     const [items] = await pool.execute(query, [req.branch_id]);
+    const bundleComponents = await loadBundleComponents(pool, items.filter(item => item.is_bundle).map(item => item.id));
 
     // Format response
     const formattedItems = items.map(item => ({
@@ -576,11 +547,13 @@ app.get(['/api/inventory', '/api/inventory/items'], authenticateToken, branchFil
       barcode: item.barcode || '',
       quantity: parseInt(item.quantity) || 0,
       price: parseFloat(item.price) || 0,
+      memberPrice: item.member_price === null ? null : parseFloat(item.member_price),
       cost: parseFloat(item.cost) || 0,
       category: item.category || 'Uncategorized',
       imageSrc: item.image_src || 'https://placehold.co/100x100',
       createdAt: item.created_at,
-      updatedAt: item.updated_at
+      updatedAt: item.updated_at,
+      ...describeBundle(item, bundleComponents)
     }));
 
     res.json(formattedItems);
@@ -609,6 +582,7 @@ app.get('/api/inventory/:id', authenticateToken, branchFilter, async (req, res)
     }
     
     const item = items[0];
+    const bundleComponents = await loadBundleComponents(pool, item.is_bundle ? [item.id] : []);
     
     // Format response
     const formattedItem = {
@@ -619,11 +593,13 @@ app.get('/api/inventory/:id', authenticateToken, branchFilter, async (req, res)
       barcode: item.barcode || '',
       quantity: item.quantity,
       price: parseFloat(item.price),
+      memberPrice: item.member_price === null ? null : parseFloat(item.member_price),
       cost: parseFloat(item.cost),
       category: item.category || '',
       imageSrc: item.image_src || 'https://placehold.co/100x100',
       createdAt: item.created_at,
-      updatedAt: item.updated_at
+      updatedAt: item.updated_at,
+      ...describeBundle(item, bundleComponents)
     };
     
     res.json(formattedItem);
@@ -633,16 +609,115 @@ app.get('/api/inventory/:id', authenticateToken, branchFilter, async (req, res)
   }
 });
 
+// An empty member price means members pay the shelf price (less any branch member discount)
+function parseMemberPrice(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+}
+
+// Components of each bundle, keyed by bundle id, with what each costs and has in stock
+async function loadBundleComponents(db, bundleIds) {
+  const components = {};
+  if (bundleIds.length === 0) return components;
+  
+  const [rows] = await db.query(`
+    SELECT bc.bundle_id, bc.component_id, bc.quantity, i.name, i.sku, i.cost, i.quantity as in_stock
+    FROM bundle_components bc
+    JOIN inventory_items i ON bc.component_id = i.id
+    WHERE bc.bundle_id IN (?)
+    ORDER BY i.name
+  `, [bundleIds]);
+  for (const row of rows) {
+    (components[row.bundle_id] = components[row.bundle_id] || []).push(row);
+  }
+  return components;
+}
+
+// Bundles hold no stock of their own: what's in stock is how many can be made up from the
+// components, and the cost is the components' costs added up
+function describeBundle(item, bundleComponents) {
+  if (!item.is_bundle) {
+    return { isBundle: false, components: [] };
+  }
+  
+  const components = bundleComponents[item.id] || [];
+  return {
+    isBundle: true,
+    components: components.map(component => ({
+      itemId: component.component_id.toString(),
+      name: component.name,
+      sku: component.sku,
+      quantity: component.quantity,
+      cost: parseFloat(component.cost)
+    })),
+    quantity: components.length === 0 ? 0 : Math.max(0, Math.min(...components.map(component => Math.floor(component.in_stock / component.quantity)))),
+    cost: roundMoney(components.reduce((sum, component) => sum + parseFloat(component.cost) * component.quantity, 0))
+  };
+}
+
+// Check the components sent for a bundle: stocked items of the branch, each listed once, in whole quantities.
+// Returns { components } or { error, status }.
+async function parseBundleComponents(db, components, { bundleId = null, branchId }) {
+  if (!Array.isArray(components) || components.length === 0) {
+    return { error: 'A bundle needs at least one component', status: 400 };
+  }
+  
+  const parsed = [];
+  for (const component of components) {
+    const itemId = parseInt(component.itemId);
+    const quantity = parseInt(component.quantity);
+    if (!itemId || !(quantity > 0)) {
+      return { error: 'Each component needs an item and a quantity of at least 1', status: 400 };
+    }
+    if (bundleId && itemId === parseInt(bundleId)) {
+      return { error: 'A bundle cannot contain itself', status: 400 };
+    }
+    if (parsed.some(existing => existing.itemId === itemId)) {
+      return { error: 'Each item can only be listed once in a bundle', status: 400 };
+    }
+    parsed.push({ itemId, quantity });
+  }
+  
+  const [items] = await db.query(
+    'SELECT id, is_bundle FROM inventory_items WHERE id IN (?) AND (branch_id <=> ? OR branch_id IS NULL)',
+    [parsed.map(component => component.itemId), branchId || null]
+  );
+  if (items.length !== parsed.length) {
+    return { error: 'Component not found', status: 404 };
+  }
+  if (items.some(item => item.is_bundle)) {
+    return { error: 'Bundles cannot contain other bundles', status: 400 };
+  }
+  
+  return { components: parsed };
+}
+
+async function saveBundleComponents(db, bundleId, components) {
+  await db.query('DELETE FROM bundle_components WHERE bundle_id = ?', [bundleId]);
+  for (const component of components) {
+    await db.query(
+      'INSERT INTO bundle_components (bundle_id, component_id, quantity) VALUES (?, ?, ?)',
+      [bundleId, component.itemId, component.quantity]
+    );
+  }
+}
+
 // Create inventory item - add support for new endpoint pattern
 app.post('/api/inventory', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const { name, description, sku, barcode, quantity, price, cost, category, imageSrc } = req.body;
+    const { name, description, sku, barcode, quantity, price, memberPrice, cost, category, imageSrc, isBundle, components } = req.body;
     
-    // Validate required fields
-    if (!name || price === undefined || cost === undefined) {
+    // Validate required fields; a bundle's cost comes from its components
+    if (!name || price === undefined || (cost === undefined && !isBundle)) {
       return res.status(400).json({ message: 'Missing required fields' });
     }
     
+    const bundle = isBundle ? await parseBundleComponents(pool, components, { branchId: req.branch_id }) : null;
+    if (bundle && bundle.error) {
+      return res.status(bundle.status).json({ message: bundle.error });
+    }
+    
     // Generate a default SKU if not provided
     const itemSku = sku || `ITEM-${Date.now()}`;
     
@@ -654,14 +729,18 @@ app.post('/api/inventory', authenticateToken, branchFilter, async (req, res) =>
     
     // Insert new item
     const [result] = await pool.execute(
-      'INSERT INTO inventory_items (name, description, sku, barcode, quantity, price, cost, category, image_src, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [name, description || '', itemSku, barcode || '', quantity || 0, price, cost, category || '', imageSrc || '', req.branch_id || null]
+      'INSERT INTO inventory_items (name, description, sku, barcode, quantity, price, member_price, cost, category, image_src, branch_id, is_bundle) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [name, description || '', itemSku, barcode || '', bundle ? 0 : quantity || 0, price, parseMemberPrice(memberPrice), bundle ? 0 : cost, category || '', imageSrc || '', req.branch_id || null, !!bundle]
     );
     
     const itemId = result.insertId;
     
+    if (bundle) {
+      await saveBundleComponents(pool, itemId, bundle.components);
+    }
+    
     // If there's an initial quantity, create a beginning transaction
-    if (quantity && quantity > 0) {
+    if (!bundle && quantity && quantity > 0) {
       await pool.execute(
         'INSERT INTO inventory_transactions (item_id, type, quantity, price, total_amount, notes, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
         [itemId, 'beginning', quantity, cost, cost * quantity, 'Initial inventory', req.branch_id || null]
@@ -671,6 +750,7 @@ app.post('/api/inventory', authenticateToken, branchFilter, async (req, res) =>
     // Get the newly created item
     const [items] = await pool.execute('SELECT * FROM inventory_items WHERE id = ?', [itemId]);
     const item = items[0];
+    const bundleComponents = await loadBundleComponents(pool, item.is_bundle ? [item.id] : []);
     
     // Format response
     const newItem = {
@@ -681,11 +761,13 @@ app.post('/api/inventory', authenticateToken, branchFilter, async (req, res) =>
       barcode: item.barcode || '',
       quantity: item.quantity,
       price: parseFloat(item.price),
+      memberPrice: item.member_price === null ? null : parseFloat(item.member_price),
       cost: parseFloat(item.cost),
       category: item.category || '',
       imageSrc: item.image_src || 'https://placehold.co/100x100',
       createdAt: item.created_at,
-      updatedAt: item.updated_at
+      updatedAt: item.updated_at,
+      ...describeBundle(item, bundleComponents)
     };
     
     res.status(201).json(newItem);
@@ -699,12 +781,7 @@ app.post('/api/inventory', authenticateToken, branchFilter, async (req, res) =>
 app.put('/api/inventory/:id', authenticateToken, branchFilter, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, description, sku, barcode, price, cost, category, imageSrc } = req.body;
-    
-    // Validate required fields
-    if (!name || price === undefined || cost === undefined) {
-      return res.status(400).json({ message: 'Missing required fields' });
-    }
+    const { name, description, sku, barcode, price, memberPrice, cost, category, imageSrc, components } = req.body;
     
     // Check if item exists and belongs to the user's branch or is shared
     let query = 'SELECT * FROM inventory_items WHERE id = ?';
@@ -720,6 +797,17 @@ app.put('/api/inventory/:id', authenticateToken, branchFilter, async (req, res)
       return res.status(404).json({ message: 'Item not found' });
     }
     
+    // Whether an item is a bundle is fixed when it's created; a bundle's cost comes from its components
+    const isBundle = !!existingItems[0].is_bundle;
+    if (!name || price === undefined || (cost === undefined && !isBundle)) {
+      return res.status(400).json({ message: 'Missing required fields' });
+    }
+    
+    const bundle = isBundle && components !== undefined ? await parseBundleComponents(pool, components, { bundleId: id, branchId: req.branch_id }) : null;
+    if (bundle && bundle.error) {
+      return res.status(bundle.status).json({ message: bundle.error });
+    }
+    
     // Use existing SKU if not provided
     const itemSku = sku || existingItems[0].sku;
     
@@ -731,13 +819,18 @@ app.put('/api/inventory/:id', authenticateToken, branchFilter, async (req, res)
     
     // Update item (don't update quantity here, that's handled via transactions)
     await pool.execute(
-      'UPDATE inventory_items SET name = ?, description = ?, sku = ?, barcode = ?, price = ?, cost = ?, category = ?, image_src = ? WHERE id = ?',
-      [name, description || '', itemSku, barcode || '', price, cost, category || '', imageSrc || '', id]
+      'UPDATE inventory_items SET name = ?, description = ?, sku = ?, barcode = ?, price = ?, member_price = ?, cost = ?, category = ?, image_src = ? WHERE id = ?',
+      [name, description || '', itemSku, barcode || '', price, parseMemberPrice(memberPrice), isBundle ? 0 : cost, category || '', imageSrc || '', id]
     );
     
+    if (bundle) {
+      await saveBundleComponents(pool, id, bundle.components);
+    }
+    
     // Get updated item
     const [items] = await pool.execute('SELECT * FROM inventory_items WHERE id = ?', [id]);
     const item = items[0];
+    const bundleComponents = await loadBundleComponents(pool, item.is_bundle ? [item.id] : []);
     
     // Format response
     const updatedItem = {
@@ -748,11 +841,13 @@ app.put('/api/inventory/:id', authenticateToken, branchFilter, async (req, res)
       barcode: item.barcode || '',
       quantity: item.quantity,
       price: parseFloat(item.price),
+      memberPrice: item.member_price === null ? null : parseFloat(item.member_price),
       cost: parseFloat(item.cost),
       category: item.category || '',
       imageSrc: item.image_src || 'https://placehold.co/100x100',
       createdAt: item.created_at,
-      updatedAt: item.updated_at
+      updatedAt: item.updated_at,
+      ...describeBundle(item, bundleComponents)
     };
     
     res.json(updatedItem);
@@ -781,6 +876,16 @@ app.delete('/api/inventory/:id', authenticateToken, branchFilter, async (req, re
       return res.status(404).json({ message: 'Item not found' });
     }
     
+    // Bundles are made up from their components, so a component has to come out of them first
+    const [bundles] = await pool.query(`
+      SELECT i.name FROM bundle_components bc
+      JOIN inventory_items i ON bc.bundle_id = i.id
+      WHERE bc.component_id = ?
+    `, [id]);
+    if (bundles.length > 0) {
+      return res.status(409).json({ message: `Remove this item from ${bundles.map(bundle => bundle.name).join(', ')} before deleting it` });
+    }
+    
     // Delete item (transactions will be deleted via CASCADE)
     await pool.execute('DELETE FROM inventory_items WHERE id = ?', [id]);
     
@@ -895,6 +1000,10 @@ app.post(['/api/inventory/transactions', '/api/transactions'], authenticateToken
     }
     
     const item = existingItems[0];
+    if (item.is_bundle) {
+      return res.status(400).json({ message: 'Bundles have no stock of their own. Record stock for their components instead.' });
+    }
+    
     const currentQuantity = item.quantity;
     let newQuantity = currentQuantity;
     
@@ -997,6 +1106,10 @@ app.post(['/api/inventory/bulk-transactions', '/api/bulk-transactions'], authent
         }
         
         const inventoryItem = existingItems[0];
+        if (inventoryItem.is_bundle) {
+          throw new Error(`${inventoryItem.name} is a bundle. Record stock for its components instead.`);
+        }
+        
         const currentQuantity = inventoryItem.quantity;
         let newQuantity = currentQuantity;
         
@@ -1076,6 +1189,74 @@ app.post(['/api/inventory/bulk-transactions', '/api/bulk-transactions'], authent
 
 // POS/Sales APIs
 
+// Membership packages sold on a sale, used to keep them apart from retail revenue
+const SALE_MEMBERSHIP_TOTAL_SQL = `(
+  SELECT COALESCE(SUM(si.total), 0) FROM sale_items si WHERE si.sale_id = s.id AND si.item_type = 'package'
+)`;
+
+const SALE_ITEM_SELECT_SQL = `
+  SELECT
+    si.*,
+    COALESCE(i.name, p.name) as name,
+    i.sku,
+    i.barcode,
+    sb.id as subscriber_id,
+    sb.name as subscriber_name,
+    sub.start_date as subscription_start_date,
+    sub.end_date as subscription_end_date,
+    (SELECT COALESCE(SUM(ri.quantity), 0) FROM sale_return_items ri WHERE ri.sale_item_id = si.id) as returned_quantity
+  FROM sale_items si
+  LEFT JOIN inventory_items i ON si.item_id = i.id
+  LEFT JOIN packages p ON si.package_id = p.id
+  LEFT JOIN subscriptions sub ON si.subscription_id = sub.id
+  LEFT JOIN subscribers sb ON sub.subscriber_id = sb.id
+`;
+
+// Amount refunded on a sale through returns
+const SALE_RETURNS_TOTAL_SQL = `(
+  SELECT COALESCE(SUM(r.total), 0) FROM sale_returns r WHERE r.sale_id = s.id
+)`;
+
+// Tender totals per period and payment method, taken from the payments rather than sales.payment_method
+// and net of refunds paid back out on each method
+const SALE_TENDER_TOTALS_SQL = `
+  SELECT period, payment_method, SUM(amount) as amount FROM (
+    SELECT DATE_FORMAT(s.created_at, ?) as period, sp.payment_method, sp.amount
+    FROM sale_payments sp
+    JOIN sales s ON sp.sale_id = s.id
+    WHERE (s.branch_id = ? OR s.branch_id IS NULL) AND s.created_at BETWEEN ? AND ?
+    UNION ALL
+    SELECT DATE_FORMAT(s.created_at, ?) as period, r.refund_method, -r.total
+    FROM sale_returns r
+    JOIN sales s ON r.sale_id = s.id
+    WHERE (s.branch_id = ? OR s.branch_id IS NULL) AND s.created_at BETWEEN ? AND ?
+  ) tenders
+  GROUP BY period, payment_method
+`;
+
+// Load the lines, tenders and returns of each sale and attach them as sale.items, sale.payments and sale.returns
+async function attachSaleDetails(db, sales) {
+  if (sales.length === 0) return sales;
+
+  const saleIds = sales.map(sale => sale.id);
+  const [saleItems] = await db.query(`${SALE_ITEM_SELECT_SQL} WHERE si.sale_id IN (?) ORDER BY si.id`, [saleIds]);
+  const [salePayments] = await db.query('SELECT * FROM sale_payments WHERE sale_id IN (?) ORDER BY id', [saleIds]);
+  const [saleReturns] = await db.query(`
+    SELECT r.*, u.name as created_by_name
+    FROM sale_returns r
+    LEFT JOIN users u ON r.created_by = u.id
+    WHERE r.sale_id IN (?)
+    ORDER BY r.created_at
+  `, [saleIds]);
+
+  return sales.map(sale => ({
+    ...sale,
+    items: saleItems.filter(item => item.sale_id === sale.id),
+    payments: salePayments.filter(payment => payment.sale_id === sale.id),
+    returns: saleReturns.filter(saleReturn => saleReturn.sale_id === sale.id)
+  }));
+}
+
 // Get all sales
 app.get('/api/sales', authenticateToken, branchFilter, async (req, res) => {
   try {
@@ -1139,9 +1320,10 @@ app.get('/api/sales/summary', authenticateToken, branchFilter, async (req, res)
         SUM(subtotal) as subtotal,
         SUM(tax) as tax,
         SUM(total) as total,
-        SUM(CASE WHEN payment_method = 'cash' THEN total ELSE 0 END) as cash_total,
-        SUM(CASE WHEN payment_method = 'card' THEN total ELSE 0 END) as card_total
-      FROM sales
+        SUM(${SALE_RETURNS_TOTAL_SQL}) as returns_total,
+        SUM(total - ${SALE_RETURNS_TOTAL_SQL}) as net_total,
+        SUM(${SALE_MEMBERSHIP_TOTAL_SQL}) as membership_total
+      FROM sales s
       WHERE (branch_id = ? OR branch_id IS NULL)
     `;
     
@@ -1156,7 +1338,19 @@ app.get('/api/sales/summary', authenticateToken, branchFilter, async (req, res)
     
     const [results] = await pool.execute(query, queryParams);
     
-    res.json(results);
+    // Break each period down by every configured method, so methods nobody used still show as zero
+    const from = startDate && endDate ? startDate : '1000-01-01';
+    const to = startDate && endDate ? endDate : '9999-12-31';
+    const [tenderTotals] = await pool.query(SALE_TENDER_TOTALS_SQL, [dateFormat, req.branch_id, from, to, dateFormat, req.branch_id, from, to]);
+    const methods = await loadPaymentMethods(pool, await findBranchCompanyId(pool, req.branch_id));
+    
+    res.json(results.map(row => {
+      const paymentMethods = Object.fromEntries(methods.map(method => [method.code, 0]));
+      for (const tender of tenderTotals.filter(tender => tender.period === row.period)) {
+        paymentMethods[tender.payment_method] = roundMoney((paymentMethods[tender.payment_method] || 0) + parseFloat(tender.amount));
+      }
+      return { ...row, payment_methods: paymentMethods };
+    }));
   } catch (error) {
     console.error('Error fetching sales summary:', error);
     res.status(500).json({ error: 'Failed to fetch sales summary' });
@@ -1179,13 +1373,230 @@ app.get('/api/sales/by-date', authenticateToken, branchFilter, async (req, res)
       ORDER BY created_at DESC
     `, [startDate, endDate, req.branch_id]);
     
-    res.json(sales);
+    res.json(await attachSaleDetails(pool, sales));
   } catch (error) {
     console.error('Error fetching sales by date:', error);
     res.status(500).json({ error: 'Failed to fetch sales by date' });
   }
 });
 
+// Tax collected per rate over a date range, less the tax on returned items
+app.get('/api/sales/tax-report', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    
+    if (!startDate || !endDate) {
+      return res.status(400).json({ error: 'Start date and end date are required' });
+    }
+    
+    const [rates] = await pool.execute(`
+      SELECT
+        si.tax_rate,
+        SUM(si.net_amount) as net_sales,
+        SUM(si.tax_amount) as tax,
+        SUM(si.tax_amount * (
+          SELECT COALESCE(SUM(ri.quantity), 0) FROM sale_return_items ri WHERE ri.sale_item_id = si.id
+        ) / si.quantity) as returned_tax
+      FROM sale_items si
+      JOIN sales s ON si.sale_id = s.id
+      WHERE s.created_at BETWEEN ? AND ?
+      AND (s.branch_id = ? OR s.branch_id IS NULL)
+      GROUP BY si.tax_rate
+      ORDER BY si.tax_rate
+    `, [startDate, endDate, req.branch_id]);
+    
+    res.json(rates);
+  } catch (error) {
+    console.error('Error fetching tax report:', error);
+    res.status(500).json({ error: 'Failed to fetch tax report' });
+  }
+});
+
+// Discounts given over a date range, per staff member who gave them
+app.get('/api/sales/discounts-by-staff', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    
+    if (!startDate || !endDate) {
+      return res.status(400).json({ error: 'Start date and end date are required' });
+    }
+    
+    const [staff] = await pool.execute(`
+      SELECT
+        sd.applied_by as user_id,
+        u.name as user_name,
+        COUNT(*) as discount_count,
+        SUM(sd.amount) as discount_total,
+        SUM(CASE WHEN sd.approved_by <> sd.applied_by THEN 1 ELSE 0 END) as approved_count,
+        GROUP_CONCAT(DISTINCT CASE WHEN sd.approved_by <> sd.applied_by THEN approver.name END) as approved_by_names
+      FROM sale_discounts sd
+      JOIN sales s ON sd.sale_id = s.id
+      LEFT JOIN users u ON sd.applied_by = u.id
+      LEFT JOIN users approver ON sd.approved_by = approver.id
+      WHERE s.created_at BETWEEN ? AND ?
+      AND (s.branch_id = ? OR s.branch_id IS NULL)
+      GROUP BY sd.applied_by, u.name
+      ORDER BY discount_total DESC
+    `, [startDate, endDate, req.branch_id]);
+    
+    res.json(staff);
+  } catch (error) {
+    console.error('Error fetching discounts by staff:', error);
+    res.status(500).json({ error: 'Failed to fetch discounts by staff' });
+  }
+});
+
+// Bundles sold over a date range, with their margin over what the components cost when they were sold,
+// less the units returned
+app.get('/api/sales/bundle-margins', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    
+    if (!startDate || !endDate) {
+      return res.status(400).json({ error: 'Start date and end date are required' });
+    }
+    
+    const [bundles] = await pool.execute(`
+      SELECT
+        i.id as item_id,
+        i.name,
+        i.sku,
+        SUM(si.quantity - si.returned_quantity) as units_sold,
+        SUM(COALESCE(si.net_amount, si.total) * (si.quantity - si.returned_quantity) / si.quantity) as revenue,
+        SUM(components.cost * (si.quantity - si.returned_quantity) / si.quantity) as cost
+      FROM (
+        SELECT
+          si.*,
+          (SELECT COALESCE(SUM(ri.quantity), 0) FROM sale_return_items ri WHERE ri.sale_item_id = si.id) as returned_quantity
+        FROM sale_items si
+      ) si
+      JOIN sales s ON si.sale_id = s.id
+      JOIN inventory_items i ON si.item_id = i.id
+      JOIN (
+        SELECT sale_item_id, SUM(quantity * unit_cost) as cost
+        FROM sale_item_components
+        GROUP BY sale_item_id
+      ) components ON components.sale_item_id = si.id
+      WHERE s.created_at BETWEEN ? AND ?
+      AND (s.branch_id = ? OR s.branch_id IS NULL)
+      GROUP BY i.id, i.name, i.sku
+      ORDER BY revenue DESC
+    `, [startDate, endDate, req.branch_id]);
+    
+    res.json(bundles.map(bundle => {
+      const revenue = roundMoney(bundle.revenue);
+      const cost = roundMoney(bundle.cost);
+      return {
+        item_id: bundle.item_id,
+        name: bundle.name,
+        sku: bundle.sku,
+        units_sold: Number(bundle.units_sold),
+        revenue,
+        cost,
+        margin: roundMoney(revenue - cost),
+        margin_percent: revenue > 0 ? roundMoney((revenue - cost) / revenue * 100) : null
+      };
+    }));
+  } catch (error) {
+    console.error('Error fetching bundle margins:', error);
+    res.status(500).json({ error: 'Failed to fetch bundle margins' });
+  }
+});
+
+// An offline pass is a signed note that a cashier was ringing up sales at a branch over a window of time.
+// Terminals cache one and send it with the sales they queue while offline; only those sales keep the
+// prices the terminal charged.
+const OFFLINE_PASS_AUDIENCE = 'offline_sale';
+const OFFLINE_PASS_HOURS = 24;
+
+function verifyOfflinePass(token, userId, branchId, soldAt) {
+  if (!token) return false;
+  
+  try {
+    // A pass that has lapsed since still covers the sales rung up while it was good
+    const pass = jwt.verify(token, JWT_SECRET, { audience: OFFLINE_PASS_AUDIENCE, ignoreExpiration: true });
+    const soldAtSeconds = new Date(soldAt).getTime() / 1000;
+    return pass.type === 'offline_sale'
+      && pass.user_id === userId
+      && pass.branch_id === (branchId || null)
+      && soldAtSeconds >= pass.iat
+      && soldAtSeconds <= pass.exp
+      && soldAtSeconds <= Date.now() / 1000;
+  } catch {
+    return false;
+  }
+}
+
+app.get('/api/sales/offline-pass', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const token = jwt.sign(
+      { type: 'offline_sale', user_id: req.user.id, branch_id: req.branch_id || null },
+      JWT_SECRET,
+      { expiresIn: `${OFFLINE_PASS_HOURS}h`, audience: OFFLINE_PASS_AUDIENCE }
+    );
+    
+    res.json({ token, expires_at: new Date(Date.now() + OFFLINE_PASS_HOURS * 60 * 60 * 1000).toISOString() });
+  } catch (error) {
+    console.error('Error issuing offline pass:', error);
+    res.status(500).json({ error: 'Failed to issue offline pass' });
+  }
+});
+
+// Problems found when a sale was recorded, like stock it took below zero, for managers to check and clear
+app.get('/api/sales/conflicts', authenticateToken, requireManager, branchFilter, async (req, res) => {
+  try {
+    const { type, status } = req.query;
+    
+    let query = `
+      SELECT c.*, s.created_at as sold_at, u.name as cashier_name, r.name as resolved_by_name
+      FROM sale_conflicts c
+      JOIN sales s ON c.sale_id = s.id
+      LEFT JOIN users u ON s.created_by = u.id
+      LEFT JOIN users r ON c.resolved_by = r.id
+      WHERE c.branch_id <=> ?
+    `;
+    const params = [req.branch_id || null];
+    
+    if (type) {
+      query += ' AND c.conflict_type = ?';
+      params.push(type);
+    }
+    
+    if (status === 'open') {
+      query += ' AND c.resolved_at IS NULL';
+    } else if (status === 'resolved') {
+      query += ' AND c.resolved_at IS NOT NULL';
+    }
+    
+    query += ' ORDER BY c.created_at DESC, c.id DESC LIMIT 200';
+    
+    const [conflicts] = await pool.query(query, params);
+    res.json(conflicts);
+  } catch (error) {
+    console.error('Error fetching sale conflicts:', error);
+    res.status(500).json({ error: 'Failed to fetch sale conflicts' });
+  }
+});
+
+// Mark a conflict as dealt with
+app.post('/api/sales/conflicts/:id/resolve', authenticateToken, requireManager, branchFilter, async (req, res) => {
+  try {
+    const [result] = await pool.query(
+      'UPDATE sale_conflicts SET resolved_by = ?, resolved_at = NOW() WHERE id = ? AND branch_id <=> ? AND resolved_at IS NULL',
+      [req.user.id, req.params.id, req.branch_id || null]
+    );
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Conflict not found or already resolved' });
+    }
+    
+    res.json({ message: 'Conflict resolved' });
+  } catch (error) {
+    console.error('Error resolving sale conflict:', error);
+    res.status(500).json({ error: 'Failed to resolve sale conflict' });
+  }
+});
+
 // Get sale details with items
 app.get('/api/sales/:id', async (req, res) => {
   try {
@@ -1206,960 +1617,6807 @@ app.get('/api/sales/:id', async (req, res) => {
       return res.status(404).json({ error: 'Sale not found' });
     }
     
-    const sale = sales[0];
-    
-    // Get sale items
-    const [saleItems] = await pool.execute(`
-      SELECT si.*, i.name, i.sku, i.barcode
-      FROM sale_items si
-      JOIN inventory_items i ON si.item_id = i.id
-      WHERE si.sale_id = ?
-    `, [id]);
-    
     // Return sale with items
-    res.json({
-      ...sale,
-      items: saleItems
-    });
+    const [sale] = await attachSaleDetails(pool, sales);
+    res.json(sale);
   } catch (error) {
     console.error('Error fetching sale details:', error);
     res.status(500).json({ error: 'Failed to fetch sale details' });
   }
 });
 
-// Create a new sale
-app.post('/api/sales', authenticateToken, branchFilter, async (req, res) => {
+// ======================= PAYMENT METHODS =======================
+
+const PAYMENT_METHOD_TYPES = ['cash', 'card', 'bank_transfer', 'mobile_money', 'cheque', 'other'];
+
+// Every new company starts with these; admins add, rename or retire methods from there
+const DEFAULT_PAYMENT_METHODS = [
+  { code: 'cash', name: 'Cash', type: 'cash', opens_drawer: true, requires_reference: false },
+  { code: 'card', name: 'Card', type: 'card', opens_drawer: false, requires_reference: false },
+  { code: 'bank_transfer', name: 'Bank Transfer', type: 'bank_transfer', opens_drawer: false, requires_reference: true }
+];
+
+// Tenders paid from balances the company keeps itself rather than from the catalog
+const BUILT_IN_PAYMENT_METHODS = {
+  stored_value: { code: 'stored_value', name: 'Gift card / wallet', type: 'stored_value', opens_drawer: false, requires_reference: false },
+  points: { code: 'points', name: 'Points', type: 'points', opens_drawer: false, requires_reference: false }
+};
+
+const formatPaymentMethod = row => ({
+  ...row,
+  opens_drawer: !!row.opens_drawer,
+  requires_reference: !!row.requires_reference,
+  is_active: !!row.is_active
+});
+
+async function seedPaymentMethods(db, companyId) {
+  for (const [index, method] of DEFAULT_PAYMENT_METHODS.entries()) {
+    await db.query(
+      'INSERT IGNORE INTO payment_methods (company_id, code, name, type, opens_drawer, requires_reference, sort_order) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [companyId, method.code, method.name, method.type, method.opens_drawer, method.requires_reference, index]
+    );
+  }
+}
+
+async function loadPaymentMethods(db, companyId, { includeInactive = false } = {}) {
+  const [methods] = await db.query(`
+    SELECT * FROM payment_methods
+    WHERE company_id = ? ${includeInactive ? '' : 'AND is_active = TRUE'}
+    ORDER BY sort_order, name
+  `, [companyId]);
+  return methods.map(formatPaymentMethod);
+}
+
+// The branch company's active methods plus the built-in tenders the caller accepts, keyed by code
+async function loadPaymentMethodLookup(db, branchId, builtIns = Object.keys(BUILT_IN_PAYMENT_METHODS)) {
+  const companyId = await findBranchCompanyId(db, branchId);
+  const methods = await loadPaymentMethods(db, companyId);
+  return Object.fromEntries([
+    ...methods.map(method => [method.code, method]),
+    ...builtIns.map(code => [code, BUILT_IN_PAYMENT_METHODS[code]])
+  ]);
+}
+
+// Display names for every method the company has used, retired ones included
+async function loadPaymentMethodNames(db, companyId) {
+  const methods = await loadPaymentMethods(db, companyId, { includeInactive: true });
+  return {
+    ...Object.fromEntries(Object.values(BUILT_IN_PAYMENT_METHODS).map(method => [method.code, method.name])),
+    ...Object.fromEntries(methods.map(method => [method.code, method.name]))
+  };
+}
+
+// Check a payment taken outside the POS (subscriptions, gift cards) against the catalog.
+// The reference is only asked for when money is actually taken (`paid`).
+// Returns an error message, or null when the method can be used.
+async function checkPaymentMethod(db, branchId, { code, reference, paid = true, builtIns = [] }) {
+  const methods = await loadPaymentMethodLookup(db, branchId, builtIns);
+  const method = methods[code];
+  if (!method) {
+    return 'Unsupported payment method';
+  }
+  if (paid && method.requires_reference && !parsePaymentReference(reference)) {
+    return `${method.name} payments need a reference number`;
+  }
+  return null;
+}
+
+const parsePaymentReference = reference => (reference ? String(reference).trim().slice(0, 100) || null : null);
+
+// Payment methods of the current branch's company; ?all=1 includes retired ones for the settings screen
+app.get('/api/payment-methods', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const { 
-      items, 
-      subtotal, 
-      tax, 
-      discount, 
-      total, 
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    res.json(await loadPaymentMethods(pool, companyId, { includeInactive: req.query.all === '1' }));
+  } catch (error) {
+    console.error('Error fetching payment methods:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Add a payment method; its code is derived from the name and never changes, since payments refer to it
+app.post('/api/payment-methods', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
+  try {
+    const { name, type, opens_drawer, requires_reference } = req.body;
+    
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+    
+    if (!PAYMENT_METHOD_TYPES.includes(type)) {
+      return res.status(400).json({ message: 'Unsupported payment method type' });
+    }
+    
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.status(400).json({ message: 'Select a branch first' });
+    }
+    
+    const baseCode = String(name).trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 40) || 'method';
+    const [existing] = await pool.query('SELECT code FROM payment_methods WHERE company_id = ?', [companyId]);
+    const taken = new Set([...existing.map(row => row.code), ...Object.keys(BUILT_IN_PAYMENT_METHODS), 'split', 'credit']);
+    let code = baseCode;
+    for (let suffix = 2; taken.has(code); suffix++) {
+      code = `${baseCode}_${suffix}`;
+    }
+    
+    const [result] = await pool.query(
+      'INSERT INTO payment_methods (company_id, code, name, type, opens_drawer, requires_reference, sort_order) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [companyId, code, String(name).trim(), type, opens_drawer ? 1 : 0, requires_reference ? 1 : 0, existing.length]
+    );
+    
+    res.status(201).json({ id: result.insertId, code, message: 'Payment method created' });
+  } catch (error) {
+    console.error('Error creating payment method:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update a payment method, or retire it with is_active = false
+app.put('/api/payment-methods/:id', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
+  try {
+    const { name, type, opens_drawer, requires_reference, is_active, sort_order } = req.body;
+    
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+    
+    if (!PAYMENT_METHOD_TYPES.includes(type)) {
+      return res.status(400).json({ message: 'Unsupported payment method type' });
+    }
+    
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    const [result] = await pool.query(
+      'UPDATE payment_methods SET name = ?, type = ?, opens_drawer = ?, requires_reference = ?, is_active = ?, sort_order = COALESCE(?, sort_order) WHERE id = ? AND company_id = ?',
+      [
+        String(name).trim(),
+        type,
+        opens_drawer ? 1 : 0,
+        requires_reference ? 1 : 0,
+        is_active === false ? 0 : 1,
+        sort_order === undefined ? null : parseInt(sort_order) || 0,
+        req.params.id,
+        companyId
+      ]
+    );
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Payment method not found' });
+    }
+    
+    res.json({ message: 'Payment method updated' });
+  } catch (error) {
+    console.error('Error updating payment method:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+function roundMoney(value) {
+  return Math.round(parseFloat(value) * 100) / 100;
+}
+
+// Work out how much of each tender goes toward the sale, handing change back out of the cash drawer.
+// `methods` is the branch's payment method lookup. Returns { error } when the tenders cannot settle the sale.
+function allocateSaleTenders(payments, total, methods) {
+  const amountDue = roundMoney(total);
+  const tenders = payments.map(payment => ({
+    payment_method: payment.payment_method,
+    tendered: roundMoney(payment.amount),
+    // Which gift card or wallet a stored_value payment draws on
+    account_code: payment.account_code || null,
+    // Transfer, cheque or mobile money reference for methods that need one
+    reference: parsePaymentReference(payment.reference)
+  }));
+  
+  if (tenders.some(tender => !methods[tender.payment_method])) {
+    return { error: 'Unsupported payment method' };
+  }
+  
+  const unreferenced = tenders.find(tender => methods[tender.payment_method].requires_reference && !tender.reference);
+  if (unreferenced) {
+    return { error: `${methods[unreferenced.payment_method].name} payments need a reference number` };
+  }
+  
+  if (tenders.some(tender => !(tender.tendered > 0))) {
+    return { error: 'Each payment amount must be greater than zero' };
+  }
+  
+  const totalTendered = roundMoney(tenders.reduce((sum, tender) => sum + tender.tendered, 0));
+  if (totalTendered < amountDue) {
+    return { error: `Payments are ${(amountDue - totalTendered).toFixed(2)} short of the sale total` };
+  }
+  
+  const change = roundMoney(totalTendered - amountDue);
+  const drawerTendered = tenders
+    .filter(tender => methods[tender.payment_method].opens_drawer)
+    .reduce((sum, tender) => sum + tender.tendered, 0);
+  
+  if (change > roundMoney(drawerTendered)) {
+    return { error: 'Only payments into the cash drawer can exceed the amount due' };
+  }
+  
+  let changeLeft = change;
+  for (const tender of [...tenders].reverse()) {
+    const changeFromTender = methods[tender.payment_method].opens_drawer ? Math.min(changeLeft, tender.tendered) : 0;
+    tender.amount = roundMoney(tender.tendered - changeFromTender);
+    changeLeft = roundMoney(changeLeft - changeFromTender);
+  }
+  
+  return { tenders, totalTendered, change };
+}
+
+// Share an amount out over a sale's tenders in proportion to what each paid, so a line of a
+// split sale is recorded against the methods that actually paid for it
+function shareAcrossTenders(amount, tenders) {
+  const tendersTotal = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  let left = roundMoney(amount);
+  
+  return tenders.map((tender, index) => {
+    const share = index === tenders.length - 1 || tendersTotal <= 0
+      ? left
+      : Math.min(roundMoney(amount * tender.amount / tendersTotal), left);
+    left = roundMoney(left - share);
+    return { payment_method: tender.payment_method, reference: tender.reference, amount: share };
+  }).filter(share => share.amount > 0);
+}
+
+// ======================= PRICING =======================
+
+// How far a browser's totals may drift from ours (rounding) before a sale is refused
+const PRICE_TOLERANCE = 0.01;
+
+// The branch's tax setup: its own rate and pricing mode, falling back to the company's,
+// plus every rule that applies to it (company-wide and branch-only)
+async function loadTaxSettings(db, branchId) {
+  const [branches] = await db.query(
+    `SELECT b.company_id,
+            COALESCE(b.tax_rate, c.tax_rate) as tax_rate,
+            COALESCE(b.prices_include_tax, c.prices_include_tax) as prices_include_tax
+     FROM branches b
+     JOIN companies c ON c.id = b.company_id
+     WHERE b.id = ?`,
+    [branchId || null]
+  );
+  
+  if (branches.length === 0) {
+    return { rate: 0, pricesIncludeTax: true, rules: [] };
+  }
+  
+  const [rules] = await db.query(
+    'SELECT * FROM tax_rules WHERE company_id = ? AND (branch_id IS NULL OR branch_id = ?)',
+    [branches[0].company_id, branchId]
+  );
+  
+  return {
+    rate: parseFloat(branches[0].tax_rate) || 0,
+    pricesIncludeTax: Boolean(branches[0].prices_include_tax),
+    rules
+  };
+}
+
+// Most specific rule wins: item over category, and a branch's own rule over a company-wide one
+function resolveTaxRate(taxSettings, { type, itemId, category }) {
+  const matching = taxSettings.rules.filter(rule => {
+    if (type === 'package') return rule.target_type === 'membership';
+    if (rule.target_type === 'item') return String(rule.item_id) === String(itemId);
+    return rule.target_type === 'category' && category && rule.category === category;
+  });
+  
+  matching.sort((a, b) =>
+    (a.target_type === 'item' ? 0 : 1) - (b.target_type === 'item' ? 0 : 1)
+    || (a.branch_id ? 0 : 1) - (b.branch_id ? 0 : 1)
+  );
+  
+  return matching.length > 0 ? parseFloat(matching[0].rate) : taxSettings.rate;
+}
+
+// Members with an active subscription at the branch get member prices on shop items
+async function loadMemberPricing(db, subscriberId, branchId) {
+  if (!subscriberId) return null;
+  
+  const subscription = await findActiveSubscription(db, subscriberId, branchId);
+  if (!subscription) return null;
+  
+  const [branches] = await db.query('SELECT member_discount_percent FROM branches WHERE id = ?', [branchId || null]);
+  
+  return {
+    subscriber_id: Number(subscriberId),
+    subscription_id: subscription.id,
+    package_name: subscription.package_name,
+    end_date: subscription.end_date,
+    discount_percent: branches.length > 0 ? parseFloat(branches[0].member_discount_percent) || 0 : 0
+  };
+}
+
+// An item's own member price wins; otherwise the branch's member discount comes off the shelf price.
+// Returns null when members pay the shelf price.
+function getMemberUnitPrice(item, memberPricing) {
+  if (!memberPricing) return null;
+  
+  const price = parseFloat(item.price);
+  if (item.member_price !== null && item.member_price !== undefined) {
+    return roundMoney(Math.min(parseFloat(item.member_price), price));
+  }
+  
+  return memberPricing.discount_percent > 0
+    ? roundMoney(price * (100 - memberPricing.discount_percent) / 100)
+    : null;
+}
+
+const DISCOUNT_TYPES = ['percent', 'fixed'];
+const DISCOUNT_REASONS = ['damaged', 'loyalty', 'price_match', 'promotion', 'staff', 'manager_discretion', 'other'];
+
+// Work out a line or cart discount against the amount it applies to.
+// A bare number is a fixed amount, which is what older clients send.
+function applyDiscount(discount, base) {
+  if (discount === undefined || discount === null || discount === '' || discount === 0) {
+    return { discount: null };
+  }
+  
+  const { type, value, reason, note } = typeof discount === 'object'
+    ? discount
+    : { type: 'fixed', value: discount, reason: 'other' };
+  const parsedValue = parseFloat(value);
+  
+  if (!DISCOUNT_TYPES.includes(type) || isNaN(parsedValue) || parsedValue < 0) {
+    return { error: 'Discounts must be a percentage or a fixed amount' };
+  }
+  
+  if (parsedValue === 0) {
+    return { discount: null };
+  }
+  
+  if (!DISCOUNT_REASONS.includes(reason)) {
+    return { error: 'Choose a reason for each discount' };
+  }
+  
+  const amount = roundMoney(Math.min(type === 'percent' ? base * Math.min(parsedValue, 100) / 100 : parsedValue, base));
+  
+  return {
+    discount: {
+      type,
+      value: parsedValue,
+      amount,
+      reason,
+      note: note || null,
+      // What the discount comes to as a share of the price, for approval limits
+      percent: base > 0 ? roundMoney(amount / base * 100) : 0
+    }
+  };
+}
+
+// Price a cart from the catalog rather than from what the browser says. With keepClientPrices the
+// unit prices sent are kept (a queued offline sale was already paid at them) and each line also
+// carries the catalog_price it would have had.
+// Returns { lines, subtotal, discount, cart_discount, coupon, coupon_discount, tax, total,
+// prices_include_tax, max_discount_percent, member } or { error, status } when a line can't be priced.
+async function priceSale(db, { items, discount, branchId, couponCode, customerId, keepClientPrices = false }) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'No items provided for sale', status: 400 };
+  }
+  
+  const taxSettings = await loadTaxSettings(db, branchId);
+  const memberPricing = await loadMemberPricing(db, customerId, branchId);
+  const lines = [];
+  
+  const chargedPrice = (item, catalogPrice) => {
+    const price = parseFloat(item.price);
+    return keepClientPrices && !isNaN(price) && price >= 0 ? roundMoney(price) : catalogPrice;
+  };
+  
+  for (const item of items) {
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { error: 'Item quantities must be whole numbers above zero', status: 400 };
+    }
+    
+    if (item.type === 'package') {
+      const [packages] = await db.query('SELECT id, name, price FROM packages WHERE id = ?', [item.id]);
+      if (packages.length === 0) {
+        return { error: 'Package not found', status: 404 };
+      }
+      
+      // Each membership line covers one member
+      const packagePrice = chargedPrice(item, roundMoney(packages[0].price));
+      lines.push({
+        type: 'package',
+        id: packages[0].id,
+        name: packages[0].name,
+        quantity: 1,
+        catalog_price: roundMoney(packages[0].price),
+        unit_price: packagePrice,
+        total: packagePrice,
+        tax_rate: resolveTaxRate(taxSettings, { type: 'package' }),
+        coupon_amount: 0,
+        coupon_free_days: 0,
+        subscriber_id: item.subscriber_id,
+        start_date: item.start_date
+      });
+      continue;
+    }
+    
+    const [inventoryItems] = await db.query(
+      'SELECT id, name, price, member_price, category, is_bundle FROM inventory_items WHERE id = ? AND (branch_id <=> ? OR branch_id IS NULL)',
+      [item.id, branchId || null]
+    );
+    if (inventoryItems.length === 0) {
+      return { error: 'Item not found', status: 404 };
+    }
+    
+    const listPrice = roundMoney(inventoryItems[0].price);
+    const memberPrice = getMemberUnitPrice(inventoryItems[0], memberPricing);
+    const catalogPrice = memberPrice !== null ? memberPrice : listPrice;
+    const unitPrice = chargedPrice(item, catalogPrice);
+    lines.push({
+      type: 'item',
+      id: inventoryItems[0].id,
+      name: inventoryItems[0].name,
+      category: inventoryItems[0].category,
+      is_bundle: !!inventoryItems[0].is_bundle,
+      quantity,
+      list_price: listPrice,
+      catalog_price: catalogPrice,
+      member_pricing: memberPrice !== null && memberPrice < listPrice,
+      unit_price: unitPrice,
+      total: roundMoney(unitPrice * quantity),
+      tax_rate: resolveTaxRate(taxSettings, { type: 'item', itemId: inventoryItems[0].id, category: inventoryItems[0].category }),
+      coupon_amount: 0,
+      coupon_free_days: 0
+    });
+  }
+  
+  // Line discounts come off the line before the cart discount is worked out
+  for (const [index, line] of lines.entries()) {
+    const lineDiscount = applyDiscount(items[index].discount, line.total);
+    if (lineDiscount.error) {
+      return { error: lineDiscount.error, status: 400 };
+    }
+    
+    line.gross_total = line.total;
+    line.discount = lineDiscount.discount;
+    line.discount_amount = lineDiscount.discount ? lineDiscount.discount.amount : 0;
+    line.total = roundMoney(line.gross_total - line.discount_amount);
+  }
+  
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+  
+  // A promo code comes off the lines it covers, before the cart discount
+  let coupon = null;
+  if (couponCode) {
+    const memberLine = lines.find(line => line.subscriber_id);
+    const subscriberId = customerId || (memberLine ? memberLine.subscriber_id : null);
+    const applied = await applyCouponToLines(db, { code: couponCode, branchId, subscriberId, lines });
+    if (applied.error) {
+      return { error: applied.error, status: applied.status };
+    }
+    coupon = applied.coupon;
+  }
+  const couponDiscount = coupon ? coupon.amount : 0;
+  const afterCoupon = roundMoney(subtotal - couponDiscount);
+  
+  const cartDiscount = applyDiscount(discount, afterCoupon);
+  if (cartDiscount.error) {
+    return { error: cartDiscount.error, status: 400 };
+  }
+  const appliedDiscount = cartDiscount.discount ? cartDiscount.discount.amount : 0;
+  
+  // Tax is worked out per line on the line's share of the discounted amount,
+  // so the stored line taxes add up to the sale's tax exactly
+  for (const line of lines) {
+    const lineAmount = line.total - line.coupon_amount;
+    const taxable = afterCoupon > 0 ? lineAmount - appliedDiscount * (lineAmount / afterCoupon) : 0;
+    line.tax_amount = roundMoney(taxSettings.pricesIncludeTax
+      ? taxable * line.tax_rate / (100 + line.tax_rate)
+      : taxable * line.tax_rate / 100);
+    line.net_amount = roundMoney(taxSettings.pricesIncludeTax ? taxable - line.tax_amount : taxable);
+  }
+  const tax = roundMoney(lines.reduce((sum, line) => sum + line.tax_amount, 0));
+  
+  const discountPercents = [...lines.map(line => line.discount), cartDiscount.discount]
+    .filter(Boolean)
+    .map(applied => applied.percent);
+  
+  return {
+    lines,
+    subtotal,
+    discount: appliedDiscount,
+    cart_discount: cartDiscount.discount,
+    coupon,
+    coupon_discount: couponDiscount,
+    tax,
+    total: roundMoney(afterCoupon - appliedDiscount + (taxSettings.pricesIncludeTax ? 0 : tax)),
+    prices_include_tax: taxSettings.pricesIncludeTax,
+    max_discount_percent: discountPercents.length > 0 ? Math.max(...discountPercents) : 0,
+    member: memberPricing
+  };
+}
+
+// Compare what the browser showed the customer against our pricing
+function findPricingMismatch(items, subtotal, total, pricing) {
+  const differs = (claimed, actual) =>
+    claimed !== undefined && claimed !== null && Math.abs(parseFloat(claimed) - actual) > PRICE_TOLERANCE;
+  
+  const lineIndex = pricing.lines.findIndex((line, index) =>
+    differs(items[index].price, line.unit_price) || differs(items[index].total, line.total)
+  );
+  if (lineIndex >= 0) {
+    return `The price of ${pricing.lines[lineIndex].name} has changed`;
+  }
+  
+  if (differs(subtotal, pricing.subtotal) || differs(total, pricing.total)) {
+    return 'The sale total does not match current prices';
+  }
+  
+  return null;
+}
+
+// Price a cart without selling it, so the POS can show the real totals before checkout
+app.post('/api/sales/quote', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { items, discount, coupon_code, customer_id } = req.body;
+    const pricing = await priceSale(pool, {
+      items,
+      discount,
+      branchId: req.branch_id,
+      couponCode: coupon_code,
+      customerId: customer_id
+    });
+    
+    if (pricing.error) {
+      return res.status(pricing.status).json({ message: pricing.error });
+    }
+    
+    res.json(pricing);
+  } catch (error) {
+    console.error('Error pricing sale:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= DISCOUNTS =======================
+
+// How big a discount (as a share of the price) a user may give without a manager
+async function getDiscountLimit(db, userId) {
+  const [rows] = await db.query(
+    'SELECT r.max_discount_percent FROM users u LEFT JOIN roles r ON u.role_id = r.id WHERE u.id = ?',
+    [userId]
+  );
+  return rows.length > 0 ? parseFloat(rows[0].max_discount_percent) || 0 : 0;
+}
+
+// An approval is a short-lived signed note that a manager allowed one cashier discounts up to a percentage
+const DISCOUNT_APPROVAL_AUDIENCE = 'discount_approval';
+
+function verifyDiscountApproval(token, percent, userId) {
+  if (!token) return null;
+  
+  try {
+    const approval = jwt.verify(token, JWT_SECRET, { audience: DISCOUNT_APPROVAL_AUDIENCE });
+    return approval.type === 'discount_approval' && approval.requested_by === userId && approval.max_percent >= percent ? approval : null;
+  } catch {
+    return null;
+  }
+}
+
+// The current user's limit and the reason codes the POS offers
+app.get('/api/discounts/policy', authenticateToken, async (req, res) => {
+  try {
+    res.json({
+      max_discount_percent: await getDiscountLimit(pool, req.user.id),
+      reasons: DISCOUNT_REASONS
+    });
+  } catch (error) {
+    console.error('Error fetching discount policy:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Users who have set a PIN and can approve discounts above the cashier's limit
+app.get('/api/discounts/approvers', authenticateToken, async (req, res) => {
+  try {
+    const [approvers] = await pool.query(`
+      SELECT u.id, u.name, r.name as role_name, r.max_discount_percent
+      FROM users u
+      JOIN roles r ON u.role_id = r.id
+      WHERE u.approval_pin IS NOT NULL AND r.max_discount_percent > 0
+      ORDER BY r.max_discount_percent DESC, u.name
+    `);
+    
+    res.json(approvers);
+  } catch (error) {
+    console.error('Error fetching discount approvers:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// A manager enters their PIN at the till to approve discounts up to `percent`
+app.post('/api/discounts/approve', authenticateToken, pinLimiter, async (req, res) => {
+  try {
+    const { approver_id, pin, percent } = req.body;
+    
+    const [approvers] = await pool.query(
+      'SELECT u.id, u.name, u.approval_pin, r.max_discount_percent FROM users u LEFT JOIN roles r ON u.role_id = r.id WHERE u.id = ?',
+      [approver_id]
+    );
+    const approver = approvers[0];
+    
+    if (!approver || !approver.approval_pin || !pin || !(await bcrypt.compare(String(pin), approver.approval_pin))) {
+      return res.status(401).json({ message: 'Incorrect PIN' });
+    }
+    
+    const limit = parseFloat(approver.max_discount_percent) || 0;
+    if (limit < parseFloat(percent)) {
+      return res.status(403).json({ message: `${approver.name} can only approve discounts up to ${limit}%` });
+    }
+    
+    const token = jwt.sign(
+      { type: 'discount_approval', approver_id: approver.id, max_percent: limit, requested_by: req.user.id },
+      JWT_SECRET,
+      { expiresIn: '15m', audience: DISCOUNT_APPROVAL_AUDIENCE }
+    );
+    
+    res.json({ token, approver_id: approver.id, approver_name: approver.name, max_percent: limit });
+  } catch (error) {
+    console.error('Error approving discount:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Set the PIN the signed-in user approves discounts with
+app.put('/api/users/me/approval-pin', authenticateToken, async (req, res) => {
+  try {
+    const { password, pin } = req.body;
+    
+    if (!/^\d{4,8}$/.test(String(pin || ''))) {
+      return res.status(400).json({ message: 'PIN must be 4 to 8 digits' });
+    }
+    
+    const [users] = await pool.query('SELECT password FROM users WHERE id = ?', [req.user.id]);
+    if (users.length === 0 || !(await bcrypt.compare(password || '', users[0].password))) {
+      return res.status(401).json({ message: 'Password is incorrect' });
+    }
+    
+    const salt = await bcrypt.genSalt(10);
+    await pool.query('UPDATE users SET approval_pin = ? WHERE id = ?', [await bcrypt.hash(String(pin), salt), req.user.id]);
+    
+    res.json({ message: 'Approval PIN updated successfully' });
+  } catch (error) {
+    console.error('Error updating approval PIN:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+app.put('/api/roles/:id/discount-limit', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const limit = parseFloat(req.body.max_discount_percent);
+    
+    if (isNaN(limit) || limit < 0 || limit > 100) {
+      return res.status(400).json({ message: 'Limit must be between 0 and 100' });
+    }
+    
+    const [result] = await pool.query('UPDATE roles SET max_discount_percent = ? WHERE id = ?', [limit, req.params.id]);
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Role not found' });
+    }
+    
+    res.json({ message: 'Discount limit updated successfully' });
+  } catch (error) {
+    console.error('Error updating discount limit:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+const saleItemDiscountValues = line => (
+  line.discount ? [line.discount.type, line.discount.value, line.discount.amount] : [null, null, 0]
+);
+
+// Keep a record of each discount given on a sale; saleItemId is null for the cart discount
+async function recordSaleDiscount(connection, saleId, saleItemId, discount, appliedBy, approvedBy) {
+  if (!discount) return;
+  
+  await connection.query(
+    'INSERT INTO sale_discounts (sale_id, sale_item_id, discount_type, discount_value, amount, reason_code, reason_note, applied_by, approved_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [saleId, saleItemId, discount.type, discount.value, discount.amount, discount.reason, discount.note, appliedBy, approvedBy]
+  );
+}
+
+// Sales queued by an offline terminal carry a client-generated reference
+const findSaleByClientReference = async (db, clientReference) => {
+  const [sales] = await db.query('SELECT id, change_given FROM sales WHERE client_reference = ?', [clientReference]);
+  return sales[0] || null;
+};
+
+// Create a new sale
+app.post('/api/sales', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { 
+      items, 
+      subtotal, 
+      discount, 
+      total, 
       payment_method, 
+      payments,
       customer_id, 
       customer_name,
-      customer_email
+      customer_email,
+      client_reference,
+      sold_at,
+      offline_pass,
+      discount_approval,
+      coupon_code
     } = req.body;
     
-    // Validate data
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({ message: 'No items provided for sale' });
+    // Offline terminals retry queued sales, so a reference we've already seen is a no-op
+    if (client_reference) {
+      const existing = await findSaleByClientReference(pool, client_reference);
+      if (existing) {
+        return res.status(200).json({ id: existing.id, change_given: existing.change_given, duplicate: true, message: 'Sale already recorded' });
+      }
     }
     
-    if (!payment_method) {
+    if (!payment_method && (!Array.isArray(payments) || payments.length === 0)) {
       return res.status(400).json({ message: 'Payment method is required' });
     }
     
-    // Get user ID from token
-    const userID = req.user.id;
+    // A member on the sale is linked to their profile and named from it
+    let customer = null;
+    if (customer_id) {
+      const [subscribers] = await pool.query('SELECT id, name, email FROM subscribers WHERE id = ?', [customer_id]);
+      if (subscribers.length === 0) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      customer = subscribers[0];
+    }
     
-    // Begin transaction
-    const connection = await pool.getConnection();
-    await connection.beginTransaction();
+    // Every amount on the sale comes from our own pricing; the browser's figures are only checked.
+    // A sale queued offline under the cashier's pass was paid before we saw it, so it keeps the
+    // prices the terminal charged.
+    const queuedOffline = Boolean(client_reference && sold_at) && verifyOfflinePass(offline_pass, req.user.id, req.branch_id, sold_at);
+    const pricing = await priceSale(pool, {
+      items,
+      discount,
+      branchId: req.branch_id,
+      couponCode: coupon_code,
+      customerId: customer_id,
+      keepClientPrices: queuedOffline
+    });
+    if (pricing.error) {
+      return res.status(pricing.status).json({ message: pricing.error });
+    }
     
-    try {
-      // Create sale record
-      const [result] = await connection.query(
-        'INSERT INTO sales (subtotal, tax, discount, total, payment_method, customer_id, customer_name, customer_email, created_by, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [
-          subtotal, 
-          tax, 
-          discount || 0, 
-          total, 
-          payment_method, 
-          customer_id || null, 
-          customer_name || null,
-          customer_email || null, 
-          userID,
-          req.branch_id || null
-        ]
-      );
-      
-      const saleId = result.insertId;
+    // Like oversold stock, price differences on an offline sale are kept for a manager instead
+    const priceConflicts = [];
+    let amountDue = pricing.total;
+    const mismatch = findPricingMismatch(items, subtotal, total, pricing);
+    if (mismatch && !queuedOffline) {
+      return res.status(409).json({ message: `${mismatch}. Review the cart and try again.`, pricing });
+    }
+    if (queuedOffline) {
+      for (const line of pricing.lines) {
+        if (Math.abs(line.unit_price - line.catalog_price) > PRICE_TOLERANCE) {
+          priceConflicts.push({ item_id: line.type === 'item' ? line.id : null, name: line.name, charged: line.unit_price, expected: line.catalog_price });
+        }
+      }
       
-      // Process each item
-      for (const item of items) {
-        // Add item to sale_items
+      // Anything else, like tax settings that changed, still records the sale at our figures; the
+      // payments are what the customer actually paid and the difference is flagged
+      const charged = roundMoney(total);
+      if (!isNaN(charged) && Math.abs(charged - pricing.total) > PRICE_TOLERANCE) {
+        priceConflicts.push({ item_id: null, name: 'Sale total', charged, expected: pricing.total });
+        amountDue = charged;
+      }
+    }
+    
+    // Discounts beyond the cashier's own limit need a manager's approval
+    let discountApprover = req.user.id;
+    if (pricing.max_discount_percent > await getDiscountLimit(pool, req.user.id)) {
+      const approval = verifyDiscountApproval(discount_approval, pricing.max_discount_percent, req.user.id);
+      if (!approval) {
+        return res.status(403).json({ message: 'Manager approval is required for this discount', approval_required: true, pricing });
+      }
+      discountApprover = approval.approver_id;
+    }
+    
+    // A single payment_method without tenders pays the exact total
+    const { tenders, totalTendered, change, error: tenderError } = allocateSaleTenders(
+      Array.isArray(payments) && payments.length > 0 ? payments : [{ payment_method, amount: amountDue }],
+      amountDue,
+      await loadPaymentMethodLookup(pool, req.branch_id)
+    );
+    
+    if (tenderError) {
+      return res.status(400).json({ message: tenderError });
+    }
+    
+    const [branches] = await pool.query('SELECT allow_split_payments, require_shift, email_receipts FROM branches WHERE id = ?', [req.branch_id || null]);
+    const branch = branches[0];
+    
+    if (tenders.length > 1 && branch && !branch.allow_split_payments) {
+      return res.status(400).json({ message: 'Split payments are not enabled for this branch' });
+    }
+    
+    // Sales go on the cashier's open shift; some branches refuse them without one
+    const shift = await findOpenShift(pool, req.user.id, req.branch_id);
+    if (!shift && branch && branch.require_shift) {
+      return res.status(409).json({ message: 'Open a shift before making sales' });
+    }
+    
+    const saleMethod = tenders.length > 1 ? 'split' : tenders[0].payment_method;
+    
+    // Points are spent by the member on the sale, at the company's point value
+    const loyaltyProgram = await loadLoyaltyProgram(pool, req.branch_id);
+    const pointsPaid = roundMoney(tenders
+      .filter(tender => tender.payment_method === 'points')
+      .reduce((sum, tender) => sum + tender.amount, 0));
+    if (pointsPaid > 0 && (!customer || !loyaltyProgram || !loyaltyProgram.enabled)) {
+      return res.status(400).json({ message: customer ? 'The loyalty program is not running' : 'Add the member to pay with points' });
+    }
+    
+    // Queued offline sales keep the time they were rung up
+    const soldAt = sold_at && !isNaN(new Date(sold_at).getTime()) ? new Date(sold_at) : new Date();
+    
+    // Membership packages are sold one at a time to a specific member
+    if (pricing.lines.some(line => line.type === 'package' && !line.subscriber_id)) {
+      return res.status(400).json({ message: 'Select a member for each membership package' });
+    }
+    
+    // Get user ID from token
+    const userID = req.user.id;
+    
+    // Begin transaction
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+    
+    try {
+      // Create sale record
+      const [result] = await connection.query(
+        'INSERT INTO sales (subtotal, tax, discount, total, payment_method, amount_tendered, change_given, customer_id, customer_name, customer_email, created_by, branch_id, shift_id, client_reference, prices_include_tax, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [
+          pricing.subtotal, 
+          pricing.tax, 
+          roundMoney(pricing.discount + pricing.coupon_discount), 
+          pricing.total, 
+          saleMethod, 
+          totalTendered,
+          change,
+          customer ? customer.id : null, 
+          customer ? customer.name : customer_name || null,
+          customer ? customer.email : customer_email || null, 
+          userID,
+          req.branch_id || null,
+          shift ? shift.id : null,
+          client_reference || null,
+          pricing.prices_include_tax,
+          soldAt
+        ]
+      );
+      
+      const saleId = result.insertId;
+      
+      for (const tender of tenders) {
         await connection.query(
-          'INSERT INTO sale_items (sale_id, item_id, quantity, price, total) VALUES (?, ?, ?, ?, ?)',
-          [saleId, item.id, item.quantity, item.price, item.total]
+          'INSERT INTO sale_payments (sale_id, payment_method, amount, tendered, reference) VALUES (?, ?, ?, ?, ?)',
+          [saleId, tender.payment_method, tender.amount, tender.tendered, tender.reference]
         );
         
-        // Update inventory quantity
-        await connection.query(
-          'UPDATE inventory_items SET quantity = quantity - ? WHERE id = ?',
-          [item.quantity, item.id]
+        // Gift cards pay by their code; without one the member's wallet is used
+        if (tender.payment_method === 'stored_value') {
+          const resolved = await resolveStoredValueAccount(connection, req.branch_id, {
+            code: tender.account_code,
+            subscriberId: customer ? customer.id : null
+          });
+          const charge = resolved.error ? resolved : await postStoredValueEntry(connection, resolved.account.id, {
+            type: 'redeem',
+            amount: -tender.amount,
+            saleId,
+            shiftId: shift ? shift.id : null,
+            branchId: req.branch_id,
+            notes: `Sale #${saleId}`,
+            createdBy: userID
+          });
+          
+          if (charge.error) {
+            await connection.rollback();
+            return res.status(charge.status).json({ message: charge.error });
+          }
+        }
+        
+        if (tender.payment_method === 'points') {
+          const redemption = await postLoyaltyEntry(connection, {
+            companyId: loyaltyProgram.companyId,
+            subscriberId: customer.id,
+            type: 'redeem',
+            points: -getPointsForAmount(loyaltyProgram, tender.amount),
+            saleId,
+            branchId: req.branch_id,
+            notes: `Sale #${saleId}`,
+            createdBy: userID
+          });
+          
+          if (redemption.error) {
+            await connection.rollback();
+            return res.status(redemption.status).json({ message: redemption.error });
+          }
+        }
+      }
+      
+      // What was paid with points doesn't earn more of them
+      const earningShare = pricing.total > 0 ? Math.max(pricing.total - pointsPaid, 0) / pricing.total : 0;
+      const getLinePaid = line => (line.net_amount + line.tax_amount) * earningShare;
+      let pointsEarned = 0;
+      
+      const [[{ today }]] = await connection.query("SELECT DATE_FORMAT(CURRENT_DATE, '%Y-%m-%d') as today");
+      
+      const stockConflicts = [];
+      
+      // Process each line at the price we worked out
+      for (const line of pricing.lines) {
+        if (line.type === 'package') {
+          const [packages] = await connection.execute('SELECT * FROM packages WHERE id = ?', [line.id]);
+          const [subscribers] = await connection.execute('SELECT id FROM subscribers WHERE id = ?', [line.subscriber_id]);
+          
+          if (packages.length === 0 || subscribers.length === 0) {
+            await connection.rollback();
+            return res.status(404).json({ message: packages.length === 0 ? 'Package not found' : 'Subscriber not found' });
+          }
+          
+          // The sale pays for the membership in full, at its discounted price, in the methods that paid
+          // for the sale; the subscription is put down to the one that paid most of it
+          const pkg = packages[0];
+          const linePaid = roundMoney(line.total - line.coupon_amount);
+          const shares = shareAcrossTenders(linePaid, tenders);
+          const mainShare = shares.reduce((main, share) => (share.amount > main.amount ? share : main), shares[0] || tenders[0]);
+          const subscriptionId = await insertSubscription(connection, {
+            subscriberId: line.subscriber_id,
+            pkg,
+            startDate: line.start_date || today,
+            paymentMethod: mainShare.payment_method,
+            totalAmount: linePaid,
+            extraDays: line.coupon_free_days,
+            notes: `Sale #${saleId}`,
+            createdBy: userID
+          });
+          
+          let sharesPaid = 0;
+          for (const share of shares) {
+            await recordSubscriptionPayment(
+              connection,
+              { id: subscriptionId, total_amount: linePaid, amount_paid: sharesPaid },
+              { amount: share.amount, payment_method: share.payment_method, reference: share.reference, sale_id: saleId, notes: `Sale #${saleId}`, created_by: userID }
+            );
+            sharesPaid = roundMoney(sharesPaid + share.amount);
+          }
+          
+          const [packageLine] = await connection.query(
+            'INSERT INTO sale_items (sale_id, item_type, package_id, subscription_id, quantity, price, total, discount_type, discount_value, discount_amount, net_amount, tax_rate, tax_amount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            [saleId, 'package', pkg.id, subscriptionId, 1, line.unit_price, line.total, ...saleItemDiscountValues(line), line.net_amount, line.tax_rate, line.tax_amount]
+          );
+          await recordSaleDiscount(connection, saleId, packageLine.insertId, line.discount, userID, discountApprover);
+          
+          // Memberships earn points for the member they're for
+          const membershipPoints = await awardLoyaltyPoints(connection, loyaltyProgram, {
+            subscriberId: line.subscriber_id,
+            amount: getLinePaid(line),
+            packageId: pkg.id,
+            saleId,
+            subscriptionId,
+            branchId: req.branch_id,
+            notes: `Sale #${saleId}`,
+            createdBy: userID
+          });
+          if (customer && Number(line.subscriber_id) === customer.id) {
+            pointsEarned += membershipPoints;
+          }
+          continue;
+        }
+        
+        // Add item to sale_items
+        const [itemLine] = await connection.query(
+          'INSERT INTO sale_items (sale_id, item_id, quantity, price, list_price, total, discount_type, discount_value, discount_amount, net_amount, tax_rate, tax_amount) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [saleId, line.id, line.quantity, line.unit_price, line.member_pricing ? line.list_price : null, line.total, ...saleItemDiscountValues(line), line.net_amount, line.tax_rate, line.tax_amount]
         );
+        await recordSaleDiscount(connection, saleId, itemLine.insertId, line.discount, userID, discountApprover);
+        
+        // A bundle comes out of its components' stock, at what each component costs today
+        const stockMoves = [];
+        if (line.is_bundle) {
+          const bundleComponents = await loadBundleComponents(connection, [line.id]);
+          for (const component of bundleComponents[line.id] || []) {
+            const quantity = component.quantity * line.quantity;
+            const cost = roundMoney(component.cost);
+            await connection.query(
+              'INSERT INTO sale_item_components (sale_item_id, item_id, quantity, unit_cost) VALUES (?, ?, ?, ?)',
+              [itemLine.insertId, component.component_id, quantity, cost]
+            );
+            stockMoves.push({ itemId: component.component_id, quantity, price: cost, total: roundMoney(cost * quantity), notes: `Sale #${saleId} (${line.name})` });
+          }
+        } else {
+          stockMoves.push({ itemId: line.id, quantity: line.quantity, price: line.unit_price, total: line.total, notes: `Sale #${saleId}` });
+        }
         
-        // Record inventory transaction
+        for (const move of stockMoves) {
+          // Update inventory quantity
+          await connection.query(
+            'UPDATE inventory_items SET quantity = quantity - ? WHERE id = ?',
+            [move.quantity, move.itemId]
+          );
+          
+          // Record inventory transaction
+          await connection.query(
+            'INSERT INTO inventory_transactions (item_id, type, quantity, price, total_amount, notes, created_by, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+            [
+              move.itemId, 
+              'sale', 
+              move.quantity, 
+              move.price, 
+              move.total, 
+              move.notes,
+              userID,
+              req.branch_id || null
+            ]
+          );
+          
+          // A sale rung up offline can't be refused after the fact, so flag oversold stock instead
+          const [[stock]] = await connection.query('SELECT id, name, quantity FROM inventory_items WHERE id = ?', [move.itemId]);
+          if (stock && stock.quantity < 0 && !stockConflicts.some(conflict => conflict.item_id === stock.id)) {
+            stockConflicts.push({ item_id: stock.id, name: stock.name, quantity: stock.quantity });
+          }
+        }
+      }
+      
+      await recordSaleDiscount(connection, saleId, null, pricing.cart_discount, userID, discountApprover);
+      
+      // Oversold stock and offline price differences are kept for managers, not just shown on the till that rang the sale up
+      for (const conflict of stockConflicts) {
+        await connection.query(
+          'INSERT INTO sale_conflicts (sale_id, branch_id, conflict_type, item_id, name, quantity) VALUES (?, ?, ?, ?, ?, ?)',
+          [saleId, req.branch_id || null, 'stock', conflict.item_id, conflict.name, conflict.quantity]
+        );
+      }
+      for (const conflict of priceConflicts) {
         await connection.query(
-          'INSERT INTO inventory_transactions (item_id, type, quantity, price, total_amount, notes, created_by, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-          [
-            item.id, 
-            'sale', 
-            item.quantity, 
-            item.price, 
-            item.total, 
-            `Sale #${saleId}`,
-            userID,
-            req.branch_id || null
-          ]
+          'INSERT INTO sale_conflicts (sale_id, branch_id, conflict_type, item_id, name, charged, expected) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          [saleId, req.branch_id || null, 'price', conflict.item_id, conflict.name, conflict.charged, conflict.expected]
         );
       }
       
+      // Shop items earn points for the member on the sale, weighted by their category
+      if (customer) {
+        const itemsPaid = pricing.lines
+          .filter(line => line.type === 'item')
+          .reduce((sum, line) => sum + getLinePaid(line) * (loyaltyProgram ? loyaltyProgram.categoryMultipliers[line.category] ?? 1 : 1), 0);
+        pointsEarned += await awardLoyaltyPoints(connection, loyaltyProgram, {
+          subscriberId: customer.id,
+          amount: itemsPaid,
+          saleId,
+          branchId: req.branch_id,
+          notes: `Sale #${saleId}`,
+          createdBy: userID
+        });
+      }
+      
+      if (pricing.coupon) {
+        const couponError = await redeemCoupon(connection, pricing.coupon, {
+          subscriberId: pricing.coupon.subscriber_id,
+          saleId,
+          branchId: req.branch_id,
+          redeemedBy: userID
+        });
+        if (couponError) {
+          await connection.rollback();
+          return res.status(409).json({ message: couponError });
+        }
+      }
+      
       // Commit transaction
       await connection.commit();
       
       res.status(201).json({ 
         id: saleId,
+        subtotal: pricing.subtotal,
+        discount: pricing.discount,
+        coupon_discount: pricing.coupon_discount,
+        tax: pricing.tax,
+        total: pricing.total,
+        change_given: change,
+        points_earned: pointsEarned,
+        stock_conflicts: stockConflicts,
+        price_conflicts: priceConflicts,
         message: 'Sale completed successfully'
       });
+      
+      // The receipt is emailed after responding so the till isn't kept waiting; the delivery log shows how it went
+      if (branch && branch.email_receipts && (customer ? customer.email : customer_email)) {
+        sendReceiptEmail(saleId, { userId: userID }).catch(error => console.error('Error emailing receipt:', error));
+      }
     } catch (error) {
       // Rollback on error
       await connection.rollback();
+      
+      // Two syncs of the same queued sale raced; the other one recorded it
+      if (error.code === 'ER_DUP_ENTRY' && client_reference) {
+        const existing = await findSaleByClientReference(pool, client_reference);
+        if (existing) {
+          return res.status(200).json({ id: existing.id, change_given: existing.change_given, duplicate: true, message: 'Sale already recorded' });
+        }
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error processing sale:', error);
+    res.status(500).json({ message: 'Error processing sale', error: error.message });
+  }
+});
+
+// ======================= SALE RETURNS =======================
+
+// Return lines from a sale: refund them and put the stock back on the shelf
+app.post('/api/sales/:id/returns', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { items, refund_method, reason } = req.body;
+    
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ message: 'Select at least one item to return' });
+    }
+    
+    if (refund_method && !(await loadPaymentMethodLookup(pool, req.branch_id))[refund_method]) {
+      return res.status(400).json({ message: 'Unsupported refund method' });
+    }
+    
+    // Refunds come out of the cashier's drawer, so they follow the same shift rule as sales
+    const shift = await findOpenShift(pool, req.user.id, req.branch_id);
+    if (!shift) {
+      const [branches] = await pool.query('SELECT require_shift FROM branches WHERE id = ?', [req.branch_id || null]);
+      
+      if (branches.length > 0 && branches[0].require_shift) {
+        return res.status(409).json({ message: 'Open a shift before processing returns' });
+      }
+    }
+    
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+    
+    try {
+      // Only the branch that made the sale can take it back
+      const [sales] = await connection.execute(
+        'SELECT * FROM sales WHERE id = ? AND (branch_id = ? OR branch_id IS NULL) FOR UPDATE',
+        [id, req.branch_id || null]
+      );
+      
+      if (sales.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Sale not found' });
+      }
+      
+      const [saleItems] = await connection.execute(`
+        SELECT si.*, (SELECT COALESCE(SUM(ri.quantity), 0) FROM sale_return_items ri WHERE ri.sale_item_id = si.id) as returned_quantity
+        FROM sale_items si
+        WHERE si.sale_id = ?
+      `, [id]);
+      
+      // A line's share of what was paid: after every discount, with any tax added on top
+      const getSaleItemPaid = saleItem => (saleItem.net_amount !== null
+        ? parseFloat(saleItem.net_amount) + parseFloat(saleItem.tax_amount)
+        : parseFloat(saleItem.total) + (sales[0].prices_include_tax ? 0 : parseFloat(saleItem.tax_amount)));
+      
+      // Work out each returned line and its refund at the price the customer paid
+      const returnLines = [];
+      for (const item of items) {
+        const saleItem = saleItems.find(line => line.id === parseInt(item.sale_item_id));
+        const quantity = parseInt(item.quantity);
+        
+        if (!saleItem) {
+          await connection.rollback();
+          return res.status(400).json({ message: 'Item is not part of this sale' });
+        }
+        
+        if (saleItem.item_type === 'package') {
+          await connection.rollback();
+          return res.status(400).json({ message: 'Memberships are refunded by cancelling the subscription' });
+        }
+        
+        if (!quantity || quantity < 1 || quantity > saleItem.quantity - saleItem.returned_quantity) {
+          await connection.rollback();
+          return res.status(400).json({ message: `Return quantity must be between 1 and ${saleItem.quantity - saleItem.returned_quantity}` });
+        }
+        
+        returnLines.push({
+          saleItem,
+          quantity,
+          amount: roundMoney(getSaleItemPaid(saleItem) / saleItem.quantity * quantity)
+        });
+      }
+      
+      // Refund to the tender the customer paid the most with unless another one is chosen
+      const [salePayments] = await connection.execute(
+        'SELECT payment_method FROM sale_payments WHERE sale_id = ? ORDER BY amount DESC LIMIT 1',
+        [id]
+      );
+      const refundMethod = refund_method || (salePayments[0] ? salePayments[0].payment_method : sales[0].payment_method);
+      const refundTotal = roundMoney(returnLines.reduce((sum, line) => sum + line.amount, 0));
+      
+      // Store credit goes back on the card that paid, or else onto the member's wallet
+      let refundAccountId = null;
+      if (refundMethod === 'stored_value') {
+        refundAccountId = await findStoredValuePayer(connection, { saleId: id });
+        
+        if (!refundAccountId && sales[0].customer_id) {
+          const companyId = await findBranchCompanyId(connection, sales[0].branch_id);
+          const wallet = companyId ? await findStoredValueAccount(connection, companyId, { subscriberId: sales[0].customer_id }) : null;
+          refundAccountId = wallet ? wallet.id : null;
+        }
+        
+        if (!refundAccountId) {
+          await connection.rollback();
+          return res.status(400).json({ message: 'This sale has no gift card or wallet to refund to' });
+        }
+      }
+      
+      // Points refunds go back to the member on the sale at the point value of the branch's company
+      const loyaltyProgram = refundMethod === 'points' ? await loadLoyaltyProgram(connection, sales[0].branch_id) : null;
+      if (refundMethod === 'points' && (!sales[0].customer_id || !loyaltyProgram)) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Only sales to a member can be refunded as points' });
+      }
+      
+      const [result] = await connection.execute(
+        'INSERT INTO sale_returns (sale_id, total, refund_method, reason, created_by, branch_id, shift_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [id, refundTotal, refundMethod, reason || null, req.user.id, req.branch_id || null, shift ? shift.id : null]
+      );
+      const returnId = result.insertId;
+      
+      if (refundAccountId) {
+        const credit = await postStoredValueEntry(connection, refundAccountId, {
+          type: 'refund',
+          amount: refundTotal,
+          saleId: id,
+          saleReturnId: returnId,
+          shiftId: shift ? shift.id : null,
+          branchId: req.branch_id,
+          notes: `Return #${returnId} for sale #${id}`,
+          createdBy: req.user.id
+        });
+        
+        if (credit.error) {
+          await connection.rollback();
+          return res.status(credit.status).json({ message: credit.error });
+        }
+      }
+      
+      if (loyaltyProgram) {
+        const pointsRefund = await postLoyaltyEntry(connection, {
+          companyId: loyaltyProgram.companyId,
+          subscriberId: sales[0].customer_id,
+          type: 'refund',
+          points: getPointsForAmount(loyaltyProgram, refundTotal),
+          expiryDays: loyaltyProgram.expiryDays,
+          saleId: id,
+          saleReturnId: returnId,
+          branchId: req.branch_id,
+          notes: `Return #${returnId} for sale #${id}`,
+          createdBy: req.user.id
+        });
+        
+        if (pointsRefund.error) {
+          await connection.rollback();
+          return res.status(pointsRefund.status).json({ message: pointsRefund.error });
+        }
+      }
+      
+      // Returned items give back their share of the points the sale's items earned
+      const itemsPaid = saleItems
+        .filter(saleItem => saleItem.item_type !== 'package')
+        .reduce((sum, saleItem) => sum + getSaleItemPaid(saleItem), 0);
+      await reverseEarnedPoints(connection, {
+        saleId: id,
+        share: itemsPaid > 0 ? refundTotal / itemsPaid : 1,
+        saleReturnId: returnId,
+        branchId: req.branch_id,
+        notes: `Return #${returnId} for sale #${id}`,
+        createdBy: req.user.id
+      });
+      
+      for (const line of returnLines) {
+        await connection.execute(
+          'INSERT INTO sale_return_items (return_id, sale_item_id, quantity, amount) VALUES (?, ?, ?, ?)',
+          [returnId, line.saleItem.id, line.quantity, line.amount]
+        );
+        
+        // Put the stock back; a bundle's components go back at what they cost when it was sold
+        const [components] = await connection.execute(
+          'SELECT item_id, quantity, unit_cost FROM sale_item_components WHERE sale_item_id = ?',
+          [line.saleItem.id]
+        );
+        const stockMoves = components.length > 0
+          ? components.map(component => {
+            const quantity = component.quantity / line.saleItem.quantity * line.quantity;
+            return { itemId: component.item_id, quantity, price: parseFloat(component.unit_cost), total: roundMoney(parseFloat(component.unit_cost) * quantity) };
+          })
+          : [{ itemId: line.saleItem.item_id, quantity: line.quantity, price: line.saleItem.price, total: line.amount }];
+        
+        for (const move of stockMoves) {
+          await connection.execute(
+            'UPDATE inventory_items SET quantity = quantity + ? WHERE id = ?',
+            [move.quantity, move.itemId]
+          );
+          
+          await connection.execute(
+            'INSERT INTO inventory_transactions (item_id, type, quantity, price, total_amount, notes, created_by, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+            [
+              move.itemId,
+              'return',
+              move.quantity,
+              move.price,
+              move.total,
+              `Return #${returnId} for sale #${id}`,
+              req.user.id,
+              req.branch_id || null
+            ]
+          );
+        }
+      }
+      
+      await connection.commit();
+      
+      res.status(201).json({
+        id: returnId,
+        sale_id: parseInt(id),
+        total: refundTotal,
+        refund_method: refundMethod,
+        message: 'Return processed successfully'
+      });
+    } catch (error) {
+      await connection.rollback();
       throw error;
     } finally {
       connection.release();
     }
   } catch (error) {
-    console.error('Error processing sale:', error);
-    res.status(500).json({ message: 'Error processing sale', error: error.message });
+    console.error('Error processing return:', error);
+    res.status(500).json({ message: 'Error processing return', error: error.message });
+  }
+});
+
+// ======================= RECEIPTS =======================
+
+// Characters per line in the printer's standard font
+const RECEIPT_LINE_WIDTHS = { 58: 32, 80: 48 };
+
+// Printable width in dots at 203 dpi, which the logo is scaled down to fit
+const RECEIPT_DOT_WIDTHS = { 58: 384, 80: 576 };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Everything a receipt shows for a sale, from the sale, its company and branch, and the branch's receipt settings.
+// Returns null when the sale doesn't exist.
+async function buildReceipt(db, saleId) {
+  const [sales] = await db.query(`
+    SELECT s.*, DATE_FORMAT(s.created_at, '%Y-%m-%d %H:%i') as sold_at, u.name as cashier_name,
+      b.name as branch_name, b.address as branch_address, b.phone as branch_phone,
+      b.receipt_header, b.receipt_footer, b.receipt_show_tax, b.receipt_paper_width,
+      c.id as company_id, c.name as company_name, c.address as company_address, c.vat_number, c.registration_number, c.logo, c.logo_type
+    FROM sales s
+    LEFT JOIN users u ON s.created_by = u.id
+    LEFT JOIN branches b ON s.branch_id = b.id
+    LEFT JOIN companies c ON b.company_id = c.id
+    WHERE s.id = ?
+  `, [saleId]);
+  if (sales.length === 0) return null;
+  
+  const [sale] = await attachSaleDetails(db, sales);
+  const [taxRates] = await db.query(`
+    SELECT tax_rate as rate, SUM(COALESCE(net_amount, total)) as net, SUM(tax_amount) as tax
+    FROM sale_items
+    WHERE sale_id = ? AND tax_amount > 0
+    GROUP BY tax_rate
+    ORDER BY tax_rate
+  `, [saleId]);
+  const methodNames = await loadPaymentMethodNames(db, sale.company_id);
+  
+  return {
+    sale_id: sale.id,
+    sold_at: sale.sold_at,
+    cashier: sale.cashier_name,
+    customer: sale.customer_name,
+    header: sale.receipt_header || sale.company_name || sale.branch_name || 'Receipt',
+    footer: sale.receipt_footer,
+    show_tax: sale.receipt_show_tax === null ? true : !!sale.receipt_show_tax,
+    paper_width: sale.receipt_paper_width === 58 ? 58 : 80,
+    company: {
+      name: sale.company_name,
+      address: sale.company_address,
+      vat_number: sale.vat_number,
+      registration_number: sale.registration_number,
+      logo: sale.logo ? Buffer.from(sale.logo) : null,
+      logo_type: sale.logo_type
+    },
+    branch: {
+      name: sale.branch_name,
+      address: sale.branch_address,
+      phone: sale.branch_phone
+    },
+    lines: sale.items.map(item => ({
+      name: item.name || 'Item',
+      quantity: item.quantity,
+      unit_price: parseFloat(item.price),
+      discount: parseFloat(item.discount_amount) || 0,
+      total: parseFloat(item.total),
+      // Memberships say who they're for
+      note: item.item_type === 'package' && item.subscriber_name ? `For ${item.subscriber_name}` : null
+    })),
+    subtotal: parseFloat(sale.subtotal),
+    discount: parseFloat(sale.discount) || 0,
+    tax: parseFloat(sale.tax) || 0,
+    total: parseFloat(sale.total),
+    prices_include_tax: !!sale.prices_include_tax,
+    tax_rates: taxRates.map(row => ({ rate: parseFloat(row.rate), net: roundMoney(row.net), tax: roundMoney(row.tax) })),
+    payments: sale.payments.map(payment => ({
+      method: methodNames[payment.payment_method] || payment.payment_method,
+      amount: parseFloat(payment.tendered || payment.amount)
+    })),
+    change: parseFloat(sale.change_given) || 0,
+    returned: roundMoney(sale.returns.reduce((sum, saleReturn) => sum + parseFloat(saleReturn.total), 0))
+  };
+}
+
+// Decode an 8-bit, non-interlaced PNG into one brightness byte per pixel, with transparency
+// showing as white paper. Returns null for images we can't decode, which then print without a logo.
+function decodePngGrayscale(buffer) {
+  if (!buffer || buffer.length < 8 || buffer.readUInt32BE(0) !== 0x89504e47) return null;
+  
+  let header = null;
+  const chunks = [];
+  for (let offset = 8; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      header = { width: data.readUInt32BE(0), height: data.readUInt32BE(4), bitDepth: data[8], colorType: data[9], interlace: data[12] };
+    } else if (type === 'IDAT') {
+      chunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += length + 12;
+  }
+  
+  const channels = header && { 0: 1, 2: 3, 4: 2, 6: 4 }[header.colorType];
+  if (!channels || header.bitDepth !== 8 || header.interlace) return null;
+  
+  const { width, height } = header;
+  const raw = zlib.inflateSync(Buffer.concat(chunks));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(width * height);
+  let previous = Buffer.alloc(stride);
+  
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = Buffer.from(raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+    
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? row[x - channels] : 0;
+      const up = previous[x];
+      const upLeft = x >= channels ? previous[x - channels] : 0;
+      if (filter === 1) row[x] += left;
+      else if (filter === 2) row[x] += up;
+      else if (filter === 3) row[x] += (left + up) >> 1;
+      else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const [toLeft, toUp, toUpLeft] = [left, up, upLeft].map(value => Math.abs(estimate - value));
+        row[x] += toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft;
+      }
+    }
+    
+    for (let x = 0; x < width; x++) {
+      const pixel = row.subarray(x * channels, (x + 1) * channels);
+      const gray = channels >= 3 ? (pixel[0] * 299 + pixel[1] * 587 + pixel[2] * 114) / 1000 : pixel[0];
+      const alpha = channels === 2 || channels === 4 ? pixel[channels - 1] : 255;
+      pixels[y * width + x] = 255 - (255 - gray) * alpha / 255;
+    }
+    previous = row;
+  }
+  
+  return { width, height, pixels };
+}
+
+// GS v 0 raster image of the logo, scaled to fit the paper and thresholded to black and white
+function escPosLogo(logo, paperWidth) {
+  const image = decodePngGrayscale(logo);
+  if (!image) return [];
+  
+  const scale = Math.min(1, RECEIPT_DOT_WIDTHS[paperWidth] / image.width, 160 / image.height);
+  const width = Math.max(Math.round(image.width * scale), 1);
+  const height = Math.max(Math.round(image.height * scale), 1);
+  const bytesPerRow = Math.ceil(width / 8);
+  const raster = Buffer.alloc(bytesPerRow * height);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = Math.floor(y / scale) * image.width + Math.floor(x / scale);
+      if (image.pixels[source] < 128) {
+        raster[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  
+  return [
+    Buffer.from([GS, 0x76, 0x30, 0x00, bytesPerRow & 0xff, bytesPerRow >> 8, height & 0xff, height >> 8]),
+    raster,
+    Buffer.from('\n')
+  ];
+}
+
+// Thermal printers print their built-in code page, so accents are dropped and anything else becomes ?
+const toPrinterText = text => String(text)
+  .normalize('NFD')
+  .replace(/[̀-ͯ]/g, '')
+  .replace(/[^\x20-\x7e\n]/g, '?');
+
+// Break text into lines no wider than the paper
+function wrapReceiptText(text, width) {
+  const lines = [];
+  for (const paragraph of String(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      if (line && line.length + word.length + 1 > width) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+      while (line.length > width) {
+        lines.push(line.slice(0, width));
+        line = line.slice(width);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Text on the left and an amount on the right, cutting the text short if they don't both fit
+function receiptColumns(left, right, width) {
+  const room = width - right.length - 1;
+  return `${left.length > room ? left.slice(0, room) : left.padEnd(room)} ${right}`;
+}
+
+const formatReceiptMoney = amount => amount.toFixed(2);
+
+// The receipt's lines as plain text columns, shared by the thermal and browser receipts
+function receiptBodyLines(receipt, width) {
+  const divider = '-'.repeat(width);
+  const lines = [divider, `Receipt #${receipt.sale_id}`, receipt.sold_at];
+  
+  if (receipt.cashier) lines.push(`Served by ${receipt.cashier}`);
+  if (receipt.customer) lines.push(`Customer: ${receipt.customer}`);
+  lines.push(divider);
+  
+  for (const line of receipt.lines) {
+    lines.push(...wrapReceiptText(line.name, width));
+    lines.push(receiptColumns(`  ${line.quantity} x ${formatReceiptMoney(line.unit_price)}`, formatReceiptMoney(line.total + line.discount), width));
+    if (line.discount > 0) lines.push(receiptColumns('  Discount', `-${formatReceiptMoney(line.discount)}`, width));
+    if (line.note) lines.push(`  ${line.note}`);
+  }
+  
+  lines.push(divider);
+  lines.push(receiptColumns('Subtotal', formatReceiptMoney(receipt.subtotal), width));
+  if (receipt.discount > 0) lines.push(receiptColumns('Discount', `-${formatReceiptMoney(receipt.discount)}`, width));
+  if (!receipt.prices_include_tax) lines.push(receiptColumns('Tax', formatReceiptMoney(receipt.tax), width));
+  
+  return lines;
+}
+
+function receiptTaxLines(receipt, width) {
+  if (!receipt.show_tax || receipt.tax_rates.length === 0) return [];
+  
+  return [
+    receipt.prices_include_tax ? 'Tax included:' : 'Tax:',
+    ...receipt.tax_rates.map(row => receiptColumns(`  ${row.rate}% on ${formatReceiptMoney(row.net)}`, formatReceiptMoney(row.tax), width))
+  ];
+}
+
+function receiptPaymentLines(receipt, width) {
+  const lines = receipt.payments.map(payment => receiptColumns(payment.method, formatReceiptMoney(payment.amount), width));
+  if (receipt.change > 0) lines.push(receiptColumns('Change', formatReceiptMoney(receipt.change), width));
+  if (receipt.returned > 0) lines.push(receiptColumns('Returned since', `-${formatReceiptMoney(receipt.returned)}`, width));
+  return lines;
+}
+
+// Who issued the receipt: where the shop is and the company's tax details
+function receiptIssuerLines(receipt) {
+  return [
+    receipt.branch.name && receipt.branch.name !== receipt.header ? receipt.branch.name : null,
+    receipt.branch.address || receipt.company.address,
+    receipt.branch.phone,
+    receipt.company.vat_number ? `VAT ${receipt.company.vat_number}` : null,
+    receipt.company.registration_number ? `Reg. ${receipt.company.registration_number}` : null
+  ].filter(Boolean);
+}
+
+// ESC/POS commands for a receipt on a 58mm or 80mm thermal printer, ending with a cut
+function renderEscPosReceipt(receipt) {
+  const width = RECEIPT_LINE_WIDTHS[receipt.paper_width];
+  const text = lines => Buffer.from(toPrinterText(lines.map(line => `${line}\n`).join('')), 'ascii');
+  const align = position => Buffer.from([ESC, 0x61, { left: 0, center: 1 }[position]]);
+  const bold = on => Buffer.from([ESC, 0x45, on ? 1 : 0]);
+  const size = double => Buffer.from([GS, 0x21, double ? 0x11 : 0x00]);
+  
+  return Buffer.concat([
+    Buffer.from([ESC, 0x40]),
+    align('center'),
+    ...(receipt.company.logo ? escPosLogo(receipt.company.logo, receipt.paper_width) : []),
+    bold(true), size(true),
+    text(wrapReceiptText(receipt.header, width / 2)),
+    size(false), bold(false),
+    text(receiptIssuerLines(receipt).flatMap(line => wrapReceiptText(line, width))),
+    align('left'),
+    text(receiptBodyLines(receipt, width)),
+    bold(true),
+    text([receiptColumns('TOTAL', formatReceiptMoney(receipt.total), width)]),
+    bold(false),
+    text(receiptTaxLines(receipt, width)),
+    text(['-'.repeat(width), ...receiptPaymentLines(receipt, width)]),
+    ...(receipt.footer ? [align('center'), text(['', ...wrapReceiptText(receipt.footer, width)])] : []),
+    Buffer.from([ESC, 0x64, 4]),
+    Buffer.from([GS, 0x56, 0x42, 0x00])
+  ]);
+}
+
+const escapeHtml = value => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// A printable page laid out like the thermal receipt, for branches printing from the browser
+function renderHtmlReceipt(receipt) {
+  const width = RECEIPT_LINE_WIDTHS[receipt.paper_width];
+  const block = lines => `<pre>${lines.map(escapeHtml).join('\n')}</pre>`;
+  const logo = receipt.company.logo
+    ? `<img src="data:${escapeHtml(receipt.company.logo_type || 'image/png')};base64,${receipt.company.logo.toString('base64')}" alt="">`
+    : '';
+  
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt #${receipt.sale_id}</title>
+<style>
+  @page { size: ${receipt.paper_width}mm auto; margin: 0; }
+  body { width: ${receipt.paper_width - 6}mm; margin: 0 auto; padding: 3mm 0; font-family: 'Courier New', monospace; font-size: ${receipt.paper_width === 58 ? 9 : 10}pt; color: #000; }
+  pre { margin: 0; font: inherit; white-space: pre-wrap; }
+  .center { text-align: center; }
+  .header { font-size: 1.6em; font-weight: bold; }
+  .total { font-weight: bold; }
+  img { max-width: 100%; max-height: 30mm; }
+</style>
+</head>
+<body>
+<div class="center">
+${logo}
+<div class="header">${escapeHtml(receipt.header)}</div>
+${block(receiptIssuerLines(receipt))}
+</div>
+${block(receiptBodyLines(receipt, width))}
+<div class="total">${block([receiptColumns('TOTAL', formatReceiptMoney(receipt.total), width)])}</div>
+${block(receiptTaxLines(receipt, width))}
+${block(['-'.repeat(width), ...receiptPaymentLines(receipt, width)])}
+${receipt.footer ? `<div class="center">${block(['', ...wrapReceiptText(receipt.footer, width)])}</div>` : ''}
+</body>
+</html>`;
+}
+
+// Receipt printers take raw jobs on 9100 and the few ports after it; nothing else is ever connected to
+const PRINTER_PORTS = { min: 9100, max: 9109 };
+
+// Split a printer setting (host or host:port) into where to connect, or null if it isn't one
+function parsePrinterHost(printerHost) {
+  const match = /^([A-Za-z0-9](?:[A-Za-z0-9.-]{0,251}[A-Za-z0-9])?)(?::(\d{1,5}))?$/.exec(String(printerHost).trim());
+  if (!match) return null;
+  
+  const port = match[2] ? parseInt(match[2]) : PRINTER_PORTS.min;
+  return port >= PRINTER_PORTS.min && port <= PRINTER_PORTS.max ? { host: match[1], port } : null;
+}
+
+// Send raw bytes to a network printer (host or host:port, port 9100 by default)
+function sendToNetworkPrinter(printerHost, data) {
+  const printer = parsePrinterHost(printerHost);
+  if (!printer) {
+    return Promise.reject(new Error('The printer address is not valid'));
+  }
+  
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(printer, () => socket.end(data));
+    socket.setTimeout(5000, () => socket.destroy(new Error('The printer did not respond')));
+    socket.on('error', reject);
+    socket.on('close', hadError => {
+      if (!hadError) resolve();
+    });
+  });
+}
+
+// Staff only see the receipts and invoices of the branch they're working in, plus shared records
+async function isSaleInBranch(db, saleId, branchId) {
+  const [sales] = await db.query('SELECT id FROM sales WHERE id = ? AND (branch_id = ? OR branch_id IS NULL)', [saleId, branchId || null]);
+  return sales.length > 0;
+}
+
+async function isSubscriptionInBranch(db, subscriptionId, branchId) {
+  const [subscriptions] = await db.query(`
+    SELECT sub.id
+    FROM subscriptions sub
+    JOIN subscribers s ON sub.subscriber_id = s.id
+    WHERE sub.id = ? AND (s.branch_id = ? OR s.branch_id IS NULL)
+  `, [subscriptionId, branchId || null]);
+  return subscriptions.length > 0;
+}
+
+// A sale's receipt as data (the default), a printable page (format=html) or ESC/POS bytes (format=escpos)
+app.get('/api/sales/:id/receipt', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const receipt = await isSaleInBranch(pool, req.params.id, req.branch_id) ? await buildReceipt(pool, req.params.id) : null;
+    if (!receipt) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+    
+    if (req.query.format === 'escpos') {
+      res.set('Content-Disposition', `attachment; filename="receipt-${receipt.sale_id}.bin"`);
+      return res.type('application/octet-stream').send(renderEscPosReceipt(receipt));
+    }
+    
+    if (req.query.format === 'html') {
+      return res.type('html').send(renderHtmlReceipt(receipt));
+    }
+    
+    res.json({
+      ...receipt,
+      company: { ...receipt.company, logo: receipt.company.logo ? receipt.company.logo.toString('base64') : null }
+    });
+  } catch (error) {
+    console.error('Error building receipt:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Print a sale's receipt on the current branch's thermal printer
+app.post('/api/sales/:id/receipt/print', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const [branches] = await pool.query('SELECT receipt_printer_host FROM branches WHERE id = ?', [req.branch_id || null]);
+    if (branches.length === 0 || !branches[0].receipt_printer_host) {
+      return res.status(409).json({ message: 'No receipt printer is set up for this branch', no_printer: true });
+    }
+    
+    const receipt = await isSaleInBranch(pool, req.params.id, req.branch_id) ? await buildReceipt(pool, req.params.id) : null;
+    if (!receipt) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+    
+    try {
+      await sendToNetworkPrinter(branches[0].receipt_printer_host, renderEscPosReceipt(receipt));
+    } catch (error) {
+      console.error('Error sending receipt to printer:', error);
+      return res.status(502).json({ message: `Could not reach the receipt printer: ${error.message}` });
+    }
+    
+    res.json({ message: 'Receipt printed' });
+  } catch (error) {
+    console.error('Error printing receipt:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= EMAIL =======================
+
+// Outgoing mail goes over SMTP. Without SMTP_HOST it goes to a mail catcher on localhost:1025
+// (Mailpit, MailHog), so a development setup never emails real customers.
+const mailTransport = nodemailer.createTransport({
+  host: process.env.SMTP_HOST || '127.0.0.1',
+  port: parseInt(process.env.SMTP_PORT || (process.env.SMTP_HOST ? '587' : '1025')),
+  secure: process.env.SMTP_SECURE === 'true',
+  auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+});
+
+// Emails are sent from this address under the company's name
+const MAIL_FROM_ADDRESS = process.env.MAIL_FROM_ADDRESS || 'no-reply@flexigym.local';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Wrap an email's content in the company's branding: logo, name, and address and tax details at the foot
+function renderEmailLayout({ company, branch, title, content }) {
+  const details = [
+    branch.name,
+    branch.address || company.address,
+    branch.phone,
+    company.vat_number ? `VAT ${company.vat_number}` : null,
+    company.registration_number ? `Reg. ${company.registration_number}` : null
+  ].filter(Boolean);
+  
+  return `<!DOCTYPE html>
+<html>
+<body style="margin: 0; padding: 24px; background: #f4f4f5; font-family: Arial, sans-serif; color: #18181b;">
+<div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 24px;">
+<div style="text-align: center; margin-bottom: 16px;">
+${company.logo ? '<img src="cid:company-logo" alt="" style="max-width: 200px; max-height: 80px;">' : ''}
+<h2 style="margin: 8px 0 0;">${escapeHtml(company.name || branch.name || '')}</h2>
+</div>
+<h3 style="margin: 0 0 16px;">${escapeHtml(title)}</h3>
+${content}
+<p style="margin-top: 24px; font-size: 12px; color: #71717a; text-align: center;">${details.map(escapeHtml).join(' · ')}</p>
+</div>
+</body>
+</html>`;
+}
+
+// The logo travels as an inline attachment, since most mail clients block data URLs
+const emailLogoAttachments = company => (company.logo
+  ? [{ filename: 'logo', content: company.logo, contentType: company.logo_type || 'image/png', cid: 'company-logo' }]
+  : []);
+
+async function buildReceiptEmail(db, saleId) {
+  const receipt = await buildReceipt(db, saleId);
+  if (!receipt) return null;
+  
+  const width = RECEIPT_LINE_WIDTHS[80];
+  const lines = [
+    ...receiptBodyLines(receipt, width),
+    receiptColumns('TOTAL', formatReceiptMoney(receipt.total), width),
+    ...receiptTaxLines(receipt, width),
+    '-'.repeat(width),
+    ...receiptPaymentLines(receipt, width)
+  ];
+  const greeting = receipt.customer ? `Hi ${receipt.customer},` : 'Hello,';
+  const thanks = receipt.footer || `Thank you for your purchase at ${receipt.branch.name || receipt.company.name}.`;
+  
+  return {
+    subject: `Your receipt #${receipt.sale_id} from ${receipt.company.name || receipt.branch.name}`,
+    company: receipt.company,
+    html: renderEmailLayout({
+      company: receipt.company,
+      branch: receipt.branch,
+      title: `Receipt #${receipt.sale_id}`,
+      content: `<p>${escapeHtml(greeting)}</p>
+<p>${escapeHtml(thanks)}</p>
+<pre style="font-family: 'Courier New', monospace; font-size: 12px; background: #fafafa; padding: 12px;">${lines.map(escapeHtml).join('\n')}</pre>`
+    }),
+    text: [greeting, '', thanks, '', ...lines].join('\n')
+  };
+}
+
+async function buildInvoiceEmail(db, subscriptionId) {
+  const [subscriptions] = await db.query(`
+    SELECT sub.*, s.name as subscriber_name, p.name as package_name,
+      DATE_FORMAT(sub.start_date, '%Y-%m-%d') as starts_on, DATE_FORMAT(sub.end_date, '%Y-%m-%d') as ends_on,
+      DATE_FORMAT(sub.created_at, '%Y-%m-%d') as issued_on,
+      b.name as branch_name, b.address as branch_address, b.phone as branch_phone,
+      c.id as company_id, c.name as company_name, c.address as company_address, c.vat_number, c.registration_number, c.logo, c.logo_type
+    FROM subscriptions sub
+    JOIN subscribers s ON sub.subscriber_id = s.id
+    JOIN packages p ON sub.package_id = p.id
+    LEFT JOIN branches b ON b.id = COALESCE(s.branch_id, p.branch_id)
+    LEFT JOIN companies c ON b.company_id = c.id
+    WHERE sub.id = ?
+  `, [subscriptionId]);
+  if (subscriptions.length === 0) return null;
+  
+  const subscription = subscriptions[0];
+  const [payments] = await db.query(`
+    SELECT amount, payment_method, DATE_FORMAT(payment_date, '%Y-%m-%d') as paid_on
+    FROM subscription_payments
+    WHERE subscription_id = ?
+    ORDER BY payment_date, id
+  `, [subscriptionId]);
+  const methodNames = await loadPaymentMethodNames(db, subscription.company_id);
+  
+  const company = {
+    name: subscription.company_name,
+    address: subscription.company_address,
+    vat_number: subscription.vat_number,
+    registration_number: subscription.registration_number,
+    logo: subscription.logo ? Buffer.from(subscription.logo) : null,
+    logo_type: subscription.logo_type
+  };
+  const total = parseFloat(subscription.total_amount);
+  const paid = parseFloat(subscription.amount_paid) || 0;
+  const balance = roundMoney(Math.max(total - paid, 0));
+  const period = `${subscription.starts_on} to ${subscription.ends_on}`;
+  
+  const rows = [
+    [`${subscription.package_name} (${period})`, formatReceiptMoney(total)],
+    ...payments.map(payment => [
+      `Paid by ${methodNames[payment.payment_method] || payment.payment_method} on ${payment.paid_on}`,
+      `-${formatReceiptMoney(parseFloat(payment.amount))}`
+    ])
+  ];
+  const cell = 'padding: 6px 0; border-bottom: 1px solid #e4e4e7;';
+  
+  return {
+    subject: `Invoice INV-${subscription.id} for your ${subscription.package_name} membership`,
+    company,
+    html: renderEmailLayout({
+      company,
+      branch: { name: subscription.branch_name, address: subscription.branch_address, phone: subscription.branch_phone },
+      title: `Invoice INV-${subscription.id}`,
+      content: `<p>Hi ${escapeHtml(subscription.subscriber_name)},</p>
+<p>Here is the invoice for your membership, issued ${escapeHtml(subscription.issued_on)}.</p>
+<table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+${rows.map(([label, amount]) => `<tr><td style="${cell}">${escapeHtml(label)}</td><td style="${cell} text-align: right;">${amount}</td></tr>`).join('\n')}
+<tr><td style="padding: 8px 0; font-weight: bold;">${balance > 0 ? 'Balance due' : 'Paid in full'}</td><td style="padding: 8px 0; font-weight: bold; text-align: right;">${formatReceiptMoney(balance)}</td></tr>
+</table>`
+    }),
+    text: [
+      `Hi ${subscription.subscriber_name},`,
+      '',
+      `Invoice INV-${subscription.id}, issued ${subscription.issued_on}`,
+      '',
+      ...rows.map(([label, amount]) => `${label}: ${amount}`),
+      `${balance > 0 ? 'Balance due' : 'Paid in full'}: ${formatReceiptMoney(balance)}`
+    ].join('\n')
+  };
+}
+
+// Send an email and record the attempt in the delivery log. A failed send is logged and
+// returned rather than thrown, so a mail outage never fails the sale that triggered it.
+async function sendLoggedEmail(log, email) {
+  const [result] = await pool.execute(
+    'INSERT INTO email_messages (branch_id, kind, sale_id, subscription_id, recipient, subject, created_by) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [log.branch_id || null, log.kind, log.sale_id || null, log.subscription_id || null, log.recipient, email.subject, log.created_by || null]
+  );
+  
+  try {
+    const info = await mailTransport.sendMail({
+      from: { name: email.company.name || 'FlexiGym', address: MAIL_FROM_ADDRESS },
+      to: log.recipient,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      attachments: emailLogoAttachments(email.company)
+    });
+    await pool.execute(
+      "UPDATE email_messages SET status = 'sent', provider_message_id = ?, sent_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [info.messageId || null, result.insertId]
+    );
+    return { id: result.insertId, status: 'sent' };
+  } catch (error) {
+    console.error('Error sending email:', error);
+    await pool.execute("UPDATE email_messages SET status = 'failed', error = ? WHERE id = ?", [error.message, result.insertId]);
+    return { id: result.insertId, status: 'failed', error: error.message };
+  }
+}
+
+// Email a sale's receipt, by default to the address recorded on the sale
+async function sendReceiptEmail(saleId, { recipient, userId } = {}) {
+  const [sales] = await pool.query('SELECT id, branch_id, customer_email FROM sales WHERE id = ?', [saleId]);
+  if (sales.length === 0) {
+    return { error: 'Sale not found', status: 404 };
+  }
+  
+  const to = recipient || sales[0].customer_email;
+  if (!to || !EMAIL_PATTERN.test(to)) {
+    return { error: 'A valid email address is required', status: 400 };
+  }
+  
+  const email = await buildReceiptEmail(pool, saleId);
+  return sendLoggedEmail({ branch_id: sales[0].branch_id, kind: 'receipt', sale_id: saleId, recipient: to, created_by: userId }, email);
+}
+
+// Email a subscription's invoice, by default to the subscriber
+async function sendInvoiceEmail(subscriptionId, { recipient, userId, branchId } = {}) {
+  const [subscriptions] = await pool.query(`
+    SELECT sub.id, s.email, COALESCE(s.branch_id, p.branch_id) as branch_id
+    FROM subscriptions sub
+    JOIN subscribers s ON sub.subscriber_id = s.id
+    JOIN packages p ON sub.package_id = p.id
+    WHERE sub.id = ?
+  `, [subscriptionId]);
+  if (subscriptions.length === 0) {
+    return { error: 'Subscription not found', status: 404 };
+  }
+  
+  const to = recipient || subscriptions[0].email;
+  if (!to || !EMAIL_PATTERN.test(to)) {
+    return { error: 'A valid email address is required', status: 400 };
+  }
+  
+  const email = await buildInvoiceEmail(pool, subscriptionId);
+  return sendLoggedEmail({
+    branch_id: subscriptions[0].branch_id || branchId,
+    kind: 'invoice',
+    subscription_id: subscriptionId,
+    recipient: to,
+    created_by: userId
+  }, email);
+}
+
+const respondWithEmailResult = (res, result, successMessage) => {
+  if (result.error && result.status) {
+    return res.status(result.status).json({ message: result.error });
+  }
+  if (result.status === 'failed') {
+    return res.status(502).json({ message: `The email could not be sent: ${result.error}`, email_id: result.id });
+  }
+  res.json({ message: successMessage, email_id: result.id });
+};
+
+// Send or resend a sale's receipt; `email` overrides the address on the sale
+app.post('/api/sales/:id/email', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    if (!await isSaleInBranch(pool, req.params.id, req.branch_id)) {
+      return res.status(404).json({ message: 'Sale not found' });
+    }
+    
+    const result = await sendReceiptEmail(req.params.id, { recipient: req.body.email, userId: req.user.id });
+    respondWithEmailResult(res, result, 'Receipt emailed');
+  } catch (error) {
+    console.error('Error emailing receipt:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Send or resend a subscription's invoice; `email` overrides the subscriber's address
+app.post('/api/subscriptions/:id/email-invoice', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    if (!await isSubscriptionInBranch(pool, req.params.id, req.branch_id)) {
+      return res.status(404).json({ message: 'Subscription not found' });
+    }
+    
+    const result = await sendInvoiceEmail(req.params.id, { recipient: req.body.email, userId: req.user.id, branchId: req.branch_id });
+    respondWithEmailResult(res, result, 'Invoice emailed');
+  } catch (error) {
+    console.error('Error emailing invoice:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Email delivery log for the current branch
+app.get('/api/emails', authenticateToken, requireManager, branchFilter, async (req, res) => {
+  try {
+    const { status, sale_id, subscription_id } = req.query;
+    
+    let query = `
+      SELECT e.*, u.name as created_by_name, sb.name as subscriber_name, s.customer_name
+      FROM email_messages e
+      LEFT JOIN users u ON e.created_by = u.id
+      LEFT JOIN sales s ON e.sale_id = s.id
+      LEFT JOIN subscriptions sub ON e.subscription_id = sub.id
+      LEFT JOIN subscribers sb ON sub.subscriber_id = sb.id
+      WHERE e.branch_id = ?
+    `;
+    const params = [req.branch_id];
+    
+    if (status) {
+      query += ' AND e.status = ?';
+      params.push(status);
+    }
+    
+    if (sale_id) {
+      query += ' AND e.sale_id = ?';
+      params.push(sale_id);
+    }
+    
+    if (subscription_id) {
+      query += ' AND e.subscription_id = ?';
+      params.push(subscription_id);
+    }
+    
+    query += ' ORDER BY e.created_at DESC, e.id DESC LIMIT 200';
+    
+    const [emails] = await pool.execute(query, params);
+    res.json(emails);
+  } catch (error) {
+    console.error('Error fetching emails:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Send a logged email again to the same address
+app.post('/api/emails/:id/resend', authenticateToken, requireManager, branchFilter, async (req, res) => {
+  try {
+    const [emails] = await pool.execute('SELECT * FROM email_messages WHERE id = ?', [req.params.id]);
+    const email = emails[0];
+    const inBranch = email && (email.kind === 'receipt'
+      ? await isSaleInBranch(pool, email.sale_id, req.branch_id)
+      : await isSubscriptionInBranch(pool, email.subscription_id, req.branch_id));
+    if (!inBranch) {
+      return res.status(404).json({ message: 'Email not found' });
+    }
+    
+    const options = { recipient: email.recipient, userId: req.user.id, branchId: email.branch_id };
+    const result = email.kind === 'receipt'
+      ? await sendReceiptEmail(email.sale_id, options)
+      : await sendInvoiceEmail(email.subscription_id, options);
+    respondWithEmailResult(res, result, 'Email sent');
+  } catch (error) {
+    console.error('Error resending email:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= PARKED CARTS =======================
+
+// Parked carts that have passed their branch's time limit are discarded
+async function purgeExpiredParkedCarts(db) {
+  await db.execute('DELETE FROM parked_carts WHERE expires_at <= CURRENT_TIMESTAMP');
+}
+
+// List parked carts for the current branch
+app.get('/api/parked-carts', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    await purgeExpiredParkedCarts(pool);
+    
+    const [carts] = await pool.execute(`
+      SELECT pc.*, u.name as created_by_name
+      FROM parked_carts pc
+      LEFT JOIN users u ON pc.created_by = u.id
+      WHERE pc.branch_id <=> ?
+      ORDER BY pc.created_at
+    `, [req.branch_id || null]);
+    
+    res.json(carts);
+  } catch (error) {
+    console.error('Error fetching parked carts:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Park a cart so the till can serve the next customer
+app.post('/api/parked-carts', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { name, items } = req.body;
+    
+    if (!name || !name.trim()) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+    
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ message: 'Cannot park an empty cart' });
+    }
+    
+    const [branches] = await pool.query('SELECT parked_cart_ttl_minutes FROM branches WHERE id = ?', [req.branch_id || null]);
+    const ttlMinutes = branches.length > 0 ? branches[0].parked_cart_ttl_minutes : 240;
+    
+    const [result] = await pool.execute(`
+      INSERT INTO parked_carts (branch_id, name, items, created_by, expires_at)
+      VALUES (?, ?, ?, ?, DATE_ADD(CURRENT_TIMESTAMP, INTERVAL ? MINUTE))
+    `, [req.branch_id || null, name.trim(), JSON.stringify(items), req.user.id, ttlMinutes]);
+    
+    const [carts] = await pool.execute('SELECT * FROM parked_carts WHERE id = ?', [result.insertId]);
+    res.status(201).json(carts[0]);
+  } catch (error) {
+    console.error('Error parking cart:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Resume a parked cart; it is removed so no other terminal can pick it up too
+app.post('/api/parked-carts/:id/resume', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+    
+    try {
+      const [carts] = await connection.execute(
+        'SELECT * FROM parked_carts WHERE id = ? AND branch_id <=> ? AND expires_at > CURRENT_TIMESTAMP FOR UPDATE',
+        [req.params.id, req.branch_id || null]
+      );
+      
+      if (carts.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Parked cart not found or already resumed' });
+      }
+      
+      await connection.execute('DELETE FROM parked_carts WHERE id = ?', [req.params.id]);
+      await connection.commit();
+      
+      res.json(carts[0]);
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error resuming parked cart:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Discard a parked cart
+app.delete('/api/parked-carts/:id', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const [result] = await pool.execute(
+      'DELETE FROM parked_carts WHERE id = ? AND branch_id <=> ?',
+      [req.params.id, req.branch_id || null]
+    );
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Parked cart not found' });
+    }
+    
+    res.json({ message: 'Parked cart discarded' });
+  } catch (error) {
+    console.error('Error discarding parked cart:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= CASH DRAWER SHIFTS =======================
+
+const SHIFT_SELECT_SQL = `
+  SELECT cs.*, u.name as user_name, b.name as branch_name
+  FROM cash_shifts cs
+  LEFT JOIN users u ON cs.user_id = u.id
+  LEFT JOIN branches b ON cs.branch_id = b.id
+`;
+
+// The shift a user currently has open at a branch, if any
+async function findOpenShift(db, userId, branchId) {
+  const [shifts] = await db.execute(
+    `${SHIFT_SELECT_SQL} WHERE cs.user_id = ? AND cs.branch_id <=> ? AND cs.status = 'open' ORDER BY cs.opened_at DESC LIMIT 1`,
+    [userId, branchId || null]
+  );
+  
+  return shifts[0] || null;
+}
+
+async function findShift(db, id) {
+  const [shifts] = await db.execute(`${SHIFT_SELECT_SQL} WHERE cs.id = ?`, [id]);
+  return shifts[0] || null;
+}
+
+// Only the cashier who opened a shift (or an admin) can work with its drawer
+function canManageShift(req, shift) {
+  return shift.user_id === req.user.id || req.user.role_name === 'admin';
+}
+
+// X report while the shift is open, Z report once it is closed.
+// Expected cash = float + drawer payments taken - drawer refunds + paid in - paid out + drawer payments for gift cards and top-ups
+// + drawer subscription payments - drawer subscription refunds, where drawer payments are those in methods that open the cash drawer.
+// Subscription payments and refunds aren't tied to a shift, so they're the cashier's own for members of the shift's branch
+// taken while the shift was open. Memberships sold at the till are already in the sale tenders and are left out.
+async function buildShiftReport(db, shift) {
+  const [[salesRow]] = await db.execute(
+    'SELECT COUNT(*) as sales_count, COALESCE(SUM(total), 0) as sales_total FROM sales WHERE shift_id = ?',
+    [shift.id]
+  );
+  
+  const [tenders] = await db.execute(`
+    SELECT sp.payment_method, COALESCE(SUM(sp.amount), 0) as amount
+    FROM sale_payments sp
+    JOIN sales s ON sp.sale_id = s.id
+    WHERE s.shift_id = ?
+    GROUP BY sp.payment_method
+  `, [shift.id]);
+  
+  const [refunds] = await db.execute(`
+    SELECT refund_method as payment_method, COUNT(*) as count, COALESCE(SUM(total), 0) as amount
+    FROM sale_returns
+    WHERE shift_id = ?
+    GROUP BY refund_method
+  `, [shift.id]);
+  
+  const [storedValueSold] = await db.execute(`
+    SELECT payment_method, COALESCE(SUM(amount), 0) as amount
+    FROM stored_value_transactions
+    WHERE shift_id = ? AND type IN ('issue', 'top_up') AND amount > 0
+    GROUP BY payment_method
+  `, [shift.id]);
+  
+  const shiftWindow = [shift.user_id, shift.opened_at, shift.closed_at, shift.branch_id];
+  const [subscriptionPayments] = await db.execute(`
+    SELECT sp.payment_method, COALESCE(SUM(sp.amount), 0) as amount
+    FROM subscription_payments sp
+    JOIN subscriptions sub ON sp.subscription_id = sub.id
+    JOIN subscribers sb ON sub.subscriber_id = sb.id
+    WHERE sp.created_by = ? AND sp.created_at >= ? AND sp.created_at <= COALESCE(?, NOW())
+    AND (sb.branch_id <=> ? OR sb.branch_id IS NULL)
+    AND sp.sale_id IS NULL AND sp.payment_method <> 'credit'
+    GROUP BY sp.payment_method
+  `, shiftWindow);
+  
+  const [subscriptionRefunds] = await db.execute(`
+    SELECT r.payment_method, COUNT(*) as count, COALESCE(SUM(r.amount), 0) as amount
+    FROM subscription_refunds r
+    JOIN subscriptions sub ON r.subscription_id = sub.id
+    JOIN subscribers sb ON sub.subscriber_id = sb.id
+    WHERE r.created_by = ? AND r.created_at >= ? AND r.created_at <= COALESCE(?, NOW())
+    AND (sb.branch_id <=> ? OR sb.branch_id IS NULL)
+    GROUP BY r.payment_method
+  `, shiftWindow);
+  
+  const [movements] = await db.execute(`
+    SELECT m.*, u.name as created_by_name
+    FROM cash_movements m
+    LEFT JOIN users u ON m.created_by = u.id
+    WHERE m.shift_id = ?
+    ORDER BY m.created_at
+  `, [shift.id]);
+  
+  const drawerMethods = (await loadPaymentMethods(db, await findBranchCompanyId(db, shift.branch_id), { includeInactive: true }))
+    .filter(method => method.opens_drawer)
+    .map(method => method.code);
+  const drawerAmount = rows => rows
+    .filter(row => drawerMethods.includes(row.payment_method))
+    .reduce((sum, row) => sum + parseFloat(row.amount), 0);
+  const movementTotal = type => movements
+    .filter(movement => movement.type === type)
+    .reduce((sum, movement) => sum + parseFloat(movement.amount), 0);
+  
+  const openingFloat = parseFloat(shift.opening_float);
+  const paidIn = roundMoney(movementTotal('paid_in'));
+  const paidOut = roundMoney(movementTotal('paid_out'));
+  const expectedCash = roundMoney(
+    openingFloat + drawerAmount(tenders) - drawerAmount(refunds) + paidIn - paidOut + drawerAmount(storedValueSold)
+    + drawerAmount(subscriptionPayments) - drawerAmount(subscriptionRefunds)
+  );
+  const countedCash = shift.counted_cash === null ? null : parseFloat(shift.counted_cash);
+  
+  return {
+    report_type: shift.status === 'closed' ? 'Z' : 'X',
+    shift,
+    sales_count: salesRow.sales_count,
+    sales_total: parseFloat(salesRow.sales_total),
+    tenders: tenders.map(row => ({ payment_method: row.payment_method, amount: parseFloat(row.amount) })),
+    refunds: refunds.map(row => ({ payment_method: row.payment_method, count: row.count, amount: parseFloat(row.amount) })),
+    refunds_total: roundMoney(refunds.reduce((sum, row) => sum + parseFloat(row.amount), 0)),
+    stored_value_sold: storedValueSold.map(row => ({ payment_method: row.payment_method, amount: parseFloat(row.amount) })),
+    subscription_payments: subscriptionPayments.map(row => ({ payment_method: row.payment_method, amount: parseFloat(row.amount) })),
+    subscription_refunds: subscriptionRefunds.map(row => ({ payment_method: row.payment_method, count: row.count, amount: parseFloat(row.amount) })),
+    movements,
+    opening_float: openingFloat,
+    paid_in: paidIn,
+    paid_out: paidOut,
+    expected_cash: expectedCash,
+    counted_cash: countedCash,
+    variance: countedCash === null ? null : roundMoney(countedCash - expectedCash),
+    generated_at: new Date().toISOString()
+  };
+}
+
+// List shifts for the current branch
+app.get('/api/shifts', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { status } = req.query;
+    let query = `${SHIFT_SELECT_SQL} WHERE cs.branch_id <=> ?`;
+    const params = [req.branch_id || null];
+    
+    if (status) {
+      query += ' AND cs.status = ?';
+      params.push(status);
+    }
+    
+    query += ' ORDER BY cs.opened_at DESC LIMIT 50';
+    
+    const [shifts] = await pool.execute(query, params);
+    res.json(shifts);
+  } catch (error) {
+    console.error('Error fetching shifts:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// The current user's open shift at this branch, with its X report
+app.get('/api/shifts/current', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const shift = await findOpenShift(pool, req.user.id, req.branch_id);
+    res.json(shift ? await buildShiftReport(pool, shift) : null);
+  } catch (error) {
+    console.error('Error fetching current shift:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Open a shift with a starting float
+app.post('/api/shifts', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const openingFloat = roundMoney(req.body.opening_float || 0);
+    
+    if (isNaN(openingFloat) || openingFloat < 0) {
+      return res.status(400).json({ message: 'Opening float must be zero or more' });
+    }
+    
+    if (await findOpenShift(pool, req.user.id, req.branch_id)) {
+      return res.status(409).json({ message: 'You already have an open shift at this branch' });
+    }
+    
+    const [result] = await pool.execute(
+      'INSERT INTO cash_shifts (branch_id, user_id, opening_float) VALUES (?, ?, ?)',
+      [req.branch_id || null, req.user.id, openingFloat]
+    );
+    
+    res.status(201).json(await buildShiftReport(pool, await findShift(pool, result.insertId)));
+  } catch (error) {
+    console.error('Error opening shift:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Record a paid-in or paid-out against an open shift
+app.post('/api/shifts/:id/movements', authenticateToken, async (req, res) => {
+  try {
+    const { type, amount, reason } = req.body;
+    const movementAmount = roundMoney(amount);
+    
+    if (!['paid_in', 'paid_out'].includes(type)) {
+      return res.status(400).json({ message: 'Type must be paid_in or paid_out' });
+    }
+    
+    if (!(movementAmount > 0)) {
+      return res.status(400).json({ message: 'Amount must be greater than zero' });
+    }
+    
+    if (!reason || !reason.trim()) {
+      return res.status(400).json({ message: 'A reason is required' });
+    }
+    
+    const shift = await findShift(pool, req.params.id);
+    
+    if (!shift) {
+      return res.status(404).json({ message: 'Shift not found' });
+    }
+    
+    if (!canManageShift(req, shift)) {
+      return res.status(403).json({ message: 'This shift belongs to another cashier' });
+    }
+    
+    if (shift.status !== 'open') {
+      return res.status(400).json({ message: 'Shift is already closed' });
+    }
+    
+    await pool.execute(
+      'INSERT INTO cash_movements (shift_id, type, amount, reason, created_by) VALUES (?, ?, ?, ?, ?)',
+      [shift.id, type, movementAmount, reason.trim(), req.user.id]
+    );
+    
+    res.status(201).json(await buildShiftReport(pool, shift));
+  } catch (error) {
+    console.error('Error recording cash movement:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// X report for an open shift, Z report for a closed one
+app.get('/api/shifts/:id/report', authenticateToken, async (req, res) => {
+  try {
+    const shift = await findShift(pool, req.params.id);
+    
+    if (!shift) {
+      return res.status(404).json({ message: 'Shift not found' });
+    }
+    
+    res.json(await buildShiftReport(pool, shift));
+  } catch (error) {
+    console.error('Error building shift report:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Close a shift with the cash counted in the drawer and return its Z report
+app.post('/api/shifts/:id/close', authenticateToken, async (req, res) => {
+  try {
+    const { counted_cash, notes } = req.body;
+    const countedCash = roundMoney(counted_cash);
+    
+    if (counted_cash === undefined || counted_cash === '' || isNaN(countedCash) || countedCash < 0) {
+      return res.status(400).json({ message: 'Counted cash is required' });
+    }
+    
+    const shift = await findShift(pool, req.params.id);
+    
+    if (!shift) {
+      return res.status(404).json({ message: 'Shift not found' });
+    }
+    
+    if (!canManageShift(req, shift)) {
+      return res.status(403).json({ message: 'This shift belongs to another cashier' });
+    }
+    
+    if (shift.status !== 'open') {
+      return res.status(400).json({ message: 'Shift is already closed' });
+    }
+    
+    const { expected_cash } = await buildShiftReport(pool, shift);
+    
+    await pool.execute(`
+      UPDATE cash_shifts
+      SET status = 'closed', expected_cash = ?, counted_cash = ?, variance = ?, notes = ?, closed_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'open'
+    `, [expected_cash, countedCash, roundMoney(countedCash - expected_cash), notes || null, shift.id]);
+    
+    res.json(await buildShiftReport(pool, await findShift(pool, shift.id)));
+  } catch (error) {
+    console.error('Error closing shift:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get all users with their roles and permissions
+app.get('/api/users', authenticateToken, async (req, res) => {
+  try {
+    const [users] = await pool.execute(`
+      SELECT 
+        u.*,
+        r.name as role_name,
+        r.description as role_description,
+        GROUP_CONCAT(DISTINCT p.name) as permissions
+      FROM users u
+      LEFT JOIN roles r ON u.role_id = r.id
+      LEFT JOIN role_permissions rp ON r.id = rp.role_id
+      LEFT JOIN permissions p ON rp.permission_id = p.id
+      GROUP BY u.id
+      ORDER BY u.created_at DESC
+    `);
+    
+    res.json(users);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+// Get all roles with their permissions
+app.get('/api/roles', authenticateToken, async (req, res) => {
+  try {
+    const [roles] = await pool.execute(`
+      SELECT 
+        r.*,
+        GROUP_CONCAT(DISTINCT p.name) as permissions
+      FROM roles r
+      LEFT JOIN role_permissions rp ON r.id = rp.role_id
+      LEFT JOIN permissions p ON rp.permission_id = p.id
+      GROUP BY r.id
+      ORDER BY r.name
+    `);
+    
+    res.json(roles);
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    res.status(500).json({ error: 'Failed to fetch roles' });
+  }
+});
+
+// Update user role
+app.put('/api/users/:id/role', authenticateToken, async (req, res) => {
+  try {
+    const { roleId } = req.body;
+    const userId = req.params.id;
+    
+    await pool.execute(
+      'UPDATE users SET role_id = ? WHERE id = ?',
+      [roleId, userId]
+    );
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    res.status(500).json({ error: 'Failed to update user role' });
+  }
+});
+
+// Update role permissions
+app.put('/api/roles/:id/permissions', authenticateToken, async (req, res) => {
+  try {
+    const { permissions } = req.body;
+    const roleId = req.params.id;
+    
+    const connection = await pool.getConnection();
+    
+    try {
+      // Start transaction
+      await connection.beginTransaction();
+      
+      // Remove existing permissions
+      await connection.execute(
+        'DELETE FROM role_permissions WHERE role_id = ?',
+        [roleId]
+      );
+      
+      // Add new permissions
+      if (permissions && permissions.length > 0) {
+        const values = permissions.map(permissionId => [roleId, permissionId]);
+        await connection.execute(
+          'INSERT INTO role_permissions (role_id, permission_id) VALUES ?',
+          [values]
+        );
+      }
+      
+      await connection.commit();
+      res.json({ success: true });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error updating role permissions:', error);
+    res.status(500).json({ error: 'Failed to update role permissions' });
+  }
+});
+
+// Delete user
+app.delete('/api/users/:id', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.params.id;
+    
+    // Don't allow deleting the last admin
+    const [users] = await pool.execute(
+      'SELECT COUNT(*) as count FROM users u JOIN roles r ON u.role_id = r.id WHERE r.name = "admin"'
+    );
+    
+    if (users[0].count <= 1) {
+      const [userToDelete] = await pool.execute(
+        'SELECT r.name as role_name FROM users u JOIN roles r ON u.role_id = r.id WHERE u.id = ?',
+        [userId]
+      );
+      
+      if (userToDelete[0]?.role_name === 'admin') {
+        return res.status(400).json({ error: 'Cannot delete the last admin user' });
+      }
+    }
+    
+    await pool.execute('DELETE FROM users WHERE id = ?', [userId]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+// Create new user
+app.post('/api/users', authenticateToken, async (req, res) => {
+  try {
+    const { name, email, password, role_id } = req.body;
+    
+    // Validate required fields
+    if (!name || !email || !password || !role_id) {
+      return res.status(400).json({ message: 'Missing required fields' });
+    }
+    
+    // Check if user already exists
+    const [existingUsers] = await pool.execute(
+      'SELECT * FROM users WHERE email = ?',
+      [email]
+    );
+    
+    if (existingUsers.length > 0) {
+      return res.status(400).json({ message: 'User already exists' });
+    }
+    
+    // Hash password
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+    
+    // Create user
+    const [result] = await pool.execute(
+      'INSERT INTO users (name, email, password, role_id) VALUES (?, ?, ?, ?)',
+      [name, email, hashedPassword, role_id]
+    );
+    
+    // Get created user with role and permissions
+    const [users] = await pool.execute(`
+      SELECT 
+        u.*,
+        r.name as role_name,
+        r.description as role_description,
+        GROUP_CONCAT(DISTINCT p.name) as permissions
+      FROM users u
+      LEFT JOIN roles r ON u.role_id = r.id
+      LEFT JOIN role_permissions rp ON r.id = rp.role_id
+      LEFT JOIN permissions p ON rp.permission_id = p.id
+      WHERE u.id = ?
+      GROUP BY u.id
+    `, [result.insertId]);
+    
+    if (!users || users.length === 0) {
+      throw new Error('Failed to retrieve created user');
+    }
+    
+    const user = users[0];
+    const { password: _, ...userWithoutPassword } = user;
+    
+    // Format response
+    const newUser = {
+      id: user.id.toString(),
+      name: user.name,
+      email: user.email,
+      role_id: user.role_id,
+      role_name: user.role_name,
+      role_description: user.role_description,
+      permissions: user.permissions,
+      created_at: user.created_at
+    };
+    
+    res.status(201).json(newUser);
+  } catch (error) {
+    console.error('Error creating user:', error);
+    res.status(500).json({ 
+      message: 'Server error', 
+      error: error.message,
+      details: error.stack 
+    });
+  }
+});
+
+// Subscriber routes
+
+// Subscriber columns plus membership summary derived from their subscriptions.
+// Status comes from the stored subscription status kept current by the lifecycle job.
+// Callers append their own WHERE clause followed by GROUP BY s.id.
+const SUBSCRIBER_SUMMARY_SQL = `
+      SELECT 
+        s.*,
+        COUNT(DISTINCT sub.id) as total_subscriptions,
+        MAX(CASE WHEN sub.status != 'cancelled' THEN sub.end_date END) as latest_end_date,
+        CASE
+          WHEN EXISTS (
+            SELECT 1 FROM subscription_freezes f
+            JOIN subscriptions fs ON f.subscription_id = fs.id
+            WHERE fs.subscriber_id = s.id
+            AND fs.status != 'cancelled'
+            AND f.status = 'active'
+            AND CURRENT_DATE BETWEEN f.start_date AND f.end_date
+          ) THEN 'frozen'
+          WHEN SUM(sub.status = 'active') > 0 THEN 'active'
+          WHEN SUM(sub.status = 'pending') > 0 THEN 'pending'
+          WHEN MAX(sub.id) = MAX(CASE WHEN sub.status = 'cancelled' THEN sub.id END) THEN 'cancelled'
+          WHEN COUNT(sub.id) > 0 THEN 'expired'
+          ELSE 'no_subscription'
+        END as current_status,
+        SUM(CASE
+          WHEN sub.visits_remaining IS NOT NULL AND sub.status != 'cancelled'
+          AND CURRENT_DATE BETWEEN sub.start_date AND sub.end_date
+          THEN sub.visits_remaining
+        END) as remaining_visits,
+        COALESCE(SUM(CASE
+          WHEN sub.status != 'cancelled' THEN sub.total_amount - sub.amount_paid
+        END), 0) as outstanding_balance
+      FROM subscribers s
+      LEFT JOIN subscriptions sub ON s.id = sub.subscriber_id`;
+
+// Get all subscribers
+app.get('/api/subscribers', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const [subscribers] = await pool.execute(`
+      ${SUBSCRIBER_SUMMARY_SQL}
+      WHERE s.branch_id = ? OR s.branch_id IS NULL
+      GROUP BY s.id
+      ORDER BY s.created_at DESC
+    `, [req.branch_id]);
+    
+    res.json(subscribers);
+  } catch (error) {
+    console.error('Error fetching subscribers:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Search subscribers by name, phone, email or card number (front desk lookup)
+app.get('/api/subscribers/search', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    
+    if (!q) {
+      return res.json([]);
+    }
+    
+    const like = `%${q}%`;
+    const [subscribers] = await pool.execute(`
+      ${SUBSCRIBER_SUMMARY_SQL}
+      WHERE (s.branch_id = ? OR s.branch_id IS NULL)
+      AND (s.card_number = ? OR s.name LIKE ? OR s.phone LIKE ? OR s.email LIKE ?)
+      GROUP BY s.id
+      ORDER BY s.card_number = ? DESC, s.name
+      LIMIT 20
+    `, [req.branch_id, q, like, like, like, q]);
+    
+    res.json(subscribers);
+  } catch (error) {
+    console.error('Error searching subscribers:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create subscriber
+app.post('/api/subscribers', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { name, email, phone, address, date_of_birth, gender, emergency_contact, emergency_phone, card_number } = req.body;
+    
+    // Validate required fields
+    if (!name) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+    
+    // Check if email already exists
+    if (email) {
+      const [existingSubscribers] = await pool.execute(
+        'SELECT * FROM subscribers WHERE email = ?',
+        [email]
+      );
+      
+      if (existingSubscribers.length > 0) {
+        return res.status(400).json({ message: 'Email already exists' });
+      }
+    }
+    
+    // Check if card number already exists
+    if (card_number) {
+      const [existingCards] = await pool.execute(
+        'SELECT id FROM subscribers WHERE card_number = ?',
+        [card_number]
+      );
+      
+      if (existingCards.length > 0) {
+        return res.status(400).json({ message: 'Card number already assigned to another subscriber' });
+      }
+    }
+    
+    // Insert new subscriber with branch_id
+    const [result] = await pool.execute(
+      'INSERT INTO subscribers (name, email, phone, address, date_of_birth, gender, emergency_contact, emergency_phone, card_number, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [name, email || null, phone || null, address || null, date_of_birth || null, gender || null, emergency_contact || null, emergency_phone || null, card_number || null, req.branch_id]
+    );
+    
+    // Get the newly created subscriber
+    const [subscribers] = await pool.execute(`
+      ${SUBSCRIBER_SUMMARY_SQL}
+      WHERE s.id = ?
+      GROUP BY s.id
+    `, [result.insertId]);
+    
+    res.status(201).json(subscribers[0]);
+  } catch (error) {
+    console.error('Error creating subscriber:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update subscriber
+app.put('/api/subscribers/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, email, phone, address, date_of_birth, gender, emergency_contact, emergency_phone, card_number } = req.body;
+    
+    // Validate required fields
+    if (!name) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+    
+    // Check if subscriber exists
+    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    // Check if email already exists (for another subscriber)
+    if (email) {
+      const [existingSubscribers] = await pool.execute(
+        'SELECT * FROM subscribers WHERE email = ? AND id != ?',
+        [email, id]
+      );
+      
+      if (existingSubscribers.length > 0) {
+        return res.status(400).json({ message: 'Email already exists' });
+      }
+    }
+    
+    // Check if card number already exists (for another subscriber)
+    if (card_number) {
+      const [existingCards] = await pool.execute(
+        'SELECT id FROM subscribers WHERE card_number = ? AND id != ?',
+        [card_number, id]
+      );
+      
+      if (existingCards.length > 0) {
+        return res.status(400).json({ message: 'Card number already assigned to another subscriber' });
+      }
+    }
+    
+    // Update subscriber
+    await pool.execute(
+      'UPDATE subscribers SET name = ?, email = ?, phone = ?, address = ?, date_of_birth = ?, gender = ?, emergency_contact = ?, emergency_phone = ?, card_number = ? WHERE id = ?',
+      [name, email || null, phone || null, address || null, date_of_birth || null, gender || null, emergency_contact || null, emergency_phone || null, card_number || null, id]
+    );
+    
+    // Get updated subscriber
+    const [subscribers] = await pool.execute(`
+      ${SUBSCRIBER_SUMMARY_SQL}
+      WHERE s.id = ?
+      GROUP BY s.id
+    `, [id]);
+    
+    res.json(subscribers[0]);
+  } catch (error) {
+    console.error('Error updating subscriber:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete subscriber
+app.delete('/api/subscribers/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Check if subscriber exists
+    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    // Delete subscriber (subscriptions will be deleted via CASCADE)
+    await pool.execute('DELETE FROM subscribers WHERE id = ?', [id]);
+    
+    res.json({ message: 'Subscriber deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting subscriber:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get subscriber's subscriptions
+app.get('/api/subscribers/:id/subscriptions', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    // Check if subscriber exists
+    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    // Get subscriptions with package details and freeze usage
+    const [subscriptions] = await pool.execute(`
+      SELECT 
+        sub.*,
+        p.name as package_name,
+        p.days as package_days,
+        p.price as package_price,
+        p.type as package_type,
+        p.max_freezes as package_max_freezes,
+        p.max_freeze_days as package_max_freeze_days,
+        (SELECT COALESCE(SUM(r.amount), 0) FROM subscription_refunds r WHERE r.subscription_id = sub.id) as refunded_amount,
+        fc.change_type,
+        fc.credit_amount as change_credit,
+        fc.carried_balance as change_carried_balance,
+        fc.wallet_credit as change_wallet_credit,
+        fc.difference as change_difference,
+        fp.name as previous_package_name,
+        tp.name as next_package_name,
+        tc.created_at as changed_at,
+        (SELECT COUNT(*) FROM subscription_freezes f WHERE f.subscription_id = sub.id AND f.status = 'active') as freeze_count,
+        (SELECT COALESCE(SUM(f.days), 0) FROM subscription_freezes f WHERE f.subscription_id = sub.id AND f.status = 'active') as frozen_days,
+        EXISTS (
+          SELECT 1 FROM subscription_freezes f
+          WHERE f.subscription_id = sub.id
+          AND f.status = 'active'
+          AND CURRENT_DATE BETWEEN f.start_date AND f.end_date
+        ) as is_frozen
+      FROM subscriptions sub
+      JOIN packages p ON sub.package_id = p.id
+      LEFT JOIN subscription_changes fc ON fc.to_subscription_id = sub.id
+      LEFT JOIN packages fp ON fc.from_package_id = fp.id
+      LEFT JOIN subscription_changes tc ON tc.from_subscription_id = sub.id
+      LEFT JOIN packages tp ON tc.to_package_id = tp.id
+      WHERE sub.subscriber_id = ?
+      ORDER BY sub.created_at DESC
+    `, [id]);
+    
+    res.json(subscriptions);
+  } catch (error) {
+    console.error('Error fetching subscriber subscriptions:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Whether a subscriber gets member pricing at the current branch, and their points, for the POS
+app.get('/api/subscribers/:id/membership', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const [existingSubscribers] = await pool.execute('SELECT id FROM subscribers WHERE id = ?', [req.params.id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    res.json({
+      membership: await loadMemberPricing(pool, req.params.id, req.branch_id),
+      points: await loadMemberPoints(pool, req.params.id, req.branch_id)
+    });
+  } catch (error) {
+    console.error('Error fetching subscriber membership:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// POS sales made to a subscriber, newest first
+app.get('/api/subscribers/:id/purchases', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    const [existingSubscribers] = await pool.execute('SELECT id FROM subscribers WHERE id = ?', [id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    const [sales] = await pool.query(`
+      SELECT s.*, u.name as created_by_name, b.name as branch_name, ${SALE_RETURNS_TOTAL_SQL} as returned_total
+      FROM sales s
+      LEFT JOIN users u ON s.created_by = u.id
+      LEFT JOIN branches b ON s.branch_id = b.id
+      WHERE s.customer_id = ?
+      ORDER BY s.created_at DESC
+      LIMIT 100
+    `, [id]);
+    
+    res.json(await attachSaleDetails(pool, sales));
+  } catch (error) {
+    console.error('Error fetching subscriber purchases:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Derive the payment status from what has been paid against the subscription total
+function getPaymentStatus(totalAmount, amountPaid) {
+  if (amountPaid <= 0) return 'pending';
+  return amountPaid >= parseFloat(totalAmount) ? 'paid' : 'partial';
+}
+
+// Record a payment against a subscription and roll it into amount_paid and payment_status.
+// Must be called inside a transaction with the subscription row locked.
+async function recordSubscriptionPayment(connection, subscription, payment) {
+  const amountPaid = Math.round((parseFloat(subscription.amount_paid || 0) + payment.amount) * 100) / 100;
+
+  const [result] = await connection.execute(
+    'INSERT INTO subscription_payments (subscription_id, sale_id, amount, payment_method, reference, payment_date, notes, created_by) VALUES (?, ?, ?, ?, ?, COALESCE(?, CURRENT_DATE), ?, ?)',
+    [subscription.id, payment.sale_id || null, payment.amount, payment.payment_method, parsePaymentReference(payment.reference), payment.payment_date || null, payment.notes || null, payment.created_by]
+  );
+
+  await connection.execute(
+    'UPDATE subscriptions SET amount_paid = ?, payment_status = ? WHERE id = ?',
+    [amountPaid, getPaymentStatus(subscription.total_amount, amountPaid), subscription.id]
+  );
+
+  return result.insertId;
+}
+
+// Insert a subscription for a package, recording any up-front payment. totalAmount and
+// extraDays cover promo codes that lower the price or add free days.
+// Must be called inside a transaction. Returns the new subscription id.
+async function insertSubscription(connection, { subscriberId, pkg, startDate, paymentMethod, paymentReference = null, amountPaid = 0, totalAmount = pkg.price, extraDays = 0, notes, createdBy, previousSubscriptionId = null }) {
+  // Session packages grant a fixed number of visits within the validity window
+  const visits = pkg.type === 'sessions' ? pkg.visits : null;
+
+  // Subscriptions starting in the future wait as pending until the lifecycle job activates them
+  const [result] = await connection.execute(`
+    INSERT INTO subscriptions (
+      subscriber_id, package_id, previous_subscription_id, start_date, end_date, status,
+      total_amount, visits_total, visits_remaining, payment_method, notes, created_by
+    ) VALUES (?, ?, ?, ?, DATE_ADD(?, INTERVAL ? DAY), IF(? > CURRENT_DATE, 'pending', 'active'), ?, ?, ?, ?, ?, ?)
+  `, [
+    subscriberId, pkg.id, previousSubscriptionId, startDate, startDate, pkg.days + extraDays, startDate,
+    totalAmount, visits, visits, paymentMethod, notes || null, createdBy
+  ]);
+
+  // Record whatever the member paid up front; the rest stays outstanding
+  if (amountPaid > 0) {
+    await recordSubscriptionPayment(
+      connection,
+      { id: result.insertId, total_amount: totalAmount, amount_paid: 0 },
+      { amount: amountPaid, payment_method: paymentMethod, reference: paymentReference, created_by: createdBy }
+    );
+  }
+
+  return result.insertId;
+}
+
+// Get a subscription with its package details
+async function findSubscriptionWithPackage(db, id) {
+  const [subscriptions] = await db.execute(`
+    SELECT 
+      sub.*,
+      p.name as package_name,
+      p.days as package_days,
+      p.price as package_price,
+      p.type as package_type
+    FROM subscriptions sub
+    JOIN packages p ON sub.package_id = p.id
+    WHERE sub.id = ?
+  `, [id]);
+
+  return subscriptions[0] || null;
+}
+
+// Parse an up-front payment amount, returning NaN if it is outside 0..price
+function parseInitialPayment(amountPaid, price) {
+  const amount = amountPaid ? Math.round(parseFloat(amountPaid) * 100) / 100 : 0;
+  return amount < 0 || amount > parseFloat(price) ? NaN : amount;
+}
+
+// Create subscription
+app.post('/api/subscriptions', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { subscriber_id, package_id, start_date, payment_method, payment_reference, amount_paid, notes, coupon_code, account_code } = req.body;
+    
+    // Validate required fields
+    if (!subscriber_id || !package_id || !start_date || !payment_method) {
+      return res.status(400).json({ message: 'Missing required fields' });
+    }
+    
+    // Check if subscriber exists
+    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [subscriber_id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    // Get package details
+    const [packages] = await pool.execute('SELECT * FROM packages WHERE id = ?', [package_id]);
+    if (packages.length === 0) {
+      return res.status(404).json({ message: 'Package not found' });
+    }
+    
+    const pkg = packages[0];
+    
+    const couponQuote = await quoteCouponForPackage(pool, {
+      code: coupon_code,
+      branchId: req.branch_id,
+      subscriberId: subscriber_id,
+      pkg
+    });
+    if (couponQuote.error) {
+      return res.status(couponQuote.status).json({ message: couponQuote.error });
+    }
+    
+    const initialPayment = parseInitialPayment(amount_paid, couponQuote.price);
+    
+    if (isNaN(initialPayment)) {
+      return res.status(400).json({ message: 'Amount paid must be between 0 and the package price' });
+    }
+    
+    const paymentError = await checkPaymentMethod(pool, req.branch_id, {
+      code: payment_method,
+      reference: payment_reference,
+      paid: initialPayment > 0,
+      builtIns: ['stored_value']
+    });
+    if (paymentError) {
+      return res.status(400).json({ message: paymentError });
+    }
+    
+    const connection = await pool.getConnection();
+    let subscriptionId;
+    
+    try {
+      await connection.beginTransaction();
+      
+      subscriptionId = await insertSubscription(connection, {
+        subscriberId: subscriber_id,
+        pkg,
+        startDate: start_date,
+        paymentMethod: payment_method,
+        paymentReference: payment_reference,
+        amountPaid: initialPayment,
+        totalAmount: couponQuote.price,
+        extraDays: couponQuote.free_days,
+        notes,
+        createdBy: req.user.id
+      });
+      
+      if (couponQuote.coupon) {
+        const couponError = await redeemCoupon(connection, couponQuote.coupon, {
+          subscriberId: subscriber_id,
+          subscriptionId,
+          branchId: req.branch_id,
+          redeemedBy: req.user.id
+        });
+        if (couponError) {
+          await connection.rollback();
+          return res.status(409).json({ message: couponError });
+        }
+      }
+      
+      if (payment_method === 'stored_value' && initialPayment > 0) {
+        const chargeError = await chargeStoredValueForSubscription(connection, {
+          branchId: req.branch_id,
+          subscriberId: subscriber_id,
+          code: account_code,
+          amount: initialPayment,
+          subscriptionId,
+          createdBy: req.user.id
+        });
+        if (chargeError) {
+          await connection.rollback();
+          return res.status(409).json({ message: chargeError });
+        }
+      }
+      
+      await awardLoyaltyPoints(connection, await loadLoyaltyProgram(connection, req.branch_id), {
+        subscriberId: subscriber_id,
+        amount: initialPayment,
+        packageId: pkg.id,
+        subscriptionId,
+        branchId: req.branch_id,
+        notes: `Subscription #${subscriptionId}`,
+        createdBy: req.user.id
+      });
+      
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+    
+    res.status(201).json(await findSubscriptionWithPackage(pool, subscriptionId));
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Renew a subscription on the same package, starting the day after it ends (or today if it has lapsed)
+app.post('/api/subscriptions/:id/renew', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { payment_method, payment_reference, amount_paid, notes, account_code } = req.body;
+    
+    const [subscriptions] = await pool.execute(`
+      SELECT sub.*, DATE_FORMAT(GREATEST(DATE_ADD(sub.end_date, INTERVAL 1 DAY), CURRENT_DATE), '%Y-%m-%d') as renewal_start
+      FROM subscriptions sub
+      WHERE sub.id = ?
+    `, [id]);
+    
+    if (subscriptions.length === 0) {
+      return res.status(404).json({ message: 'Subscription not found' });
+    }
+    
+    const subscription = subscriptions[0];
+    const [packages] = await pool.execute('SELECT * FROM packages WHERE id = ?', [subscription.package_id]);
+    if (packages.length === 0) {
+      return res.status(404).json({ message: 'Package not found' });
+    }
+    
+    const pkg = packages[0];
+    const initialPayment = parseInitialPayment(amount_paid, pkg.price);
+    
+    if (isNaN(initialPayment)) {
+      return res.status(400).json({ message: 'Amount paid must be between 0 and the package price' });
+    }
+    
+    // Without a new method the renewal keeps the old one, which only has to be valid if money is taken
+    if (payment_method || initialPayment > 0) {
+      const paymentError = await checkPaymentMethod(pool, req.branch_id, {
+        code: payment_method || subscription.payment_method,
+        reference: payment_reference,
+        paid: initialPayment > 0,
+        builtIns: ['stored_value']
+      });
+      if (paymentError) {
+        return res.status(400).json({ message: paymentError });
+      }
+    }
+    
+    const connection = await pool.getConnection();
+    let subscriptionId;
+    
+    try {
+      await connection.beginTransaction();
+      
+      subscriptionId = await insertSubscription(connection, {
+        subscriberId: subscription.subscriber_id,
+        pkg,
+        startDate: subscription.renewal_start,
+        paymentMethod: payment_method || subscription.payment_method,
+        paymentReference: payment_reference,
+        amountPaid: initialPayment,
+        notes: notes || `Renewal of subscription #${subscription.id}`,
+        createdBy: req.user.id
+      });
+      
+      if ((payment_method || subscription.payment_method) === 'stored_value' && initialPayment > 0) {
+        const chargeError = await chargeStoredValueForSubscription(connection, {
+          branchId: req.branch_id,
+          subscriberId: subscription.subscriber_id,
+          code: account_code,
+          amount: initialPayment,
+          subscriptionId,
+          createdBy: req.user.id
+        });
+        if (chargeError) {
+          await connection.rollback();
+          return res.status(409).json({ message: chargeError });
+        }
+      }
+      
+      await awardLoyaltyPoints(connection, await loadLoyaltyProgram(connection, req.branch_id), {
+        subscriberId: subscription.subscriber_id,
+        amount: initialPayment,
+        packageId: pkg.id,
+        subscriptionId,
+        branchId: req.branch_id,
+        notes: `Renewal of subscription #${subscription.id}`,
+        createdBy: req.user.id
+      });
+      
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+    
+    res.status(201).json(await findSubscriptionWithPackage(pool, subscriptionId));
+  } catch (error) {
+    console.error('Error renewing subscription:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= SUBSCRIPTION PAYMENT ROUTES =======================
+
+// Get payments recorded against a subscription
+app.get('/api/subscriptions/:id/payments', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [payments] = await pool.execute(`
+      SELECT sp.*, u.name as created_by_name
+      FROM subscription_payments sp
+      LEFT JOIN users u ON sp.created_by = u.id
+      WHERE sp.subscription_id = ?
+      ORDER BY sp.payment_date DESC, sp.created_at DESC
+    `, [id]);
+
+    res.json(payments.map(payment => ({ ...payment, amount: parseFloat(payment.amount) })));
+  } catch (error) {
+    console.error('Error fetching subscription payments:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Record a full or partial payment against a subscription
+app.post('/api/subscriptions/:id/payments', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { amount, payment_method, payment_reference, payment_date, notes, account_code } = req.body;
+
+    const paymentAmount = Math.round(parseFloat(amount) * 100) / 100;
+
+    if (!payment_method || isNaN(paymentAmount) || paymentAmount <= 0) {
+      return res.status(400).json({ message: 'A positive amount and payment method are required' });
+    }
+
+    const paymentError = await checkPaymentMethod(pool, req.branch_id, {
+      code: payment_method,
+      reference: payment_reference,
+      builtIns: ['stored_value']
+    });
+    if (paymentError) {
+      return res.status(400).json({ message: paymentError });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [subscriptions] = await connection.execute('SELECT * FROM subscriptions WHERE id = ? FOR UPDATE', [id]);
+
+      if (subscriptions.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Subscription not found' });
+      }
+
+      const subscription = subscriptions[0];
+      const outstanding = Math.round((parseFloat(subscription.total_amount) - parseFloat(subscription.amount_paid)) * 100) / 100;
+
+      if (subscription.status === 'cancelled') {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Cannot take payments for a cancelled subscription' });
+      }
+
+      if (paymentAmount > outstanding) {
+        await connection.rollback();
+        return res.status(400).json({ message: `Payment exceeds the outstanding balance of ${outstanding.toFixed(2)}` });
+      }
+
+      const paymentId = await recordSubscriptionPayment(connection, subscription, {
+        amount: paymentAmount,
+        payment_method,
+        reference: payment_reference,
+        payment_date,
+        notes,
+        created_by: req.user.id
+      });
+
+      if (payment_method === 'stored_value') {
+        const chargeError = await chargeStoredValueForSubscription(connection, {
+          branchId: req.branch_id,
+          subscriberId: subscription.subscriber_id,
+          code: account_code,
+          amount: paymentAmount,
+          subscriptionId: subscription.id,
+          createdBy: req.user.id
+        });
+        if (chargeError) {
+          await connection.rollback();
+          return res.status(409).json({ message: chargeError });
+        }
+      }
+
+      await awardLoyaltyPoints(connection, await loadLoyaltyProgram(connection, req.branch_id), {
+        subscriberId: subscription.subscriber_id,
+        amount: paymentAmount,
+        subscriptionId: subscription.id,
+        branchId: req.branch_id,
+        notes: `Payment on subscription #${subscription.id}`,
+        createdBy: req.user.id
+      });
+
+      await connection.commit();
+
+      const [payments] = await pool.execute(`
+        SELECT sp.*, u.name as created_by_name
+        FROM subscription_payments sp
+        LEFT JOIN users u ON sp.created_by = u.id
+        WHERE sp.id = ?
+      `, [paymentId]);
+
+      res.status(201).json({ ...payments[0], amount: parseFloat(payments[0].amount) });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error recording subscription payment:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= SUBSCRIPTION FREEZE ROUTES =======================
+
+// Format a freeze row for the API response
+function formatFreeze(freeze) {
+  return {
+    id: freeze.id,
+    subscription_id: freeze.subscription_id,
+    start_date: freeze.start_date,
+    end_date: freeze.end_date,
+    original_end_date: freeze.original_end_date,
+    days: freeze.days,
+    reason: freeze.reason || '',
+    status: freeze.status,
+    created_by_name: freeze.created_by_name || 'System',
+    created_at: freeze.created_at
+  };
+}
+
+// Get freezes for a subscription
+app.get('/api/subscriptions/:id/freezes', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [subscriptions] = await pool.execute('SELECT id FROM subscriptions WHERE id = ?', [id]);
+    if (subscriptions.length === 0) {
+      return res.status(404).json({ message: 'Subscription not found' });
+    }
+
+    const [freezes] = await pool.execute(`
+      SELECT f.*, u.name as created_by_name
+      FROM subscription_freezes f
+      LEFT JOIN users u ON f.created_by = u.id
+      WHERE f.subscription_id = ?
+      ORDER BY f.start_date DESC
+    `, [id]);
+
+    res.json(freezes.map(formatFreeze));
+  } catch (error) {
+    console.error('Error fetching subscription freezes:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Freeze a subscription for a date range and push its end date out by the frozen days
+app.post('/api/subscriptions/:id/freezes', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { start_date, end_date, reason } = req.body;
+
+    // Validate required fields
+    if (!start_date || !end_date) {
+      return res.status(400).json({ message: 'Start date and end date are required' });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      // Lock the subscription so concurrent freezes cannot exceed the package limits
+      const [subscriptions] = await connection.execute(`
+        SELECT sub.*, p.max_freezes, p.max_freeze_days,
+          DATEDIFF(?, ?) + 1 as requested_days,
+          ? BETWEEN sub.start_date AND sub.end_date as starts_within_term
+        FROM subscriptions sub
+        JOIN packages p ON sub.package_id = p.id
+        WHERE sub.id = ?
+        FOR UPDATE
+      `, [end_date, start_date, start_date, id]);
+
+      if (subscriptions.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Subscription not found' });
+      }
+
+      const subscription = subscriptions[0];
+      const days = subscription.requested_days;
+
+      // An expired subscription can't be used again, so days added to it by a freeze would be lost
+      if (subscription.status !== 'active' && subscription.status !== 'pending') {
+        await connection.rollback();
+        return res.status(400).json({ message: `Cannot freeze a ${subscription.status} subscription` });
+      }
+
+      if (!days || days < 1) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'End date must be on or after start date' });
+      }
+
+      if (!subscription.starts_within_term) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Freeze must start within the subscription period' });
+      }
+
+      // Reject overlapping freezes on the same subscription
+      const [overlapping] = await connection.execute(`
+        SELECT id FROM subscription_freezes
+        WHERE subscription_id = ? AND status = 'active'
+        AND start_date <= ? AND end_date >= ?
+      `, [id, end_date, start_date]);
+
+      if (overlapping.length > 0) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Freeze overlaps an existing freeze' });
+      }
+
+      // Enforce the package freeze limits
+      const [usage] = await connection.execute(`
+        SELECT COUNT(*) as freeze_count, COALESCE(SUM(days), 0) as frozen_days
+        FROM subscription_freezes
+        WHERE subscription_id = ? AND status = 'active'
+      `, [id]);
+
+      const { freeze_count, frozen_days } = usage[0];
+
+      if (subscription.max_freezes !== null && freeze_count >= subscription.max_freezes) {
+        await connection.rollback();
+        return res.status(400).json({ message: `This package allows at most ${subscription.max_freezes} freezes` });
+      }
+
+      if (subscription.max_freeze_days !== null && Number(frozen_days) + days > subscription.max_freeze_days) {
+        await connection.rollback();
+        return res.status(400).json({
+          message: `This package allows at most ${subscription.max_freeze_days} frozen days (${subscription.max_freeze_days - Number(frozen_days)} remaining)`
+        });
+      }
+
+      const [result] = await connection.execute(
+        'INSERT INTO subscription_freezes (subscription_id, start_date, end_date, days, reason, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+        [id, start_date, end_date, days, reason || null, req.user.id]
+      );
+
+      // Extend the subscription by the frozen days
+      await connection.execute(
+        'UPDATE subscriptions SET end_date = DATE_ADD(end_date, INTERVAL ? DAY) WHERE id = ?',
+        [days, id]
+      );
+
+      await connection.commit();
+
+      const [freezes] = await pool.execute(`
+        SELECT f.*, u.name as created_by_name
+        FROM subscription_freezes f
+        LEFT JOIN users u ON f.created_by = u.id
+        WHERE f.id = ?
+      `, [result.insertId]);
+
+      res.status(201).json(formatFreeze(freezes[0]));
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error freezing subscription:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// End a freeze early and give back the unused frozen days
+app.post('/api/subscriptions/:id/freezes/:freezeId/unfreeze', authenticateToken, async (req, res) => {
+  try {
+    const { id, freezeId } = req.params;
+    const { resume_date } = req.body;
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      // The member is back on resume_date, so the freeze covers the days before it
+      const [freezes] = await connection.execute(`
+        SELECT f.*,
+          GREATEST(DATEDIFF(COALESCE(?, CURRENT_DATE), f.start_date), 0) as used_days,
+          COALESCE(?, CURRENT_DATE) > f.end_date as resumes_after_end
+        FROM subscription_freezes f
+        WHERE f.id = ? AND f.subscription_id = ?
+        FOR UPDATE
+      `, [resume_date || null, resume_date || null, freezeId, id]);
+
+      if (freezes.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Freeze not found' });
+      }
+
+      const freeze = freezes[0];
+
+      if (freeze.status !== 'active') {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Freeze has already been cancelled' });
+      }
+
+      if (freeze.resumes_after_end) {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Freeze has already ended' });
+      }
+
+      const usedDays = freeze.used_days;
+      const returnedDays = freeze.days - usedDays;
+
+      if (usedDays === 0) {
+        // Freeze never took effect
+        await connection.execute(
+          "UPDATE subscription_freezes SET status = 'cancelled', days = 0, original_end_date = end_date WHERE id = ?",
+          [freezeId]
+        );
+      } else {
+        await connection.execute(
+          'UPDATE subscription_freezes SET original_end_date = end_date, end_date = DATE_ADD(start_date, INTERVAL ? DAY), days = ? WHERE id = ?',
+          [usedDays - 1, usedDays, freezeId]
+        );
+      }
+
+      // Pull the subscription end date back by the days no longer frozen
+      await connection.execute(
+        'UPDATE subscriptions SET end_date = DATE_SUB(end_date, INTERVAL ? DAY) WHERE id = ?',
+        [returnedDays, id]
+      );
+
+      await connection.commit();
+
+      const [updated] = await pool.execute(`
+        SELECT f.*, u.name as created_by_name
+        FROM subscription_freezes f
+        LEFT JOIN users u ON f.created_by = u.id
+        WHERE f.id = ?
+      `, [freezeId]);
+
+      res.json(formatFreeze(updated[0]));
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error unfreezing subscription:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= SUBSCRIPTION CANCELLATION ROUTES =======================
+
+// Columns needed to prorate a refund: the full term length and the days not yet used
+const REFUND_TERM_SQL = `
+  DATEDIFF(sub.end_date, sub.start_date) as term_days,
+  DATEDIFF(sub.end_date, GREATEST(CURRENT_DATE, sub.start_date)) as unused_days,
+  (SELECT COALESCE(SUM(r.amount), 0) FROM subscription_refunds r WHERE r.subscription_id = sub.id) as refunded_amount
+`;
+
+// Calculate the refund owed for the unused part of a subscription term
+function calculateProratedRefund(subscription) {
+  const refundable = Math.max(parseFloat(subscription.amount_paid || 0) - parseFloat(subscription.refunded_amount || 0), 0);
+  const termDays = Math.max(subscription.term_days, 1);
+  const unusedDays = Math.min(Math.max(subscription.unused_days, 0), termDays);
+
+  return {
+    amount_paid: parseFloat(subscription.amount_paid || 0),
+    refundable,
+    term_days: termDays,
+    unused_days: unusedDays,
+    refund_amount: Math.round(refundable * unusedDays / termDays * 100) / 100
+  };
+}
+
+// Preview the prorated refund for cancelling a subscription today
+app.get('/api/subscriptions/:id/refund-quote', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [subscriptions] = await pool.execute(`
+      SELECT sub.*, ${REFUND_TERM_SQL}
+      FROM subscriptions sub
+      WHERE sub.id = ?
+    `, [id]);
+
+    if (subscriptions.length === 0) {
+      return res.status(404).json({ message: 'Subscription not found' });
+    }
+
+    res.json(calculateProratedRefund(subscriptions[0]));
+  } catch (error) {
+    console.error('Error calculating refund:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get refunds issued for a subscription
+app.get('/api/subscriptions/:id/refunds', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [refunds] = await pool.execute(`
+      SELECT r.*, u.name as created_by_name
+      FROM subscription_refunds r
+      LEFT JOIN users u ON r.created_by = u.id
+      WHERE r.subscription_id = ?
+      ORDER BY r.created_at DESC
+    `, [id]);
+
+    res.json(refunds.map(refund => ({ ...refund, amount: parseFloat(refund.amount) })));
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Cancel a subscription, optionally refunding the unused part to the original payment method
+app.post('/api/subscriptions/:id/cancel', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { reason, refund, refund_amount } = req.body;
+
+    if (!reason || !reason.trim()) {
+      return res.status(400).json({ message: 'Cancellation reason is required' });
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const [subscriptions] = await connection.execute(`
+        SELECT sub.*, ${REFUND_TERM_SQL}
+        FROM subscriptions sub
+        WHERE sub.id = ?
+        FOR UPDATE
+      `, [id]);
+
+      if (subscriptions.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Subscription not found' });
+      }
+
+      const subscription = subscriptions[0];
+
+      if (subscription.status === 'cancelled') {
+        await connection.rollback();
+        return res.status(400).json({ message: 'Subscription is already cancelled' });
+      }
+
+      // Staff may override the prorated amount, but never refund more than was paid
+      const quote = calculateProratedRefund(subscription);
+      let refundAmount = 0;
+
+      if (refund) {
+        refundAmount = refund_amount === undefined || refund_amount === null || refund_amount === ''
+          ? quote.refund_amount
+          : Math.round(parseFloat(refund_amount) * 100) / 100;
+
+        if (isNaN(refundAmount) || refundAmount < 0 || refundAmount > quote.refundable) {
+          await connection.rollback();
+          return res.status(400).json({ message: `Refund must be between 0 and ${quote.refundable.toFixed(2)}` });
+        }
+      }
+
+      await connection.execute(
+        'UPDATE subscriptions SET status = ?, cancelled_at = CURRENT_TIMESTAMP, cancellation_reason = ?, cancelled_by = ? WHERE id = ?',
+        ['cancelled', reason.trim(), req.user.id, id]
+      );
+      await recordStatusChange(connection, subscription.id, subscription.status, 'cancelled', 'cancelled', { createdBy: req.user.id });
+
+      // Freezes that have not started yet no longer apply
+      await connection.execute(
+        "UPDATE subscription_freezes SET status = 'cancelled' WHERE subscription_id = ? AND status = 'active' AND start_date > CURRENT_DATE",
+        [id]
+      );
+
+      if (refundAmount > 0) {
+        await connection.execute(
+          'INSERT INTO subscription_refunds (subscription_id, amount, payment_method, unused_days, reason, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+          [id, refundAmount, subscription.payment_method, quote.unused_days, reason.trim(), req.user.id]
+        );
+
+        // Memberships paid from a gift card or wallet are refunded onto it
+        const refundAccountId = subscription.payment_method === 'stored_value'
+          ? await findStoredValuePayer(connection, { subscriptionId: subscription.id })
+          : null;
+        if (refundAccountId) {
+          const credit = await postStoredValueEntry(connection, refundAccountId, {
+            type: 'refund',
+            amount: refundAmount,
+            subscriptionId: subscription.id,
+            notes: `Cancellation of subscription #${subscription.id}`,
+            createdBy: req.user.id
+          });
+          if (credit.error) {
+            await connection.rollback();
+            return res.status(credit.status).json({ message: credit.error });
+          }
+        }
+
+        // The refunded part of the membership gives back the points it earned
+        await reverseEarnedPoints(connection, {
+          subscriptionId: subscription.id,
+          share: parseFloat(subscription.amount_paid) > 0 ? refundAmount / parseFloat(subscription.amount_paid) : 1,
+          notes: `Cancellation of subscription #${subscription.id}`,
+          createdBy: req.user.id
+        });
+      }
+
+      await connection.commit();
+
+      res.json({
+        id: subscription.id,
+        status: 'cancelled',
+        cancellation_reason: reason.trim(),
+        refund_amount: refundAmount,
+        refund_payment_method: refundAmount > 0 ? subscription.payment_method : null
+      });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error cancelling subscription:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= SUBSCRIPTION CHANGE ROUTES =======================
+
+// Load a subscription with everything needed to value a package change, optionally locking it
+async function findChangeableSubscription(db, id, forUpdate = false) {
+  const [subscriptions] = await db.execute(`
+    SELECT sub.*, p.price as package_price, ${REFUND_TERM_SQL},
+      DATE_FORMAT(GREATEST(CURRENT_DATE, sub.start_date), '%Y-%m-%d') as effective_date,
+      EXISTS (
+        SELECT 1 FROM subscription_freezes f
+        WHERE f.subscription_id = sub.id
+        AND f.status = 'active'
+        AND CURRENT_DATE BETWEEN f.start_date AND f.end_date
+      ) as is_frozen
+    FROM subscriptions sub
+    JOIN packages p ON sub.package_id = p.id
+    WHERE sub.id = ?
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [id]);
+
+  return subscriptions[0] || null;
+}
+
+// Return an error message if the subscription cannot be moved to another package
+function validatePackageChange(subscription, newPackage) {
+  if (subscription.status === 'cancelled') {
+    return 'Cannot change a cancelled subscription';
+  }
+  if (subscription.unused_days < 0) {
+    return 'Subscription has already ended';
+  }
+  if (subscription.is_frozen) {
+    return 'Unfreeze the subscription before changing its package';
+  }
+  if (subscription.package_id === newPackage.id) {
+    return 'Subscription is already on this package';
+  }
+  return null;
+}
+
+// Settle the current subscription against the price of the new package. What the member paid beyond
+// the value of the days (or visits) they've used is credit; if they've used more than they paid for,
+// the shortfall is carried onto the new subscription. A positive difference is charged to the member;
+// credit above the new price goes onto their wallet.
+function calculatePackageChange(subscription, newPackage) {
+  const termDays = Math.max(subscription.term_days, 1);
+  const unusedDays = Math.min(Math.max(subscription.unused_days, 0), termDays);
+
+  // Session packages are valued by the visits left rather than the days left
+  const unusedShare = subscription.visits_total
+    ? subscription.visits_remaining / subscription.visits_total
+    : unusedDays / termDays;
+
+  const settled = roundMoney(parseFloat(subscription.amount_paid) - parseFloat(subscription.total_amount) * (1 - unusedShare));
+  const credit = Math.max(settled, 0);
+  const carriedBalance = Math.max(-settled, 0);
+  const newPrice = parseFloat(newPackage.price);
+
+  return {
+    change_type: newPrice >= parseFloat(subscription.package_price) ? 'upgrade' : 'downgrade',
+    effective_date: subscription.effective_date,
+    unused_days: unusedDays,
+    credit_amount: credit,
+    carried_balance: carriedBalance,
+    wallet_credit: roundMoney(Math.max(credit - newPrice, 0)),
+    new_price: newPrice,
+    difference: roundMoney(newPrice + carriedBalance - credit)
+  };
+}
+
+// Preview the credit and price difference for moving a subscription to another package
+app.get('/api/subscriptions/:id/change-quote', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { package_id } = req.query;
+
+    if (!package_id) {
+      return res.status(400).json({ message: 'Package is required' });
+    }
+
+    const subscription = await findChangeableSubscription(pool, id);
+    if (!subscription) {
+      return res.status(404).json({ message: 'Subscription not found' });
+    }
+
+    const [packages] = await pool.execute('SELECT * FROM packages WHERE id = ?', [package_id]);
+    if (packages.length === 0) {
+      return res.status(404).json({ message: 'Package not found' });
+    }
+
+    const validationError = validatePackageChange(subscription, packages[0]);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    res.json(calculatePackageChange(subscription, packages[0]));
+  } catch (error) {
+    console.error('Error calculating package change:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Upgrade or downgrade a subscription: close the current one and start the new package today
+app.post('/api/subscriptions/:id/change-package', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { package_id, payment_method, notes } = req.body;
+
+    if (!package_id) {
+      return res.status(400).json({ message: 'Package is required' });
+    }
+
+    // No money changes hands here; the difference is paid later against the new subscription
+    if (payment_method) {
+      const paymentError = await checkPaymentMethod(pool, req.branch_id, { code: payment_method, paid: false, builtIns: ['stored_value'] });
+      if (paymentError) {
+        return res.status(400).json({ message: paymentError });
+      }
+    }
+
+    const connection = await pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      const subscription = await findChangeableSubscription(connection, id, true);
+      if (!subscription) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Subscription not found' });
+      }
+
+      const [packages] = await connection.execute('SELECT * FROM packages WHERE id = ?', [package_id]);
+      if (packages.length === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Package not found' });
+      }
+
+      const newPackage = packages[0];
+      const validationError = validatePackageChange(subscription, newPackage);
+      if (validationError) {
+        await connection.rollback();
+        return res.status(400).json({ message: validationError });
+      }
+
+      const change = calculatePackageChange(subscription, newPackage);
+
+      // Close the current subscription the day before the new one starts. Its credit or unpaid balance
+      // moves to the new one, so it's left settled at what was paid on it.
+      await connection.execute(
+        "UPDATE subscriptions SET status = 'expired', end_date = DATE_SUB(?, INTERVAL 1 DAY), total_amount = amount_paid, payment_status = 'paid' WHERE id = ?",
+        [change.effective_date, id]
+      );
+      await recordStatusChange(connection, subscription.id, subscription.status, 'expired', 'package_changed', { createdBy: req.user.id });
+
+      await connection.execute(
+        "UPDATE subscription_freezes SET status = 'cancelled' WHERE subscription_id = ? AND status = 'active' AND start_date >= ?",
+        [id, change.effective_date]
+      );
+
+      const newTotal = roundMoney(change.new_price + change.carried_balance);
+      const newSubscriptionId = await insertSubscription(connection, {
+        subscriberId: subscription.subscriber_id,
+        pkg: newPackage,
+        startDate: change.effective_date,
+        paymentMethod: payment_method || subscription.payment_method,
+        totalAmount: newTotal,
+        notes,
+        createdBy: req.user.id,
+        previousSubscriptionId: subscription.id
+      });
+
+      // The credit counts towards paying for the new package
+      const appliedCredit = Math.min(change.credit_amount, newTotal);
+      if (appliedCredit > 0) {
+        await recordSubscriptionPayment(
+          connection,
+          { id: newSubscriptionId, total_amount: newTotal, amount_paid: 0 },
+          {
+            amount: appliedCredit,
+            payment_method: 'credit',
+            payment_date: change.effective_date,
+            notes: `Credit from subscription #${subscription.id}`,
+            created_by: req.user.id
+          }
+        );
+      }
+
+      // Credit the new package doesn't use up goes onto the member's wallet, opening one if they have none
+      if (change.wallet_credit > 0) {
+        const companyId = await findBranchCompanyId(connection, req.branch_id);
+        if (!companyId) {
+          await connection.rollback();
+          return res.status(400).json({ message: 'Select a branch first' });
+        }
+
+        let wallet = await findStoredValueAccount(connection, companyId, { subscriberId: subscription.subscriber_id });
+        if (!wallet) {
+          const [created] = await connection.query(
+            'INSERT INTO stored_value_accounts (company_id, branch_id, account_type, code, subscriber_id, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+            [companyId, req.branch_id || null, 'wallet', generateStoredValueCode('wallet'), subscription.subscriber_id, req.user.id]
+          );
+          wallet = { id: created.insertId };
+        }
+
+        const refund = await postStoredValueEntry(connection, wallet.id, {
+          type: 'refund',
+          amount: change.wallet_credit,
+          subscriptionId: newSubscriptionId,
+          branchId: req.branch_id,
+          notes: `Credit from subscription #${subscription.id} above the price of ${newPackage.name}`,
+          createdBy: req.user.id
+        });
+        if (refund.error) {
+          await connection.rollback();
+          return res.status(refund.status).json({ message: refund.error });
+        }
+      }
+
+      await connection.execute(`
+        INSERT INTO subscription_changes (
+          from_subscription_id, to_subscription_id, from_package_id, to_package_id, change_type,
+          unused_days, credit_amount, carried_balance, wallet_credit, new_price, difference, previous_end_date, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        subscription.id, newSubscriptionId, subscription.package_id, newPackage.id, change.change_type,
+        change.unused_days, change.credit_amount, change.carried_balance, change.wallet_credit, change.new_price,
+        change.difference, subscription.end_date, req.user.id
+      ]);
+
+      await connection.commit();
+
+      res.status(201).json({ ...change, subscription_id: newSubscriptionId });
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  } catch (error) {
+    console.error('Error changing subscription package:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= BACKGROUND JOBS =======================
+
+// Jobs in progress, so a manual run cannot overlap a scheduled one
+const runningJobs = new Set();
+
+// Jobs that run daily and can be triggered from the admin endpoints, keyed by URL slug
+const BACKGROUND_JOBS = {
+  'subscription-lifecycle': {
+    name: 'subscription_lifecycle',
+    hour: parseInt(process.env.SUBSCRIPTION_JOB_HOUR || '1'),
+    task: subscriptionLifecycleTask
+  },
+  'expiry-reminders': {
+    name: 'expiry_reminders',
+    hour: parseInt(process.env.REMINDER_JOB_HOUR || '9'),
+    task: expiryReminderTask
+  },
+  'stored-value-expiry': {
+    name: 'stored_value_expiry',
+    hour: parseInt(process.env.STORED_VALUE_JOB_HOUR || '2'),
+    task: storedValueExpiryTask
+  },
+  'loyalty-expiry': {
+    name: 'loyalty_expiry',
+    hour: parseInt(process.env.LOYALTY_JOB_HOUR || '3'),
+    task: loyaltyExpiryTask
+  }
+};
+
+// Run a job task, recording the run and the summary it returns in job_runs
+async function runJob(job, trigger = 'schedule', triggeredBy = null) {
+  if (runningJobs.has(job.name)) {
+    throw new Error(`Job ${job.name} is already running`);
+  }
+
+  runningJobs.add(job.name);
+  let jobRunId = null;
+
+  try {
+    const [run] = await pool.execute(
+      'INSERT INTO job_runs (job_name, trigger_type, triggered_by) VALUES (?, ?, ?)',
+      [job.name, trigger, triggeredBy]
+    );
+    jobRunId = run.insertId;
+
+    const summary = await job.task(jobRunId);
+
+    await pool.execute(
+      "UPDATE job_runs SET status = 'success', summary = ?, finished_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [JSON.stringify(summary), jobRunId]
+    );
+    console.log(`Job ${job.name} finished:`, summary);
+
+    return { id: jobRunId, ...summary };
+  } catch (error) {
+    if (jobRunId) {
+      await pool.execute(
+        "UPDATE job_runs SET status = 'failed', error = ?, finished_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [error.message, jobRunId]
+      );
+    }
+    throw error;
+  } finally {
+    runningJobs.delete(job.name);
+  }
+}
+
+// Schedule the next daily run of a job, and catch up straight away if today's run was missed
+async function scheduleDailyJob(job) {
+  try {
+    const [runs] = await pool.execute(
+      "SELECT id FROM job_runs WHERE job_name = ? AND status = 'success' AND DATE(started_at) = CURRENT_DATE LIMIT 1",
+      [job.name]
+    );
+    if (runs.length === 0) {
+      await runJob(job, 'startup');
+    }
+  } catch (error) {
+    console.error(`Job ${job.name} failed:`, error);
+  }
+
+  const nextRun = new Date();
+  nextRun.setHours(job.hour, 0, 0, 0);
+  if (nextRun <= new Date()) {
+    nextRun.setDate(nextRun.getDate() + 1);
+  }
+
+  setTimeout(async () => {
+    try {
+      await runJob(job, 'schedule');
+    } catch (error) {
+      console.error(`Job ${job.name} failed:`, error);
+    }
+    scheduleDailyJob(job);
+  }, nextRun - new Date()).unref();
+}
+
+// Start the daily schedule for every background job
+async function startBackgroundJobs() {
+  // Run sequentially so reminders see the statuses the lifecycle job just updated
+  for (const job of Object.values(BACKGROUND_JOBS)) {
+    await scheduleDailyJob(job);
+  }
+}
+
+// Recent runs of a background job
+app.get('/api/admin/jobs/:job/runs', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const job = BACKGROUND_JOBS[req.params.job];
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    const [runs] = await pool.execute(`
+      SELECT r.*, u.name as triggered_by_name
+      FROM job_runs r
+      LEFT JOIN users u ON r.triggered_by = u.id
+      WHERE r.job_name = ?
+      ORDER BY r.started_at DESC
+      LIMIT 20
+    `, [job.name]);
+
+    res.json(runs.map(run => ({
+      ...run,
+      summary: typeof run.summary === 'string' ? JSON.parse(run.summary) : run.summary
+    })));
+  } catch (error) {
+    console.error('Error fetching job runs:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Run a background job now instead of waiting for its daily schedule
+app.post('/api/admin/jobs/:job/run', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const job = BACKGROUND_JOBS[req.params.job];
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    if (runningJobs.has(job.name)) {
+      return res.status(409).json({ message: 'Job is already running' });
+    }
+
+    const result = await runJob(job, 'manual', req.user.id);
+    res.json(result);
+  } catch (error) {
+    console.error('Error running job:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= SUBSCRIPTION LIFECYCLE JOB =======================
+
+// Record a subscription status transition for auditing and reporting
+async function recordStatusChange(db, subscriptionId, fromStatus, toStatus, reason, { jobRunId = null, createdBy = null } = {}) {
+  await db.execute(
+    'INSERT INTO subscription_status_changes (subscription_id, from_status, to_status, reason, job_run_id, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+    [subscriptionId, fromStatus, toStatus, reason, jobRunId, createdBy]
+  );
+}
+
+// Move every subscription in the given rows to a new status, recording each transition
+async function transitionSubscriptions(connection, rows, toStatus, jobRunId) {
+  for (const row of rows) {
+    await connection.execute('UPDATE subscriptions SET status = ? WHERE id = ?', [toStatus, row.id]);
+    await recordStatusChange(connection, row.id, row.status, toStatus, row.reason, { jobRunId });
+  }
+  return rows.length;
+}
+
+// Expire finished subscriptions and activate pending ones whose start date has arrived
+async function subscriptionLifecycleTask(jobRunId) {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+
+    // Pending subscriptions that have started (and not already run out) become active
+    const [toActivate] = await connection.execute(`
+      SELECT id, status, 'start_date_reached' as reason FROM subscriptions
+      WHERE status = 'pending'
+      AND start_date <= CURRENT_DATE
+      AND end_date >= CURRENT_DATE
+      FOR UPDATE
+    `);
+    const activated = await transitionSubscriptions(connection, toActivate, 'active', jobRunId);
+
+    // Active or pending subscriptions past their end date, or with no visits left, expire
+    const [toExpire] = await connection.execute(`
+      SELECT id, status,
+        CASE WHEN end_date < CURRENT_DATE THEN 'end_date_passed' ELSE 'visits_used' END as reason
+      FROM subscriptions
+      WHERE status IN ('active', 'pending')
+      AND (end_date < CURRENT_DATE OR visits_remaining = 0)
+      FOR UPDATE
+    `);
+    const expired = await transitionSubscriptions(connection, toExpire, 'expired', jobRunId);
+
+    await connection.commit();
+
+    return { activated, expired };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+// Status transition history for a subscription
+app.get('/api/subscriptions/:id/status-changes', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [changes] = await pool.execute(`
+      SELECT c.*, u.name as created_by_name
+      FROM subscription_status_changes c
+      LEFT JOIN users u ON c.created_by = u.id
+      WHERE c.subscription_id = ?
+      ORDER BY c.created_at DESC
+    `, [id]);
+
+    res.json(changes);
+  } catch (error) {
+    console.error('Error fetching status changes:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= EXPIRY REMINDERS =======================
+
+// Where the file sender appends messages for local development
+const REMINDER_OUTBOX_FILE = process.env.REMINDER_OUTBOX_FILE || path.join(__dirname, 'outbox', 'reminders.log');
+
+// Reminder delivery backends. REMINDER_SENDER picks one: console (default), file or webhook.
+const reminderSenders = {
+  console: async (message) => {
+    console.log(`[reminder] ${message.channel} to ${message.recipient}: ${message.subject}\n${message.body}`);
+  },
+  file: async (message) => {
+    await fs.promises.mkdir(path.dirname(REMINDER_OUTBOX_FILE), { recursive: true });
+    await fs.promises.appendFile(REMINDER_OUTBOX_FILE, JSON.stringify({ ...message, sent_at: new Date().toISOString() }) + '\n');
+  },
+  // Hands the message to an external email/SMS gateway
+  webhook: async (message) => {
+    if (!process.env.REMINDER_WEBHOOK_URL) {
+      throw new Error('REMINDER_WEBHOOK_URL is not set');
+    }
+    await axios.post(process.env.REMINDER_WEBHOOK_URL, message, { timeout: 10000 });
+  }
+};
+
+function getReminderSender() {
+  const name = process.env.REMINDER_SENDER || 'console';
+  if (!reminderSenders[name]) {
+    throw new Error(`Unknown reminder sender "${name}"`);
+  }
+  return reminderSenders[name];
+}
+
+// Build the reminder text for a subscription that is about to expire
+function buildExpiryReminder(row, channel) {
+  const endDate = new Date(row.end_date).toDateString();
+  const when = row.days_left === 0 ? 'today' : `in ${row.days_left} day${row.days_left === 1 ? '' : 's'}`;
+
+  if (channel === 'sms') {
+    return {
+      subject: null,
+      body: `${row.branch_name}: your ${row.package_name} membership expires ${when} (${endDate}). Renew at the front desk to keep training.`
+    };
+  }
+
+  return {
+    subject: `Your ${row.package_name} membership expires ${when}`,
+    body: `Hi ${row.subscriber_name},\n\nYour ${row.package_name} membership at ${row.branch_name} expires on ${endDate}.\n` +
+      `Renew at the front desk to keep your access without interruption.\n\nSee you soon!`
+  };
+}
+
+// Active subscriptions ending within the window that have not already been renewed
+const EXPIRING_SUBSCRIPTIONS_SQL = `
+  SELECT 
+    sub.id as subscription_id,
+    sub.end_date,
+    sub.payment_method,
+    DATEDIFF(sub.end_date, CURRENT_DATE) as days_left,
+    s.id as subscriber_id,
+    s.name as subscriber_name,
+    s.email,
+    s.phone,
+    p.id as package_id,
+    p.name as package_name,
+    p.price as package_price,
+    b.id as branch_id,
+    b.name as branch_name,
+    b.reminder_days,
+    b.reminders_enabled
+  FROM subscriptions sub
+  JOIN subscribers s ON sub.subscriber_id = s.id
+  JOIN packages p ON sub.package_id = p.id
+  JOIN branches b ON b.id = COALESCE(s.branch_id, p.branch_id)
+  WHERE sub.status = 'active'
+  AND sub.end_date >= CURRENT_DATE
+  AND NOT EXISTS (
+    SELECT 1 FROM subscriptions later
+    WHERE later.subscriber_id = sub.subscriber_id
+    AND later.id != sub.id
+    AND later.status IN ('active', 'pending')
+    AND later.end_date > sub.end_date
+  )
+`;
+
+// Queue reminders for subscriptions expiring within each branch's reminder window, then deliver them
+async function expiryReminderTask() {
+  const [expiring] = await pool.execute(`
+    ${EXPIRING_SUBSCRIPTIONS_SQL}
+    AND b.reminders_enabled = TRUE
+    AND sub.end_date <= DATE_ADD(CURRENT_DATE, INTERVAL b.reminder_days DAY)
+  `);
+
+  let queued = 0;
+  for (const row of expiring) {
+    const recipients = { email: row.email, sms: row.phone };
+
+    for (const [channel, recipient] of Object.entries(recipients)) {
+      if (!recipient) continue;
+
+      const { subject, body } = buildExpiryReminder(row, channel);
+      // The unique key on subscription, channel and end date stops duplicates across runs
+      const [result] = await pool.execute(`
+        INSERT IGNORE INTO reminder_messages
+          (subscription_id, subscriber_id, branch_id, channel, recipient, subject, body, end_date)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [row.subscription_id, row.subscriber_id, row.branch_id, channel, recipient, subject, body, row.end_date]);
+      queued += result.affectedRows;
+    }
+  }
+
+  const { sent, failed } = await deliverQueuedReminders();
+  return { queued, sent, failed };
+}
+
+// Send every queued reminder through the configured sender
+async function deliverQueuedReminders() {
+  const sender = getReminderSender();
+  const [messages] = await pool.execute("SELECT * FROM reminder_messages WHERE status = 'queued' ORDER BY created_at");
+
+  let sent = 0;
+  let failed = 0;
+  for (const message of messages) {
+    try {
+      await sender({
+        channel: message.channel,
+        recipient: message.recipient,
+        subject: message.subject,
+        body: message.body
+      });
+      await pool.execute("UPDATE reminder_messages SET status = 'sent', sent_at = CURRENT_TIMESTAMP WHERE id = ?", [message.id]);
+      sent++;
+    } catch (error) {
+      await pool.execute("UPDATE reminder_messages SET status = 'failed', error = ? WHERE id = ?", [error.message, message.id]);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+// Subscriptions in the current branch expiring within N days (defaults to the branch reminder window)
+app.get('/api/subscriptions/expiring', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const [branches] = await pool.execute('SELECT reminder_days FROM branches WHERE id = ?', [req.branch_id]);
+    const days = parseInt(req.query.days) || branches[0]?.reminder_days || 7;
+
+    const [expiring] = await pool.execute(`
+      SELECT * FROM (${EXPIRING_SUBSCRIPTIONS_SQL}) expiring
+      WHERE expiring.branch_id = ?
+      AND expiring.days_left <= ?
+      ORDER BY expiring.end_date ASC
+    `, [req.branch_id, days]);
+
+    // Attach the most recent reminder sent for each subscription
+    const [reminders] = expiring.length > 0
+      ? await pool.query(`
+        SELECT subscription_id, MAX(sent_at) as last_reminded_at
+        FROM reminder_messages
+        WHERE status = 'sent' AND subscription_id IN (?)
+        GROUP BY subscription_id
+      `, [expiring.map(row => row.subscription_id)])
+      : [[]];
+    const remindedAt = Object.fromEntries(reminders.map(row => [row.subscription_id, row.last_reminded_at]));
+
+    res.json(expiring.map(row => ({
+      ...row,
+      package_price: parseFloat(row.package_price),
+      last_reminded_at: remindedAt[row.subscription_id] || null
+    })));
+  } catch (error) {
+    console.error('Error fetching expiring subscriptions:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Reminder delivery log for the current branch
+app.get('/api/reminders', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { status, subscription_id } = req.query;
+
+    let query = `
+      SELECT r.*, s.name as subscriber_name
+      FROM reminder_messages r
+      JOIN subscribers s ON r.subscriber_id = s.id
+      WHERE r.branch_id = ?
+    `;
+    const params = [req.branch_id];
+
+    if (status) {
+      query += ' AND r.status = ?';
+      params.push(status);
+    }
+
+    if (subscription_id) {
+      query += ' AND r.subscription_id = ?';
+      params.push(subscription_id);
+    }
+
+    query += ' ORDER BY r.created_at DESC LIMIT 200';
+
+    const [reminders] = await pool.execute(query, params);
+    res.json(reminders);
+  } catch (error) {
+    console.error('Error fetching reminders:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// ======================= CHECK-IN ROUTES =======================
+
+// Find the subscription that currently grants a subscriber access to a branch.
+// Packages without a branch are valid everywhere; frozen subscriptions and
+// session packages with no visits left do not count.
+async function findActiveSubscription(db, subscriberId, branchId) {
+  const [subscriptions] = await db.execute(`
+    SELECT sub.*, p.name as package_name
+    FROM subscriptions sub
+    JOIN packages p ON sub.package_id = p.id
+    WHERE sub.subscriber_id = ?
+    AND sub.status != 'cancelled'
+    AND CURRENT_DATE BETWEEN sub.start_date AND sub.end_date
+    AND (sub.visits_remaining IS NULL OR sub.visits_remaining > 0)
+    AND (p.branch_id = ? OR p.branch_id IS NULL)
+    AND NOT EXISTS (
+      SELECT 1 FROM subscription_freezes f
+      WHERE f.subscription_id = sub.id
+      AND f.status = 'active'
+      AND CURRENT_DATE BETWEEN f.start_date AND f.end_date
+    )
+    ORDER BY sub.end_date ASC
+    LIMIT 1
+  `, [subscriberId, branchId]);
+  
+  return subscriptions[0] || null;
+}
+
+// Select check-ins with subscriber, package and staff details
+const CHECK_IN_SELECT_SQL = `
+  SELECT 
+    c.*,
+    s.name as subscriber_name,
+    s.card_number,
+    p.name as package_name,
+    sub.end_date as subscription_end_date,
+    sub.visits_remaining,
+    u.name as created_by_name
+  FROM check_ins c
+  JOIN subscribers s ON c.subscriber_id = s.id
+  LEFT JOIN subscriptions sub ON c.subscription_id = sub.id
+  LEFT JOIN packages p ON sub.package_id = p.id
+  LEFT JOIN users u ON c.created_by = u.id
+`;
+
+// List check-ins for a day in the current branch, optionally for one subscriber
+app.get('/api/check-ins', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { date, subscriber_id } = req.query;
+    
+    let query = `${CHECK_IN_SELECT_SQL} WHERE DATE(c.checked_in_at) = COALESCE(?, CURRENT_DATE)`;
+    const params = [date || null];
+    
+    if (req.branch_id) {
+      query += ' AND c.branch_id = ?';
+      params.push(req.branch_id);
+    }
+    
+    if (subscriber_id) {
+      query += ' AND c.subscriber_id = ?';
+      params.push(subscriber_id);
+    }
+    
+    query += ' ORDER BY c.checked_in_at DESC';
+    
+    const [checkIns] = await pool.execute(query, params);
+    res.json(checkIns);
+  } catch (error) {
+    console.error('Error fetching check-ins:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Visit history for a subscriber across all branches
+app.get('/api/subscribers/:id/check-ins', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    const [existingSubscribers] = await pool.execute('SELECT id FROM subscribers WHERE id = ?', [id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    const [checkIns] = await pool.execute(`
+      ${CHECK_IN_SELECT_SQL}
+      WHERE c.subscriber_id = ?
+      ORDER BY c.checked_in_at DESC
+      LIMIT 100
+    `, [id]);
+    
+    res.json(checkIns);
+  } catch (error) {
+    console.error('Error fetching subscriber check-ins:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Check a subscriber in by id or scanned card number
+app.post('/api/check-ins', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { subscriber_id, card_number, method } = req.body;
+    
+    if (!subscriber_id && !card_number) {
+      return res.status(400).json({ message: 'Subscriber or card number is required' });
+    }
+    
+    const [subscribers] = subscriber_id
+      ? await pool.execute('SELECT * FROM subscribers WHERE id = ?', [subscriber_id])
+      : await pool.execute('SELECT * FROM subscribers WHERE card_number = ?', [card_number]);
+    
+    if (subscribers.length === 0) {
+      return res.status(404).json({ message: card_number ? 'No member found for this card' : 'Subscriber not found' });
+    }
+    
+    const subscriber = subscribers[0];
+    
+    // Reject members who are already inside
+    const [openCheckIns] = await pool.execute(
+      'SELECT id FROM check_ins WHERE subscriber_id = ? AND checked_out_at IS NULL AND DATE(checked_in_at) = CURRENT_DATE',
+      [subscriber.id]
+    );
+    
+    if (openCheckIns.length > 0) {
+      return res.status(400).json({ message: `${subscriber.name} is already checked in` });
+    }
+    
+    const subscription = await findActiveSubscription(pool, subscriber.id, req.branch_id);
+    
+    if (!subscription) {
+      const [frozen] = await pool.execute(`
+        SELECT f.end_date FROM subscription_freezes f
+        JOIN subscriptions sub ON f.subscription_id = sub.id
+        WHERE sub.subscriber_id = ? AND f.status = 'active'
+        AND CURRENT_DATE BETWEEN f.start_date AND f.end_date
+        LIMIT 1
+      `, [subscriber.id]);
+      
+      return res.status(403).json({
+        message: frozen.length > 0
+          ? `${subscriber.name}'s membership is frozen`
+          : `${subscriber.name} has no active subscription for this branch`
+      });
+    }
+    
+    const connection = await pool.getConnection();
+    let checkInId;
+    
+    try {
+      await connection.beginTransaction();
+      
+      // Session packages use up one visit per check-in
+      if (subscription.visits_remaining !== null) {
+        const [updated] = await connection.execute(
+          'UPDATE subscriptions SET visits_remaining = visits_remaining - 1 WHERE id = ? AND visits_remaining > 0',
+          [subscription.id]
+        );
+        
+        if (updated.affectedRows === 0) {
+          await connection.rollback();
+          return res.status(403).json({ message: `${subscriber.name} has no visits remaining` });
+        }
+      }
+      
+      const [result] = await connection.execute(
+        'INSERT INTO check_ins (subscriber_id, subscription_id, branch_id, method, created_by) VALUES (?, ?, ?, ?, ?)',
+        [subscriber.id, subscription.id, req.branch_id || null, method || (card_number ? 'card' : 'search'), req.user.id]
+      );
+      checkInId = result.insertId;
+      
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+    
+    const [checkIns] = await pool.execute(`${CHECK_IN_SELECT_SQL} WHERE c.id = ?`, [checkInId]);
+    
+    res.status(201).json(checkIns[0]);
+  } catch (error) {
+    console.error('Error checking in subscriber:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Check a subscriber out
+app.post('/api/check-ins/:id/check-out', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    
+    const [existingCheckIns] = await pool.execute('SELECT * FROM check_ins WHERE id = ?', [id]);
+    if (existingCheckIns.length === 0) {
+      return res.status(404).json({ message: 'Check-in not found' });
+    }
+    
+    if (existingCheckIns[0].checked_out_at) {
+      return res.status(400).json({ message: 'Already checked out' });
+    }
+    
+    await pool.execute('UPDATE check_ins SET checked_out_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+    
+    const [checkIns] = await pool.execute(`${CHECK_IN_SELECT_SQL} WHERE c.id = ?`, [id]);
+    
+    res.json(checkIns[0]);
+  } catch (error) {
+    console.error('Error checking out subscriber:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Dashboard routes
+// Get dashboard statistics
+app.get('/api/dashboard/stats', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    // Get total subscribers for this branch
+    const [subscribersResult] = await pool.execute(
+      'SELECT COUNT(*) as total FROM subscribers WHERE branch_id = ? OR branch_id IS NULL',
+      [req.branch_id]
+    );
+    const totalSubscribers = subscribersResult[0].total;
+
+    // Get total sales and retail revenue (net of returns) for this branch; memberships sold at the till are counted with subscriptions
+    const [salesResult] = await pool.execute(`
+      SELECT 
+        COUNT(*) as total_sales,
+        COALESCE(SUM(s.total - ${SALE_MEMBERSHIP_TOTAL_SQL} - ${SALE_RETURNS_TOTAL_SQL}), 0) as total_revenue
+      FROM sales s
+      WHERE (branch_id = ? OR branch_id IS NULL)
+      AND created_at >= DATE_SUB(CURRENT_DATE, INTERVAL 30 DAY)
+    `, [req.branch_id]);
+    const { total_sales, total_revenue } = salesResult[0];
+
+    // Membership revenue for this branch, net of refunds issued on cancellation
+    const [subscriptionRevenueResult] = await pool.execute(`
+      SELECT COALESCE(SUM(sub.total_amount), 0) as subscription_revenue
+      FROM subscriptions sub
+      JOIN packages p ON sub.package_id = p.id
+      WHERE (p.branch_id = ? OR p.branch_id IS NULL)
+      AND sub.created_at >= DATE_SUB(CURRENT_DATE, INTERVAL 30 DAY)
+    `, [req.branch_id]);
+
+    const [refundsResult] = await pool.execute(`
+      SELECT COALESCE(SUM(r.amount), 0) as total_refunds
+      FROM subscription_refunds r
+      JOIN subscriptions sub ON r.subscription_id = sub.id
+      JOIN packages p ON sub.package_id = p.id
+      WHERE (p.branch_id = ? OR p.branch_id IS NULL)
+      AND r.created_at >= DATE_SUB(CURRENT_DATE, INTERVAL 30 DAY)
+    `, [req.branch_id]);
+    const totalRefunds = parseFloat(refundsResult[0].total_refunds);
+
+    // Unpaid balances on live subscriptions
+    const [outstandingResult] = await pool.execute(`
+      SELECT
+        COALESCE(SUM(sub.total_amount - sub.amount_paid), 0) as total_outstanding,
+        COUNT(DISTINCT sub.subscriber_id) as members_with_balance
+      FROM subscriptions sub
+      JOIN packages p ON sub.package_id = p.id
+      WHERE (p.branch_id = ? OR p.branch_id IS NULL)
+      AND sub.status != 'cancelled'
+      AND sub.total_amount > sub.amount_paid
+    `, [req.branch_id]);
+
+    // Credit carried over on package changes was already counted with the original subscription
+    const [changeCreditsResult] = await pool.execute(`
+      SELECT COALESCE(SUM(c.credit_amount), 0) as total_credits
+      FROM subscription_changes c
+      JOIN packages p ON c.to_package_id = p.id
+      WHERE (p.branch_id = ? OR p.branch_id IS NULL)
+      AND c.created_at >= DATE_SUB(CURRENT_DATE, INTERVAL 30 DAY)
+    `, [req.branch_id]);
+    const subscriptionRevenue = parseFloat(subscriptionRevenueResult[0].subscription_revenue) - parseFloat(changeCreditsResult[0].total_credits);
+
+    // Get total inventory items for this branch
+    const [inventoryResult] = await pool.execute(`
+      SELECT COUNT(*) as total 
+      FROM inventory_items i
+      LEFT JOIN inventory_transactions t ON i.id = t.item_id
+      WHERE t.branch_id = ? OR t.branch_id IS NULL
+      GROUP BY i.id
+    `, [req.branch_id]);
+    
+    const totalInventory = inventoryResult.length;
+
+    res.json({
+      totalSubscribers,
+      totalSales: total_sales,
+      totalInventory,
+      totalRevenue: parseFloat(total_revenue) + subscriptionRevenue - totalRefunds,
+      subscriptionRevenue,
+      totalRefunds,
+      totalOutstanding: parseFloat(outstandingResult[0].total_outstanding),
+      membersWithBalance: outstandingResult[0].members_with_balance
+    });
+  } catch (error) {
+    console.error('Error fetching dashboard stats:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get recent activities
+app.get('/api/dashboard/recent-activities', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    // Get recent sales for this branch
+    const [sales] = await pool.execute(`
+      SELECT 
+        'sale' as type,
+        created_at,
+        total as amount,
+        payment_method,
+        customer_name,
+        customer_email
+      FROM sales
+      WHERE branch_id = ? OR branch_id IS NULL
+      ORDER BY created_at DESC
+      LIMIT 5
+    `, [req.branch_id]);
+
+    // Get recent inventory transactions for this branch
+    const [inventoryTransactions] = await pool.execute(`
+      SELECT 
+        'inventory' as type,
+        t.created_at,
+        t.total_amount as amount,
+        t.type as transaction_type,
+        i.name as item_name,
+        t.quantity
+      FROM inventory_transactions t
+      JOIN inventory_items i ON t.item_id = i.id
+      WHERE t.branch_id = ? OR t.branch_id IS NULL
+      ORDER BY t.created_at DESC
+      LIMIT 5
+    `, [req.branch_id]);
+
+    // Combine and sort by date
+    const activities = [...sales, ...inventoryTransactions]
+      .sort((a, b) => new Date(b.created_at) - new Date(a.created_at))
+      .slice(0, 5);
+
+    res.json(activities);
+  } catch (error) {
+    console.error('Error fetching recent activities:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get sales by month
+app.get('/api/dashboard/sales-by-month', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    // Force MySQL to use the date value correctly
+    const [sales] = await pool.execute(`
+      SELECT 
+        DATE_FORMAT(created_at, '%Y-%m') as month,
+        COUNT(*) as count,
+        COALESCE(SUM(total), 0) as total_sales
+      FROM sales
+      WHERE created_at >= DATE_SUB(CURRENT_DATE, INTERVAL 6 MONTH)
+      AND (branch_id = ? OR branch_id IS NULL)
+      GROUP BY month
+      ORDER BY month ASC
+    `, [req.branch_id]);
+
+    // If there's only one data point, add more data points for the graph
+    if (sales.length <= 1) {
+      // Get current date and calculate the past 6 months
+      const today = new Date();
+      const monthsData = [];
+      
+      for (let i = 5; i >= 0; i--) {
+        const date = new Date(today.getFullYear(), today.getMonth() - i, 1);
+        const monthStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+        
+        // Check if we have data for this month
+        const existingData = sales.find(sale => sale.month === monthStr);
+        
+        if (existingData) {
+          monthsData.push({
+            ...existingData,
+            total_sales: parseFloat(existingData.total_sales)
+          });
+        } else {
+          // Add empty data for this month
+          monthsData.push({
+            month: monthStr,
+            count: 0,
+            total_sales: 0
+          });
+        }
+      }
+      
+      res.json(monthsData);
+    } else {
+      // Return the existing data with proper type conversion
+      res.json(sales.map(sale => ({
+        ...sale,
+        total_sales: parseFloat(sale.total_sales)
+      })));
+    }
+  } catch (error) {
+    console.error('Error fetching sales by month:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get low stock items
+app.get('/api/dashboard/low-stock', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const [items] = await pool.execute(`
+      SELECT 
+        i.id,
+        i.name,
+        i.sku,
+        i.quantity,
+        i.price,
+        i.cost
+      FROM inventory_items i
+      LEFT JOIN inventory_transactions t ON i.id = t.item_id
+      WHERE i.quantity <= 10
+      AND i.is_bundle = FALSE
+      AND (t.branch_id = ? OR t.branch_id IS NULL)
+      GROUP BY i.id
+      ORDER BY i.quantity ASC
+      LIMIT 5
+    `, [req.branch_id]);
+
+    res.json(items.map(item => ({
+      ...item,
+      price: parseFloat(item.price),
+      cost: parseFloat(item.cost)
+    })));
+  } catch (error) {
+    console.error('Error fetching low stock items:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Companies routes
+// Multipart forms send booleans as strings
+const parseFormBoolean = (value, fallback) => {
+  if (value === undefined || value === null || value === '') return fallback;
+  return value === true || value === 'true' || value === '1' || value === 1;
+};
+
+app.get('/api/companies', authenticateToken, async (req, res) => {
+  try {
+    const [companies] = await pool.query('SELECT * FROM companies ORDER BY created_at DESC');
+    
+    // Convert binary logo data to base64 for frontend display
+    const processedCompanies = companies.map(company => {
+      if (company.logo) {
+        company.logo = company.logo.toString('base64');
+      }
+      return company;
+    });
+    
+    res.json(processedCompanies);
+  } catch (error) {
+    console.error('Error fetching companies:', error);
+    res.status(500).json({ error: 'Failed to fetch companies' });
+  }
+});
+
+app.post('/api/companies', authenticateToken, upload.single('logo'), async (req, res) => {
+  try {
+    const { name, registration_number, vat_number, address, id_nat, logo_type, tax_rate, prices_include_tax } = req.body;
+    const logo = req.file ? req.file.buffer : null;
+
+    const [result] = await pool.query(
+      'INSERT INTO companies (name, registration_number, vat_number, address, id_nat, logo, logo_type, tax_rate, prices_include_tax) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [name, registration_number, vat_number, address, id_nat, logo, logo_type, parseFloat(tax_rate) || 0, parseFormBoolean(prices_include_tax, true)]
+    );
+    await seedPaymentMethods(pool, result.insertId);
+
+    res.status(201).json({ id: result.insertId, message: 'Company created successfully' });
+  } catch (error) {
+    console.error('Error creating company:', error);
+    res.status(500).json({ error: 'Failed to create company' });
+  }
+});
+
+app.put('/api/companies/:id', authenticateToken, upload.single('logo'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, registration_number, vat_number, address, id_nat, logo_type, tax_rate, prices_include_tax } = req.body;
+    const logo = req.file ? req.file.buffer : null;
+
+    let query = 'UPDATE companies SET name = ?, registration_number = ?, vat_number = ?, address = ?, id_nat = ?, logo_type = ?, tax_rate = ?, prices_include_tax = ?';
+    let params = [name, registration_number, vat_number, address, id_nat, logo_type, parseFloat(tax_rate) || 0, parseFormBoolean(prices_include_tax, true)];
+
+    if (logo) {
+      query += ', logo = ?';
+      params.push(logo);
+    }
+
+    query += ' WHERE id = ?';
+    params.push(id);
+
+    await pool.query(query, params);
+
+    res.json({ message: 'Company updated successfully' });
+  } catch (error) {
+    console.error('Error updating company:', error);
+    res.status(500).json({ error: 'Failed to update company' });
+  }
+});
+
+app.delete('/api/companies/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    await pool.query('DELETE FROM companies WHERE id = ?', [id]);
+    res.json({ message: 'Company deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting company:', error);
+    res.status(500).json({ error: 'Failed to delete company' });
+  }
+});
+
+// ======================= BRANCH ROUTES =======================
+
+// Get all branches with company names
+app.get('/api/branches', authenticateToken, async (req, res) => {
+  try {
+    const [rows] = await pool.query(`
+      SELECT b.*, c.name as company_name
+      FROM branches b
+      JOIN companies c ON b.company_id = c.id
+      ORDER BY b.created_at DESC
+    `);
+    res.json(rows);
+  } catch (error) {
+    console.error('Error fetching branches:', error);
+    res.status(500).json({ error: 'Failed to fetch branches' });
+  }
+});
+
+// Get a single branch by ID
+app.get('/api/branches/:id', authenticateToken, async (req, res) => {
+  try {
+    const [rows] = await pool.query('SELECT * FROM branches WHERE id = ?', [req.params.id]);
+    
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+    
+    res.json(rows[0]);
+  } catch (error) {
+    console.error('Error fetching branch:', error);
+    res.status(500).json({ error: 'Failed to fetch branch' });
+  }
+});
+
+// Operational settings stored on the branch, with the parser for each incoming value
+const BRANCH_SETTINGS = {
+  reminders_enabled: value => (value ? 1 : 0),
+  reminder_days: value => Math.max(parseInt(value) || 0, 0),
+  allow_split_payments: value => (value ? 1 : 0),
+  require_shift: value => (value ? 1 : 0),
+  parked_cart_ttl_minutes: value => Math.max(parseInt(value) || 0, 1),
+  // Null tax settings fall back to the company's
+  tax_rate: value => (value === null || value === '' ? null : Math.min(Math.max(parseFloat(value) || 0, 0), 100)),
+  prices_include_tax: value => (value === null ? null : value ? 1 : 0),
+  member_discount_percent: value => Math.min(Math.max(parseFloat(value) || 0, 0), 100),
+  // Blank receipt text falls back to the company name and no footer
+  receipt_header: value => (value ? String(value).trim().slice(0, 255) || null : null),
+  receipt_footer: value => (value ? String(value).trim() || null : null),
+  receipt_show_tax: value => (value ? 1 : 0),
+  receipt_auto_print: value => (value ? 1 : 0),
+  receipt_paper_width: value => (parseInt(value) === 58 ? 58 : 80),
+  // host or host:port of a network thermal printer; without one receipts print from the browser
+  receipt_printer_host: value => (value ? String(value).trim() || null : null),
+  email_receipts: value => (value ? 1 : 0)
+};
+
+// Settings that change what customers are charged or where the server connects, which only administrators may change
+const ADMIN_BRANCH_SETTINGS = ['tax_rate', 'prices_include_tax', 'member_discount_percent', 'receipt_printer_host'];
+
+// Get branch settings
+app.get('/api/branches/:id/settings', authenticateToken, async (req, res) => {
+  try {
+    const [rows] = await pool.query(
+      `SELECT ${Object.keys(BRANCH_SETTINGS).join(', ')} FROM branches WHERE id = ?`,
+      [req.params.id]
+    );
+    
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+    
+    res.json(rows[0]);
+  } catch (error) {
+    console.error('Error fetching branch settings:', error);
+    res.status(500).json({ error: 'Failed to fetch branch settings' });
+  }
+});
+
+// Update branch settings; only the settings present in the body are changed
+app.put('/api/branches/:id/settings', authenticateToken, async (req, res) => {
+  try {
+    const columns = Object.keys(BRANCH_SETTINGS).filter(column => req.body[column] !== undefined);
+    
+    if (columns.length === 0) {
+      return res.status(400).json({ error: 'No settings provided' });
+    }
+    
+    if (req.user.role_name !== 'admin' && columns.some(column => ADMIN_BRANCH_SETTINGS.includes(column))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const printerHost = BRANCH_SETTINGS.receipt_printer_host(req.body.receipt_printer_host);
+    if (printerHost && !parsePrinterHost(printerHost)) {
+      return res.status(400).json({ error: `Network printer must be a host name or IP address, optionally with a port from ${PRINTER_PORTS.min} to ${PRINTER_PORTS.max}` });
+    }
+    
+    const [result] = await pool.query(
+      `UPDATE branches SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+      [...columns.map(column => BRANCH_SETTINGS[column](req.body[column])), req.params.id]
+    );
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+    
+    res.json({ message: 'Branch settings updated successfully' });
+  } catch (error) {
+    console.error('Error updating branch settings:', error);
+    res.status(500).json({ error: 'Failed to update branch settings' });
+  }
+});
+
+// Create a new branch
+app.post('/api/branches', authenticateToken, async (req, res) => {
+  try {
+    const { name, company_id, address, phone, email, manager_name, is_main } = req.body;
+    
+    // Validate required fields
+    if (!name || !company_id) {
+      return res.status(400).json({ error: 'Name and company ID are required' });
+    }
+    
+    // Check if company exists
+    const [companyRows] = await pool.query('SELECT id FROM companies WHERE id = ?', [company_id]);
+    if (companyRows.length === 0) {
+      return res.status(400).json({ error: 'Company does not exist' });
+    }
+    
+    // If this is set as main branch, update all other branches of this company to not be main
+    if (is_main) {
+      await pool.query('UPDATE branches SET is_main = 0 WHERE company_id = ?', [company_id]);
+    }
+    
+    // Insert new branch
+    const [result] = await pool.query(
+      'INSERT INTO branches (name, company_id, address, phone, email, manager_name, is_main) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [name, company_id, address, phone, email, manager_name, is_main ? 1 : 0]
+    );
+    
+    res.status(201).json({ id: result.insertId, message: 'Branch created successfully' });
+  } catch (error) {
+    console.error('Error creating branch:', error);
+    res.status(500).json({ error: 'Failed to create branch' });
+  }
+});
+
+// Update a branch
+app.put('/api/branches/:id', authenticateToken, async (req, res) => {
+  try {
+    const { name, company_id, address, phone, email, manager_name, is_main } = req.body;
+    const branchId = req.params.id;
+    
+    // Validate required fields
+    if (!name || !company_id) {
+      return res.status(400).json({ error: 'Name and company ID are required' });
+    }
+    
+    // Check if company exists
+    const [companyRows] = await pool.query('SELECT id FROM companies WHERE id = ?', [company_id]);
+    if (companyRows.length === 0) {
+      return res.status(400).json({ error: 'Company does not exist' });
+    }
+    
+    // Check if branch exists
+    const [branchRows] = await pool.query('SELECT id FROM branches WHERE id = ?', [branchId]);
+    if (branchRows.length === 0) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+    
+    // If this is set as main branch, update all other branches of this company to not be main
+    if (is_main) {
+      await pool.query('UPDATE branches SET is_main = 0 WHERE company_id = ? AND id != ?', [company_id, branchId]);
+    }
+    
+    // Update branch
+    await pool.query(
+      'UPDATE branches SET name = ?, company_id = ?, address = ?, phone = ?, email = ?, manager_name = ?, is_main = ? WHERE id = ?',
+      [name, company_id, address, phone, email, manager_name, is_main ? 1 : 0, branchId]
+    );
+    
+    res.json({ message: 'Branch updated successfully' });
+  } catch (error) {
+    console.error('Error updating branch:', error);
+    res.status(500).json({ error: 'Failed to update branch' });
   }
 });
 
-// Get all users with their roles and permissions
-app.get('/api/users', authenticateToken, async (req, res) => {
+// Delete a branch
+app.delete('/api/branches/:id', authenticateToken, async (req, res) => {
   try {
-    const [users] = await pool.execute(`
-      SELECT 
-        u.*,
-        r.name as role_name,
-        r.description as role_description,
-        GROUP_CONCAT(DISTINCT p.name) as permissions
-      FROM users u
-      LEFT JOIN roles r ON u.role_id = r.id
-      LEFT JOIN role_permissions rp ON r.id = rp.role_id
-      LEFT JOIN permissions p ON rp.permission_id = p.id
-      GROUP BY u.id
-      ORDER BY u.created_at DESC
-    `);
+    const branchId = req.params.id;
     
-    res.json(users);
+    // Check if branch exists
+    const [rows] = await pool.query('SELECT * FROM branches WHERE id = ?', [branchId]);
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+    
+    await pool.query('DELETE FROM branches WHERE id = ?', [branchId]);
+    
+    res.json({ message: 'Branch deleted successfully' });
   } catch (error) {
-    console.error('Error fetching users:', error);
-    res.status(500).json({ error: 'Failed to fetch users' });
+    console.error('Error deleting branch:', error);
+    res.status(500).json({ error: 'Failed to delete branch' });
   }
 });
 
-// Get all roles with their permissions
-app.get('/api/roles', authenticateToken, async (req, res) => {
+// ======================= TAX RULES =======================
+
+const TAX_RULE_TARGETS = ['category', 'item', 'membership'];
+
+async function findBranchCompanyId(db, branchId) {
+  const [branches] = await db.query('SELECT company_id FROM branches WHERE id = ?', [branchId || null]);
+  return branches.length > 0 ? branches[0].company_id : null;
+}
+
+// Rules that apply to the current branch: company-wide ones and the branch's own
+app.get('/api/tax-rules', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const [roles] = await pool.execute(`
-      SELECT 
-        r.*,
-        GROUP_CONCAT(DISTINCT p.name) as permissions
-      FROM roles r
-      LEFT JOIN role_permissions rp ON r.id = rp.role_id
-      LEFT JOIN permissions p ON rp.permission_id = p.id
-      GROUP BY r.id
-      ORDER BY r.name
-    `);
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.json([]);
+    }
     
-    res.json(roles);
+    const [rules] = await pool.query(`
+      SELECT tr.*, i.name as item_name, b.name as branch_name
+      FROM tax_rules tr
+      LEFT JOIN inventory_items i ON tr.item_id = i.id
+      LEFT JOIN branches b ON tr.branch_id = b.id
+      WHERE tr.company_id = ? AND (tr.branch_id IS NULL OR tr.branch_id = ?)
+      ORDER BY FIELD(tr.target_type, 'membership', 'category', 'item'), tr.category, i.name
+    `, [companyId, req.branch_id]);
+    
+    res.json(rules);
   } catch (error) {
-    console.error('Error fetching roles:', error);
-    res.status(500).json({ error: 'Failed to fetch roles' });
+    console.error('Error fetching tax rules:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Update user role
-app.put('/api/users/:id/role', authenticateToken, async (req, res) => {
+// The branch's rate, whether prices include tax and its rules, so the POS can work out tax while offline
+app.get('/api/tax-settings', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const { roleId } = req.body;
-    const userId = req.params.id;
-    
-    await pool.execute(
-      'UPDATE users SET role_id = ? WHERE id = ?',
-      [roleId, userId]
-    );
-    
-    res.json({ success: true });
+    const taxSettings = await loadTaxSettings(pool, req.branch_id);
+    res.json({
+      rate: taxSettings.rate,
+      prices_include_tax: taxSettings.pricesIncludeTax,
+      rules: taxSettings.rules
+    });
   } catch (error) {
-    console.error('Error updating user role:', error);
-    res.status(500).json({ error: 'Failed to update user role' });
+    console.error('Error fetching tax settings:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Update role permissions
-app.put('/api/roles/:id/permissions', authenticateToken, async (req, res) => {
+// Add a rate override for a category, an item or memberships
+app.post('/api/tax-rules', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const { permissions } = req.body;
-    const roleId = req.params.id;
+    const { target_type, category, item_id, rate, name, branch_only } = req.body;
+    const parsedRate = parseFloat(rate);
     
-    const connection = await pool.getConnection();
+    if (!TAX_RULE_TARGETS.includes(target_type)) {
+      return res.status(400).json({ message: 'Tax rules apply to a category, an item or memberships' });
+    }
     
-    try {
-      // Start transaction
-      await connection.beginTransaction();
-      
-      // Remove existing permissions
-      await connection.execute(
-        'DELETE FROM role_permissions WHERE role_id = ?',
-        [roleId]
-      );
-      
-      // Add new permissions
-      if (permissions && permissions.length > 0) {
-        const values = permissions.map(permissionId => [roleId, permissionId]);
-        await connection.execute(
-          'INSERT INTO role_permissions (role_id, permission_id) VALUES ?',
-          [values]
-        );
-      }
-      
-      await connection.commit();
-      res.json({ success: true });
-    } catch (error) {
-      await connection.rollback();
-      throw error;
-    } finally {
-      connection.release();
+    if (target_type === 'category' && !category) {
+      return res.status(400).json({ message: 'Category is required' });
+    }
+    
+    if (target_type === 'item' && !item_id) {
+      return res.status(400).json({ message: 'Item is required' });
+    }
+    
+    if (isNaN(parsedRate) || parsedRate < 0 || parsedRate > 100) {
+      return res.status(400).json({ message: 'Rate must be between 0 and 100' });
     }
+    
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.status(400).json({ message: 'Select a branch first' });
+    }
+    
+    const [result] = await pool.query(
+      'INSERT INTO tax_rules (company_id, branch_id, target_type, category, item_id, rate, name) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [
+        companyId,
+        branch_only ? req.branch_id : null,
+        target_type,
+        target_type === 'category' ? category : null,
+        target_type === 'item' ? item_id : null,
+        parsedRate,
+        name || null
+      ]
+    );
+    
+    res.status(201).json({ id: result.insertId, message: 'Tax rule created successfully' });
   } catch (error) {
-    console.error('Error updating role permissions:', error);
-    res.status(500).json({ error: 'Failed to update role permissions' });
+    console.error('Error creating tax rule:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Delete user
-app.delete('/api/users/:id', authenticateToken, async (req, res) => {
+app.delete('/api/tax-rules/:id', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const userId = req.params.id;
-    
-    // Don't allow deleting the last admin
-    const [users] = await pool.execute(
-      'SELECT COUNT(*) as count FROM users u JOIN roles r ON u.role_id = r.id WHERE r.name = "admin"'
-    );
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    const [result] = await pool.query('DELETE FROM tax_rules WHERE id = ? AND company_id = ?', [req.params.id, companyId]);
     
-    if (users[0].count <= 1) {
-      const [userToDelete] = await pool.execute(
-        'SELECT r.name as role_name FROM users u JOIN roles r ON u.role_id = r.id WHERE u.id = ?',
-        [userId]
-      );
-      
-      if (userToDelete[0]?.role_name === 'admin') {
-        return res.status(400).json({ error: 'Cannot delete the last admin user' });
-      }
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Tax rule not found' });
     }
     
-    await pool.execute('DELETE FROM users WHERE id = ?', [userId]);
-    res.json({ success: true });
+    res.json({ message: 'Tax rule deleted successfully' });
   } catch (error) {
-    console.error('Error deleting user:', error);
-    res.status(500).json({ error: 'Failed to delete user' });
+    console.error('Error deleting tax rule:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Create new user
-app.post('/api/users', authenticateToken, async (req, res) => {
-  try {
-    const { name, email, password, role_id } = req.body;
-    
-    // Validate required fields
-    if (!name || !email || !password || !role_id) {
-      return res.status(400).json({ message: 'Missing required fields' });
-    }
+// ======================= COUPONS =======================
+
+const COUPON_TYPES = ['percent', 'fixed', 'free_days'];
+const COUPON_TARGETS = ['membership', 'package', 'category'];
+
+const normalizeCouponCode = code => String(code || '').trim().toUpperCase();
+
+// A promo code usable at the branch: the company's codes for every branch plus the branch's own
+async function findCoupon(db, code, branchId) {
+  const [coupons] = await db.query(`
+    SELECT c.*, c.starts_on > CURRENT_DATE as not_started, c.ends_on < CURRENT_DATE as ended
+    FROM coupons c
+    JOIN branches b ON b.company_id = c.company_id
+    WHERE b.id = ? AND c.code = ? AND (c.branch_id IS NULL OR c.branch_id = b.id)
+  `, [branchId || null, normalizeCouponCode(code)]);
+  
+  if (coupons.length === 0) return null;
+  
+  const [targets] = await db.query('SELECT * FROM coupon_targets WHERE coupon_id = ?', [coupons[0].id]);
+  return { ...coupons[0], targets };
+}
+
+// Why a coupon can't be used right now by this member, or null if it can
+async function checkCouponUsage(db, coupon, subscriberId) {
+  if (!coupon.is_active) return `${coupon.code} is no longer active`;
+  if (coupon.not_started) return `${coupon.code} is not valid yet`;
+  if (coupon.ended) return `${coupon.code} has expired`;
+  
+  if (coupon.max_uses !== null) {
+    const [[{ uses }]] = await db.query('SELECT COUNT(*) as uses FROM coupon_redemptions WHERE coupon_id = ?', [coupon.id]);
+    if (uses >= coupon.max_uses) return `${coupon.code} has been fully redeemed`;
+  }
+  
+  if (coupon.max_uses_per_subscriber !== null) {
+    if (!subscriberId) return `${coupon.code} is for members only. Select the member first`;
     
-    // Check if user already exists
-    const [existingUsers] = await pool.execute(
-      'SELECT * FROM users WHERE email = ?',
-      [email]
+    const [[{ uses }]] = await db.query(
+      'SELECT COUNT(*) as uses FROM coupon_redemptions WHERE coupon_id = ? AND subscriber_id = ?',
+      [coupon.id, subscriberId]
     );
-    
-    if (existingUsers.length > 0) {
-      return res.status(400).json({ message: 'User already exists' });
+    if (uses >= coupon.max_uses_per_subscriber) return `This member has already used ${coupon.code}`;
+  }
+  
+  return null;
+}
+
+// A coupon without targets covers everything; free days only ever apply to memberships
+function isCouponEligible(coupon, line) {
+  if (coupon.discount_type === 'free_days' && line.type !== 'package') return false;
+  if (coupon.targets.length === 0) return true;
+  
+  return coupon.targets.some(target => {
+    if (line.type === 'package') {
+      return target.target_type === 'membership'
+        || (target.target_type === 'package' && String(target.package_id) === String(line.id));
+    }
+    return target.target_type === 'category' && line.category && target.category === line.category;
+  });
+}
+
+// Take a promo code off the priced lines it covers, spreading the amount across them.
+// Sets coupon_amount and coupon_free_days on each line. Returns { coupon } or { error, status }.
+async function applyCouponToLines(db, { code, branchId, subscriberId, lines }) {
+  const coupon = await findCoupon(db, code, branchId);
+  if (!coupon) {
+    return { error: `${normalizeCouponCode(code)} is not a valid code`, status: 404 };
+  }
+  
+  const usageError = await checkCouponUsage(db, coupon, subscriberId);
+  if (usageError) {
+    return { error: usageError, status: 409 };
+  }
+  
+  const eligible = lines.filter(line => isCouponEligible(coupon, line));
+  if (eligible.length === 0) {
+    return { error: `${coupon.code} can't be used on anything in this sale`, status: 400 };
+  }
+  
+  const value = parseFloat(coupon.value);
+  const base = roundMoney(eligible.reduce((sum, line) => sum + line.total, 0));
+  const amount = coupon.discount_type === 'percent'
+    ? roundMoney(base * Math.min(value, 100) / 100)
+    : coupon.discount_type === 'fixed' ? roundMoney(Math.min(value, base)) : 0;
+  const freeDays = coupon.discount_type === 'free_days' ? value : 0;
+  
+  // The last line takes the rounding remainder so the shares add up to the amount
+  let remaining = amount;
+  eligible.forEach((line, index) => {
+    line.coupon_amount = index === eligible.length - 1 || base === 0
+      ? remaining
+      : roundMoney(amount * line.total / base);
+    line.coupon_free_days = freeDays;
+    remaining = roundMoney(remaining - line.coupon_amount);
+  });
+  
+  return {
+    coupon: {
+      id: coupon.id,
+      code: coupon.code,
+      name: coupon.name,
+      discount_type: coupon.discount_type,
+      value,
+      amount,
+      free_days: freeDays,
+      subscriber_id: subscriberId || null
+    }
+  };
+}
+
+// What a package costs with a promo code. Returns { coupon, price, discount, free_days } or { error, status }.
+async function quoteCouponForPackage(db, { code, branchId, subscriberId, pkg }) {
+  const price = roundMoney(pkg.price);
+  if (!code) {
+    return { coupon: null, price, discount: 0, free_days: 0 };
+  }
+  
+  const line = { type: 'package', id: pkg.id, total: price, coupon_amount: 0, coupon_free_days: 0 };
+  const applied = await applyCouponToLines(db, { code, branchId, subscriberId, lines: [line] });
+  if (applied.error) {
+    return applied;
+  }
+  
+  return {
+    coupon: applied.coupon,
+    price: roundMoney(price - line.coupon_amount),
+    discount: line.coupon_amount,
+    free_days: line.coupon_free_days
+  };
+}
+
+// Record a use of a coupon. The coupon row is locked and its limits checked again so two tills
+// can't both take the last use. Must be called inside a transaction; returns an error message or null.
+async function redeemCoupon(connection, coupon, { subscriberId = null, saleId = null, subscriptionId = null, branchId, redeemedBy }) {
+  const [coupons] = await connection.query(
+    'SELECT *, starts_on > CURRENT_DATE as not_started, ends_on < CURRENT_DATE as ended FROM coupons WHERE id = ? FOR UPDATE',
+    [coupon.id]
+  );
+  if (coupons.length === 0) {
+    return `${coupon.code} is not a valid code`;
+  }
+  
+  const usageError = await checkCouponUsage(connection, coupons[0], subscriberId);
+  if (usageError) {
+    return usageError;
+  }
+  
+  await connection.query(
+    'INSERT INTO coupon_redemptions (coupon_id, subscriber_id, sale_id, subscription_id, branch_id, amount, free_days, redeemed_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [coupon.id, subscriberId, saleId, subscriptionId, branchId || null, coupon.amount, coupon.free_days, redeemedBy]
+  );
+  
+  return null;
+}
+
+// Validate a coupon form. Returns { coupon, targets } or { error }.
+function parseCouponInput(body) {
+  const code = normalizeCouponCode(body.code);
+  const value = parseFloat(body.value);
+  const targets = Array.isArray(body.targets) ? body.targets : [];
+  
+  if (!/^[A-Z0-9_-]{3,50}$/.test(code)) {
+    return { error: 'Codes are 3 to 50 letters, numbers, dashes or underscores' };
+  }
+  
+  if (!COUPON_TYPES.includes(body.discount_type)) {
+    return { error: 'Coupons take off a percentage, a fixed amount or add free days' };
+  }
+  
+  if (isNaN(value) || value <= 0) {
+    return { error: 'Value must be above zero' };
+  }
+  
+  if (body.discount_type === 'percent' && value > 100) {
+    return { error: 'A percentage can be at most 100' };
+  }
+  
+  if (body.discount_type === 'free_days' && !Number.isInteger(value)) {
+    return { error: 'Free days must be a whole number' };
+  }
+  
+  if (body.starts_on && body.ends_on && body.ends_on < body.starts_on) {
+    return { error: 'The end date must be on or after the start date' };
+  }
+  
+  for (const target of targets) {
+    if (!COUPON_TARGETS.includes(target.target_type)) {
+      return { error: 'Coupons apply to memberships, a package or a category' };
+    }
+    if (target.target_type === 'package' && !target.package_id) {
+      return { error: 'Package is required' };
+    }
+    if (target.target_type === 'category' && !target.category) {
+      return { error: 'Category is required' };
+    }
+    if (target.target_type === 'category' && body.discount_type === 'free_days') {
+      return { error: 'Free days only apply to memberships' };
+    }
+  }
+  
+  return {
+    coupon: {
+      code,
+      name: body.name || null,
+      discount_type: body.discount_type,
+      value,
+      starts_on: body.starts_on || null,
+      ends_on: body.ends_on || null,
+      max_uses: parseOptionalLimit(body.max_uses),
+      max_uses_per_subscriber: parseOptionalLimit(body.max_uses_per_subscriber)
+    },
+    targets: targets.map(target => ({
+      target_type: target.target_type,
+      package_id: target.target_type === 'package' ? target.package_id : null,
+      category: target.target_type === 'category' ? target.category : null
+    }))
+  };
+}
+
+async function insertCouponTargets(connection, couponId, targets) {
+  for (const target of targets) {
+    await connection.query(
+      'INSERT INTO coupon_targets (coupon_id, target_type, package_id, category) VALUES (?, ?, ?, ?)',
+      [couponId, target.target_type, target.package_id, target.category]
+    );
+  }
+}
+
+// Coupons usable at the current branch, with what they cover and how often they've been used
+app.get('/api/coupons', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.json([]);
     }
     
-    // Hash password
-    const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash(password, salt);
-    
-    // Create user
-    const [result] = await pool.execute(
-      'INSERT INTO users (name, email, password, role_id) VALUES (?, ?, ?, ?)',
-      [name, email, hashedPassword, role_id]
-    );
-    
-    // Get created user with role and permissions
-    const [users] = await pool.execute(`
-      SELECT 
-        u.*,
-        r.name as role_name,
-        r.description as role_description,
-        GROUP_CONCAT(DISTINCT p.name) as permissions
-      FROM users u
-      LEFT JOIN roles r ON u.role_id = r.id
-      LEFT JOIN role_permissions rp ON r.id = rp.role_id
-      LEFT JOIN permissions p ON rp.permission_id = p.id
-      WHERE u.id = ?
-      GROUP BY u.id
-    `, [result.insertId]);
-    
-    if (!users || users.length === 0) {
-      throw new Error('Failed to retrieve created user');
+    const [coupons] = await pool.query(`
+      SELECT c.*, b.name as branch_name,
+        DATE_FORMAT(c.starts_on, '%Y-%m-%d') as starts_on,
+        DATE_FORMAT(c.ends_on, '%Y-%m-%d') as ends_on,
+        (SELECT COUNT(*) FROM coupon_redemptions cr WHERE cr.coupon_id = c.id) as uses
+      FROM coupons c
+      LEFT JOIN branches b ON c.branch_id = b.id
+      WHERE c.company_id = ? AND (c.branch_id IS NULL OR c.branch_id = ?)
+      ORDER BY c.is_active DESC, c.created_at DESC
+    `, [companyId, req.branch_id]);
+    
+    if (coupons.length === 0) {
+      return res.json([]);
     }
     
-    const user = users[0];
-    const { password: _, ...userWithoutPassword } = user;
+    const [targets] = await pool.query(`
+      SELECT ct.*, p.name as package_name
+      FROM coupon_targets ct
+      LEFT JOIN packages p ON ct.package_id = p.id
+      WHERE ct.coupon_id IN (?)
+    `, [coupons.map(coupon => coupon.id)]);
+    
+    res.json(coupons.map(coupon => ({
+      ...coupon,
+      is_active: Boolean(coupon.is_active),
+      targets: targets.filter(target => target.coupon_id === coupon.id)
+    })));
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Redemptions per coupon over a date range at the current branch
+app.get('/api/coupons/redemptions', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
     
-    // Format response
-    const newUser = {
-      id: user.id.toString(),
-      name: user.name,
-      email: user.email,
-      role_id: user.role_id,
-      role_name: user.role_name,
-      role_description: user.role_description,
-      permissions: user.permissions,
-      created_at: user.created_at
-    };
+    if (!startDate || !endDate) {
+      return res.status(400).json({ error: 'Start date and end date are required' });
+    }
     
-    res.status(201).json(newUser);
+    const [redemptions] = await pool.execute(`
+      SELECT
+        c.id as coupon_id,
+        c.code,
+        c.name,
+        c.discount_type,
+        COUNT(*) as redemptions,
+        SUM(CASE WHEN cr.sale_id IS NOT NULL THEN 1 ELSE 0 END) as sale_redemptions,
+        SUM(CASE WHEN cr.subscription_id IS NOT NULL AND cr.sale_id IS NULL THEN 1 ELSE 0 END) as subscription_redemptions,
+        COUNT(DISTINCT cr.subscriber_id) as subscribers,
+        SUM(cr.amount) as discount_total,
+        SUM(cr.free_days) as free_days_total
+      FROM coupon_redemptions cr
+      JOIN coupons c ON cr.coupon_id = c.id
+      WHERE cr.created_at BETWEEN ? AND ?
+      AND (cr.branch_id = ? OR cr.branch_id IS NULL)
+      GROUP BY c.id, c.code, c.name, c.discount_type
+      ORDER BY redemptions DESC
+    `, [startDate, endDate, req.branch_id]);
+    
+    res.json(redemptions);
   } catch (error) {
-    console.error('Error creating user:', error);
-    res.status(500).json({ 
-      message: 'Server error', 
-      error: error.message,
-      details: error.stack 
-    });
+    console.error('Error fetching coupon redemptions:', error);
+    res.status(500).json({ error: 'Failed to fetch coupon redemptions' });
   }
 });
 
-// Subscriber routes
-// Get all subscribers
-app.get('/api/subscribers', authenticateToken, branchFilter, async (req, res) => {
+// Check a code against a package before creating a subscription with it
+app.post('/api/coupons/validate', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const [subscribers] = await pool.execute(`
-      SELECT 
-        s.*,
-        COUNT(DISTINCT sub.id) as total_subscriptions,
-        MAX(sub.end_date) as latest_end_date,
-        CASE 
-          WHEN MAX(sub.end_date) > CURRENT_DATE THEN 'active'
-          WHEN MAX(sub.end_date) < CURRENT_DATE THEN 'expired'
-          ELSE 'no_subscription'
-        END as current_status
-      FROM subscribers s
-      LEFT JOIN subscriptions sub ON s.id = sub.subscriber_id
-      WHERE s.branch_id = ? OR s.branch_id IS NULL
-      GROUP BY s.id
-      ORDER BY s.created_at DESC
-    `, [req.branch_id]);
+    const { code, package_id, subscriber_id } = req.body;
     
-    res.json(subscribers);
+    const [packages] = await pool.query('SELECT id, name, price FROM packages WHERE id = ?', [package_id]);
+    if (packages.length === 0) {
+      return res.status(404).json({ message: 'Package not found' });
+    }
+    
+    const quote = await quoteCouponForPackage(pool, {
+      code,
+      branchId: req.branch_id,
+      subscriberId: subscriber_id,
+      pkg: packages[0]
+    });
+    if (quote.error) {
+      return res.status(quote.status).json({ message: quote.error });
+    }
+    
+    res.json(quote);
   } catch (error) {
-    console.error('Error fetching subscribers:', error);
+    console.error('Error validating coupon:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Create subscriber
-app.post('/api/subscribers', authenticateToken, branchFilter, async (req, res) => {
+app.post('/api/coupons', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const { name, email, phone, address, date_of_birth, gender, emergency_contact, emergency_phone } = req.body;
+    const parsed = parseCouponInput(req.body);
+    if (parsed.error) {
+      return res.status(400).json({ message: parsed.error });
+    }
     
-    // Validate required fields
-    if (!name) {
-      return res.status(400).json({ message: 'Name is required' });
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.status(400).json({ message: 'Select a branch first' });
     }
     
-    // Check if email already exists
-    if (email) {
-      const [existingSubscribers] = await pool.execute(
-        'SELECT * FROM subscribers WHERE email = ?',
-        [email]
+    const { coupon, targets } = parsed;
+    const connection = await pool.getConnection();
+    let couponId;
+    
+    try {
+      await connection.beginTransaction();
+      
+      const [result] = await connection.query(
+        'INSERT INTO coupons (company_id, branch_id, code, name, discount_type, value, starts_on, ends_on, max_uses, max_uses_per_subscriber, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [
+          companyId,
+          req.body.branch_only ? req.branch_id : null,
+          coupon.code,
+          coupon.name,
+          coupon.discount_type,
+          coupon.value,
+          coupon.starts_on,
+          coupon.ends_on,
+          coupon.max_uses,
+          coupon.max_uses_per_subscriber,
+          req.user.id
+        ]
       );
+      couponId = result.insertId;
       
-      if (existingSubscribers.length > 0) {
-        return res.status(400).json({ message: 'Email already exists' });
-      }
+      await insertCouponTargets(connection, couponId, targets);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
     }
     
-    // Insert new subscriber with branch_id
-    const [result] = await pool.execute(
-      'INSERT INTO subscribers (name, email, phone, address, date_of_birth, gender, emergency_contact, emergency_phone, branch_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [name, email || null, phone || null, address || null, date_of_birth || null, gender || null, emergency_contact || null, emergency_phone || null, req.branch_id]
-    );
-    
-    // Get the newly created subscriber
-    const [subscribers] = await pool.execute(`
-      SELECT 
-        s.*,
-        COUNT(DISTINCT sub.id) as total_subscriptions,
-        MAX(sub.end_date) as latest_end_date,
-        CASE 
-          WHEN MAX(sub.end_date) > CURRENT_DATE THEN 'active'
-          WHEN MAX(sub.end_date) < CURRENT_DATE THEN 'expired'
-          ELSE 'no_subscription'
-        END as current_status
-      FROM subscribers s
-      LEFT JOIN subscriptions sub ON s.id = sub.subscriber_id
-      WHERE s.id = ?
-      GROUP BY s.id
-    `, [result.insertId]);
-    
-    res.status(201).json(subscribers[0]);
+    res.status(201).json({ id: couponId, message: 'Coupon created successfully' });
   } catch (error) {
-    console.error('Error creating subscriber:', error);
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A coupon with this code already exists' });
+    }
+    console.error('Error creating coupon:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Update subscriber
-app.put('/api/subscribers/:id', authenticateToken, async (req, res) => {
+app.put('/api/coupons/:id', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const { id } = req.params;
-    const { name, email, phone, address, date_of_birth, gender, emergency_contact, emergency_phone } = req.body;
-    
-    // Validate required fields
-    if (!name) {
-      return res.status(400).json({ message: 'Name is required' });
+    const parsed = parseCouponInput(req.body);
+    if (parsed.error) {
+      return res.status(400).json({ message: parsed.error });
     }
     
-    // Check if subscriber exists
-    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [id]);
-    if (existingSubscribers.length === 0) {
-      return res.status(404).json({ message: 'Subscriber not found' });
-    }
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    const { coupon, targets } = parsed;
+    const connection = await pool.getConnection();
     
-    // Check if email already exists (for another subscriber)
-    if (email) {
-      const [existingSubscribers] = await pool.execute(
-        'SELECT * FROM subscribers WHERE email = ? AND id != ?',
-        [email, id]
+    try {
+      await connection.beginTransaction();
+      
+      const [result] = await connection.query(
+        // Branch-only coupons can only be changed from their own branch
+        'UPDATE coupons SET branch_id = ?, code = ?, name = ?, discount_type = ?, value = ?, starts_on = ?, ends_on = ?, max_uses = ?, max_uses_per_subscriber = ?, is_active = ? WHERE id = ? AND company_id = ? AND (branch_id IS NULL OR branch_id = ?)',
+        [
+          req.body.branch_only ? req.branch_id : null,
+          coupon.code,
+          coupon.name,
+          coupon.discount_type,
+          coupon.value,
+          coupon.starts_on,
+          coupon.ends_on,
+          coupon.max_uses,
+          coupon.max_uses_per_subscriber,
+          req.body.is_active !== false,
+          req.params.id,
+          companyId,
+          req.branch_id || null
+        ]
       );
       
-      if (existingSubscribers.length > 0) {
-        return res.status(400).json({ message: 'Email already exists' });
+      if (result.affectedRows === 0) {
+        await connection.rollback();
+        return res.status(404).json({ message: 'Coupon not found' });
       }
+      
+      await connection.query('DELETE FROM coupon_targets WHERE coupon_id = ?', [req.params.id]);
+      await insertCouponTargets(connection, req.params.id, targets);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
     }
     
-    // Update subscriber
-    await pool.execute(
-      'UPDATE subscribers SET name = ?, email = ?, phone = ?, address = ?, date_of_birth = ?, gender = ?, emergency_contact = ?, emergency_phone = ? WHERE id = ?',
-      [name, email || null, phone || null, address || null, date_of_birth || null, gender || null, emergency_contact || null, emergency_phone || null, id]
-    );
-    
-    // Get updated subscriber
-    const [subscribers] = await pool.execute(`
-      SELECT 
-        s.*,
-        COUNT(DISTINCT sub.id) as total_subscriptions,
-        MAX(sub.end_date) as latest_end_date,
-        CASE 
-          WHEN MAX(sub.end_date) > CURRENT_DATE THEN 'active'
-          WHEN MAX(sub.end_date) < CURRENT_DATE THEN 'expired'
-          ELSE 'no_subscription'
-        END as current_status
-      FROM subscribers s
-      LEFT JOIN subscriptions sub ON s.id = sub.subscriber_id
-      WHERE s.id = ?
-      GROUP BY s.id
-    `, [id]);
-    
-    res.json(subscribers[0]);
+    res.json({ message: 'Coupon updated successfully' });
   } catch (error) {
-    console.error('Error updating subscriber:', error);
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'A coupon with this code already exists' });
+    }
+    console.error('Error updating coupon:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Delete subscriber
-app.delete('/api/subscribers/:id', authenticateToken, async (req, res) => {
+// Used coupons are kept for the redemption history; deactivate them instead
+app.delete('/api/coupons/:id', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const { id } = req.params;
-    
-    // Check if subscriber exists
-    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [id]);
-    if (existingSubscribers.length === 0) {
-      return res.status(404).json({ message: 'Subscriber not found' });
+    const [[{ uses }]] = await pool.query('SELECT COUNT(*) as uses FROM coupon_redemptions WHERE coupon_id = ?', [req.params.id]);
+    if (uses > 0) {
+      return res.status(409).json({ message: 'This coupon has been redeemed. Deactivate it instead.' });
     }
     
-    // Delete subscriber (subscriptions will be deleted via CASCADE)
-    await pool.execute('DELETE FROM subscribers WHERE id = ?', [id]);
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    const [result] = await pool.query(
+      'DELETE FROM coupons WHERE id = ? AND company_id = ? AND (branch_id IS NULL OR branch_id = ?)',
+      [req.params.id, companyId, req.branch_id || null]
+    );
     
-    res.json({ message: 'Subscriber deleted successfully' });
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Coupon not found' });
+    }
+    
+    res.json({ message: 'Coupon deleted successfully' });
   } catch (error) {
-    console.error('Error deleting subscriber:', error);
+    console.error('Error deleting coupon:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get subscriber's subscriptions
-app.get('/api/subscribers/:id/subscriptions', authenticateToken, async (req, res) => {
+// ======================= STORED VALUE =======================
+
+const STORED_VALUE_TYPES = ['gift_card', 'wallet'];
+
+const normalizeStoredValueCode = code => String(code || '').trim().toUpperCase();
+
+// Printed on the card, so no characters that are easy to misread
+function generateStoredValueCode(accountType) {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const digits = Array.from(crypto.randomBytes(10), byte => alphabet[byte % alphabet.length]).join('');
+  return `${accountType === 'wallet' ? 'W' : 'GC'}-${digits}`;
+}
+
+const STORED_VALUE_SELECT_SQL = `
+  SELECT a.*, s.name as subscriber_name, b.name as branch_name,
+    DATE_FORMAT(a.expires_on, '%Y-%m-%d') as expires_on
+  FROM stored_value_accounts a
+  LEFT JOIN subscribers s ON a.subscriber_id = s.id
+  LEFT JOIN branches b ON a.branch_id = b.id
+`;
+
+const formatStoredValueAccount = account => ({ ...account, balance: parseFloat(account.balance) });
+
+const describeStoredValueAccount = account => (
+  account.account_type === 'wallet' ? 'The member wallet' : `Gift card ${account.code}`
+);
+
+// A company's account by its code, or a member's wallet
+async function findStoredValueAccount(db, companyId, { code, subscriberId }) {
+  const [accounts] = code
+    ? await db.query(`${STORED_VALUE_SELECT_SQL} WHERE a.company_id = ? AND a.code = ?`, [companyId, normalizeStoredValueCode(code)])
+    : await db.query(`${STORED_VALUE_SELECT_SQL} WHERE a.company_id = ? AND a.subscriber_id = ?`, [companyId, subscriberId || null]);
+  
+  return accounts[0] ? formatStoredValueAccount(accounts[0]) : null;
+}
+
+// The account a stored-value payment draws on: the code that was entered, else the member's wallet.
+// Returns { account } or { error, status }.
+async function resolveStoredValueAccount(db, branchId, { code, subscriberId }) {
+  if (!code && !subscriberId) {
+    return { error: 'Enter a gift card code, or add the member to pay from their wallet', status: 400 };
+  }
+  
+  const companyId = await findBranchCompanyId(db, branchId);
+  const account = companyId ? await findStoredValueAccount(db, companyId, { code, subscriberId }) : null;
+  if (!account) {
+    return { error: code ? `${normalizeStoredValueCode(code)} is not a valid gift card or wallet` : 'This member has no wallet', status: 404 };
+  }
+  
+  return { account };
+}
+
+// The gift card or wallet that paid for a sale or subscription, so refunds go back onto it.
+// Memberships sold at the till were paid for by their sale.
+async function findStoredValuePayer(db, { saleId = null, subscriptionId = null }) {
+  const [entries] = await db.query(`
+    SELECT account_id FROM stored_value_transactions
+    WHERE type = 'redeem'
+    AND (sale_id = ? OR subscription_id = ? OR sale_id = (SELECT sale_id FROM sale_items WHERE subscription_id = ? LIMIT 1))
+    ORDER BY id
+    LIMIT 1
+  `, [saleId, subscriptionId, subscriptionId]);
+  
+  return entries.length > 0 ? entries[0].account_id : null;
+}
+
+// Move money onto (positive amount) or off (negative) an account and write the ledger entry.
+// The account row is locked so two tills can't spend the same balance.
+// Must be called inside a transaction; returns { account } or { error, status }.
+async function postStoredValueEntry(connection, accountId, entry) {
+  const [accounts] = await connection.query(
+    'SELECT *, expires_on < CURRENT_DATE as is_past_expiry FROM stored_value_accounts WHERE id = ? FOR UPDATE',
+    [accountId]
+  );
+  const account = accounts[0];
+  
+  if (!account) {
+    return { error: 'Gift card or wallet not found', status: 404 };
+  }
+  
+  if (entry.type !== 'expire' && (account.status !== 'active' || account.is_past_expiry)) {
+    return { error: `${describeStoredValueAccount(account)} has expired`, status: 409 };
+  }
+  
+  const balance = roundMoney(parseFloat(account.balance) + entry.amount);
+  if (balance < 0) {
+    return { error: `${describeStoredValueAccount(account)} only has ${parseFloat(account.balance).toFixed(2)} left`, status: 409 };
+  }
+  
+  await connection.query(
+    'UPDATE stored_value_accounts SET balance = ?, status = ? WHERE id = ?',
+    [balance, entry.type === 'expire' ? 'expired' : account.status, account.id]
+  );
+  
+  await connection.query(
+    'INSERT INTO stored_value_transactions (account_id, type, amount, balance_after, payment_method, reference, sale_id, sale_return_id, subscription_id, shift_id, branch_id, notes, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [
+      account.id,
+      entry.type,
+      entry.amount,
+      balance,
+      entry.paymentMethod || null,
+      parsePaymentReference(entry.reference),
+      entry.saleId || null,
+      entry.saleReturnId || null,
+      entry.subscriptionId || null,
+      entry.shiftId || null,
+      entry.branchId || null,
+      entry.notes || null,
+      entry.createdBy || null
+    ]
+  );
+  
+  return { account: { ...account, balance } };
+}
+
+// Pay for a subscription from a gift card or the member's wallet.
+// Must be called inside a transaction; returns an error message or null.
+async function chargeStoredValueForSubscription(connection, { branchId, subscriberId, code, amount, subscriptionId, createdBy }) {
+  const resolved = await resolveStoredValueAccount(connection, branchId, { code, subscriberId });
+  if (resolved.error) {
+    return resolved.error;
+  }
+  
+  const charge = await postStoredValueEntry(connection, resolved.account.id, {
+    type: 'redeem',
+    amount: -amount,
+    subscriptionId,
+    branchId,
+    notes: `Subscription #${subscriptionId}`,
+    createdBy
+  });
+  
+  return charge.error || null;
+}
+
+// Money taken for gift cards and top-ups goes in the cashier's drawer, so it follows the sales shift rule.
+// Returns { shift } or { error }.
+async function findPaymentShift(req) {
+  const shift = await findOpenShift(pool, req.user.id, req.branch_id);
+  if (shift) {
+    return { shift };
+  }
+  
+  const [branches] = await pool.query('SELECT require_shift FROM branches WHERE id = ?', [req.branch_id || null]);
+  if (branches.length > 0 && branches[0].require_shift) {
+    return { error: 'Open a shift before taking payments' };
+  }
+  
+  return { shift: null };
+}
+
+// Zero out gift cards and wallets whose expiry date has passed
+async function storedValueExpiryTask() {
+  const [accounts] = await pool.query(
+    "SELECT id, balance FROM stored_value_accounts WHERE status = 'active' AND expires_on < CURRENT_DATE"
+  );
+  
+  let expiredAmount = 0;
+  for (const account of accounts) {
+    const connection = await pool.getConnection();
+    
+    try {
+      await connection.beginTransaction();
+      const result = await postStoredValueEntry(connection, account.id, {
+        type: 'expire',
+        amount: -parseFloat(account.balance),
+        notes: 'Expired'
+      });
+      await connection.commit();
+      
+      if (!result.error) {
+        expiredAmount = roundMoney(expiredAmount + parseFloat(account.balance));
+      }
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+  
+  return { expired: accounts.length, amount: expiredAmount };
+}
+
+// Gift cards and wallets of the current branch's company, optionally searched by code or holder
+app.get('/api/stored-value', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const { id } = req.params;
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.json([]);
+    }
     
-    // Check if subscriber exists
-    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [id]);
-    if (existingSubscribers.length === 0) {
-      return res.status(404).json({ message: 'Subscriber not found' });
+    const search = String(req.query.search || '').trim();
+    let query = `${STORED_VALUE_SELECT_SQL} WHERE a.company_id = ?`;
+    const params = [companyId];
+    
+    if (search) {
+      query += ' AND (a.code = ? OR s.name LIKE ? OR s.card_number = ?)';
+      params.push(normalizeStoredValueCode(search), `%${search}%`, search);
     }
     
-    // Get subscriptions with package details
-    const [subscriptions] = await pool.execute(`
-      SELECT 
-        sub.*,
-        p.name as package_name,
-        p.days as package_days,
-        p.price as package_price
-      FROM subscriptions sub
-      JOIN packages p ON sub.package_id = p.id
-      WHERE sub.subscriber_id = ?
-      ORDER BY sub.created_at DESC
-    `, [id]);
+    query += ' ORDER BY a.created_at DESC LIMIT 200';
     
-    res.json(subscriptions);
+    const [accounts] = await pool.query(query, params);
+    res.json(accounts.map(formatStoredValueAccount));
   } catch (error) {
-    console.error('Error fetching subscriber subscriptions:', error);
+    console.error('Error fetching stored value accounts:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Create subscription
-app.post('/api/subscriptions', authenticateToken, async (req, res) => {
+// Balance lookup by card code or by member
+app.get('/api/stored-value/lookup', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const { subscriber_id, package_id, start_date, payment_method, notes } = req.body;
-    
-    // Validate required fields
-    if (!subscriber_id || !package_id || !start_date || !payment_method) {
-      return res.status(400).json({ message: 'Missing required fields' });
-    }
-    
-    // Check if subscriber exists
-    const [existingSubscribers] = await pool.execute('SELECT * FROM subscribers WHERE id = ?', [subscriber_id]);
-    if (existingSubscribers.length === 0) {
-      return res.status(404).json({ message: 'Subscriber not found' });
-    }
+    const { code, subscriber_id } = req.query;
+    const resolved = await resolveStoredValueAccount(pool, req.branch_id, { code, subscriberId: subscriber_id });
     
-    // Get package details
-    const [packages] = await pool.execute('SELECT * FROM packages WHERE id = ?', [package_id]);
-    if (packages.length === 0) {
-      return res.status(404).json({ message: 'Package not found' });
+    if (resolved.error) {
+      return res.status(resolved.status).json({ message: resolved.error });
     }
     
-    const pkg = packages[0];
-    
-    // Calculate end date based on package days
-    const end_date = new Date(start_date);
-    end_date.setDate(end_date.getDate() + pkg.days);
-    
-    // Insert subscription
-    const [result] = await pool.execute(
-      'INSERT INTO subscriptions (subscriber_id, package_id, start_date, end_date, total_amount, payment_method, notes, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-      [subscriber_id, package_id, start_date, end_date, pkg.price, payment_method, notes || null, req.user.id]
-    );
-    
-    // Get the newly created subscription with package details
-    const [subscriptions] = await pool.execute(`
-      SELECT 
-        sub.*,
-        p.name as package_name,
-        p.days as package_days,
-        p.price as package_price
-      FROM subscriptions sub
-      JOIN packages p ON sub.package_id = p.id
-      WHERE sub.id = ?
-    `, [result.insertId]);
-    
-    res.status(201).json(subscriptions[0]);
+    res.json(resolved.account);
   } catch (error) {
-    console.error('Error creating subscription:', error);
+    console.error('Error looking up stored value account:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Dashboard routes
-// Get dashboard statistics
-app.get('/api/dashboard/stats', authenticateToken, branchFilter, async (req, res) => {
+// Outstanding gift card and wallet balances per company: money taken for goods not yet given
+app.get('/api/stored-value/liability', authenticateToken, requireAdmin, async (req, res) => {
   try {
-    // Get total subscribers for this branch
-    const [subscribersResult] = await pool.execute(
-      'SELECT COUNT(*) as total FROM subscribers WHERE branch_id = ? OR branch_id IS NULL',
-      [req.branch_id]
-    );
-    const totalSubscribers = subscribersResult[0].total;
-
-    // Get total sales and revenue for this branch
-    const [salesResult] = await pool.execute(`
-      SELECT 
-        COUNT(*) as total_sales,
-        COALESCE(SUM(total), 0) as total_revenue
-      FROM sales
-      WHERE (branch_id = ? OR branch_id IS NULL)
-      AND created_at >= DATE_SUB(CURRENT_DATE, INTERVAL 30 DAY)
-    `, [req.branch_id]);
-    const { total_sales, total_revenue } = salesResult[0];
-
-    // Get total inventory items for this branch
-    const [inventoryResult] = await pool.execute(`
-      SELECT COUNT(*) as total 
-      FROM inventory_items i
-      LEFT JOIN inventory_transactions t ON i.id = t.item_id
-      WHERE t.branch_id = ? OR t.branch_id IS NULL
-      GROUP BY i.id
-    `, [req.branch_id]);
+    const [companies] = await pool.query(`
+      SELECT
+        c.id as company_id,
+        c.name as company_name,
+        COUNT(a.id) as accounts,
+        COALESCE(SUM(CASE WHEN a.account_type = 'gift_card' THEN a.balance ELSE 0 END), 0) as gift_card_balance,
+        COALESCE(SUM(CASE WHEN a.account_type = 'wallet' THEN a.balance ELSE 0 END), 0) as wallet_balance,
+        COALESCE(SUM(a.balance), 0) as total_balance,
+        COALESCE(SUM(CASE WHEN a.expires_on < DATE_ADD(CURRENT_DATE, INTERVAL 30 DAY) THEN a.balance ELSE 0 END), 0) as expiring_soon
+      FROM stored_value_accounts a
+      JOIN companies c ON a.company_id = c.id
+      WHERE a.status = 'active' AND a.balance > 0
+      GROUP BY c.id, c.name
+      ORDER BY c.name
+    `);
     
-    const totalInventory = inventoryResult.length;
-
-    res.json({
-      totalSubscribers,
-      totalSales: total_sales,
-      totalInventory,
-      totalRevenue: parseFloat(total_revenue)
-    });
+    res.json(companies.map(company => ({
+      ...company,
+      gift_card_balance: parseFloat(company.gift_card_balance),
+      wallet_balance: parseFloat(company.wallet_balance),
+      total_balance: parseFloat(company.total_balance),
+      expiring_soon: parseFloat(company.expiring_soon)
+    })));
   } catch (error) {
-    console.error('Error fetching dashboard stats:', error);
+    console.error('Error fetching stored value liability:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get recent activities
-app.get('/api/dashboard/recent-activities', authenticateToken, branchFilter, async (req, res) => {
+// An account's ledger, newest first
+app.get('/api/stored-value/:id/transactions', authenticateToken, branchFilter, async (req, res) => {
   try {
-    // Get recent sales for this branch
-    const [sales] = await pool.execute(`
-      SELECT 
-        'sale' as type,
-        created_at,
-        total as amount,
-        payment_method,
-        customer_name,
-        customer_email
-      FROM sales
-      WHERE branch_id = ? OR branch_id IS NULL
-      ORDER BY created_at DESC
-      LIMIT 5
-    `, [req.branch_id]);
-
-    // Get recent inventory transactions for this branch
-    const [inventoryTransactions] = await pool.execute(`
-      SELECT 
-        'inventory' as type,
-        t.created_at,
-        t.total_amount as amount,
-        t.type as transaction_type,
-        i.name as item_name,
-        t.quantity
-      FROM inventory_transactions t
-      JOIN inventory_items i ON t.item_id = i.id
-      WHERE t.branch_id = ? OR t.branch_id IS NULL
-      ORDER BY t.created_at DESC
-      LIMIT 5
-    `, [req.branch_id]);
-
-    // Combine and sort by date
-    const activities = [...sales, ...inventoryTransactions]
-      .sort((a, b) => new Date(b.created_at) - new Date(a.created_at))
-      .slice(0, 5);
-
-    res.json(activities);
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    
+    const [transactions] = await pool.query(`
+      SELECT t.*, u.name as created_by_name, b.name as branch_name
+      FROM stored_value_transactions t
+      JOIN stored_value_accounts a ON t.account_id = a.id
+      LEFT JOIN users u ON t.created_by = u.id
+      LEFT JOIN branches b ON t.branch_id = b.id
+      WHERE t.account_id = ? AND a.company_id = ?
+      ORDER BY t.created_at DESC, t.id DESC
+    `, [req.params.id, companyId]);
+    
+    res.json(transactions.map(transaction => ({
+      ...transaction,
+      amount: parseFloat(transaction.amount),
+      balance_after: parseFloat(transaction.balance_after)
+    })));
   } catch (error) {
-    console.error('Error fetching recent activities:', error);
+    console.error('Error fetching stored value transactions:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get sales by month
-app.get('/api/dashboard/sales-by-month', authenticateToken, branchFilter, async (req, res) => {
+// Issue a gift card, or open a member's wallet, with an opening balance paid for at the till
+app.post('/api/stored-value', authenticateToken, branchFilter, async (req, res) => {
   try {
-    // Force MySQL to use the date value correctly
-    const [sales] = await pool.execute(`
-      SELECT 
-        DATE_FORMAT(created_at, '%Y-%m') as month,
-        COUNT(*) as count,
-        COALESCE(SUM(total), 0) as total_sales
-      FROM sales
-      WHERE created_at >= DATE_SUB(CURRENT_DATE, INTERVAL 6 MONTH)
-      AND (branch_id = ? OR branch_id IS NULL)
-      GROUP BY month
-      ORDER BY month ASC
-    `, [req.branch_id]);
-
-    // If there's only one data point, add more data points for the graph
-    if (sales.length <= 1) {
-      // Get current date and calculate the past 6 months
-      const today = new Date();
-      const monthsData = [];
+    const { account_type, subscriber_id, code, amount, payment_method, payment_reference, expires_on, notes } = req.body;
+    const openingBalance = roundMoney(amount || 0);
+    
+    if (!STORED_VALUE_TYPES.includes(account_type)) {
+      return res.status(400).json({ message: 'Choose a gift card or a wallet' });
+    }
+    
+    if (isNaN(openingBalance) || openingBalance < 0 || (account_type === 'gift_card' && openingBalance === 0)) {
+      return res.status(400).json({ message: account_type === 'gift_card' ? 'Gift cards need an amount above zero' : 'Amount must be zero or more' });
+    }
+    
+    // Gift cards and top-ups are paid for with money, not with other gift cards or points
+    if (openingBalance > 0) {
+      const paymentError = await checkPaymentMethod(pool, req.branch_id, { code: payment_method, reference: payment_reference });
+      if (paymentError) {
+        return res.status(400).json({ message: paymentError });
+      }
+    }
+    
+    if (account_type === 'wallet' && !subscriber_id) {
+      return res.status(400).json({ message: 'Select the member the wallet is for' });
+    }
+    
+    const cardCode = code ? normalizeStoredValueCode(code) : generateStoredValueCode(account_type);
+    if (!/^[A-Z0-9_-]{4,50}$/.test(cardCode)) {
+      return res.status(400).json({ message: 'Codes are 4 to 50 letters, numbers, dashes or underscores' });
+    }
+    
+    if (subscriber_id) {
+      const [subscribers] = await pool.query('SELECT id FROM subscribers WHERE id = ?', [subscriber_id]);
+      if (subscribers.length === 0) {
+        return res.status(404).json({ message: 'Subscriber not found' });
+      }
+    }
+    
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.status(400).json({ message: 'Select a branch first' });
+    }
+    
+    const { shift, error: shiftError } = await findPaymentShift(req);
+    if (shiftError) {
+      return res.status(409).json({ message: shiftError });
+    }
+    
+    const connection = await pool.getConnection();
+    let accountId;
+    
+    try {
+      await connection.beginTransaction();
       
-      for (let i = 5; i >= 0; i--) {
-        const date = new Date(today.getFullYear(), today.getMonth() - i, 1);
-        const monthStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        
-        // Check if we have data for this month
-        const existingData = sales.find(sale => sale.month === monthStr);
-        
-        if (existingData) {
-          monthsData.push({
-            ...existingData,
-            total_sales: parseFloat(existingData.total_sales)
-          });
-        } else {
-          // Add empty data for this month
-          monthsData.push({
-            month: monthStr,
-            count: 0,
-            total_sales: 0
-          });
-        }
+      const [result] = await connection.query(
+        'INSERT INTO stored_value_accounts (company_id, branch_id, account_type, code, subscriber_id, expires_on, created_by) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [companyId, req.branch_id || null, account_type, cardCode, account_type === 'wallet' ? subscriber_id : null, expires_on || null, req.user.id]
+      );
+      accountId = result.insertId;
+      
+      const issued = await postStoredValueEntry(connection, accountId, {
+        type: 'issue',
+        amount: openingBalance,
+        paymentMethod: openingBalance > 0 ? payment_method : null,
+        reference: openingBalance > 0 ? payment_reference : null,
+        shiftId: shift ? shift.id : null,
+        branchId: req.branch_id,
+        notes,
+        createdBy: req.user.id
+      });
+      
+      if (issued.error) {
+        await connection.rollback();
+        return res.status(issued.status).json({ message: issued.error });
       }
       
-      res.json(monthsData);
-    } else {
-      // Return the existing data with proper type conversion
-      res.json(sales.map(sale => ({
-        ...sale,
-        total_sales: parseFloat(sale.total_sales)
-      })));
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
     }
+    
+    res.status(201).json(await findStoredValueAccount(pool, companyId, { code: cardCode }));
   } catch (error) {
-    console.error('Error fetching sales by month:', error);
+    if (error.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({
+        message: req.body.account_type === 'wallet' ? 'This member already has a wallet. Top it up instead.' : 'That code is already in use'
+      });
+    }
+    console.error('Error issuing stored value account:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get low stock items
-app.get('/api/dashboard/low-stock', authenticateToken, branchFilter, async (req, res) => {
+// Add money to a gift card or wallet
+app.post('/api/stored-value/:id/top-up', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const [items] = await pool.execute(`
-      SELECT 
-        i.id,
-        i.name,
-        i.sku,
-        i.quantity,
-        i.price,
-        i.cost
-      FROM inventory_items i
-      LEFT JOIN inventory_transactions t ON i.id = t.item_id
-      WHERE i.quantity <= 10
-      AND (t.branch_id = ? OR t.branch_id IS NULL)
-      GROUP BY i.id
-      ORDER BY i.quantity ASC
-      LIMIT 5
-    `, [req.branch_id]);
-
-    res.json(items.map(item => ({
-      ...item,
-      price: parseFloat(item.price),
-      cost: parseFloat(item.cost)
-    })));
+    const { amount, payment_method, payment_reference, notes } = req.body;
+    const topUp = roundMoney(amount);
+    
+    if (!(topUp > 0)) {
+      return res.status(400).json({ message: 'Amount must be greater than zero' });
+    }
+    
+    const paymentError = await checkPaymentMethod(pool, req.branch_id, { code: payment_method, reference: payment_reference });
+    if (paymentError) {
+      return res.status(400).json({ message: paymentError });
+    }
+    
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    const [accounts] = await pool.query('SELECT id, code FROM stored_value_accounts WHERE id = ? AND company_id = ?', [req.params.id, companyId]);
+    if (accounts.length === 0) {
+      return res.status(404).json({ message: 'Gift card or wallet not found' });
+    }
+    
+    const { shift, error: shiftError } = await findPaymentShift(req);
+    if (shiftError) {
+      return res.status(409).json({ message: shiftError });
+    }
+    
+    const connection = await pool.getConnection();
+    
+    try {
+      await connection.beginTransaction();
+      
+      const result = await postStoredValueEntry(connection, accounts[0].id, {
+        type: 'top_up',
+        amount: topUp,
+        paymentMethod: payment_method,
+        reference: payment_reference,
+        shiftId: shift ? shift.id : null,
+        branchId: req.branch_id,
+        notes,
+        createdBy: req.user.id
+      });
+      
+      if (result.error) {
+        await connection.rollback();
+        return res.status(result.status).json({ message: result.error });
+      }
+      
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+    
+    res.json(await findStoredValueAccount(pool, companyId, { code: accounts[0].code }));
   } catch (error) {
-    console.error('Error fetching low stock items:', error);
+    console.error('Error topping up stored value account:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Companies routes
-app.get('/api/companies', authenticateToken, async (req, res) => {
+// Expire an account now, writing off whatever is left on it
+app.post('/api/stored-value/:id/expire', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const [companies] = await pool.query('SELECT * FROM companies ORDER BY created_at DESC');
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    const [accounts] = await pool.query('SELECT * FROM stored_value_accounts WHERE id = ? AND company_id = ?', [req.params.id, companyId]);
+    if (accounts.length === 0) {
+      return res.status(404).json({ message: 'Gift card or wallet not found' });
+    }
     
-    // Convert binary logo data to base64 for frontend display
-    const processedCompanies = companies.map(company => {
-      if (company.logo) {
-        company.logo = company.logo.toString('base64');
-      }
-      return company;
-    });
+    if (accounts[0].status === 'expired') {
+      return res.status(400).json({ message: 'Already expired' });
+    }
     
-    res.json(processedCompanies);
+    const connection = await pool.getConnection();
+    
+    try {
+      await connection.beginTransaction();
+      
+      // Lock first so the amount written off is the balance at this moment
+      const [[locked]] = await connection.query('SELECT balance FROM stored_value_accounts WHERE id = ? FOR UPDATE', [accounts[0].id]);
+      await postStoredValueEntry(connection, accounts[0].id, {
+        type: 'expire',
+        amount: -parseFloat(locked.balance),
+        branchId: req.branch_id,
+        notes: req.body.notes || 'Expired manually',
+        createdBy: req.user.id
+      });
+      
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+    
+    res.json(await findStoredValueAccount(pool, companyId, { code: accounts[0].code }));
   } catch (error) {
-    console.error('Error fetching companies:', error);
-    res.status(500).json({ error: 'Failed to fetch companies' });
+    console.error('Error expiring stored value account:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-app.post('/api/companies', authenticateToken, upload.single('logo'), async (req, res) => {
-  try {
-    const { name, registration_number, vat_number, address, id_nat, logo_type } = req.body;
-    const logo = req.file ? req.file.buffer : null;
+// ======================= LOYALTY POINTS =======================
 
-    const [result] = await pool.query(
-      'INSERT INTO companies (name, registration_number, vat_number, address, id_nat, logo, logo_type) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [name, registration_number, vat_number, address, id_nat, logo, logo_type]
-    );
+const LOYALTY_RULE_TARGETS = ['category', 'package'];
 
-    res.status(201).json({ id: result.insertId, message: 'Company created successfully' });
-  } catch (error) {
-    console.error('Error creating company:', error);
-    res.status(500).json({ error: 'Failed to create company' });
-  }
-});
+// Points past their expiry date no longer count, even before the expiry job has written them off
+const UNEXPIRED_POINTS_SQL = '(expires_on IS NULL OR expires_on >= CURRENT_DATE)';
 
-app.put('/api/companies/:id', authenticateToken, upload.single('logo'), async (req, res) => {
-  try {
-    const { id } = req.params;
-    const { name, registration_number, vat_number, address, id_nat, logo_type } = req.body;
-    const logo = req.file ? req.file.buffer : null;
+// The loyalty program of a branch's company, with its category multipliers and package bonuses.
+// Returns null when the branch has no company.
+async function loadLoyaltyProgram(db, branchId) {
+  const [companies] = await db.query(`
+    SELECT c.id, c.loyalty_enabled, c.loyalty_points_per_unit, c.loyalty_point_value, c.loyalty_expiry_days
+    FROM branches b
+    JOIN companies c ON b.company_id = c.id
+    WHERE b.id = ?
+  `, [branchId || null]);
+  if (companies.length === 0) return null;
+  
+  const company = companies[0];
+  const [rules] = await db.query('SELECT * FROM loyalty_rules WHERE company_id = ?', [company.id]);
+  
+  return {
+    companyId: company.id,
+    enabled: !!company.loyalty_enabled,
+    pointsPerUnit: parseFloat(company.loyalty_points_per_unit),
+    pointValue: parseFloat(company.loyalty_point_value),
+    expiryDays: company.loyalty_expiry_days,
+    categoryMultipliers: Object.fromEntries(rules
+      .filter(rule => rule.target_type === 'category')
+      .map(rule => [rule.category, parseFloat(rule.multiplier)])),
+    packageBonuses: Object.fromEntries(rules
+      .filter(rule => rule.target_type === 'package')
+      .map(rule => [rule.package_id, rule.bonus_points]))
+  };
+}
 
-    let query = 'UPDATE companies SET name = ?, registration_number = ?, vat_number = ?, address = ?, id_nat = ?, logo_type = ?';
-    let params = [name, registration_number, vat_number, address, id_nat, logo_type];
+// Points needed to pay an amount, rounded up to whole points
+function getPointsForAmount(program, amount) {
+  return Math.ceil(roundMoney(amount) / program.pointValue - 1e-9);
+}
 
-    if (logo) {
-      query += ', logo = ?';
-      params.push(logo);
-    }
+async function getPointsBalance(db, companyId, subscriberId) {
+  const [[{ balance }]] = await db.query(
+    `SELECT COALESCE(SUM(remaining), 0) as balance FROM loyalty_points WHERE company_id = ? AND subscriber_id = ? AND ${UNEXPIRED_POINTS_SQL}`,
+    [companyId, subscriberId]
+  );
+  return Number(balance);
+}
 
-    query += ' WHERE id = ?';
-    params.push(id);
+// A member's points at the current branch's company, for the POS and the member profile
+async function loadMemberPoints(db, subscriberId, branchId) {
+  const program = await loadLoyaltyProgram(db, branchId);
+  if (!program) return null;
+  
+  const balance = await getPointsBalance(db, program.companyId, subscriberId);
+  const [[expiring]] = await db.query(`
+    SELECT COALESCE(SUM(remaining), 0) as points, DATE_FORMAT(MIN(expires_on), '%Y-%m-%d') as next_expiry
+    FROM loyalty_points
+    WHERE company_id = ? AND subscriber_id = ? AND remaining > 0
+    AND expires_on BETWEEN CURRENT_DATE AND DATE_ADD(CURRENT_DATE, INTERVAL 30 DAY)
+  `, [program.companyId, subscriberId]);
+  
+  return {
+    enabled: program.enabled,
+    balance,
+    point_value: program.pointValue,
+    value: roundMoney(balance * program.pointValue),
+    expiring_soon: Number(expiring.points),
+    next_expiry: expiring.next_expiry
+  };
+}
 
-    await pool.query(query, params);
+// Add points to (positive) or take them off (negative) a member and write the ledger entry.
+// Points are taken from the ones that expire first. The member's unspent points are locked so
+// two tills can't spend them twice; with clamp, a deduction larger than the balance takes what's left.
+// Must be called inside a transaction; returns { points, balance } or { error, status }.
+async function postLoyaltyEntry(connection, entry) {
+  const [lots] = await connection.query(`
+    SELECT id, remaining FROM loyalty_points
+    WHERE company_id = ? AND subscriber_id = ? AND remaining > 0 AND ${UNEXPIRED_POINTS_SQL}
+    ORDER BY expires_on IS NULL, expires_on, id
+    FOR UPDATE
+  `, [entry.companyId, entry.subscriberId]);
+  const balance = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+  
+  let points = entry.points;
+  if (-points > balance) {
+    if (!entry.clamp) {
+      return { error: `The member only has ${balance} points`, status: 409 };
+    }
+    points = -balance;
+  }
+  
+  if (points === 0) {
+    return { points, balance };
+  }
+  
+  let toTake = -points;
+  for (const lot of lots) {
+    if (toTake <= 0) break;
+    const taken = Math.min(lot.remaining, toTake);
+    await connection.query('UPDATE loyalty_points SET remaining = remaining - ? WHERE id = ?', [taken, lot.id]);
+    toTake -= taken;
+  }
+  
+  const expiryDays = points > 0 ? entry.expiryDays || 0 : 0;
+  await connection.query(`
+    INSERT INTO loyalty_points (company_id, subscriber_id, type, points, remaining, balance_after, expires_on, sale_id, sale_return_id, subscription_id, branch_id, notes, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, IF(? > 0, DATE_ADD(CURRENT_DATE, INTERVAL ? DAY), NULL), ?, ?, ?, ?, ?, ?)
+  `, [
+    entry.companyId,
+    entry.subscriberId,
+    entry.type,
+    points,
+    Math.max(points, 0),
+    balance + points,
+    expiryDays,
+    expiryDays,
+    entry.saleId || null,
+    entry.saleReturnId || null,
+    entry.subscriptionId || null,
+    entry.branchId || null,
+    entry.notes || null,
+    entry.createdBy || null
+  ]);
+  
+  return { points, balance: balance + points };
+}
 
-    res.json({ message: 'Company updated successfully' });
-  } catch (error) {
-    console.error('Error updating company:', error);
-    res.status(500).json({ error: 'Failed to update company' });
+// Credit the points a payment earns, and a package's bonus when one is given.
+// amount is what the member paid, already weighted by any category multipliers.
+// Must be called inside a transaction; returns the points credited.
+async function awardLoyaltyPoints(connection, program, { subscriberId, amount, packageId = null, saleId = null, subscriptionId = null, branchId = null, notes, createdBy }) {
+  if (!program || !program.enabled || !subscriberId) return 0;
+  
+  const earned = Math.max(Math.floor(amount * program.pointsPerUnit + 1e-9), 0);
+  const bonus = packageId ? program.packageBonuses[packageId] || 0 : 0;
+  
+  for (const [type, points, entryNotes] of [['earn', earned, notes], ['bonus', bonus, 'Package bonus']]) {
+    if (points > 0) {
+      await postLoyaltyEntry(connection, {
+        companyId: program.companyId,
+        subscriberId,
+        type,
+        points,
+        expiryDays: program.expiryDays,
+        saleId,
+        subscriptionId,
+        branchId,
+        notes: entryNotes,
+        createdBy
+      });
+    }
   }
-});
+  
+  return earned + bonus;
+}
 
-app.delete('/api/companies/:id', authenticateToken, async (req, res) => {
-  try {
-    const { id } = req.params;
-    await pool.query('DELETE FROM companies WHERE id = ?', [id]);
-    res.json({ message: 'Company deleted successfully' });
-  } catch (error) {
-    console.error('Error deleting company:', error);
-    res.status(500).json({ error: 'Failed to delete company' });
+// Take back a share of the points a sale's items or a subscription earned when it's refunded.
+// Points the member has already spent stay spent.
+// Must be called inside a transaction.
+async function reverseEarnedPoints(connection, { saleId = null, subscriptionId = null, share, saleReturnId = null, branchId = null, notes, createdBy }) {
+  const [earned] = await connection.query(`
+    SELECT company_id, subscriber_id,
+      SUM(CASE WHEN type = 'reverse' THEN 0 ELSE points END) as earned,
+      SUM(CASE WHEN type = 'reverse' THEN -points ELSE 0 END) as reversed
+    FROM loyalty_points
+    WHERE type IN ('earn', 'bonus', 'reverse') AND ${subscriptionId ? 'subscription_id = ?' : 'sale_id = ? AND subscription_id IS NULL'}
+    GROUP BY company_id, subscriber_id
+  `, [subscriptionId || saleId]);
+  
+  for (const row of earned) {
+    const points = Math.min(Math.round(Number(row.earned) * share), Number(row.earned) - Number(row.reversed));
+    if (points > 0) {
+      await postLoyaltyEntry(connection, {
+        companyId: row.company_id,
+        subscriberId: row.subscriber_id,
+        type: 'reverse',
+        points: -points,
+        clamp: true,
+        saleId,
+        saleReturnId,
+        subscriptionId,
+        branchId,
+        notes,
+        createdBy
+      });
+    }
   }
-});
+}
 
-// ======================= BRANCH ROUTES =======================
+// Write off points whose expiry date has passed
+async function loyaltyExpiryTask() {
+  const [lots] = await pool.query('SELECT id FROM loyalty_points WHERE remaining > 0 AND expires_on < CURRENT_DATE');
+  
+  let expiredPoints = 0;
+  for (const { id } of lots) {
+    const connection = await pool.getConnection();
+    
+    try {
+      await connection.beginTransaction();
+      const [[lot]] = await connection.query('SELECT * FROM loyalty_points WHERE id = ? FOR UPDATE', [id]);
+      
+      if (lot.remaining > 0) {
+        await connection.query('UPDATE loyalty_points SET remaining = 0 WHERE id = ?', [id]);
+        await connection.query(
+          'INSERT INTO loyalty_points (company_id, subscriber_id, type, points, balance_after, notes) VALUES (?, ?, ?, ?, ?, ?)',
+          [lot.company_id, lot.subscriber_id, 'expire', -lot.remaining, await getPointsBalance(connection, lot.company_id, lot.subscriber_id), 'Expired']
+        );
+        expiredPoints += lot.remaining;
+      }
+      
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+  
+  return { expired: lots.length, points: expiredPoints };
+}
 
-// Get all branches with company names
-app.get('/api/branches', authenticateToken, async (req, res) => {
+const formatLoyaltyProgram = program => ({
+  enabled: program.enabled,
+  points_per_unit: program.pointsPerUnit,
+  point_value: program.pointValue,
+  expiry_days: program.expiryDays
+});
+
+// The current branch's company program and its earn rules
+app.get('/api/loyalty/program', authenticateToken, branchFilter, async (req, res) => {
   try {
-    const [rows] = await pool.query(`
-      SELECT b.*, c.name as company_name
-      FROM branches b
-      JOIN companies c ON b.company_id = c.id
-      ORDER BY b.created_at DESC
-    `);
-    res.json(rows);
+    const program = await loadLoyaltyProgram(pool, req.branch_id);
+    if (!program) {
+      return res.status(400).json({ message: 'Select a branch first' });
+    }
+    
+    const [rules] = await pool.query(`
+      SELECT lr.*, p.name as package_name
+      FROM loyalty_rules lr
+      LEFT JOIN packages p ON lr.package_id = p.id
+      WHERE lr.company_id = ?
+      ORDER BY lr.target_type, lr.category, p.name
+    `, [program.companyId]);
+    
+    res.json({
+      ...formatLoyaltyProgram(program),
+      rules: rules.map(rule => ({ ...rule, multiplier: parseFloat(rule.multiplier) }))
+    });
   } catch (error) {
-    console.error('Error fetching branches:', error);
-    res.status(500).json({ error: 'Failed to fetch branches' });
+    console.error('Error fetching loyalty program:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get a single branch by ID
-app.get('/api/branches/:id', authenticateToken, async (req, res) => {
+app.put('/api/loyalty/program', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const [rows] = await pool.query('SELECT * FROM branches WHERE id = ?', [req.params.id]);
+    const { enabled, points_per_unit, point_value, expiry_days } = req.body;
+    const pointsPerUnit = parseFloat(points_per_unit);
+    const pointValue = parseFloat(point_value);
+    const expiryDays = expiry_days === null || expiry_days === '' || expiry_days === undefined ? null : parseInt(expiry_days);
     
-    if (rows.length === 0) {
-      return res.status(404).json({ error: 'Branch not found' });
+    if (isNaN(pointsPerUnit) || pointsPerUnit < 0) {
+      return res.status(400).json({ message: 'Points per unit must be zero or more' });
     }
     
-    res.json(rows[0]);
+    if (isNaN(pointValue) || pointValue <= 0) {
+      return res.status(400).json({ message: 'Point value must be greater than zero' });
+    }
+    
+    if (expiryDays !== null && (isNaN(expiryDays) || expiryDays < 1)) {
+      return res.status(400).json({ message: 'Points must last at least a day, or leave expiry blank' });
+    }
+    
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.status(400).json({ message: 'Select a branch first' });
+    }
+    
+    await pool.query(
+      'UPDATE companies SET loyalty_enabled = ?, loyalty_points_per_unit = ?, loyalty_point_value = ?, loyalty_expiry_days = ? WHERE id = ?',
+      [enabled ? 1 : 0, pointsPerUnit, pointValue, expiryDays, companyId]
+    );
+    
+    res.json(formatLoyaltyProgram(await loadLoyaltyProgram(pool, req.branch_id)));
   } catch (error) {
-    console.error('Error fetching branch:', error);
-    res.status(500).json({ error: 'Failed to fetch branch' });
+    console.error('Error updating loyalty program:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Create a new branch
-app.post('/api/branches', authenticateToken, async (req, res) => {
+// Add a category multiplier or a package bonus
+app.post('/api/loyalty/rules', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const { name, company_id, address, phone, email, manager_name, is_main } = req.body;
+    const { target_type, category, package_id, multiplier, bonus_points } = req.body;
     
-    // Validate required fields
-    if (!name || !company_id) {
-      return res.status(400).json({ error: 'Name and company ID are required' });
+    if (!LOYALTY_RULE_TARGETS.includes(target_type)) {
+      return res.status(400).json({ message: 'Loyalty rules apply to a category or a package' });
     }
     
-    // Check if company exists
-    const [companyRows] = await pool.query('SELECT id FROM companies WHERE id = ?', [company_id]);
-    if (companyRows.length === 0) {
-      return res.status(400).json({ error: 'Company does not exist' });
+    const parsedMultiplier = parseFloat(multiplier);
+    if (target_type === 'category' && (!category || isNaN(parsedMultiplier) || parsedMultiplier < 0)) {
+      return res.status(400).json({ message: 'A category and a multiplier of zero or more are required' });
     }
     
-    // If this is set as main branch, update all other branches of this company to not be main
-    if (is_main) {
-      await pool.query('UPDATE branches SET is_main = 0 WHERE company_id = ?', [company_id]);
+    const bonusPoints = parseInt(bonus_points);
+    if (target_type === 'package' && (!package_id || isNaN(bonusPoints) || bonusPoints < 1)) {
+      return res.status(400).json({ message: 'A package and a bonus of at least one point are required' });
     }
     
-    // Insert new branch
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.status(400).json({ message: 'Select a branch first' });
+    }
+    
+    // One rule per category or package
+    await pool.query(
+      'DELETE FROM loyalty_rules WHERE company_id = ? AND target_type = ? AND (category <=> ? AND package_id <=> ?)',
+      [companyId, target_type, target_type === 'category' ? category : null, target_type === 'package' ? package_id : null]
+    );
+    
     const [result] = await pool.query(
-      'INSERT INTO branches (name, company_id, address, phone, email, manager_name, is_main) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [name, company_id, address, phone, email, manager_name, is_main ? 1 : 0]
+      'INSERT INTO loyalty_rules (company_id, target_type, category, package_id, multiplier, bonus_points) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        companyId,
+        target_type,
+        target_type === 'category' ? category : null,
+        target_type === 'package' ? package_id : null,
+        target_type === 'category' ? parsedMultiplier : 1,
+        target_type === 'package' ? bonusPoints : 0
+      ]
     );
     
-    res.status(201).json({ id: result.insertId, message: 'Branch created successfully' });
+    res.status(201).json({ id: result.insertId, message: 'Loyalty rule saved successfully' });
   } catch (error) {
-    console.error('Error creating branch:', error);
-    res.status(500).json({ error: 'Failed to create branch' });
+    console.error('Error creating loyalty rule:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Update a branch
-app.put('/api/branches/:id', authenticateToken, async (req, res) => {
+app.delete('/api/loyalty/rules/:id', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const { name, company_id, address, phone, email, manager_name, is_main } = req.body;
-    const branchId = req.params.id;
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    const [result] = await pool.query('DELETE FROM loyalty_rules WHERE id = ? AND company_id = ?', [req.params.id, companyId]);
     
-    // Validate required fields
-    if (!name || !company_id) {
-      return res.status(400).json({ error: 'Name and company ID are required' });
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Loyalty rule not found' });
     }
     
-    // Check if company exists
-    const [companyRows] = await pool.query('SELECT id FROM companies WHERE id = ?', [company_id]);
-    if (companyRows.length === 0) {
-      return res.status(400).json({ error: 'Company does not exist' });
-    }
+    res.json({ message: 'Loyalty rule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting loyalty rule:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// A member's points balance and ledger at the current branch's company
+app.get('/api/subscribers/:id/points', authenticateToken, branchFilter, async (req, res) => {
+  try {
+    const { id } = req.params;
     
-    // Check if branch exists
-    const [branchRows] = await pool.query('SELECT id FROM branches WHERE id = ?', [branchId]);
-    if (branchRows.length === 0) {
-      return res.status(404).json({ error: 'Branch not found' });
+    const [existingSubscribers] = await pool.execute('SELECT id FROM subscribers WHERE id = ?', [id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
     }
     
-    // If this is set as main branch, update all other branches of this company to not be main
-    if (is_main) {
-      await pool.query('UPDATE branches SET is_main = 0 WHERE company_id = ? AND id != ?', [company_id, branchId]);
+    const companyId = await findBranchCompanyId(pool, req.branch_id);
+    if (!companyId) {
+      return res.status(400).json({ message: 'Select a branch first' });
     }
     
-    // Update branch
-    await pool.query(
-      'UPDATE branches SET name = ?, company_id = ?, address = ?, phone = ?, email = ?, manager_name = ?, is_main = ? WHERE id = ?',
-      [name, company_id, address, phone, email, manager_name, is_main ? 1 : 0, branchId]
-    );
-    
-    res.json({ message: 'Branch updated successfully' });
+    const [transactions] = await pool.query(`
+      SELECT lp.*, DATE_FORMAT(lp.expires_on, '%Y-%m-%d') as expires_on, b.name as branch_name, u.name as created_by_name
+      FROM loyalty_points lp
+      LEFT JOIN branches b ON lp.branch_id = b.id
+      LEFT JOIN users u ON lp.created_by = u.id
+      WHERE lp.company_id = ? AND lp.subscriber_id = ?
+      ORDER BY lp.created_at DESC, lp.id DESC
+      LIMIT 200
+    `, [companyId, id]);
+    
+    res.json({ ...await loadMemberPoints(pool, id, req.branch_id), transactions });
   } catch (error) {
-    console.error('Error updating branch:', error);
-    res.status(500).json({ error: 'Failed to update branch' });
+    console.error('Error fetching member points:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Delete a branch
-app.delete('/api/branches/:id', authenticateToken, async (req, res) => {
+// Give or take away points by hand, e.g. as a goodwill gesture or to correct a mistake
+app.post('/api/subscribers/:id/points/adjust', authenticateToken, requireAdmin, branchFilter, async (req, res) => {
   try {
-    const branchId = req.params.id;
+    const points = parseInt(req.body.points);
+    const notes = (req.body.notes || '').trim();
     
-    // Check if branch exists
-    const [rows] = await pool.query('SELECT * FROM branches WHERE id = ?', [branchId]);
-    if (rows.length === 0) {
-      return res.status(404).json({ error: 'Branch not found' });
+    if (isNaN(points) || points === 0) {
+      return res.status(400).json({ message: 'Enter the number of points to add or remove' });
     }
     
-    await pool.query('DELETE FROM branches WHERE id = ?', [branchId]);
+    if (!notes) {
+      return res.status(400).json({ message: 'A reason is required' });
+    }
     
-    res.json({ message: 'Branch deleted successfully' });
+    const program = await loadLoyaltyProgram(pool, req.branch_id);
+    if (!program) {
+      return res.status(400).json({ message: 'Select a branch first' });
+    }
+    
+    const [existingSubscribers] = await pool.execute('SELECT id FROM subscribers WHERE id = ?', [req.params.id]);
+    if (existingSubscribers.length === 0) {
+      return res.status(404).json({ message: 'Subscriber not found' });
+    }
+    
+    const connection = await pool.getConnection();
+    let result;
+    
+    try {
+      await connection.beginTransaction();
+      result = await postLoyaltyEntry(connection, {
+        companyId: program.companyId,
+        subscriberId: req.params.id,
+        type: 'adjust',
+        points,
+        expiryDays: program.expiryDays,
+        branchId: req.branch_id,
+        notes,
+        createdBy: req.user.id
+      });
+      
+      if (result.error) {
+        await connection.rollback();
+        return res.status(result.status).json({ message: result.error });
+      }
+      
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+    
+    res.json({ points: result.points, balance: result.balance });
   } catch (error) {
-    console.error('Error deleting branch:', error);
-    res.status(500).json({ error: 'Failed to delete branch' });
+    console.error('Error adjusting member points:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
@@ -2331,6 +8589,7 @@ app.use((err, req, res, next) => {
 // Start server with error handling
 const server = app.listen(PORT, HOST, () => {
   console.log(`Server running at http://${HOST}:${PORT}`);
+  startBackgroundJobs();
 }).on('error', (err) => {
   console.error('Server failed to start:', err);
   process.exit(1);
@@ -21,14 +21,43 @@ async function setupDatabase() {
     await connection.query('USE flexigym');
 
     // Drop tables in correct order
+    await connection.query('DROP TABLE IF EXISTS email_messages');
+    await connection.query('DROP TABLE IF EXISTS loyalty_points');
+    await connection.query('DROP TABLE IF EXISTS loyalty_rules');
+    await connection.query('DROP TABLE IF EXISTS stored_value_transactions');
+    await connection.query('DROP TABLE IF EXISTS stored_value_accounts');
+    await connection.query('DROP TABLE IF EXISTS coupon_redemptions');
+    await connection.query('DROP TABLE IF EXISTS coupon_targets');
+    await connection.query('DROP TABLE IF EXISTS coupons');
+    await connection.query('DROP TABLE IF EXISTS sale_return_items');
+    await connection.query('DROP TABLE IF EXISTS sale_returns');
+    await connection.query('DROP TABLE IF EXISTS sale_conflicts');
+    await connection.query('DROP TABLE IF EXISTS sale_discounts');
+    await connection.query('DROP TABLE IF EXISTS sale_item_components');
     await connection.query('DROP TABLE IF EXISTS sale_items');
+    await connection.query('DROP TABLE IF EXISTS sale_payments');
     await connection.query('DROP TABLE IF EXISTS sales');
+    await connection.query('DROP TABLE IF EXISTS cash_movements');
+    await connection.query('DROP TABLE IF EXISTS parked_carts');
+    await connection.query('DROP TABLE IF EXISTS cash_shifts');
+    await connection.query('DROP TABLE IF EXISTS tax_rules');
     await connection.query('DROP TABLE IF EXISTS inventory_transactions');
+    await connection.query('DROP TABLE IF EXISTS bundle_components');
     await connection.query('DROP TABLE IF EXISTS inventory_items');
     await connection.query('DROP TABLE IF EXISTS role_permissions');
+    await connection.query('DROP TABLE IF EXISTS check_ins');
+    await connection.query('DROP TABLE IF EXISTS reminder_messages');
+    await connection.query('DROP TABLE IF EXISTS subscription_status_changes');
+    await connection.query('DROP TABLE IF EXISTS job_runs');
+    await connection.query('DROP TABLE IF EXISTS subscription_payments');
+    await connection.query('DROP TABLE IF EXISTS subscription_changes');
+    await connection.query('DROP TABLE IF EXISTS subscription_refunds');
+    await connection.query('DROP TABLE IF EXISTS subscription_freezes');
     await connection.query('DROP TABLE IF EXISTS subscriptions');
+    await connection.query('DROP TABLE IF EXISTS subscribers');
     await connection.query('DROP TABLE IF EXISTS packages');
     await connection.query('DROP TABLE IF EXISTS branches');
+    await connection.query('DROP TABLE IF EXISTS payment_methods');
     await connection.query('DROP TABLE IF EXISTS companies');
     await connection.query('DROP TABLE IF EXISTS users');
     await connection.query('DROP TABLE IF EXISTS permissions');
@@ -41,6 +70,7 @@ async function setupDatabase() {
         id INT PRIMARY KEY AUTO_INCREMENT,
         name VARCHAR(50) NOT NULL UNIQUE,
         description TEXT,
+        max_discount_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
       )
@@ -78,6 +108,7 @@ async function setupDatabase() {
         name VARCHAR(100) NOT NULL,
         email VARCHAR(100) NOT NULL UNIQUE,
         password VARCHAR(255) NOT NULL,
+        approval_pin VARCHAR(255),
         role_id INT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -96,21 +127,37 @@ async function setupDatabase() {
         barcode VARCHAR(100),
         quantity INT NOT NULL DEFAULT 0,
         price DECIMAL(10, 2) NOT NULL,
+        member_price DECIMAL(10, 2),
         cost DECIMAL(10, 2) NOT NULL,
         category VARCHAR(50),
         image_src TEXT,
+        is_bundle BOOLEAN DEFAULT FALSE,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
       )
     `);
     console.log('Inventory items table created');
 
+    // Create bundle_components table (what a bundle is made of; bundles hold no stock of their own)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS bundle_components (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        bundle_id INT NOT NULL,
+        component_id INT NOT NULL,
+        quantity INT NOT NULL,
+        UNIQUE KEY unique_bundle_component (bundle_id, component_id),
+        FOREIGN KEY (bundle_id) REFERENCES inventory_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (component_id) REFERENCES inventory_items(id) ON DELETE RESTRICT
+      )
+    `);
+    console.log('Bundle components table created');
+
     // Create inventory_transactions table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS inventory_transactions (
         id INT PRIMARY KEY AUTO_INCREMENT,
         item_id INT NOT NULL,
-        type ENUM('purchase', 'sale', 'adjustment_in', 'adjustment_out', 'beginning') NOT NULL,
+        type ENUM('purchase', 'sale', 'return', 'adjustment_in', 'adjustment_out', 'beginning') NOT NULL,
         quantity INT NOT NULL,
         price DECIMAL(10, 2),
         total_amount DECIMAL(10, 2) NOT NULL,
@@ -133,31 +180,40 @@ async function setupDatabase() {
         tax DECIMAL(10, 2) NOT NULL,
         discount DECIMAL(10, 2) DEFAULT 0,
         total DECIMAL(10, 2) NOT NULL,
-        payment_method ENUM('cash', 'card') NOT NULL,
+        payment_method VARCHAR(50) NOT NULL,
+        amount_tendered DECIMAL(10, 2),
+        change_given DECIMAL(10, 2) DEFAULT 0,
         customer_id INT,
         customer_name VARCHAR(100),
         customer_email VARCHAR(100),
         created_by INT,
+        branch_id INT,
+        shift_id INT,
+        client_reference VARCHAR(64) UNIQUE,
+        prices_include_tax BOOLEAN DEFAULT TRUE,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_sales_branch (branch_id),
+        INDEX idx_sales_shift (shift_id),
+        INDEX idx_sales_customer (customer_id),
         FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
       )
     `);
     console.log('Sales table created');
 
-    // Create sale_items table
+    // Create sale_payments table (one row per tender on a sale)
     await connection.query(`
-      CREATE TABLE IF NOT EXISTS sale_items (
+      CREATE TABLE IF NOT EXISTS sale_payments (
         id INT PRIMARY KEY AUTO_INCREMENT,
         sale_id INT NOT NULL,
-        item_id INT NOT NULL,
-        quantity INT NOT NULL,
-        price DECIMAL(10, 2) NOT NULL,
-        total DECIMAL(10, 2) NOT NULL,
-        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
-        FOREIGN KEY (item_id) REFERENCES inventory_items(id) ON DELETE RESTRICT
+        payment_method VARCHAR(50) NOT NULL,
+        amount DECIMAL(10, 2) NOT NULL,
+        tendered DECIMAL(10, 2) NOT NULL,
+        reference VARCHAR(100),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE
       )
     `);
-    console.log('Sale items table created');
+    console.log('Sale payments table created');
 
     // Create companies table
     await connection.query(`
@@ -168,13 +224,39 @@ async function setupDatabase() {
         vat_number VARCHAR(50),
         address TEXT,
         id_nat VARCHAR(50),
-        logo TEXT,
+        logo MEDIUMBLOB,
+        logo_type VARCHAR(50),
+        tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+        prices_include_tax BOOLEAN DEFAULT TRUE,
+        loyalty_enabled BOOLEAN DEFAULT FALSE,
+        loyalty_points_per_unit DECIMAL(8, 2) NOT NULL DEFAULT 1,
+        loyalty_point_value DECIMAL(8, 4) NOT NULL DEFAULT 0.01,
+        loyalty_expiry_days INT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
       )
     `);
     console.log('Companies table created');
 
+    // Create payment_methods table (the company's tenders; sales and payments keep the code)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS payment_methods (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        company_id INT NOT NULL,
+        code VARCHAR(50) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        type ENUM('cash', 'card', 'bank_transfer', 'mobile_money', 'cheque', 'other') NOT NULL,
+        opens_drawer BOOLEAN DEFAULT FALSE,
+        requires_reference BOOLEAN DEFAULT FALSE,
+        is_active BOOLEAN DEFAULT TRUE,
+        sort_order INT DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY unique_company_code (company_id, code),
+        FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE
+      )
+    `);
+    console.log('Payment methods table created');
+
     // Create branches table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS branches (
@@ -186,6 +268,21 @@ async function setupDatabase() {
         email VARCHAR(100),
         manager_name VARCHAR(100),
         is_main BOOLEAN DEFAULT FALSE,
+        reminders_enabled BOOLEAN DEFAULT TRUE,
+        reminder_days INT DEFAULT 7,
+        allow_split_payments BOOLEAN DEFAULT FALSE,
+        require_shift BOOLEAN DEFAULT FALSE,
+        parked_cart_ttl_minutes INT DEFAULT 240,
+        tax_rate DECIMAL(5, 2),
+        prices_include_tax BOOLEAN,
+        member_discount_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
+        receipt_header VARCHAR(255),
+        receipt_footer TEXT,
+        receipt_show_tax BOOLEAN DEFAULT TRUE,
+        receipt_auto_print BOOLEAN DEFAULT FALSE,
+        receipt_paper_width INT DEFAULT 80,
+        receipt_printer_host VARCHAR(255),
+        email_receipts BOOLEAN DEFAULT FALSE,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE
@@ -193,6 +290,79 @@ async function setupDatabase() {
     `);
     console.log('Branches table created');
 
+    // Create tax_rules table (rates that override the company/branch default)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS tax_rules (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        company_id INT NOT NULL,
+        branch_id INT,
+        target_type ENUM('category', 'item', 'membership') NOT NULL,
+        category VARCHAR(50),
+        item_id INT,
+        rate DECIMAL(5, 2) NOT NULL,
+        name VARCHAR(100),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE CASCADE,
+        FOREIGN KEY (item_id) REFERENCES inventory_items(id) ON DELETE CASCADE
+      )
+    `);
+    console.log('Tax rules table created');
+
+    // Create cash_shifts table (a cashier's session on the till)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS cash_shifts (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        branch_id INT,
+        user_id INT,
+        status ENUM('open', 'closed') NOT NULL DEFAULT 'open',
+        opening_float DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        expected_cash DECIMAL(10, 2),
+        counted_cash DECIMAL(10, 2),
+        variance DECIMAL(10, 2),
+        notes TEXT,
+        opened_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        closed_at TIMESTAMP NULL DEFAULT NULL,
+        INDEX idx_cash_shifts_user_status (user_id, status),
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Cash shifts table created');
+
+    // Create cash_movements table (paid-in and paid-out entries during a shift)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS cash_movements (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        shift_id INT NOT NULL,
+        type ENUM('paid_in', 'paid_out') NOT NULL,
+        amount DECIMAL(10, 2) NOT NULL,
+        reason VARCHAR(255) NOT NULL,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (shift_id) REFERENCES cash_shifts(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Cash movements table created');
+
+    // Create parked_carts table (carts put on hold at the till)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS parked_carts (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        branch_id INT,
+        name VARCHAR(100) NOT NULL,
+        items JSON NOT NULL,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL,
+        INDEX idx_parked_carts_branch_expiry (branch_id, expires_at),
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Parked carts table created');
+
     // Create packages table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS packages (
@@ -200,9 +370,13 @@ async function setupDatabase() {
         name VARCHAR(100) NOT NULL,
         description TEXT,
         days INT NOT NULL,
+        type ENUM('days', 'sessions') DEFAULT 'days',
+        visits INT DEFAULT NULL,
         price DECIMAL(10, 2) NOT NULL,
         features TEXT,
         is_popular BOOLEAN DEFAULT FALSE,
+        max_freezes INT DEFAULT NULL,
+        max_freeze_days INT DEFAULT NULL,
         branch_id INT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -211,35 +385,540 @@ async function setupDatabase() {
     `);
     console.log('Packages table created');
 
+    // Create subscribers table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS subscribers (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        name VARCHAR(100) NOT NULL,
+        email VARCHAR(100),
+        phone VARCHAR(50),
+        address TEXT,
+        date_of_birth DATE,
+        gender ENUM('male', 'female', 'other'),
+        emergency_contact VARCHAR(100),
+        emergency_phone VARCHAR(50),
+        card_number VARCHAR(50) UNIQUE,
+        branch_id INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Subscribers table created');
+
     // Create subscriptions table
     await connection.query(`
       CREATE TABLE IF NOT EXISTS subscriptions (
         id INT PRIMARY KEY AUTO_INCREMENT,
         subscriber_id INT NOT NULL,
         package_id INT NOT NULL,
+        previous_subscription_id INT,
         start_date DATE NOT NULL,
         end_date DATE NOT NULL,
         status ENUM('active', 'expired', 'cancelled', 'pending') DEFAULT 'active',
-        payment_status ENUM('paid', 'pending', 'failed') DEFAULT 'pending',
+        payment_status ENUM('paid', 'partial', 'pending', 'failed') DEFAULT 'pending',
         total_amount DECIMAL(10, 2) NOT NULL,
         amount_paid DECIMAL(10, 2) DEFAULT 0,
+        visits_total INT DEFAULT NULL,
+        visits_remaining INT DEFAULT NULL,
         payment_method VARCHAR(50) NOT NULL,
         notes TEXT,
+        cancelled_at TIMESTAMP NULL DEFAULT NULL,
+        cancellation_reason TEXT,
+        cancelled_by INT,
         created_by INT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (subscriber_id) REFERENCES subscribers(id) ON DELETE CASCADE,
         FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE RESTRICT,
+        FOREIGN KEY (previous_subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL,
+        FOREIGN KEY (cancelled_by) REFERENCES users(id) ON DELETE SET NULL,
         FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
       )
     `);
     console.log('Subscriptions table created');
 
+    // Create sale_items table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS sale_items (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        sale_id INT NOT NULL,
+        item_type ENUM('item', 'package') NOT NULL DEFAULT 'item',
+        item_id INT,
+        package_id INT,
+        subscription_id INT,
+        quantity INT NOT NULL,
+        price DECIMAL(10, 2) NOT NULL,
+        list_price DECIMAL(10, 2),
+        total DECIMAL(10, 2) NOT NULL,
+        discount_type ENUM('percent', 'fixed'),
+        discount_value DECIMAL(10, 2),
+        discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        net_amount DECIMAL(10, 2),
+        tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+        tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+        FOREIGN KEY (item_id) REFERENCES inventory_items(id) ON DELETE RESTRICT,
+        FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE RESTRICT,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Sale items table created');
+
+    // Create sale_item_components table (stock a bundle line took, at the component costs of the day)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS sale_item_components (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        sale_item_id INT NOT NULL,
+        item_id INT NOT NULL,
+        quantity INT NOT NULL,
+        unit_cost DECIMAL(10, 2) NOT NULL,
+        FOREIGN KEY (sale_item_id) REFERENCES sale_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (item_id) REFERENCES inventory_items(id) ON DELETE RESTRICT
+      )
+    `);
+    console.log('Sale item components table created');
+
+    // Create sale_discounts table (every discount given, who gave it and who approved it)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS sale_discounts (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        sale_id INT NOT NULL,
+        sale_item_id INT,
+        discount_type ENUM('percent', 'fixed') NOT NULL,
+        discount_value DECIMAL(10, 2) NOT NULL,
+        amount DECIMAL(10, 2) NOT NULL,
+        reason_code VARCHAR(50) NOT NULL,
+        reason_note VARCHAR(255),
+        applied_by INT,
+        approved_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+        FOREIGN KEY (sale_item_id) REFERENCES sale_items(id) ON DELETE CASCADE,
+        FOREIGN KEY (applied_by) REFERENCES users(id) ON DELETE SET NULL,
+        FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Sale discounts table created');
+
+    // Create sale_conflicts table (problems found when a sale was recorded, for managers to review)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS sale_conflicts (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        sale_id INT NOT NULL,
+        branch_id INT,
+        conflict_type ENUM('stock', 'price') NOT NULL,
+        item_id INT,
+        name VARCHAR(255) NOT NULL,
+        quantity INT,
+        charged DECIMAL(10, 2),
+        expected DECIMAL(10, 2),
+        resolved_by INT,
+        resolved_at TIMESTAMP NULL DEFAULT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_sale_conflicts_branch (branch_id, resolved_at),
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (item_id) REFERENCES inventory_items(id) ON DELETE SET NULL,
+        FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Sale conflicts table created');
+
+    // Create coupons table (promo codes; a null branch_id means every branch of the company)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS coupons (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        company_id INT NOT NULL,
+        branch_id INT,
+        code VARCHAR(50) NOT NULL,
+        name VARCHAR(100),
+        discount_type ENUM('percent', 'fixed', 'free_days') NOT NULL,
+        value DECIMAL(10, 2) NOT NULL,
+        starts_on DATE,
+        ends_on DATE,
+        max_uses INT,
+        max_uses_per_subscriber INT,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY unique_company_code (company_id, code),
+        FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Coupons table created');
+
+    // Create coupon_targets table (what a coupon can be used on; none means everything)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS coupon_targets (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        coupon_id INT NOT NULL,
+        target_type ENUM('membership', 'package', 'category') NOT NULL,
+        package_id INT,
+        category VARCHAR(50),
+        FOREIGN KEY (coupon_id) REFERENCES coupons(id) ON DELETE CASCADE,
+        FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE CASCADE
+      )
+    `);
+    console.log('Coupon targets table created');
+
+    // Create coupon_redemptions table (one row per use, on a sale or a subscription)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS coupon_redemptions (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        coupon_id INT NOT NULL,
+        subscriber_id INT,
+        sale_id INT,
+        subscription_id INT,
+        branch_id INT,
+        amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        free_days INT NOT NULL DEFAULT 0,
+        redeemed_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (coupon_id) REFERENCES coupons(id) ON DELETE CASCADE,
+        FOREIGN KEY (subscriber_id) REFERENCES subscribers(id) ON DELETE SET NULL,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (redeemed_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Coupon redemptions table created');
+
+    // Create sale_returns table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS sale_returns (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        sale_id INT NOT NULL,
+        total DECIMAL(10, 2) NOT NULL,
+        refund_method VARCHAR(50) NOT NULL,
+        reason TEXT,
+        created_by INT,
+        branch_id INT,
+        shift_id INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+        FOREIGN KEY (shift_id) REFERENCES cash_shifts(id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Sale returns table created');
+
+    // Create sale_return_items table (the sale lines each return puts back)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS sale_return_items (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        return_id INT NOT NULL,
+        sale_item_id INT NOT NULL,
+        quantity INT NOT NULL,
+        amount DECIMAL(10, 2) NOT NULL,
+        FOREIGN KEY (return_id) REFERENCES sale_returns(id) ON DELETE CASCADE,
+        FOREIGN KEY (sale_item_id) REFERENCES sale_items(id) ON DELETE CASCADE
+      )
+    `);
+    console.log('Sale return items table created');
+
+    // Create subscription_freezes table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS subscription_freezes (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        subscription_id INT NOT NULL,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        original_end_date DATE,
+        days INT NOT NULL,
+        reason TEXT,
+        status ENUM('active', 'cancelled') DEFAULT 'active',
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Subscription freezes table created');
+
+    // Create subscription_payments table (sale_id is set for payments taken as part of a POS sale)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS subscription_payments (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        subscription_id INT NOT NULL,
+        sale_id INT,
+        amount DECIMAL(10, 2) NOT NULL,
+        payment_method VARCHAR(50) NOT NULL,
+        reference VARCHAR(100),
+        payment_date DATE NOT NULL,
+        notes TEXT,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Subscription payments table created');
+
+    // Create stored_value_accounts table (gift cards and member wallets, shared by every branch of a company)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS stored_value_accounts (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        company_id INT NOT NULL,
+        branch_id INT,
+        account_type ENUM('gift_card', 'wallet') NOT NULL,
+        code VARCHAR(50) NOT NULL,
+        subscriber_id INT,
+        balance DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        expires_on DATE,
+        status ENUM('active', 'expired') NOT NULL DEFAULT 'active',
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY unique_company_code (company_id, code),
+        UNIQUE KEY unique_company_wallet (company_id, subscriber_id),
+        FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (subscriber_id) REFERENCES subscribers(id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Stored value accounts table created');
+
+    // Create stored_value_transactions table (the ledger; amount is positive for credits, negative for debits)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS stored_value_transactions (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        account_id INT NOT NULL,
+        type ENUM('issue', 'top_up', 'redeem', 'refund', 'expire') NOT NULL,
+        amount DECIMAL(10, 2) NOT NULL,
+        balance_after DECIMAL(10, 2) NOT NULL,
+        payment_method VARCHAR(50),
+        reference VARCHAR(100),
+        sale_id INT,
+        sale_return_id INT,
+        subscription_id INT,
+        shift_id INT,
+        branch_id INT,
+        notes TEXT,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (account_id) REFERENCES stored_value_accounts(id) ON DELETE CASCADE,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE SET NULL,
+        FOREIGN KEY (sale_return_id) REFERENCES sale_returns(id) ON DELETE SET NULL,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL,
+        FOREIGN KEY (shift_id) REFERENCES cash_shifts(id) ON DELETE SET NULL,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+        INDEX idx_stored_value_transactions_sale (sale_id)
+      )
+    `);
+    console.log('Stored value transactions table created');
+
+    // Create loyalty_rules table (category multipliers and package bonuses on top of the company's earn rate)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS loyalty_rules (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        company_id INT NOT NULL,
+        target_type ENUM('category', 'package') NOT NULL,
+        category VARCHAR(50),
+        package_id INT,
+        multiplier DECIMAL(5, 2) NOT NULL DEFAULT 1,
+        bonus_points INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE,
+        FOREIGN KEY (package_id) REFERENCES packages(id) ON DELETE CASCADE
+      )
+    `);
+    console.log('Loyalty rules table created');
+
+    // Create loyalty_points table (the points ledger; positive entries keep what's left of them in remaining
+    // so points are spent and expired oldest first)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS loyalty_points (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        company_id INT NOT NULL,
+        subscriber_id INT NOT NULL,
+        type ENUM('earn', 'bonus', 'redeem', 'refund', 'reverse', 'adjust', 'expire') NOT NULL,
+        points INT NOT NULL,
+        remaining INT NOT NULL DEFAULT 0,
+        balance_after INT NOT NULL,
+        expires_on DATE,
+        sale_id INT,
+        sale_return_id INT,
+        subscription_id INT,
+        branch_id INT,
+        notes TEXT,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE,
+        FOREIGN KEY (subscriber_id) REFERENCES subscribers(id) ON DELETE CASCADE,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE SET NULL,
+        FOREIGN KEY (sale_return_id) REFERENCES sale_returns(id) ON DELETE SET NULL,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+        INDEX idx_loyalty_points_member (company_id, subscriber_id),
+        INDEX idx_loyalty_points_sale (sale_id)
+      )
+    `);
+    console.log('Loyalty points table created');
+
+    // Create subscription_refunds table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS subscription_refunds (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        subscription_id INT NOT NULL,
+        amount DECIMAL(10, 2) NOT NULL,
+        payment_method VARCHAR(50) NOT NULL,
+        unused_days INT NOT NULL DEFAULT 0,
+        reason TEXT,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Subscription refunds table created');
+
+    // Create subscription_changes table (upgrade/downgrade history)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS subscription_changes (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        from_subscription_id INT NOT NULL,
+        to_subscription_id INT NOT NULL,
+        from_package_id INT NOT NULL,
+        to_package_id INT NOT NULL,
+        change_type ENUM('upgrade', 'downgrade') NOT NULL,
+        unused_days INT NOT NULL DEFAULT 0,
+        credit_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        carried_balance DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        wallet_credit DECIMAL(10, 2) NOT NULL DEFAULT 0,
+        new_price DECIMAL(10, 2) NOT NULL,
+        difference DECIMAL(10, 2) NOT NULL,
+        previous_end_date DATE NOT NULL,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (from_subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (to_subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (from_package_id) REFERENCES packages(id) ON DELETE RESTRICT,
+        FOREIGN KEY (to_package_id) REFERENCES packages(id) ON DELETE RESTRICT,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Subscription changes table created');
+
+    // Create job_runs table (background job history)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS job_runs (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        job_name VARCHAR(100) NOT NULL,
+        trigger_type ENUM('schedule', 'startup', 'manual') NOT NULL,
+        status ENUM('running', 'success', 'failed') DEFAULT 'running',
+        summary JSON,
+        error TEXT,
+        triggered_by INT,
+        started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP NULL DEFAULT NULL,
+        FOREIGN KEY (triggered_by) REFERENCES users(id) ON DELETE SET NULL,
+        INDEX idx_job_runs_job_started (job_name, started_at)
+      )
+    `);
+    console.log('Job runs table created');
+
+    // Create subscription_status_changes table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS subscription_status_changes (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        subscription_id INT NOT NULL,
+        from_status VARCHAR(20) NOT NULL,
+        to_status VARCHAR(20) NOT NULL,
+        reason VARCHAR(50) NOT NULL,
+        job_run_id INT,
+        created_by INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (job_run_id) REFERENCES job_runs(id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Subscription status changes table created');
+
+    // Create reminder_messages table (one row per reminder per channel per subscription end date)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS reminder_messages (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        subscription_id INT NOT NULL,
+        subscriber_id INT NOT NULL,
+        branch_id INT,
+        channel ENUM('email', 'sms') NOT NULL,
+        recipient VARCHAR(100) NOT NULL,
+        subject VARCHAR(255),
+        body TEXT NOT NULL,
+        end_date DATE NOT NULL,
+        status ENUM('queued', 'sent', 'failed') DEFAULT 'queued',
+        error TEXT,
+        sent_at TIMESTAMP NULL DEFAULT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_reminder (subscription_id, channel, end_date),
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (subscriber_id) REFERENCES subscribers(id) ON DELETE CASCADE,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Reminder messages table created');
+
+    // Create email_messages table (delivery log of receipts and invoices sent to customers)
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS email_messages (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        branch_id INT,
+        kind ENUM('receipt', 'invoice') NOT NULL,
+        sale_id INT,
+        subscription_id INT,
+        recipient VARCHAR(255) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        status ENUM('queued', 'sent', 'failed') DEFAULT 'queued',
+        error TEXT,
+        provider_message_id VARCHAR(255),
+        created_by INT,
+        sent_at TIMESTAMP NULL DEFAULT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_email_messages_branch (branch_id, created_at),
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Email messages table created');
+
+    // Create check_ins table
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS check_ins (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        subscriber_id INT NOT NULL,
+        subscription_id INT,
+        branch_id INT,
+        method ENUM('card', 'search', 'manual') DEFAULT 'search',
+        checked_in_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        checked_out_at TIMESTAMP NULL DEFAULT NULL,
+        created_by INT,
+        INDEX idx_check_ins_branch_date (branch_id, checked_in_at),
+        FOREIGN KEY (subscriber_id) REFERENCES subscribers(id) ON DELETE CASCADE,
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE SET NULL,
+        FOREIGN KEY (branch_id) REFERENCES branches(id) ON DELETE SET NULL,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Check-ins table created');
+
     // Insert default roles
     await connection.query(`
-      INSERT INTO roles (name, description) VALUES 
-      ('admin', 'Full system access'),
-      ('manager', 'Can manage inventory, sales, and reports'),
-      ('staff', 'Basic access for daily operations')
+      INSERT INTO roles (name, description, max_discount_percent) VALUES 
+      ('admin', 'Full system access', 100),
+      ('manager', 'Can manage inventory, sales, and reports', 50),
+      ('staff', 'Basic access for daily operations', 10)
     `);
     console.log('Default roles created');
 
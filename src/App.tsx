@@ -18,8 +18,11 @@ import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import Subscribers from "@/pages/Subscribers";
 import SalesReport from "@/pages/SalesReport";
+import CheckIn from "@/pages/CheckIn";
 import Companies from './pages/Companies';
 import Branches from './pages/Branches';
+import Coupons from './pages/Coupons';
+import GiftCards from './pages/GiftCards';
 
 const queryClient = new QueryClient();
 
@@ -82,6 +85,16 @@ const AppWithProviders = () => (
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/check-in" 
+          element={
+            <ProtectedRoute>
+              <MainLayout>
+                <CheckIn />
+              </MainLayout>
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/pos" 
           element={
@@ -136,6 +149,20 @@ const AppWithProviders = () => (
             </MainLayout>
           </ProtectedRoute>
         } />
+        <Route path="/coupons" element={
+          <ProtectedRoute>
+            <MainLayout>
+              <Coupons />
+            </MainLayout>
+          </ProtectedRoute>
+        } />
+        <Route path="/gift-cards" element={
+          <ProtectedRoute>
+            <MainLayout>
+              <GiftCards />
+            </MainLayout>
+          </ProtectedRoute>
+        } />
 
         {/* Catch all route */}
         <Route path="*" element={<NotFound />} />
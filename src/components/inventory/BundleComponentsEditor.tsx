@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InventoryItem } from '@/types';
+
+export interface BundleComponentLine {
+  itemId: string;
+  quantity: number;
+}
+
+interface BundleComponentsEditorProps {
+  // Items the bundle can be made from; other bundles and the bundle itself are left out
+  items: InventoryItem[];
+  value: BundleComponentLine[];
+  onChange: (components: BundleComponentLine[]) => void;
+}
+
+// Pick the stocked items that make up a bundle and how many of each go in one
+export function BundleComponentsEditor({ items, value, onChange }: BundleComponentsEditorProps) {
+  const [newItemId, setNewItemId] = useState('');
+  const available = items.filter(item => !value.some(component => component.itemId === item.id));
+  const cost = value.reduce((sum, component) => {
+    const item = items.find(candidate => candidate.id === component.itemId);
+    return sum + (item ? item.cost * component.quantity : 0);
+  }, 0);
+
+  const handleAdd = () => {
+    onChange([...value, { itemId: newItemId, quantity: 1 }]);
+    setNewItemId('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((component) => {
+        const item = items.find(candidate => candidate.id === component.itemId);
+        return (
+          <div key={component.itemId} className="flex items-center gap-2">
+            <span className="flex-1 text-sm">
+              {item ? item.name : 'Unknown item'}
+              {item && <span className="block text-xs text-muted-foreground">{item.quantity} in stock</span>}
+            </span>
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              className="w-20"
+              value={component.quantity}
+              onChange={(e) => onChange(value.map(line => (
+                line.itemId === component.itemId ? { ...line, quantity: Math.max(1, parseInt(e.target.value) || 1) } : line
+              )))}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter(line => line.itemId !== component.itemId))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <div className="flex gap-2">
+        <Select value={newItemId} onValueChange={setNewItemId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Add a component" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((item) => (
+              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="icon" onClick={handleAdd} disabled={!newItemId}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">Cost from components: ${cost.toFixed(2)}</p>
+    </div>
+  );
+}
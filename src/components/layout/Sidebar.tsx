@@ -11,7 +11,10 @@ import {
   BarChart,
   UserPlus,
   Building2,
-  GitBranch
+  GitBranch,
+  DoorOpen,
+  Ticket,
+  Gift
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -28,8 +31,11 @@ const navItems: NavItem[] = [
   { name: 'Dashboard', path: '/', icon: BarChart, role: 'admin' },
   { name: 'Packages', path: '/packages', icon: Package, role: 'admin' },
   { name: 'Subscribers', path: '/subscribers', icon: UserPlus },
+  { name: 'Check-In', path: '/check-in', icon: DoorOpen },
   { name: 'POS', path: '/pos', icon: ShoppingCart },
+  { name: 'Gift Cards', path: '/gift-cards', icon: Gift },
   { name: 'Inventory', path: '/inventory', icon: Boxes, role: 'admin' },
+  { name: 'Coupons', path: '/coupons', icon: Ticket, role: 'admin' },
   { name: 'Users', path: '/users', icon: Users, role: 'admin' },
   { name: 'Companies', path: '/companies', icon: Building2, role: 'admin' },
   { name: 'Branches', path: '/branches', icon: GitBranch, role: 'admin' },
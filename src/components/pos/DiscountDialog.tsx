@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CartDiscount, DiscountReason, DiscountType } from '@/types';
+import { DISCOUNT_REASON_LABELS, getDiscountAmount } from '@/lib/pos';
+
+interface DiscountDialogProps {
+  open: boolean;
+  // What the discount is for, e.g. a product name or "the whole cart"
+  target: string;
+  base: number;
+  discount?: CartDiscount | null;
+  reasons: DiscountReason[];
+  maxPercent: number;
+  onOpenChange: (open: boolean) => void;
+  onApply: (discount: CartDiscount | null) => void;
+}
+
+// Enter a percentage or fixed discount with a reason; approval is asked for at checkout
+export function DiscountDialog({
+  open,
+  target,
+  base,
+  discount,
+  reasons,
+  maxPercent,
+  onOpenChange,
+  onApply
+}: DiscountDialogProps) {
+  const [type, setType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState<DiscountReason | ''>('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setType(discount?.type || 'percent');
+    setValue(discount ? String(discount.value) : '');
+    setReason(discount?.reason || '');
+    setNote(discount?.note || '');
+  }, [open, discount]);
+
+  const parsedValue = parseFloat(value) || 0;
+  const amount = getDiscountAmount({ type, value: parsedValue, reason: 'other' }, base);
+  const percent = base > 0 ? amount / base * 100 : 0;
+
+  const handleApply = () => {
+    if (!reason) return;
+    onApply({ type, value: parsedValue, reason, note: note || undefined });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Discount</DialogTitle>
+          <DialogDescription>
+            Discount {target} (${base.toFixed(2)}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(next) => setType(next as DiscountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-value">{type === 'percent' ? 'Percent' : 'Amount'}</Label>
+              <Input
+                id="discount-value"
+                type="number"
+                min="0"
+                max={type === 'percent' ? 100 : base}
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(next) => setReason(next as DiscountReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map((code) => (
+                  <SelectItem key={code} value={code}>{DISCOUNT_REASON_LABELS[code] || code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="discount-note">Note</Label>
+            <Input
+              id="discount-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="flex justify-between text-sm font-medium">
+            <span>Discount</span>
+            <span>-${amount.toFixed(2)}</span>
+          </div>
+
+          {percent > maxPercent + 0.005 && (
+            <p className="flex items-center text-sm text-amber-600">
+              <ShieldAlert className="h-4 w-4 mr-2" />
+              Above your {maxPercent}% limit. A manager will need to approve it at checkout.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {discount && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                onApply(null);
+                onOpenChange(false);
+              }}
+            >
+              Remove Discount
+            </Button>
+          )}
+          <Button onClick={handleApply} disabled={!reason || parsedValue <= 0}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { DiscountApproval, DiscountApprover } from '@/types';
+
+interface ManagerApprovalProps {
+  percent: number;
+  approval: DiscountApproval | null;
+  onApproved: (approval: DiscountApproval) => void;
+}
+
+// A manager picks their name and enters their PIN to allow a discount above the cashier's limit
+export function ManagerApproval({ percent, approval, onApproved }: ManagerApprovalProps) {
+  const [approvers, setApprovers] = useState<DiscountApprover[]>([]);
+  const [approverId, setApproverId] = useState('');
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    api.get('/api/discounts/approvers')
+      .then(response => setApprovers(response.data))
+      .catch(error => console.error('Error fetching discount approvers:', error));
+  }, []);
+
+  const eligibleApprovers = approvers.filter(approver => Number(approver.max_discount_percent) >= percent);
+
+  const handleApprove = async () => {
+    try {
+      setSubmitting(true);
+      const response = await api.post('/api/discounts/approve', { approver_id: approverId, pin, percent });
+      onApproved(response.data);
+      setPin('');
+    } catch (error) {
+      console.error('Error approving discount:', error);
+      toast.error(getApiErrorMessage(error, 'Approval failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (approval && approval.max_percent >= percent) {
+    return (
+      <div className="flex items-center text-sm text-green-700 border rounded-lg p-3 bg-green-50">
+        <ShieldCheck className="h-4 w-4 mr-2" />
+        Discount approved by {approval.approver_name}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 border rounded-lg p-3 bg-amber-50">
+      <p className="flex items-center text-sm font-medium text-amber-700">
+        <ShieldAlert className="h-4 w-4 mr-2" />
+        A {percent.toFixed(1)}% discount needs manager approval
+      </p>
+      <div className="flex gap-2">
+        <Select value={approverId} onValueChange={setApproverId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Manager" />
+          </SelectTrigger>
+          <SelectContent>
+            {eligibleApprovers.map((approver) => (
+              <SelectItem key={approver.id} value={String(approver.id)}>
+                {approver.name} ({approver.role_name})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="password"
+          inputMode="numeric"
+          placeholder="PIN"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          className="w-[100px]"
+        />
+        <Button type="button" onClick={handleApprove} disabled={submitting || !approverId || !pin}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Approve
+        </Button>
+      </div>
+      {eligibleApprovers.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No one who can approve this discount has set an approval PIN.
+        </p>
+      )}
+    </div>
+  );
+}
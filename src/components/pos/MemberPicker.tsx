@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { CreditCard, Search } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import api from '@/lib/axios';
+import { Subscriber } from '@/types';
+
+interface MemberPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (subscriber: Subscriber) => void;
+}
+
+// Find the member a sale is for by name, phone or email, or by scanning their card
+export function MemberPicker({ open, onOpenChange, onSelect }: MemberPickerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Subscriber[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setSearchQuery('');
+      setSearchResults([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (searchQuery.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await api.get('/api/subscribers/search', { params: { q: searchQuery.trim() } });
+        setSearchResults(response.data);
+      } catch (error) {
+        console.error('Error searching subscribers:', error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Card scanners type the number and press Enter, so an exact card match is picked straight away
+  const handleScan = async () => {
+    const q = searchQuery.trim();
+    if (!q) return;
+
+    try {
+      const response = await api.get('/api/subscribers/search', { params: { q } });
+      const match = response.data.find((subscriber: Subscriber) => subscriber.card_number === q);
+      if (match) {
+        onSelect(match);
+      } else {
+        setSearchResults(response.data);
+      }
+    } catch (error) {
+      console.error('Error searching subscribers:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Add Member to Sale</DialogTitle>
+          <DialogDescription>
+            Members with an active membership get member prices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, phone, email or scan card..."
+              className="pl-9"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleScan();
+              }}
+              autoFocus
+            />
+          </div>
+          <div className="max-h-[300px] overflow-y-auto space-y-1">
+            {searchResults.map((subscriber) => (
+              <div
+                key={subscriber.id}
+                className="flex items-center justify-between border rounded-md p-2 cursor-pointer hover:bg-muted/50"
+                onClick={() => onSelect(subscriber)}
+              >
+                <div>
+                  <p className="font-medium">{subscriber.name}</p>
+                  <p className="text-xs text-muted-foreground flex items-center">
+                    {subscriber.card_number && (
+                      <>
+                        <CreditCard className="h-3 w-3 mr-1" />
+                        {subscriber.card_number} ·{' '}
+                      </>
+                    )}
+                    {subscriber.phone || subscriber.email || 'No contact'}
+                  </p>
+                </div>
+                <Badge variant={subscriber.current_status === 'active' ? 'default' : 'secondary'}>
+                  {subscriber.current_status}
+                </Badge>
+              </div>
+            ))}
+            {searchQuery.trim().length >= 2 && searchResults.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No members found</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
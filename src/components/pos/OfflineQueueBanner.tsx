@@ -0,0 +1,62 @@
+import { format } from 'date-fns';
+import { AlertTriangle, Loader2, RefreshCw, Trash2, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { QueuedSale } from '@/types';
+
+interface OfflineQueueBannerProps {
+  isOnline: boolean;
+  queuedSales: QueuedSale[];
+  syncing: boolean;
+  onSync: () => void;
+  onDiscard: (sale: QueuedSale) => void;
+}
+
+// Connection status and the sales waiting on this terminal to be sent to the server
+export function OfflineQueueBanner({ isOnline, queuedSales, syncing, onSync, onDiscard }: OfflineQueueBannerProps) {
+  if (isOnline && queuedSales.length === 0) return null;
+
+  const rejectedSales = queuedSales.filter(sale => sale.error);
+
+  return (
+    <Card className={isOnline ? 'border-amber-300 bg-amber-50' : 'border-destructive/50 bg-destructive/5'}>
+      <CardContent className="py-3 space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            {isOnline ? (
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+            ) : (
+              <WifiOff className="h-4 w-4 text-destructive" />
+            )}
+            <span className="font-medium">
+              {isOnline ? 'Back online.' : 'Offline. Sales are saved on this device.'}
+            </span>
+            {queuedSales.length > 0 && (
+              <span className="text-muted-foreground">
+                {queuedSales.length} {queuedSales.length === 1 ? 'sale' : 'sales'} waiting to sync
+              </span>
+            )}
+          </div>
+          {queuedSales.length > 0 && (
+            <Button size="sm" variant="outline" onClick={onSync} disabled={!isOnline || syncing}>
+              {syncing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Sync Now
+            </Button>
+          )}
+        </div>
+
+        {rejectedSales.map((sale) => (
+          <div key={sale.client_reference} className="flex items-center justify-between text-sm border-t pt-2">
+            <span>
+              Sale of ${sale.sale.total.toFixed(2)} at {format(new Date(sale.queued_at), 'MMM d, HH:mm')}
+              <span className="text-destructive"> was rejected: {sale.error}</span>
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => onDiscard(sale)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { PlayCircle, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { ParkedCart } from '@/types';
+
+interface ParkedCartsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onResume: (cart: ParkedCart) => void;
+}
+
+// Carts parked at this branch, from any terminal, until they expire
+export function ParkedCartsDialog({ open, onOpenChange, onResume }: ParkedCartsDialogProps) {
+  const [carts, setCarts] = useState<ParkedCart[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchCarts = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/api/parked-carts');
+      setCarts(response.data);
+    } catch (error) {
+      console.error('Error fetching parked carts:', error);
+      toast.error('Failed to load parked carts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) fetchCarts();
+  }, [open]);
+
+  const handleResume = async (cart: ParkedCart) => {
+    try {
+      const response = await api.post(`/api/parked-carts/${cart.id}/resume`);
+      onResume(response.data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error resuming parked cart:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to resume cart'));
+      fetchCarts();
+    }
+  };
+
+  const handleDiscard = async (cart: ParkedCart) => {
+    if (!window.confirm(`Discard the parked cart "${cart.name}"?`)) return;
+
+    try {
+      await api.delete(`/api/parked-carts/${cart.id}`);
+      toast.success('Parked cart discarded');
+      fetchCarts();
+    } catch (error) {
+      console.error('Error discarding parked cart:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to discard cart'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Parked Carts</DialogTitle>
+          <DialogDescription>Resume a cart parked at this branch.</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[400px] overflow-y-auto space-y-2">
+          {loading ? (
+            <p className="text-center py-6 text-muted-foreground">Loading...</p>
+          ) : carts.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No parked carts.</p>
+          ) : (
+            carts.map((cart) => {
+              const total = cart.items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+              return (
+                <div key={cart.id} className="flex items-center justify-between border rounded-md p-3">
+                  <div>
+                    <p className="font-medium">{cart.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {cart.items.length} {cart.items.length === 1 ? 'item' : 'items'} · ${total.toFixed(2)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Parked {format(new Date(cart.created_at), 'HH:mm')}
+                      {cart.created_by_name && ` by ${cart.created_by_name}`} · expires{' '}
+                      {formatDistanceToNow(new Date(cart.expires_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" onClick={() => handleResume(cart)}>
+                      <PlayCircle className="h-4 w-4 mr-1" />
+                      Resume
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDiscard(cart)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
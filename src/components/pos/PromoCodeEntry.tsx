@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Ticket, XIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AppliedCoupon } from '@/types';
+
+interface PromoCodeEntryProps {
+  coupon: AppliedCoupon | null;
+  disabled?: boolean;
+  // Resolves true when the server accepted the code
+  onApply: (code: string) => Promise<boolean>;
+  onRemove: () => void;
+}
+
+// Enter a promo code at checkout, or show the one that's been applied
+export function PromoCodeEntry({ coupon, disabled, onApply, onRemove }: PromoCodeEntryProps) {
+  const [code, setCode] = useState('');
+
+  const handleApply = async () => {
+    if (await onApply(code.trim().toUpperCase())) {
+      setCode('');
+    }
+  };
+
+  if (coupon) {
+    return (
+      <div className="flex items-center justify-between text-sm border rounded-lg p-2">
+        <span className="flex items-center">
+          <Ticket className="h-4 w-4 mr-2" />
+          <span className="font-medium">{coupon.code}</span>
+          {coupon.free_days > 0 && (
+            <span className="text-muted-foreground ml-2">+{coupon.free_days} free days</span>
+          )}
+        </span>
+        <span className="flex items-center gap-2">
+          {coupon.amount > 0 && <span>-${coupon.amount.toFixed(2)}</span>}
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onRemove} disabled={disabled}>
+            <XIcon className="h-4 w-4" />
+          </Button>
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        placeholder="Promo code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && code.trim()) handleApply();
+        }}
+        className="uppercase"
+      />
+      <Button variant="outline" onClick={handleApply} disabled={disabled || !code.trim()}>
+        Apply
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Check, Search } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import api from '@/lib/axios';
+import { Subscriber, SubscriptionPackage } from '@/types';
+
+interface SellPackageDialogProps {
+  pkg: SubscriptionPackage | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (pkg: SubscriptionPackage, subscriber: Subscriber, startDate: string) => void;
+}
+
+// Picks the member a membership package is being sold to before it goes into the cart
+export function SellPackageDialog({ pkg, onOpenChange, onConfirm }: SellPackageDialogProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Subscriber[]>([]);
+  const [selectedSubscriber, setSelectedSubscriber] = useState<Subscriber | null>(null);
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    if (pkg) {
+      setSearchQuery('');
+      setSearchResults([]);
+      setSelectedSubscriber(null);
+      setStartDate(format(new Date(), 'yyyy-MM-dd'));
+    }
+  }, [pkg]);
+
+  useEffect(() => {
+    if (searchQuery.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await api.get('/api/subscribers/search', { params: { q: searchQuery.trim() } });
+        setSearchResults(response.data);
+      } catch (error) {
+        console.error('Error searching subscribers:', error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const handleConfirm = () => {
+    if (!pkg || !selectedSubscriber) return;
+    onConfirm(pkg, selectedSubscriber, startDate);
+  };
+
+  return (
+    <Dialog open={!!pkg} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Sell {pkg?.name}</DialogTitle>
+          <DialogDescription>
+            Choose the member this membership is for and when it should start.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Member</Label>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, phone, email or card..."
+                className="pl-9"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+            <div className="max-h-[200px] overflow-y-auto space-y-1">
+              {searchResults.map((subscriber) => (
+                <div
+                  key={subscriber.id}
+                  className={cn(
+                    "flex items-center justify-between border rounded-md p-2 cursor-pointer hover:bg-muted/50",
+                    selectedSubscriber?.id === subscriber.id && "border-primary bg-muted/50"
+                  )}
+                  onClick={() => setSelectedSubscriber(subscriber)}
+                >
+                  <div>
+                    <p className="font-medium">{subscriber.name}</p>
+                    <p className="text-xs text-muted-foreground">{subscriber.phone || subscriber.email || 'No contact'}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={subscriber.current_status === 'active' ? 'default' : 'secondary'}>
+                      {subscriber.current_status}
+                    </Badge>
+                    {selectedSubscriber?.id === subscriber.id && <Check className="h-4 w-4" />}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="package-start-date">Start Date</Label>
+            <Input
+              id="package-start-date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!selectedSubscriber || !startDate}>
+            Add to Cart
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ArrowDownUp, FileText, Lock, LockOpen, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { getPaymentMethodLabel } from '@/lib/payment-methods';
+import { CashMovementType, PaymentMethod, ShiftReport } from '@/types';
+
+type ShiftDialog = 'open' | 'movement' | 'close' | 'report' | null;
+
+interface ShiftPanelProps {
+  // Bumped by the POS after each sale so the running totals stay current
+  refreshKey?: number;
+}
+
+const ReportRow = ({ label, value, className }: { label: string; value: number; className?: string }) => (
+  <div className={cn("flex justify-between text-sm", className)}>
+    <span className="text-muted-foreground">{label}</span>
+    <span>${value.toFixed(2)}</span>
+  </div>
+);
+
+const ShiftReportView = ({ report, methods }: { report: ShiftReport; methods: PaymentMethod[] }) => (
+  <div className="space-y-3">
+    <div className="text-sm text-muted-foreground">
+      {report.shift.user_name} · opened {format(new Date(report.shift.opened_at), 'MMM d, HH:mm')}
+      {report.shift.closed_at && ` · closed ${format(new Date(report.shift.closed_at), 'MMM d, HH:mm')}`}
+    </div>
+
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">Sales</span>
+        <span>{report.sales_count}</span>
+      </div>
+      <ReportRow label="Sales total" value={report.sales_total} />
+      {report.tenders.map((tender) => (
+        <ReportRow key={tender.payment_method} label={getPaymentMethodLabel(tender.payment_method, methods)} value={tender.amount} className="pl-4" />
+      ))}
+      {report.refunds.map((refund) => (
+        <ReportRow key={refund.payment_method} label={`Refunds (${getPaymentMethodLabel(refund.payment_method, methods)})`} value={-refund.amount} />
+      ))}
+      {report.stored_value_sold.map((sold) => (
+        <ReportRow key={sold.payment_method} label={`Gift cards & top-ups (${getPaymentMethodLabel(sold.payment_method, methods)})`} value={sold.amount} />
+      ))}
+      {report.subscription_payments.map((payment) => (
+        <ReportRow key={payment.payment_method} label={`Subscriptions (${getPaymentMethodLabel(payment.payment_method, methods)})`} value={payment.amount} />
+      ))}
+      {report.subscription_refunds.map((refund) => (
+        <ReportRow key={refund.payment_method} label={`Subscription refunds (${getPaymentMethodLabel(refund.payment_method, methods)})`} value={-refund.amount} />
+      ))}
+    </div>
+
+    <Separator />
+
+    <div className="space-y-1">
+      <ReportRow label="Opening float" value={report.opening_float} />
+      <ReportRow label="Paid in" value={report.paid_in} />
+      <ReportRow label="Paid out" value={-report.paid_out} />
+      <ReportRow label="Expected cash" value={report.expected_cash} className="font-medium" />
+      {report.counted_cash !== null && <ReportRow label="Counted cash" value={report.counted_cash} className="font-medium" />}
+      {report.variance !== null && (
+        <ReportRow
+          label="Variance"
+          value={report.variance}
+          className={cn("font-bold", report.variance < 0 ? "text-destructive" : report.variance > 0 && "text-green-600")}
+        />
+      )}
+    </div>
+
+    {report.movements.length > 0 && (
+      <>
+        <Separator />
+        <div className="space-y-1">
+          {report.movements.map((movement) => (
+            <div key={movement.id} className="flex justify-between text-xs text-muted-foreground">
+              <span>{format(new Date(movement.created_at), 'HH:mm')} {movement.reason}</span>
+              <span>{movement.type === 'paid_in' ? '+' : '-'}${Number(movement.amount).toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      </>
+    )}
+  </div>
+);
+
+// Cash drawer shift for the signed-in cashier: open, paid in/out, X report and close with a Z report
+export function ShiftPanel({ refreshKey }: ShiftPanelProps) {
+  const { selectedBranch } = useAuth();
+  const paymentMethods = usePaymentMethods({ includeInactive: true });
+  const [current, setCurrent] = useState<ShiftReport | null>(null);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [dialog, setDialog] = useState<ShiftDialog>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementType, setMovementType] = useState<CashMovementType>('paid_out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [closeNotes, setCloseNotes] = useState('');
+
+  const fetchCurrentShift = async () => {
+    try {
+      const response = await api.get('/api/shifts/current');
+      setCurrent(response.data);
+    } catch (error) {
+      console.error('Error fetching current shift:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchCurrentShift();
+  }, [selectedBranch, refreshKey]);
+
+  const submit = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setSubmitting(true);
+      await action();
+    } catch (error) {
+      console.error(`${fallback}:`, error);
+      toast.error(getApiErrorMessage(error, fallback));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOpenShift = () => submit(async () => {
+    const response = await api.post('/api/shifts', { opening_float: openingFloat || 0 });
+    setCurrent(response.data);
+    setDialog(null);
+    setOpeningFloat('');
+    toast.success('Shift opened');
+  }, 'Failed to open shift');
+
+  const handleRecordMovement = () => submit(async () => {
+    if (!current) return;
+    const response = await api.post(`/api/shifts/${current.shift.id}/movements`, {
+      type: movementType,
+      amount: movementAmount,
+      reason: movementReason
+    });
+    setCurrent(response.data);
+    setDialog(null);
+    setMovementAmount('');
+    setMovementReason('');
+    toast.success(movementType === 'paid_in' ? 'Paid in recorded' : 'Paid out recorded');
+  }, 'Failed to record cash movement');
+
+  const handleShowXReport = () => submit(async () => {
+    if (!current) return;
+    const response = await api.get(`/api/shifts/${current.shift.id}/report`);
+    setReport(response.data);
+    setDialog('report');
+  }, 'Failed to load X report');
+
+  const handleCloseShift = () => submit(async () => {
+    if (!current) return;
+    const response = await api.post(`/api/shifts/${current.shift.id}/close`, {
+      counted_cash: countedCash,
+      notes: closeNotes || undefined
+    });
+    setCurrent(null);
+    setReport(response.data);
+    setDialog('report');
+    setCountedCash('');
+    setCloseNotes('');
+    toast.success('Shift closed');
+  }, 'Failed to close shift');
+
+  return (
+    <>
+      <Card>
+        <CardContent className="p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          {current ? (
+            <div className="flex items-center gap-2 text-sm">
+              <Badge>Shift #{current.shift.id} open</Badge>
+              <span className="text-muted-foreground">
+                since {format(new Date(current.shift.opened_at), 'HH:mm')} · {current.sales_count} sales ·
+                expected cash ${current.expected_cash.toFixed(2)}
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="secondary">No open shift</Badge>
+              <span className="text-muted-foreground">Open a shift to track this drawer.</span>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {current ? (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setDialog('movement')}>
+                  <ArrowDownUp className="h-4 w-4 mr-1" />
+                  Paid In/Out
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleShowXReport} disabled={submitting}>
+                  <FileText className="h-4 w-4 mr-1" />
+                  X Report
+                </Button>
+                <Button size="sm" onClick={() => setDialog('close')}>
+                  <Lock className="h-4 w-4 mr-1" />
+                  Close Shift
+                </Button>
+              </>
+            ) : (
+              <Button size="sm" onClick={() => setDialog('open')}>
+                <LockOpen className="h-4 w-4 mr-1" />
+                Open Shift
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialog === 'open'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Open Shift</DialogTitle>
+            <DialogDescription>Count the cash in the drawer before you start.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="opening-float">Opening Float</Label>
+            <Input
+              id="opening-float"
+              type="number"
+              min="0"
+              step="0.01"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button onClick={handleOpenShift} disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Open Shift
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'movement'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Paid In / Paid Out</DialogTitle>
+            <DialogDescription>Record cash put into or taken out of the drawer.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={movementType} onValueChange={(value) => setMovementType(value as CashMovementType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="paid_in">Paid In</SelectItem>
+                  <SelectItem value="paid_out">Paid Out</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movement-amount">Amount</Label>
+              <Input
+                id="movement-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movement-reason">Reason</Label>
+              <Input
+                id="movement-reason"
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+                placeholder="e.g. Cleaning supplies"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button onClick={handleRecordMovement} disabled={submitting || !movementAmount || !movementReason.trim()}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Record
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'close'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Close Shift</DialogTitle>
+            <DialogDescription>Count the cash in the drawer. The Z report shows any variance.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="counted-cash">Counted Cash</Label>
+              <Input
+                id="counted-cash"
+                type="number"
+                min="0"
+                step="0.01"
+                value={countedCash}
+                onChange={(e) => setCountedCash(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="close-notes">Notes</Label>
+              <Textarea
+                id="close-notes"
+                value={closeNotes}
+                onChange={(e) => setCloseNotes(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button onClick={handleCloseShift} disabled={submitting || countedCash === ''}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Close Shift
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'report'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>
+              {report?.report_type} Report · Shift #{report?.shift.id}
+            </DialogTitle>
+            <DialogDescription>
+              {report?.report_type === 'Z' ? 'End-of-shift totals.' : 'Running totals for the open shift.'}
+            </DialogDescription>
+          </DialogHeader>
+          {report && <ShiftReportView report={report} methods={paymentMethods} />}
+          <DialogFooter>
+            <Button onClick={() => setDialog(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
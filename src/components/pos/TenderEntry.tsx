@@ -0,0 +1,207 @@
+import { toast } from 'sonner';
+import { Banknote, CircleDollarSign, CreditCard, FileText, Landmark, Plus, Smartphone, Star, Wallet, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { MemberPoints, PaymentMethod, PaymentMethodType, SaleTender, StoredValueAccount } from '@/types';
+import { getTenderTotals } from '@/lib/pos';
+import { BUILT_IN_PAYMENT_METHOD_LABELS, getDefaultPaymentMethod } from '@/lib/payment-methods';
+
+const PAYMENT_METHOD_ICONS: Record<PaymentMethodType | 'stored_value' | 'points', typeof Banknote> = {
+  cash: Banknote,
+  card: CreditCard,
+  bank_transfer: Landmark,
+  mobile_money: Smartphone,
+  cheque: FileText,
+  other: CircleDollarSign,
+  stored_value: Wallet,
+  points: Star,
+};
+
+interface TenderEntryProps {
+  total: number;
+  tenders: SaleTender[];
+  // The company's payment methods; only active ones are offered
+  paymentMethods: PaymentMethod[];
+  allowSplit: boolean;
+  // Gift card and wallet balances can only be checked online
+  allowStoredValue: boolean;
+  // The member on the sale, whose wallet pays when no gift card code is entered
+  subscriberId?: number | null;
+  // The member's loyalty points, which can pay when the program is running
+  points?: MemberPoints | null;
+  onChange: (tenders: SaleTender[]) => void;
+}
+
+// Enter one or more tenders for a sale; change is only given back from the cash drawer
+export function TenderEntry({ total, tenders, paymentMethods, allowSplit, allowStoredValue, subscriberId, points, onChange }: TenderEntryProps) {
+  const { remaining, change, drawerTendered } = getTenderTotals(tenders, total, paymentMethods);
+
+  const updateTender = (index: number, changes: Partial<SaleTender>) => {
+    onChange(tenders.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  // A second payment is usually by something other than the default, so start from the next method
+  const addTender = () => {
+    const defaultMethod = getDefaultPaymentMethod(paymentMethods);
+    const otherMethod = paymentMethods.find(method => method.is_active && method.code !== defaultMethod);
+    onChange([
+      ...tenders,
+      { payment_method: otherMethod ? otherMethod.code : defaultMethod, amount: remaining > 0 ? remaining.toFixed(2) : '' }
+    ]);
+  };
+
+  const removeTender = (index: number) => {
+    onChange(tenders.filter((_, i) => i !== index));
+  };
+
+  const checkBalance = async (tender: SaleTender) => {
+    try {
+      const response = await api.get('/api/stored-value/lookup', {
+        params: tender.account_code ? { code: tender.account_code } : { subscriber_id: subscriberId }
+      });
+      const account: StoredValueAccount = response.data;
+      toast.info(`${account.account_type === 'wallet' ? 'Wallet' : account.code}: $${account.balance.toFixed(2)} available`);
+    } catch (error) {
+      console.error('Error checking balance:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to check the balance'));
+    }
+  };
+
+  const canPayWithPoints = !!points && points.enabled && points.balance > 0;
+  const methods = [
+    ...paymentMethods
+      .filter(method => method.is_active)
+      .map(method => ({ code: method.code, name: method.name, icon: PAYMENT_METHOD_ICONS[method.type], requiresReference: method.requires_reference })),
+    ...(['stored_value', 'points'] as const)
+      .filter(code => code !== 'stored_value' || allowStoredValue)
+      .filter(code => code !== 'points' || canPayWithPoints)
+      .map(code => ({ code, name: BUILT_IN_PAYMENT_METHOD_LABELS[code], icon: PAYMENT_METHOD_ICONS[code], requiresReference: false }))
+  ];
+
+  // Points are spent whole, so part of a point rounds up
+  const getPointsNeeded = (amount: string) =>
+    points ? Math.ceil((parseFloat(amount) || 0) / points.point_value - 1e-9) : 0;
+
+  return (
+    <div className="space-y-3">
+      {tenders.map((tender, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Select
+              value={tender.payment_method}
+              onValueChange={(value) => updateTender(index, { payment_method: value })}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {methods.map((method) => {
+                  const Icon = method.icon;
+                  return (
+                    <SelectItem key={method.code} value={method.code}>
+                      <span className="flex items-center">
+                        <Icon className="h-4 w-4 mr-2" />
+                        {method.name}
+                      </span>
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={tender.amount}
+              onChange={(e) => updateTender(index, { amount: e.target.value })}
+              className="flex-1"
+            />
+            {tenders.length > 1 && (
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeTender(index)}>
+                <XCircle className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {methods.find(method => method.code === tender.payment_method)?.requiresReference && (
+            <Input
+              placeholder="Reference number"
+              value={tender.reference || ''}
+              onChange={(e) => updateTender(index, { reference: e.target.value })}
+            />
+          )}
+          {tender.payment_method === 'stored_value' && (
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder={subscriberId ? 'Gift card code (blank for member wallet)' : 'Gift card code'}
+                value={tender.account_code || ''}
+                onChange={(e) => updateTender(index, { account_code: e.target.value.toUpperCase() })}
+                className="flex-1 uppercase"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => checkBalance(tender)}
+                disabled={!tender.account_code && !subscriberId}
+              >
+                Balance
+              </Button>
+            </div>
+          )}
+          {tender.payment_method === 'points' && points && (
+            <div className="flex items-center justify-between text-sm">
+              <span className={getPointsNeeded(tender.amount) > points.balance ? 'text-destructive' : 'text-muted-foreground'}>
+                Uses {getPointsNeeded(tender.amount)} of {points.balance} points
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateTender(index, { amount: Math.min(points.value, Number(tender.amount) + remaining).toFixed(2) })}
+              >
+                Use Max
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {allowSplit && (
+        <Button type="button" variant="outline" size="sm" onClick={addTender}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Payment
+        </Button>
+      )}
+
+      <div className="border rounded-lg p-4 bg-muted/50 space-y-1">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Total:</span>
+          <span>${total.toFixed(2)}</span>
+        </div>
+        {remaining > 0 && (
+          <div className="flex justify-between text-sm text-destructive">
+            <span>Remaining:</span>
+            <span>${remaining.toFixed(2)}</span>
+          </div>
+        )}
+        {change > 0 && (
+          <div className="flex justify-between font-medium">
+            <span>Change Due:</span>
+            <span>${change.toFixed(2)}</span>
+          </div>
+        )}
+        {change > drawerTendered + 0.005 && (
+          <p className="text-sm text-destructive">Only payments into the cash drawer can exceed the amount due.</p>
+        )}
+      </div>
+    </div>
+  );
+}
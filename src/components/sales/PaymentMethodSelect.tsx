@@ -0,0 +1,38 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BUILT_IN_PAYMENT_METHOD_LABELS } from '@/lib/payment-methods';
+import { PaymentMethod } from '@/types';
+
+interface PaymentMethodSelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (value: string) => void;
+  methods: PaymentMethod[];
+  // Built-in tenders to offer as well, e.g. stored_value for membership payments from a wallet
+  builtIns?: string[];
+  className?: string;
+}
+
+// Pick one of the company's active payment methods
+export function PaymentMethodSelect({ id, value, onValueChange, methods, builtIns = [], className }: PaymentMethodSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Select method" />
+      </SelectTrigger>
+      <SelectContent>
+        {methods.filter(method => method.is_active).map((method) => (
+          <SelectItem key={method.code} value={method.code}>{method.name}</SelectItem>
+        ))}
+        {builtIns.map((code) => (
+          <SelectItem key={code} value={code}>{BUILT_IN_PAYMENT_METHOD_LABELS[code]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
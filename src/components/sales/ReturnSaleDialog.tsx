@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Undo2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { getPaymentMethodLabel } from '@/lib/payment-methods';
+import { SaleRecord, SaleRecordItem } from '@/types';
+
+interface ReturnSaleDialogProps {
+  sale: SaleRecord | null;
+  onOpenChange: (open: boolean) => void;
+  onReturned: () => void;
+}
+
+// Select lines from a sale to return, refund them and restock the items
+export function ReturnSaleDialog({ sale, onOpenChange, onReturned }: ReturnSaleDialogProps) {
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [refundMethod, setRefundMethod] = useState('original');
+  const paymentMethods = usePaymentMethods();
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setQuantities({});
+    setRefundMethod('original');
+    setReason('');
+  }, [sale]);
+
+  const returnableItems = (sale?.items || []).filter(
+    item => item.item_type !== 'package' && item.quantity - item.returned_quantity > 0
+  );
+
+  const selectedLines = returnableItems
+    .map(item => ({ item, quantity: parseInt(quantities[item.id]) || 0 }))
+    .filter(line => line.quantity > 0);
+
+  // The line's share of what was paid: after discounts, with any tax added on top
+  const linePaid = (item: SaleRecordItem) => item.net_amount !== null
+    ? Number(item.net_amount) + Number(item.tax_amount)
+    : Number(item.total) + (sale?.prices_include_tax ? 0 : Number(item.tax_amount));
+
+  const refundTotal = selectedLines.reduce(
+    (sum, line) => sum + Math.round(linePaid(line.item) / line.item.quantity * line.quantity * 100) / 100,
+    0
+  );
+
+  const handleSubmit = async () => {
+    if (!sale || selectedLines.length === 0) return;
+
+    try {
+      setSubmitting(true);
+      const response = await api.post(`/api/sales/${sale.id}/returns`, {
+        items: selectedLines.map(line => ({ sale_item_id: line.item.id, quantity: line.quantity })),
+        refund_method: refundMethod === 'original' ? undefined : refundMethod,
+        reason: reason || undefined
+      });
+      toast.success(`Refunded $${Number(response.data.total).toFixed(2)} to ${getPaymentMethodLabel(response.data.refund_method, paymentMethods)}`);
+      onReturned();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error processing return:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to process return'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!sale} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Return Items from Sale #{sale?.id}</DialogTitle>
+          <DialogDescription>
+            Choose how many of each item are coming back. Returned items are put back in stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {returnableItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Every item on this sale has already been returned.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Returnable</TableHead>
+                  <TableHead className="w-[100px]">Return</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returnableItems.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell className="text-right">${(linePaid(item) / item.quantity).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{item.quantity - item.returned_quantity}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={item.quantity - item.returned_quantity}
+                        value={quantities[item.id] || ''}
+                        onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Refund To</Label>
+              <Select value={refundMethod} onValueChange={setRefundMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="original">Original payment</SelectItem>
+                  {paymentMethods.map((method) => (
+                    <SelectItem key={method.code} value={method.code}>{method.name}</SelectItem>
+                  ))}
+                  <SelectItem value="stored_value">Store credit (gift card or wallet)</SelectItem>
+                  {sale?.customer_id && <SelectItem value="points">Loyalty points</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Refund Amount</Label>
+              <div className="h-10 flex items-center font-bold">${refundTotal.toFixed(2)}</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason</Label>
+            <Textarea
+              id="return-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || selectedLines.length === 0}>
+            {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+            Process Return
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { AlertTriangle, Check, RefreshCw } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { SaleConflict, SaleConflictType } from '@/types';
+
+const CONFLICT_COPY: Record<SaleConflictType, { title: string; description: string; detail: (conflict: SaleConflict) => string }> = {
+  stock: {
+    title: 'Stock Conflicts',
+    description: 'Items sales took below zero stock, often sales rung up offline',
+    detail: (conflict) => `${conflict.quantity} left after the sale`,
+  },
+  price: {
+    title: 'Price Conflicts',
+    description: 'Offline sales charged differently from the prices when they synced',
+    detail: (conflict) => `charged $${Number(conflict.charged).toFixed(2)}, priced at $${Number(conflict.expected).toFixed(2)}`,
+  },
+};
+
+interface SaleConflictsCardProps {
+  type: SaleConflictType;
+}
+
+// Conflicts found when sales were recorded at the selected branch, for managers to check and clear
+export function SaleConflictsCard({ type }: SaleConflictsCardProps) {
+  const { user, selectedBranch } = useAuth();
+  const canView = user?.role_name === 'admin' || user?.role_name === 'manager';
+  const [conflicts, setConflicts] = useState<SaleConflict[]>([]);
+  const [statusFilter, setStatusFilter] = useState('open');
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const copy = CONFLICT_COPY[type];
+
+  const fetchConflicts = useCallback(async () => {
+    try {
+      const response = await api.get('/api/sales/conflicts', {
+        params: { type, status: statusFilter === 'all' ? undefined : statusFilter }
+      });
+      setConflicts(response.data);
+    } catch (error) {
+      console.error('Error fetching sale conflicts:', error);
+      toast.error('Failed to load conflicts');
+    }
+  }, [type, statusFilter]);
+
+  useEffect(() => {
+    if (!selectedBranch || !canView) return;
+    fetchConflicts();
+  }, [selectedBranch, canView, fetchConflicts]);
+
+  const handleResolve = async (conflict: SaleConflict) => {
+    try {
+      setResolvingId(conflict.id);
+      await api.post(`/api/sales/conflicts/${conflict.id}/resolve`);
+      toast.success(`Cleared the conflict on sale #${conflict.sale_id}`);
+    } catch (error) {
+      console.error('Error resolving sale conflict:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to clear the conflict'));
+    } finally {
+      setResolvingId(null);
+      fetchConflicts();
+    }
+  };
+
+  if (!canView) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <AlertTriangle className="h-5 w-5 mr-2" />
+              {copy.title}
+            </CardTitle>
+            <CardDescription>
+              {copy.description}
+              {selectedBranch && ` at ${selectedBranch.name}`}.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={fetchConflicts}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {conflicts.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">Nothing to review.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sold</TableHead>
+                <TableHead>Sale</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {conflicts.map((conflict) => (
+                <TableRow key={conflict.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(conflict.sold_at), 'MMM d, HH:mm')}</TableCell>
+                  <TableCell>
+                    #{conflict.sale_id}
+                    {conflict.cashier_name && (
+                      <span className="block text-xs text-muted-foreground">by {conflict.cashier_name}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {conflict.name}
+                    <span className="block text-xs text-muted-foreground">{copy.detail(conflict)}</span>
+                  </TableCell>
+                  <TableCell>
+                    {conflict.resolved_at ? (
+                      <>
+                        <Badge variant="secondary">resolved</Badge>
+                        {conflict.resolved_by_name && (
+                          <span className="block text-xs text-muted-foreground">by {conflict.resolved_by_name}</span>
+                        )}
+                      </>
+                    ) : (
+                      <Badge variant="destructive">open</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {!conflict.resolved_at && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Mark as resolved"
+                        onClick={() => handleResolve(conflict)}
+                        disabled={resolvingId !== null}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Mail } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import api, { getApiErrorMessage } from '@/lib/axios';
+
+interface SendEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  // Route that sends the document, e.g. /api/sales/12/email
+  endpoint: string;
+  defaultEmail?: string | null;
+}
+
+// Send or resend a receipt or invoice, to the address on file or another one
+export function SendEmailDialog({ open, onOpenChange, title, description, endpoint, defaultEmail }: SendEmailDialogProps) {
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (open) setEmail(defaultEmail || '');
+  }, [open, defaultEmail]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSending(true);
+      const response = await api.post(endpoint, { email: email.trim() });
+      toast.success(response.data.message);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error sending email:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to send email'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="send-email-address">Email Address</Label>
+            <Input
+              id="send-email-address"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={sending || !email.trim()}>
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { CalendarClock, Loader2, Play } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { JobRun } from '@/types';
+
+interface BackgroundJobCardProps {
+  job: string;
+  title: string;
+  description: string;
+  // Summary keys reported by the job, shown as columns in the run history
+  summaryColumns: { key: string; label: string }[];
+}
+
+export function BackgroundJobCard({ job, title, description, summaryColumns }: BackgroundJobCardProps) {
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.get(`/api/admin/jobs/${job}/runs`);
+      setRuns(response.data);
+    } catch (error) {
+      console.error('Error fetching job runs:', error);
+      toast.error('Failed to load job history');
+    } finally {
+      setLoading(false);
+    }
+  }, [job]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleRunNow = async () => {
+    try {
+      setRunning(true);
+      const response = await api.post(`/api/admin/jobs/${job}/run`);
+      toast.success(
+        `${title} finished: ` + summaryColumns.map(column => `${response.data[column.key]} ${column.label.toLowerCase()}`).join(', ')
+      );
+      fetchRuns();
+    } catch (error) {
+      console.error('Error running job:', error);
+      toast.error(getApiErrorMessage(error, `Failed to run ${title.toLowerCase()}`));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2" />
+            {title}
+          </CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <Button onClick={handleRunNow} disabled={running}>
+          {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          Run Now
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Status</TableHead>
+              {summaryColumns.map(column => (
+                <TableHead key={column.key}>{column.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={3 + summaryColumns.length} className="text-center py-8">Loading...</TableCell>
+              </TableRow>
+            ) : runs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3 + summaryColumns.length} className="text-center py-8">The job has not run yet.</TableCell>
+              </TableRow>
+            ) : (
+              runs.map((run) => (
+                <TableRow key={run.id}>
+                  <TableCell>{format(new Date(run.started_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                  <TableCell>
+                    {run.trigger_type}
+                    {run.triggered_by_name && ` (${run.triggered_by_name})`}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={run.status === 'success' ? 'default' : run.status === 'failed' ? 'destructive' : 'secondary'}
+                      title={run.error || undefined}
+                    >
+                      {run.status}
+                    </Badge>
+                  </TableCell>
+                  {summaryColumns.map(column => (
+                    <TableCell key={column.key}>{run.summary?.[column.key] ?? '-'}</TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { KeyRound, Loader2, Percent, Save } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface RoleDiscountLimit {
+  id: number;
+  name: string;
+  max_discount_percent: number;
+}
+
+// The signed-in user's approval PIN and, for admins, how much each role may discount
+export function DiscountSettingsCard() {
+  const { user } = useAuth();
+  const isAdmin = user?.role_name === 'admin';
+  const [password, setPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const [savingPin, setSavingPin] = useState(false);
+  const [roles, setRoles] = useState<RoleDiscountLimit[]>([]);
+  const [limits, setLimits] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    api.get('/api/roles')
+      .then(response => {
+        setRoles(response.data);
+        setLimits(Object.fromEntries(
+          response.data.map((role: RoleDiscountLimit) => [role.id, String(Number(role.max_discount_percent))])
+        ));
+      })
+      .catch(error => console.error('Error fetching roles:', error));
+  }, [isAdmin]);
+
+  const handleSavePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSavingPin(true);
+      await api.put('/api/users/me/approval-pin', { password, pin });
+      toast.success('Approval PIN saved');
+      setPassword('');
+      setPin('');
+    } catch (error) {
+      console.error('Error saving approval PIN:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save approval PIN'));
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
+  const handleSaveLimit = async (role: RoleDiscountLimit) => {
+    try {
+      await api.put(`/api/roles/${role.id}/discount-limit`, { max_discount_percent: limits[role.id] });
+      toast.success(`Discount limit for ${role.name} saved`);
+    } catch (error) {
+      console.error('Error saving discount limit:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save discount limit'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Percent className="h-5 w-5 mr-2" />
+          Discounts
+        </CardTitle>
+        <CardDescription>
+          Discounts above a cashier's limit need a manager to enter their approval PIN at the till.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSavePin} className="space-y-2">
+          <h3 className="text-sm font-medium">Your Approval PIN</h3>
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="approval-pin">New PIN</Label>
+              <Input
+                id="approval-pin"
+                type="password"
+                inputMode="numeric"
+                placeholder="4 to 8 digits"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval-password">Current Password</Label>
+              <Input
+                id="approval-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={savingPin || !pin || !password}>
+              {savingPin ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+              Set PIN
+            </Button>
+          </div>
+        </form>
+
+        {isAdmin && roles.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Discount Limits by Role</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Role</TableHead>
+                    <TableHead className="w-[160px]">Max Discount (%)</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roles.map((role) => (
+                    <TableRow key={role.id}>
+                      <TableCell className="capitalize">{role.name}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          value={limits[role.id] ?? ''}
+                          onChange={(e) => setLimits({ ...limits, [role.id]: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => handleSaveLimit(role)}>
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Mail, RefreshCw, Send } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { EmailMessage, EmailStatus } from '@/types';
+
+const STATUS_VARIANTS: Record<EmailStatus, 'default' | 'secondary' | 'destructive'> = {
+  sent: 'default',
+  queued: 'secondary',
+  failed: 'destructive',
+};
+
+const describeEmail = (email: EmailMessage) => (
+  email.kind === 'receipt'
+    ? `Receipt #${email.sale_id}${email.customer_name ? ` · ${email.customer_name}` : ''}`
+    : `Invoice INV-${email.subscription_id}${email.subscriber_name ? ` · ${email.subscriber_name}` : ''}`
+);
+
+// Receipts and invoices emailed from the selected branch, with failures for managers to follow up
+export function EmailLogCard() {
+  const { user, selectedBranch } = useAuth();
+  const canView = user?.role_name === 'admin' || user?.role_name === 'manager';
+  const [emails, setEmails] = useState<EmailMessage[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [resendingId, setResendingId] = useState<number | null>(null);
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      const response = await api.get('/api/emails', {
+        params: { status: statusFilter === 'all' ? undefined : statusFilter }
+      });
+      setEmails(response.data);
+    } catch (error) {
+      console.error('Error fetching emails:', error);
+      toast.error('Failed to load the email log');
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (!selectedBranch || !canView) return;
+    fetchEmails();
+  }, [selectedBranch, canView, fetchEmails]);
+
+  const handleResend = async (email: EmailMessage) => {
+    try {
+      setResendingId(email.id);
+      await api.post(`/api/emails/${email.id}/resend`);
+      toast.success(`Sent to ${email.recipient}`);
+    } catch (error) {
+      console.error('Error resending email:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to resend email'));
+    } finally {
+      setResendingId(null);
+      fetchEmails();
+    }
+  };
+
+  if (!canView) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <Mail className="h-5 w-5 mr-2" />
+              Email Log
+            </CardTitle>
+            <CardDescription>
+              Receipts and invoices emailed to customers
+              {selectedBranch && ` from ${selectedBranch.name}`}.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={fetchEmails}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {emails.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No emails sent yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(email.created_at), 'MMM d, HH:mm')}</TableCell>
+                  <TableCell>
+                    {describeEmail(email)}
+                    {email.created_by_name && (
+                      <span className="block text-xs text-muted-foreground">by {email.created_by_name}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{email.recipient}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[email.status]}>{email.status}</Badge>
+                    {email.error && <span className="block text-xs text-destructive">{email.error}</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Send again"
+                      onClick={() => handleResend(email)}
+                      disabled={resendingId !== null}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Plus, Save, Star, Trash2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { InventoryItem, LoyaltyRule, LoyaltyRuleTarget, SubscriptionPackage } from '@/types';
+
+const describeRule = (rule: LoyaltyRule) => (
+  rule.target_type === 'category'
+    ? `Category: ${rule.category}`
+    : `Package: ${rule.package_name || `#${rule.package_id}`}`
+);
+
+// The company's points program: how points are earned, what they're worth and when they expire
+export function LoyaltySettingsCard() {
+  const { user, selectedBranch } = useAuth();
+  const isAdmin = user?.role_name === 'admin';
+  const [enabled, setEnabled] = useState(false);
+  const [pointsPerUnit, setPointsPerUnit] = useState('1');
+  const [pointValue, setPointValue] = useState('0.01');
+  const [expiryDays, setExpiryDays] = useState('');
+  const [rules, setRules] = useState<LoyaltyRule[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [packages, setPackages] = useState<SubscriptionPackage[]>([]);
+  const [newRule, setNewRule] = useState({ target_type: 'category' as LoyaltyRuleTarget, category: '', package_id: '', multiplier: '', bonus_points: '' });
+  const [saving, setSaving] = useState(false);
+
+  const categories = Array.from(new Set(items.map(item => item.category).filter(Boolean))).sort();
+
+  const fetchProgram = async () => {
+    try {
+      const response = await api.get('/api/loyalty/program');
+      setEnabled(response.data.enabled);
+      setPointsPerUnit(String(response.data.points_per_unit));
+      setPointValue(String(response.data.point_value));
+      setExpiryDays(response.data.expiry_days === null ? '' : String(response.data.expiry_days));
+      setRules(response.data.rules);
+    } catch (error) {
+      console.error('Error fetching loyalty program:', error);
+      toast.error('Failed to load loyalty settings');
+    }
+  };
+
+  useEffect(() => {
+    if (!selectedBranch || !isAdmin) return;
+
+    fetchProgram();
+    api.get('/api/inventory')
+      .then(response => setItems(response.data))
+      .catch(error => console.error('Error fetching inventory items:', error));
+    api.get('/api/packages')
+      .then(response => setPackages(response.data))
+      .catch(error => console.error('Error fetching packages:', error));
+  }, [selectedBranch, isAdmin]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      await api.put('/api/loyalty/program', {
+        enabled,
+        points_per_unit: pointsPerUnit,
+        point_value: pointValue,
+        expiry_days: expiryDays === '' ? null : expiryDays,
+      });
+      toast.success('Loyalty settings saved successfully');
+    } catch (error) {
+      console.error('Error saving loyalty program:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save loyalty settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRule = async () => {
+    try {
+      await api.post('/api/loyalty/rules', newRule);
+      toast.success('Loyalty rule saved');
+      setNewRule({ ...newRule, category: '', package_id: '', multiplier: '', bonus_points: '' });
+      fetchProgram();
+    } catch (error) {
+      console.error('Error creating loyalty rule:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save loyalty rule'));
+    }
+  };
+
+  const handleDeleteRule = async (rule: LoyaltyRule) => {
+    if (!window.confirm(`Remove the rule for ${describeRule(rule).toLowerCase()}?`)) return;
+
+    try {
+      await api.delete(`/api/loyalty/rules/${rule.id}`);
+      toast.success('Loyalty rule removed');
+      fetchProgram();
+    } catch (error) {
+      console.error('Error deleting loyalty rule:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to remove loyalty rule'));
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <Card>
+      <form onSubmit={handleSave}>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Star className="h-5 w-5 mr-2" />
+            Loyalty Points
+          </CardTitle>
+          <CardDescription>
+            Members earn points on shop purchases and membership payments at every branch of the company, and spend them at the till.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch id="loyalty-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            <Label htmlFor="loyalty-enabled">Run the loyalty program</Label>
+          </div>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="points-per-unit">Points per $1 Spent</Label>
+              <Input
+                id="points-per-unit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={pointsPerUnit}
+                onChange={(e) => setPointsPerUnit(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="point-value">Value of a Point ($)</Label>
+              <Input
+                id="point-value"
+                type="number"
+                min="0.0001"
+                step="0.0001"
+                value={pointValue}
+                onChange={(e) => setPointValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="points-expiry">Points Expire After (days)</Label>
+              <Input
+                id="points-expiry"
+                type="number"
+                min="1"
+                placeholder="Never"
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Earn Rules</h3>
+            <p className="text-sm text-muted-foreground">
+              A category multiplier changes the points earned on its items; a package bonus is added each time the package is bought or renewed.
+            </p>
+            {rules.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead className="text-right">Earns</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell>{describeRule(rule)}</TableCell>
+                      <TableCell className="text-right">
+                        {rule.target_type === 'category' ? `${rule.multiplier}× points` : `+${rule.bonus_points} points`}
+                      </TableCell>
+                      <TableCell>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => handleDeleteRule(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-4 items-end">
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select
+                value={newRule.target_type}
+                onValueChange={(value) => setNewRule({ ...newRule, target_type: value as LoyaltyRuleTarget })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="category">Category</SelectItem>
+                  <SelectItem value="package">Package</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {newRule.target_type === 'category' ? (
+              <>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select value={newRule.category} onValueChange={(value) => setNewRule({ ...newRule, category: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-multiplier">Multiplier</Label>
+                  <Input
+                    id="rule-multiplier"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    placeholder="e.g. 2"
+                    value={newRule.multiplier}
+                    onChange={(e) => setNewRule({ ...newRule, multiplier: e.target.value })}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Package</Label>
+                  <Select value={newRule.package_id} onValueChange={(value) => setNewRule({ ...newRule, package_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {packages.map((pkg) => (
+                        <SelectItem key={pkg.id} value={String(pkg.id)}>{pkg.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-bonus">Bonus Points</Label>
+                  <Input
+                    id="rule-bonus"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={newRule.bonus_points}
+                    onChange={(e) => setNewRule({ ...newRule, bonus_points: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleAddRule}
+              disabled={newRule.target_type === 'category' ? !newRule.category || newRule.multiplier === '' : !newRule.package_id || !newRule.bonus_points}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button type="submit" disabled={saving || !selectedBranch}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save Loyalty Settings
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Plus, Wallet } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { PAYMENT_METHOD_TYPE_LABELS } from '@/lib/payment-methods';
+import { PaymentMethod, PaymentMethodType } from '@/types';
+
+const emptyMethod = { name: '', type: 'card' as PaymentMethodType, opens_drawer: false, requires_reference: false };
+
+// The ways the company takes money at the till and for memberships. Methods are retired rather than
+// deleted so past sales and payments keep their names.
+export function PaymentMethodsSettingsCard() {
+  const { user, selectedBranch } = useAuth();
+  const isAdmin = user?.role_name === 'admin';
+  const [methods, setMethods] = useState<PaymentMethod[]>([]);
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [newMethod, setNewMethod] = useState(emptyMethod);
+
+  const fetchMethods = async () => {
+    try {
+      const response = await api.get('/api/payment-methods', { params: { all: 1 } });
+      setMethods(response.data);
+      setNames(Object.fromEntries(response.data.map((method: PaymentMethod) => [method.id, method.name])));
+    } catch (error) {
+      console.error('Error fetching payment methods:', error);
+      toast.error('Failed to load payment methods');
+    }
+  };
+
+  useEffect(() => {
+    if (!selectedBranch || !isAdmin) return;
+    fetchMethods();
+  }, [selectedBranch, isAdmin]);
+
+  const handleUpdate = async (method: PaymentMethod, changes: Partial<PaymentMethod>) => {
+    try {
+      await api.put(`/api/payment-methods/${method.id}`, { ...method, ...changes });
+      toast.success('Payment method updated');
+    } catch (error) {
+      console.error('Error updating payment method:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to update payment method'));
+    } finally {
+      fetchMethods();
+    }
+  };
+
+  const handleRename = (method: PaymentMethod) => {
+    const name = (names[method.id] || '').trim();
+    if (name && name !== method.name) {
+      handleUpdate(method, { name });
+    } else {
+      setNames({ ...names, [method.id]: method.name });
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      await api.post('/api/payment-methods', newMethod);
+      toast.success(`${newMethod.name.trim()} added`);
+      setNewMethod(emptyMethod);
+      fetchMethods();
+    } catch (error) {
+      console.error('Error creating payment method:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to add payment method'));
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wallet className="h-5 w-5 mr-2" />
+          Payment Methods
+        </CardTitle>
+        <CardDescription>
+          How customers can pay at every branch of the company. Only methods that go in the cash drawer can give change
+          and count toward the expected cash on a shift.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {methods.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-center">Cash Drawer</TableHead>
+                <TableHead className="text-center">Needs Reference</TableHead>
+                <TableHead className="text-center">Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {methods.map((method) => (
+                <TableRow key={method.id} className={method.is_active ? undefined : 'text-muted-foreground'}>
+                  <TableCell>
+                    <Input
+                      value={names[method.id] ?? method.name}
+                      onChange={(e) => setNames({ ...names, [method.id]: e.target.value })}
+                      onBlur={() => handleRename(method)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select value={method.type} onValueChange={(value) => handleUpdate(method, { type: value as PaymentMethodType })}>
+                      <SelectTrigger className="w-[150px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PAYMENT_METHOD_TYPE_LABELS).map(([type, label]) => (
+                          <SelectItem key={type} value={type}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch checked={method.opens_drawer} onCheckedChange={(checked) => handleUpdate(method, { opens_drawer: checked })} />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch checked={method.requires_reference} onCheckedChange={(checked) => handleUpdate(method, { requires_reference: checked })} />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch checked={method.is_active} onCheckedChange={(checked) => handleUpdate(method, { is_active: checked })} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="grid grid-cols-1 gap-2 md:grid-cols-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="new-method-name">Name</Label>
+            <Input
+              id="new-method-name"
+              placeholder="e.g. M-Pesa"
+              value={newMethod.name}
+              onChange={(e) => setNewMethod({ ...newMethod, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={newMethod.type} onValueChange={(value) => setNewMethod({ ...newMethod, type: value as PaymentMethodType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYMENT_METHOD_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="new-method-drawer"
+                checked={newMethod.opens_drawer}
+                onCheckedChange={(checked) => setNewMethod({ ...newMethod, opens_drawer: checked })}
+              />
+              <Label htmlFor="new-method-drawer">Goes in the cash drawer</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="new-method-reference"
+                checked={newMethod.requires_reference}
+                onCheckedChange={(checked) => setNewMethod({ ...newMethod, requires_reference: checked })}
+              />
+              <Label htmlFor="new-method-reference">Needs a reference number</Label>
+            </div>
+          </div>
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={!newMethod.name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Method
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { BellRing, Loader2, Save } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Expiry reminder settings for the selected branch
+export function ReminderSettingsCard() {
+  const { selectedBranch } = useAuth();
+  const [remindersEnabled, setRemindersEnabled] = useState(true);
+  const [reminderDays, setReminderDays] = useState('7');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!selectedBranch) return;
+
+    const fetchSettings = async () => {
+      try {
+        const response = await api.get(`/api/branches/${selectedBranch.branch_id}/settings`);
+        setRemindersEnabled(Boolean(response.data.reminders_enabled));
+        setReminderDays(String(response.data.reminder_days));
+      } catch (error) {
+        console.error('Error fetching branch settings:', error);
+        toast.error('Failed to load reminder settings');
+      }
+    };
+
+    fetchSettings();
+  }, [selectedBranch]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedBranch) return;
+
+    try {
+      setSaving(true);
+      await api.put(`/api/branches/${selectedBranch.branch_id}/settings`, {
+        reminders_enabled: remindersEnabled,
+        reminder_days: reminderDays,
+      });
+      toast.success('Reminder settings saved successfully');
+    } catch (error) {
+      console.error('Error saving branch settings:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save reminder settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <form onSubmit={handleSave}>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <BellRing className="h-5 w-5 mr-2" />
+            Membership Reminders
+          </CardTitle>
+          <CardDescription>
+            Email and text members before their membership expires
+            {selectedBranch && ` at ${selectedBranch.name}`}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="reminders-enabled">Expiry Reminders</Label>
+              <p className="text-sm text-muted-foreground">
+                Send renewal reminders automatically every day
+              </p>
+            </div>
+            <Switch
+              id="reminders-enabled"
+              checked={remindersEnabled}
+              onCheckedChange={setRemindersEnabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reminder-days">Days Before Expiry</Label>
+            <Input
+              id="reminder-days"
+              type="number"
+              min="0"
+              value={reminderDays}
+              onChange={(e) => setReminderDays(e.target.value)}
+              disabled={!remindersEnabled}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button type="submit" disabled={saving || !selectedBranch}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save Reminder Settings
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
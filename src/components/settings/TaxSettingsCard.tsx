@@ -0,0 +1,320 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Percent, Plus, Save, Trash2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { InventoryItem, TaxRule, TaxRuleTarget } from '@/types';
+
+const TAX_RULE_TARGET_LABELS: Record<TaxRuleTarget, string> = {
+  membership: 'Memberships',
+  category: 'Category',
+  item: 'Item',
+};
+
+const describeRule = (rule: TaxRule) => {
+  if (rule.target_type === 'membership') return 'All memberships';
+  if (rule.target_type === 'category') return `Category: ${rule.category}`;
+  return `Item: ${rule.item_name || `#${rule.item_id}`}`;
+};
+
+// Branch tax rate and pricing mode, plus rate overrides per category, item or memberships
+export function TaxSettingsCard() {
+  const { user, selectedBranch } = useAuth();
+  const isAdmin = user?.role_name === 'admin';
+  const [taxRate, setTaxRate] = useState('');
+  const [pricingMode, setPricingMode] = useState('company');
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [newRule, setNewRule] = useState({ target_type: 'category' as TaxRuleTarget, category: '', item_id: '', rate: '', name: '', branch_only: false });
+  const [saving, setSaving] = useState(false);
+
+  const categories = Array.from(new Set(items.map(item => item.category).filter(Boolean))).sort();
+
+  const fetchRules = async () => {
+    try {
+      const response = await api.get('/api/tax-rules');
+      setRules(response.data);
+    } catch (error) {
+      console.error('Error fetching tax rules:', error);
+      toast.error('Failed to load tax rules');
+    }
+  };
+
+  useEffect(() => {
+    if (!selectedBranch) return;
+
+    const fetchSettings = async () => {
+      try {
+        const response = await api.get(`/api/branches/${selectedBranch.branch_id}/settings`);
+        setTaxRate(response.data.tax_rate === null ? '' : String(Number(response.data.tax_rate)));
+        setPricingMode(
+          response.data.prices_include_tax === null ? 'company' : response.data.prices_include_tax ? 'inclusive' : 'exclusive'
+        );
+      } catch (error) {
+        console.error('Error fetching branch settings:', error);
+        toast.error('Failed to load tax settings');
+      }
+    };
+
+    fetchSettings();
+    fetchRules();
+    api.get('/api/inventory')
+      .then(response => setItems(response.data))
+      .catch(error => console.error('Error fetching inventory items:', error));
+  }, [selectedBranch]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedBranch) return;
+
+    try {
+      setSaving(true);
+      await api.put(`/api/branches/${selectedBranch.branch_id}/settings`, {
+        tax_rate: taxRate === '' ? null : taxRate,
+        prices_include_tax: pricingMode === 'company' ? null : pricingMode === 'inclusive',
+      });
+      toast.success('Tax settings saved successfully');
+    } catch (error) {
+      console.error('Error saving branch settings:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save tax settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRule = async () => {
+    try {
+      await api.post('/api/tax-rules', newRule);
+      toast.success('Tax rule added');
+      setNewRule({ ...newRule, category: '', item_id: '', rate: '', name: '' });
+      fetchRules();
+    } catch (error) {
+      console.error('Error creating tax rule:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to add tax rule'));
+    }
+  };
+
+  const handleDeleteRule = async (rule: TaxRule) => {
+    if (!window.confirm(`Remove the ${Number(rule.rate)}% rule for ${describeRule(rule).toLowerCase()}?`)) return;
+
+    try {
+      await api.delete(`/api/tax-rules/${rule.id}`);
+      toast.success('Tax rule removed');
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting tax rule:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to remove tax rule'));
+    }
+  };
+
+  return (
+    <Card>
+      <form onSubmit={handleSave}>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Percent className="h-5 w-5 mr-2" />
+            Tax
+          </CardTitle>
+          <CardDescription>
+            Leave a setting on the company default to use the rate and pricing set on the company
+            {selectedBranch && `, or override it for ${selectedBranch.name}`}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="tax-rate">Tax Rate (%)</Label>
+              <Input
+                id="tax-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                placeholder="Company default"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+                disabled={!isAdmin}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Shelf Prices</Label>
+              <Select value={pricingMode} onValueChange={setPricingMode} disabled={!isAdmin}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="company">Company default</SelectItem>
+                  <SelectItem value="inclusive">Include tax</SelectItem>
+                  <SelectItem value="exclusive">Exclude tax (added at checkout)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Rate Overrides</h3>
+            <p className="text-sm text-muted-foreground">
+              An item rule beats a category rule, and a rule for this branch beats a company-wide one.
+            </p>
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">Everything is taxed at the default rate.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Scope</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    {isAdmin && <TableHead className="w-[50px]"></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell>{describeRule(rule)}</TableCell>
+                      <TableCell>{rule.name || '—'}</TableCell>
+                      <TableCell>{rule.branch_name || 'All branches'}</TableCell>
+                      <TableCell className="text-right">{Number(rule.rate)}%</TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <Button type="button" variant="ghost" size="icon" onClick={() => handleDeleteRule(rule)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {isAdmin && (
+            <div className="grid grid-cols-1 gap-2 md:grid-cols-5 items-end">
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select
+                  value={newRule.target_type}
+                  onValueChange={(value) => setNewRule({ ...newRule, target_type: value as TaxRuleTarget })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TAX_RULE_TARGET_LABELS) as TaxRuleTarget[]).map((target) => (
+                      <SelectItem key={target} value={target}>{TAX_RULE_TARGET_LABELS[target]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                {newRule.target_type === 'category' && (
+                  <>
+                    <Label>Category</Label>
+                    <Select value={newRule.category} onValueChange={(value) => setNewRule({ ...newRule, category: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+                {newRule.target_type === 'item' && (
+                  <>
+                    <Label>Item</Label>
+                    <Select value={newRule.item_id} onValueChange={(value) => setNewRule({ ...newRule, item_id: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {items.map((item) => (
+                          <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-rate">Rate (%)</Label>
+                <Input
+                  id="rule-rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={newRule.rate}
+                  onChange={(e) => setNewRule({ ...newRule, rate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  placeholder="e.g. Zero-rated"
+                  value={newRule.name}
+                  onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={handleAddRule} disabled={newRule.rate === ''}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+              <div className="flex items-center space-x-2 md:col-span-5">
+                <Switch
+                  id="rule-branch-only"
+                  checked={newRule.branch_only}
+                  onCheckedChange={(checked) => setNewRule({ ...newRule, branch_only: checked })}
+                />
+                <Label htmlFor="rule-branch-only">Only for {selectedBranch?.name || 'this branch'}</Label>
+              </div>
+            </div>
+          )}
+        </CardContent>
+        {isAdmin && (
+          <CardFooter className="flex justify-end">
+            <Button type="submit" disabled={saving || !selectedBranch}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Tax Settings
+            </Button>
+          </CardFooter>
+        )}
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Loader2, RefreshCw } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { ExpiringSubscription } from '@/types';
+
+interface ExpiringSubscriptionsProps {
+  onRenewed?: () => void;
+}
+
+// Memberships about to lapse in the current branch, with one-click renewal
+export function ExpiringSubscriptions({ onRenewed }: ExpiringSubscriptionsProps) {
+  const [subscriptions, setSubscriptions] = useState<ExpiringSubscription[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [renewingId, setRenewingId] = useState<number | null>(null);
+
+  const fetchExpiring = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/api/subscriptions/expiring');
+      setSubscriptions(response.data);
+    } catch (error) {
+      console.error('Error fetching expiring subscriptions:', error);
+      toast.error('Failed to load expiring subscriptions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExpiring();
+  }, []);
+
+  const handleRenew = async (subscription: ExpiringSubscription) => {
+    try {
+      setRenewingId(subscription.subscription_id);
+      const response = await api.post(`/api/subscriptions/${subscription.subscription_id}/renew`);
+      toast.success(
+        `${subscription.subscriber_name} renewed until ${format(new Date(response.data.end_date), 'MMM d, yyyy')} · ` +
+        `$${subscription.package_price.toFixed(2)} due`
+      );
+      fetchExpiring();
+      onRenewed?.();
+    } catch (error) {
+      console.error('Error renewing subscription:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to renew subscription'));
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle>Expiring Soon</CardTitle>
+        <CardDescription>Memberships ending within the branch reminder window that have not been renewed.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Package</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Last Reminder</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-6">Loading...</TableCell>
+              </TableRow>
+            ) : subscriptions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-6">No memberships expiring soon.</TableCell>
+              </TableRow>
+            ) : (
+              subscriptions.map((subscription) => (
+                <TableRow key={subscription.subscription_id}>
+                  <TableCell>
+                    <div className="font-medium">{subscription.subscriber_name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {subscription.phone || subscription.email || 'No contact'}
+                    </div>
+                  </TableCell>
+                  <TableCell>{subscription.package_name}</TableCell>
+                  <TableCell>
+                    <div>{format(new Date(subscription.end_date), 'MMM d, yyyy')}</div>
+                    <Badge variant={subscription.days_left <= 2 ? 'destructive' : 'secondary'}>
+                      {subscription.days_left === 0 ? 'today' : `${subscription.days_left} days`}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {subscription.last_reminded_at
+                      ? format(new Date(subscription.last_reminded_at), 'MMM d, HH:mm')
+                      : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      onClick={() => handleRenew(subscription)}
+                      disabled={renewingId !== null}
+                    >
+                      {renewingId === subscription.subscription_id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                      )}
+                      Renew
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Star } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { LoyaltyTransaction, LoyaltyTransactionType, MemberPoints } from '@/types';
+
+const TRANSACTION_LABELS: Record<LoyaltyTransactionType, string> = {
+  earn: 'Earned',
+  bonus: 'Bonus',
+  redeem: 'Spent',
+  refund: 'Refund',
+  reverse: 'Returned',
+  adjust: 'Adjustment',
+  expire: 'Expired',
+};
+
+interface MemberPointsPanelProps {
+  subscriberId: number;
+}
+
+// A member's points balance and history, with manual adjustments for admins
+export function MemberPointsPanel({ subscriberId }: MemberPointsPanelProps) {
+  const { user } = useAuth();
+  const isAdmin = user?.role_name === 'admin';
+  const [points, setPoints] = useState<MemberPoints | null>(null);
+  const [transactions, setTransactions] = useState<LoyaltyTransaction[]>([]);
+  const [adjustment, setAdjustment] = useState('');
+  const [adjustmentNotes, setAdjustmentNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchPoints = useCallback(async () => {
+    try {
+      const response = await api.get(`/api/subscribers/${subscriberId}/points`);
+      const { transactions: history, ...summary } = response.data;
+      setPoints(summary);
+      setTransactions(history);
+    } catch (error) {
+      console.error('Error fetching points:', error);
+      toast.error('Failed to load points');
+    }
+  }, [subscriberId]);
+
+  useEffect(() => {
+    fetchPoints();
+  }, [fetchPoints]);
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const response = await api.post(`/api/subscribers/${subscriberId}/points/adjust`, {
+        points: adjustment,
+        notes: adjustmentNotes,
+      });
+      toast.success(`Balance is now ${response.data.balance} points`);
+      setAdjustment('');
+      setAdjustmentNotes('');
+      fetchPoints();
+    } catch (error) {
+      console.error('Error adjusting points:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to adjust points'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!points) {
+    return <p className="text-center py-8 text-muted-foreground">Loading points...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between border rounded-lg p-4">
+        <div className="flex items-center">
+          <Star className="h-5 w-5 mr-3 text-yellow-500" />
+          <div>
+            <p className="text-2xl font-bold">{points.balance} points</p>
+            <p className="text-sm text-muted-foreground">
+              Worth ${points.value.toFixed(2)}
+              {!points.enabled && ' · loyalty program is off'}
+            </p>
+          </div>
+        </div>
+        {points.expiring_soon > 0 && points.next_expiry && (
+          <p className="text-sm text-destructive">
+            {points.expiring_soon} expire from {format(new Date(points.next_expiry), 'MMM d, yyyy')}
+          </p>
+        )}
+      </div>
+
+      {isAdmin && (
+        <form onSubmit={handleAdjust} className="flex gap-2">
+          <Input
+            type="number"
+            step="1"
+            placeholder="+/- points"
+            className="w-[140px]"
+            value={adjustment}
+            onChange={(e) => setAdjustment(e.target.value)}
+          />
+          <Input
+            placeholder="Reason"
+            className="flex-1"
+            value={adjustmentNotes}
+            onChange={(e) => setAdjustmentNotes(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={saving || !adjustment || !adjustmentNotes.trim()}>
+            Adjust
+          </Button>
+        </form>
+      )}
+
+      {transactions.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">No points earned yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead className="text-right">Points</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transactions.map((transaction) => (
+              <TableRow key={transaction.id}>
+                <TableCell>{format(new Date(transaction.created_at), 'MMM d, yyyy')}</TableCell>
+                <TableCell>{TRANSACTION_LABELS[transaction.type]}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {[
+                    transaction.notes,
+                    transaction.expires_on && `expires ${format(new Date(transaction.expires_on), 'MMM d, yyyy')}`,
+                    transaction.branch_name,
+                    transaction.created_by_name
+                  ].filter(Boolean).join(' · ')}
+                </TableCell>
+                <TableCell className={transaction.points < 0 ? 'text-right text-destructive' : 'text-right'}>
+                  {transaction.points > 0 ? '+' : ''}{transaction.points}
+                </TableCell>
+                <TableCell className="text-right">{transaction.balance_after}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
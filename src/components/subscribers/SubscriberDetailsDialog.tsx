@@ -0,0 +1,911 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Snowflake, Play, Loader2, Ban, ArrowRightLeft, DollarSign, Mail } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { MemberPointsPanel } from '@/components/subscribers/MemberPointsPanel';
+import { SendEmailDialog } from '@/components/sales/SendEmailDialog';
+import { PaymentMethodSelect } from '@/components/sales/PaymentMethodSelect';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { getPaymentMethodLabel, requiresReference } from '@/lib/payment-methods';
+import {
+  CheckIn,
+  MemberPurchase,
+  PackageChangeQuote,
+  RefundQuote,
+  Subscriber,
+  StoredValueAccount,
+  Subscription,
+  SubscriptionFreeze,
+  SubscriptionPackage,
+  SubscriptionPayment,
+} from '@/types';
+
+interface SubscriberDetailsDialogProps {
+  subscriber: Subscriber | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: () => void;
+}
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy') : '-');
+
+export function SubscriberDetailsDialog({ subscriber, open, onOpenChange, onChanged }: SubscriberDetailsDialogProps) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [freezes, setFreezes] = useState<Record<number, SubscriptionFreeze[]>>({});
+  const [payments, setPayments] = useState<Record<number, SubscriptionPayment[]>>({});
+  const [visits, setVisits] = useState<CheckIn[]>([]);
+  const [purchases, setPurchases] = useState<MemberPurchase[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [freezeTarget, setFreezeTarget] = useState<Subscription | null>(null);
+  const [freezeStart, setFreezeStart] = useState('');
+  const [freezeEnd, setFreezeEnd] = useState('');
+  const [freezeReason, setFreezeReason] = useState('');
+  const [cancelTarget, setCancelTarget] = useState<Subscription | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [refundQuote, setRefundQuote] = useState<RefundQuote | null>(null);
+  const [issueRefund, setIssueRefund] = useState(false);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [changeTarget, setChangeTarget] = useState<Subscription | null>(null);
+  const [packages, setPackages] = useState<SubscriptionPackage[]>([]);
+  const [newPackageId, setNewPackageId] = useState('');
+  const [changePaymentMethod, setChangePaymentMethod] = useState('');
+  const [changeQuote, setChangeQuote] = useState<PackageChangeQuote | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<Subscription | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [paymentAccountCode, setPaymentAccountCode] = useState('');
+  const [wallet, setWallet] = useState<StoredValueAccount | null>(null);
+  const [invoiceTarget, setInvoiceTarget] = useState<Subscription | null>(null);
+  const paymentMethods = usePaymentMethods({ includeInactive: true });
+
+  const subscriberId = subscriber?.id;
+
+  const fetchSubscriptions = useCallback(async () => {
+    if (!subscriberId) return;
+
+    try {
+      setLoading(true);
+      const response = await api.get(`/api/subscribers/${subscriberId}/subscriptions`);
+      const subscriptionData: Subscription[] = response.data;
+
+      // Load the freeze and payment history for every subscription
+      const [freezeResponses, paymentResponses] = await Promise.all([
+        Promise.all(subscriptionData.map(subscription => api.get(`/api/subscriptions/${subscription.id}/freezes`))),
+        Promise.all(subscriptionData.map(subscription => api.get(`/api/subscriptions/${subscription.id}/payments`))),
+      ]);
+      const freezeMap: Record<number, SubscriptionFreeze[]> = {};
+      const paymentMap: Record<number, SubscriptionPayment[]> = {};
+      subscriptionData.forEach((subscription, index) => {
+        freezeMap[subscription.id] = freezeResponses[index].data;
+        paymentMap[subscription.id] = paymentResponses[index].data;
+      });
+
+      setSubscriptions(subscriptionData);
+      setFreezes(freezeMap);
+      setPayments(paymentMap);
+    } catch (error) {
+      console.error('Error fetching subscriptions:', error);
+      toast.error('Failed to load subscriptions');
+    } finally {
+      setLoading(false);
+    }
+  }, [subscriberId]);
+
+  const fetchVisits = useCallback(async () => {
+    if (!subscriberId) return;
+
+    try {
+      const response = await api.get(`/api/subscribers/${subscriberId}/check-ins`);
+      setVisits(response.data);
+    } catch (error) {
+      console.error('Error fetching visits:', error);
+      toast.error('Failed to load visit history');
+    }
+  }, [subscriberId]);
+
+  // Members without a wallet just don't show one
+  const fetchWallet = useCallback(async () => {
+    if (!subscriberId) return;
+
+    try {
+      const response = await api.get('/api/stored-value/lookup', { params: { subscriber_id: subscriberId } });
+      setWallet(response.data);
+    } catch {
+      setWallet(null);
+    }
+  }, [subscriberId]);
+
+  const fetchPurchases = useCallback(async () => {
+    if (!subscriberId) return;
+
+    try {
+      const response = await api.get(`/api/subscribers/${subscriberId}/purchases`);
+      setPurchases(response.data);
+    } catch (error) {
+      console.error('Error fetching purchases:', error);
+      toast.error('Failed to load purchase history');
+    }
+  }, [subscriberId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchSubscriptions();
+      fetchVisits();
+      fetchPurchases();
+      fetchWallet();
+    } else {
+      setFreezeTarget(null);
+      setCancelTarget(null);
+      setChangeTarget(null);
+      setPaymentTarget(null);
+      setInvoiceTarget(null);
+    }
+  }, [open, fetchSubscriptions, fetchVisits, fetchPurchases, fetchWallet]);
+
+  const handleOpenFreeze = (subscription: Subscription) => {
+    setCancelTarget(null);
+    setChangeTarget(null);
+    setPaymentTarget(null);
+    setFreezeTarget(subscription);
+    setFreezeStart(format(new Date(), 'yyyy-MM-dd'));
+    setFreezeEnd('');
+    setFreezeReason('');
+  };
+
+  const handleFreeze = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!freezeTarget) return;
+
+    try {
+      setSaving(true);
+      await api.post(`/api/subscriptions/${freezeTarget.id}/freezes`, {
+        start_date: freezeStart,
+        end_date: freezeEnd,
+        reason: freezeReason,
+      });
+      toast.success('Subscription frozen successfully');
+      setFreezeTarget(null);
+      fetchSubscriptions();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error freezing subscription:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to freeze subscription'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnfreeze = async (freeze: SubscriptionFreeze) => {
+    if (!confirm('End this freeze today and resume the membership?')) return;
+
+    try {
+      setSaving(true);
+      await api.post(`/api/subscriptions/${freeze.subscription_id}/freezes/${freeze.id}/unfreeze`, {
+        resume_date: format(new Date(), 'yyyy-MM-dd'),
+      });
+      toast.success('Subscription unfrozen successfully');
+      fetchSubscriptions();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error unfreezing subscription:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to unfreeze subscription'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenCancel = async (subscription: Subscription) => {
+    setFreezeTarget(null);
+    setChangeTarget(null);
+    setPaymentTarget(null);
+    setCancelTarget(subscription);
+    setCancelReason('');
+    setRefundQuote(null);
+    setIssueRefund(false);
+    setRefundAmount('');
+
+    try {
+      const response = await api.get(`/api/subscriptions/${subscription.id}/refund-quote`);
+      setRefundQuote(response.data);
+      setRefundAmount(response.data.refund_amount.toFixed(2));
+    } catch (error) {
+      console.error('Error fetching refund quote:', error);
+      toast.error('Failed to calculate refund');
+    }
+  };
+
+  const handleCancel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cancelTarget) return;
+
+    try {
+      setSaving(true);
+      const response = await api.post(`/api/subscriptions/${cancelTarget.id}/cancel`, {
+        reason: cancelReason,
+        refund: issueRefund,
+        refund_amount: issueRefund ? refundAmount : undefined,
+      });
+      toast.success(
+        response.data.refund_amount > 0
+          ? `Subscription cancelled, $${response.data.refund_amount.toFixed(2)} refunded via ${getPaymentMethodLabel(response.data.refund_payment_method, paymentMethods)}`
+          : 'Subscription cancelled'
+      );
+      setCancelTarget(null);
+      fetchSubscriptions();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error cancelling subscription:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to cancel subscription'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenChange = async (subscription: Subscription) => {
+    setFreezeTarget(null);
+    setCancelTarget(null);
+    setPaymentTarget(null);
+    setChangeTarget(subscription);
+    setNewPackageId('');
+    setChangePaymentMethod(subscription.payment_method);
+    setChangeQuote(null);
+
+    if (packages.length === 0) {
+      try {
+        const response = await api.get('/api/packages');
+        setPackages(response.data);
+      } catch (error) {
+        console.error('Error fetching packages:', error);
+        toast.error('Failed to load packages');
+      }
+    }
+  };
+
+  const handleSelectNewPackage = async (packageId: string) => {
+    if (!changeTarget) return;
+    setNewPackageId(packageId);
+    setChangeQuote(null);
+
+    try {
+      const response = await api.get(`/api/subscriptions/${changeTarget.id}/change-quote`, {
+        params: { package_id: packageId },
+      });
+      setChangeQuote(response.data);
+    } catch (error) {
+      console.error('Error fetching change quote:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to price package change'));
+    }
+  };
+
+  const handleChangePackage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!changeTarget || !changeQuote) return;
+
+    try {
+      setSaving(true);
+      await api.post(`/api/subscriptions/${changeTarget.id}/change-package`, {
+        package_id: newPackageId,
+        payment_method: changePaymentMethod,
+      });
+      toast.success(changeQuote.change_type === 'upgrade' ? 'Subscription upgraded' : 'Subscription downgraded');
+      setChangeTarget(null);
+      fetchSubscriptions();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error changing package:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to change package'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenPayment = (subscription: Subscription) => {
+    setFreezeTarget(null);
+    setCancelTarget(null);
+    setChangeTarget(null);
+    setPaymentTarget(subscription);
+    setPaymentAmount(outstandingFor(subscription).toFixed(2));
+    setPaymentMethod(subscription.payment_method);
+    setPaymentReference('');
+    setPaymentDate(format(new Date(), 'yyyy-MM-dd'));
+    setPaymentAccountCode('');
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paymentTarget) return;
+
+    try {
+      setSaving(true);
+      await api.post(`/api/subscriptions/${paymentTarget.id}/payments`, {
+        amount: paymentAmount,
+        payment_method: paymentMethod,
+        payment_reference: paymentReference.trim() || null,
+        payment_date: paymentDate,
+        account_code: paymentMethod === 'stored_value' ? paymentAccountCode || null : null,
+      });
+      toast.success('Payment recorded successfully');
+      setPaymentTarget(null);
+      fetchSubscriptions();
+      fetchWallet();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to record payment'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const outstandingFor = (subscription: Subscription) =>
+    Math.max(Number(subscription.total_amount) - Number(subscription.amount_paid), 0);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // A freeze can be ended early while it has not run its course yet
+  const canUnfreeze = (freeze: SubscriptionFreeze) =>
+    freeze.status === 'active' && format(new Date(freeze.end_date), 'yyyy-MM-dd') >= today;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{subscriber?.name}</DialogTitle>
+          <DialogDescription>
+            {[subscriber?.email, subscriber?.phone].filter(Boolean).join(' · ') || 'No contact details'}
+            {wallet && ` · Wallet $${wallet.balance.toFixed(2)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="subscriptions">
+          <TabsList>
+            <TabsTrigger value="subscriptions">Subscriptions</TabsTrigger>
+            <TabsTrigger value="visits">Visits ({visits.length})</TabsTrigger>
+            <TabsTrigger value="purchases">Purchases ({purchases.length})</TabsTrigger>
+            <TabsTrigger value="points">Points</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="subscriptions" className="mt-4">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : subscriptions.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No subscriptions yet.</p>
+            ) : (
+              <div className="space-y-6">
+                {subscriptions.map((subscription) => (
+                  <div key={subscription.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{subscription.package_name}</p>
+                          {subscription.status !== 'cancelled' && subscription.is_frozen ? (
+                            <Badge variant="outline">frozen</Badge>
+                          ) : (
+                            <Badge variant={subscription.status === 'active' ? 'default' : 'secondary'}>
+                              {subscription.status}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {formatDate(subscription.start_date)} – {formatDate(subscription.end_date)}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Paid ${Number(subscription.amount_paid).toFixed(2)} of ${Number(subscription.total_amount).toFixed(2)}
+                          {' · '}
+                          <span className={subscription.payment_status === 'paid' ? undefined : 'text-destructive'}>
+                            {subscription.payment_status}
+                          </span>
+                        </p>
+                        {subscription.visits_total != null && (
+                          <p className="text-sm text-muted-foreground">
+                            Visits: {subscription.visits_remaining} of {subscription.visits_total} remaining
+                          </p>
+                        )}
+                        <p className="text-sm text-muted-foreground">
+                          Frozen: {subscription.frozen_days} days
+                          {subscription.package_max_freeze_days != null && ` of ${subscription.package_max_freeze_days}`}
+                          {' · '}
+                          {subscription.freeze_count} freezes
+                          {subscription.package_max_freezes != null && ` of ${subscription.package_max_freezes}`}
+                        </p>
+                        {subscription.previous_package_name && (
+                          <p className="text-sm text-muted-foreground">
+                            {subscription.change_type === 'upgrade' ? 'Upgraded' : 'Downgraded'} from{' '}
+                            {subscription.previous_package_name} · credit ${Number(subscription.change_credit).toFixed(2)}
+                            {Number(subscription.change_carried_balance) > 0 &&
+                              ` · $${Number(subscription.change_carried_balance).toFixed(2)} unpaid carried over`}
+                            {Number(subscription.change_difference) >= 0
+                              ? ` · charged $${Number(subscription.change_difference).toFixed(2)}`
+                              : ` · $${Number(subscription.change_wallet_credit).toFixed(2)} to wallet`}
+                          </p>
+                        )}
+                        {subscription.next_package_name && (
+                          <p className="text-sm text-muted-foreground">
+                            Changed to {subscription.next_package_name} on {formatDate(subscription.changed_at)}
+                          </p>
+                        )}
+                        {subscription.status === 'cancelled' && (
+                          <p className="text-sm text-muted-foreground">
+                            Cancelled {formatDate(subscription.cancelled_at)}
+                            {subscription.cancellation_reason && ` · ${subscription.cancellation_reason}`}
+                            {Number(subscription.refunded_amount) > 0 &&
+                              ` · refunded $${Number(subscription.refunded_amount).toFixed(2)} via ${getPaymentMethodLabel(subscription.payment_method, paymentMethods)}`}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setInvoiceTarget(subscription)}
+                          disabled={saving}
+                        >
+                          <Mail className="h-4 w-4 mr-1" />
+                          Invoice
+                        </Button>
+                        {subscription.status !== 'cancelled' && !subscription.next_package_name && (
+                          <>
+                            {outstandingFor(subscription) > 0 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleOpenPayment(subscription)}
+                                disabled={saving}
+                              >
+                                <DollarSign className="h-4 w-4 mr-1" />
+                                Pay
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleOpenChange(subscription)}
+                              disabled={saving || format(new Date(subscription.end_date), 'yyyy-MM-dd') < today}
+                            >
+                              <ArrowRightLeft className="h-4 w-4 mr-1" />
+                              Change Plan
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleOpenFreeze(subscription)}
+                              disabled={saving}
+                            >
+                              <Snowflake className="h-4 w-4 mr-1" />
+                              Freeze
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleOpenCancel(subscription)}
+                              disabled={saving}
+                            >
+                              <Ban className="h-4 w-4 mr-1" />
+                              Cancel
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {paymentTarget?.id === subscription.id && (
+                      <form onSubmit={handleRecordPayment} className="border rounded-md p-3 space-y-3 bg-muted/50">
+                        <div className="grid grid-cols-3 gap-3">
+                          <div className="space-y-1">
+                            <Label htmlFor="payment-amount">Amount ($)</Label>
+                            <Input
+                              id="payment-amount"
+                              type="number"
+                              step="0.01"
+                              min="0.01"
+                              max={outstandingFor(subscription)}
+                              value={paymentAmount}
+                              onChange={(e) => setPaymentAmount(e.target.value)}
+                              required
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="payment-method">Method</Label>
+                            <PaymentMethodSelect
+                              id="payment-method"
+                              value={paymentMethod}
+                              onValueChange={setPaymentMethod}
+                              methods={paymentMethods}
+                              builtIns={['stored_value']}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="payment-date">Date</Label>
+                            <Input
+                              id="payment-date"
+                              type="date"
+                              value={paymentDate}
+                              onChange={(e) => setPaymentDate(e.target.value)}
+                              required
+                            />
+                          </div>
+                        </div>
+                        {requiresReference(paymentMethod, paymentMethods) && (
+                          <div className="space-y-1">
+                            <Label htmlFor="payment-reference">Reference Number</Label>
+                            <Input
+                              id="payment-reference"
+                              value={paymentReference}
+                              onChange={(e) => setPaymentReference(e.target.value)}
+                              required
+                            />
+                          </div>
+                        )}
+                        {paymentMethod === 'stored_value' && (
+                          <div className="space-y-1">
+                            <Label htmlFor="payment-account-code">Gift Card Code</Label>
+                            <Input
+                              id="payment-account-code"
+                              className="uppercase"
+                              placeholder={wallet ? `Leave blank to use the wallet ($${wallet.balance.toFixed(2)})` : 'Gift card code'}
+                              value={paymentAccountCode}
+                              onChange={(e) => setPaymentAccountCode(e.target.value.toUpperCase())}
+                            />
+                          </div>
+                        )}
+                        <DialogFooter>
+                          <Button type="button" variant="ghost" onClick={() => setPaymentTarget(null)} disabled={saving}>
+                            Cancel
+                          </Button>
+                          <Button type="submit" disabled={saving}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Record Payment
+                          </Button>
+                        </DialogFooter>
+                      </form>
+                    )}
+
+                    {changeTarget?.id === subscription.id && (
+                      <form onSubmit={handleChangePackage} className="border rounded-md p-3 space-y-3 bg-muted/50">
+                        <div className="grid grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <Label htmlFor="new-package">New Package</Label>
+                            <Select value={newPackageId} onValueChange={handleSelectNewPackage}>
+                              <SelectTrigger id="new-package">
+                                <SelectValue placeholder="Select a package" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {packages
+                                  .filter(pkg => Number(pkg.id) !== subscription.package_id)
+                                  .map(pkg => (
+                                    <SelectItem key={pkg.id} value={pkg.id.toString()}>
+                                      {pkg.name} - ${pkg.price}
+                                    </SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="change-payment-method">Payment Method</Label>
+                            <PaymentMethodSelect
+                              id="change-payment-method"
+                              value={changePaymentMethod}
+                              onValueChange={setChangePaymentMethod}
+                              methods={paymentMethods}
+                            />
+                          </div>
+                        </div>
+                        {changeQuote && (
+                          <p className="text-sm text-muted-foreground">
+                            {changeQuote.change_type === 'upgrade' ? 'Upgrade' : 'Downgrade'} starting{' '}
+                            {formatDate(changeQuote.effective_date)} · credit ${changeQuote.credit_amount.toFixed(2)} for{' '}
+                            {changeQuote.unused_days} unused days · new price ${changeQuote.new_price.toFixed(2)} ·{' '}
+                            {changeQuote.carried_balance > 0 &&
+                              `$${changeQuote.carried_balance.toFixed(2)} unpaid on the current package carried over · `}
+                            {changeQuote.difference >= 0
+                              ? `member pays $${changeQuote.difference.toFixed(2)}`
+                              : `$${changeQuote.wallet_credit.toFixed(2)} goes onto the member's wallet`}
+                          </p>
+                        )}
+                        <DialogFooter>
+                          <Button type="button" variant="ghost" onClick={() => setChangeTarget(null)} disabled={saving}>
+                            Cancel
+                          </Button>
+                          <Button type="submit" disabled={saving || !changeQuote}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Change Package
+                          </Button>
+                        </DialogFooter>
+                      </form>
+                    )}
+
+                    {cancelTarget?.id === subscription.id && (
+                      <form onSubmit={handleCancel} className="border rounded-md p-3 space-y-3 bg-muted/50">
+                        <div className="space-y-1">
+                          <Label htmlFor="cancel-reason">Reason</Label>
+                          <Textarea
+                            id="cancel-reason"
+                            value={cancelReason}
+                            onChange={(e) => setCancelReason(e.target.value)}
+                            placeholder="Moving away, medical..."
+                            required
+                          />
+                        </div>
+                        {refundQuote && (
+                          <p className="text-sm text-muted-foreground">
+                            {refundQuote.unused_days} of {refundQuote.term_days} days unused · paid $
+                            {refundQuote.amount_paid.toFixed(2)} · prorated refund ${refundQuote.refund_amount.toFixed(2)}
+                          </p>
+                        )}
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            id="issue-refund"
+                            checked={issueRefund}
+                            onCheckedChange={setIssueRefund}
+                            disabled={!refundQuote || refundQuote.refundable <= 0}
+                          />
+                          <Label htmlFor="issue-refund">Refund to {getPaymentMethodLabel(subscription.payment_method, paymentMethods)}</Label>
+                        </div>
+                        {issueRefund && (
+                          <div className="space-y-1">
+                            <Label htmlFor="refund-amount">Refund Amount ($)</Label>
+                            <Input
+                              id="refund-amount"
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max={refundQuote?.refundable}
+                              value={refundAmount}
+                              onChange={(e) => setRefundAmount(e.target.value)}
+                              required
+                            />
+                          </div>
+                        )}
+                        <DialogFooter>
+                          <Button type="button" variant="ghost" onClick={() => setCancelTarget(null)} disabled={saving}>
+                            Keep Subscription
+                          </Button>
+                          <Button type="submit" variant="destructive" disabled={saving}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Cancel Subscription
+                          </Button>
+                        </DialogFooter>
+                      </form>
+                    )}
+
+                    {freezeTarget?.id === subscription.id && (
+                      <form onSubmit={handleFreeze} className="border rounded-md p-3 space-y-3 bg-muted/50">
+                        <div className="grid grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <Label htmlFor="freeze-start">From</Label>
+                            <Input
+                              id="freeze-start"
+                              type="date"
+                              value={freezeStart}
+                              onChange={(e) => setFreezeStart(e.target.value)}
+                              required
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="freeze-end">Until</Label>
+                            <Input
+                              id="freeze-end"
+                              type="date"
+                              min={freezeStart}
+                              value={freezeEnd}
+                              onChange={(e) => setFreezeEnd(e.target.value)}
+                              required
+                            />
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="freeze-reason">Reason</Label>
+                          <Textarea
+                            id="freeze-reason"
+                            value={freezeReason}
+                            onChange={(e) => setFreezeReason(e.target.value)}
+                            placeholder="Injury, travel..."
+                          />
+                        </div>
+                        <DialogFooter>
+                          <Button type="button" variant="ghost" onClick={() => setFreezeTarget(null)} disabled={saving}>
+                            Cancel
+                          </Button>
+                          <Button type="submit" disabled={saving}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Freeze Membership
+                          </Button>
+                        </DialogFooter>
+                      </form>
+                    )}
+
+                    {payments[subscription.id]?.length > 0 && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Paid On</TableHead>
+                            <TableHead>Amount</TableHead>
+                            <TableHead>Method</TableHead>
+                            <TableHead>Taken By</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {payments[subscription.id].map((payment) => (
+                            <TableRow key={payment.id}>
+                              <TableCell>{formatDate(payment.payment_date)}</TableCell>
+                              <TableCell>${payment.amount.toFixed(2)}</TableCell>
+                              <TableCell>
+                                {getPaymentMethodLabel(payment.payment_method, paymentMethods)}
+                                {payment.reference && <span className="block text-xs text-muted-foreground">{payment.reference}</span>}
+                              </TableCell>
+                              <TableCell>{payment.created_by_name || '-'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+
+                    {freezes[subscription.id]?.length > 0 && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Frozen</TableHead>
+                            <TableHead>Days</TableHead>
+                            <TableHead>Reason</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {freezes[subscription.id].map((freeze) => (
+                            <TableRow key={freeze.id}>
+                              <TableCell>
+                                {formatDate(freeze.start_date)} – {formatDate(freeze.end_date)}
+                              </TableCell>
+                              <TableCell>{freeze.days}</TableCell>
+                              <TableCell>{freeze.reason || '-'}</TableCell>
+                              <TableCell>
+                                <Badge variant={freeze.status === 'active' ? 'outline' : 'secondary'}>
+                                  {freeze.original_end_date && freeze.status === 'active' ? 'ended early' : freeze.status}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {canUnfreeze(freeze) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleUnfreeze(freeze)}
+                                    disabled={saving}
+                                  >
+                                    <Play className="h-4 w-4 mr-1" />
+                                    Unfreeze
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="visits" className="mt-4">
+            {visits.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No visits recorded.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>In</TableHead>
+                    <TableHead>Out</TableHead>
+                    <TableHead>Package</TableHead>
+                    <TableHead>Method</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visits.map((visit) => (
+                    <TableRow key={visit.id}>
+                      <TableCell>{formatDate(visit.checked_in_at)}</TableCell>
+                      <TableCell>{format(new Date(visit.checked_in_at), 'HH:mm')}</TableCell>
+                      <TableCell>{visit.checked_out_at ? format(new Date(visit.checked_out_at), 'HH:mm') : '-'}</TableCell>
+                      <TableCell>{visit.package_name || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{visit.method}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="purchases" className="mt-4">
+            {purchases.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No purchases recorded.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead>Branch</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchases.map((sale) => (
+                    <TableRow key={sale.id}>
+                      <TableCell>{formatDate(sale.created_at)}</TableCell>
+                      <TableCell>
+                        {sale.items.map((item) => (
+                          <p key={item.id} className="text-sm">
+                            {item.quantity} × {item.name}
+                            {item.list_price != null && (
+                              <span className="text-xs text-green-700"> · member price</span>
+                            )}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell>{sale.branch_name || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        ${Number(sale.total).toFixed(2)}
+                        {Number(sale.returned_total) > 0 && (
+                          <span className="block text-xs text-muted-foreground">
+                            ${Number(sale.returned_total).toFixed(2)} returned
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="points" className="mt-4">
+            {subscriber && <MemberPointsPanel subscriberId={subscriber.id} />}
+          </TabsContent>
+        </Tabs>
+
+        <SendEmailDialog
+          open={!!invoiceTarget}
+          onOpenChange={(isOpen) => !isOpen && setInvoiceTarget(null)}
+          title={`Email Invoice INV-${invoiceTarget?.id ?? ''}`}
+          description={`Send the invoice for ${invoiceTarget?.package_name ?? 'this subscription'}, with its payments so far.`}
+          endpoint={`/api/subscriptions/${invoiceTarget?.id}/email-invoice`}
+          defaultEmail={subscriber?.email}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
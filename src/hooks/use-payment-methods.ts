@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import api from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { PaymentMethod } from '@/types';
+
+// The selected branch company's payment methods; retired ones are included for labelling history
+export function usePaymentMethods({ includeInactive = false } = {}) {
+  const { selectedBranch } = useAuth();
+  const [methods, setMethods] = useState<PaymentMethod[]>([]);
+
+  useEffect(() => {
+    if (!selectedBranch) return;
+
+    api.get('/api/payment-methods', { params: { all: includeInactive ? 1 : undefined } })
+      .then(response => setMethods(response.data))
+      .catch(error => console.error('Error fetching payment methods:', error));
+  }, [selectedBranch, includeInactive]);
+
+  return methods;
+}
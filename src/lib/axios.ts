@@ -54,4 +54,12 @@ api.interceptors.response.use(
   }
 );
 
+// Extract the server's error message from a failed request
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.response?.data?.error || fallback;
+  }
+  return fallback;
+};
+
 export default api; 
\ No newline at end of file
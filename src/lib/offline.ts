@@ -0,0 +1,120 @@
+import axios from 'axios';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { DiscountPolicy, InventoryItem, PaymentMethod, PriceConflict, QueuedSale, SaleRequest, StockConflict, SubscriptionPackage, TaxSettings } from '@/types';
+
+// The POS keeps its catalog and unsent sales in localStorage, per branch, so a
+// terminal can keep ringing up sales while the server is unreachable
+
+interface PosCatalog {
+  items: InventoryItem[];
+  packages: SubscriptionPackage[];
+  payment_methods: PaymentMethod[];
+  tax_settings: TaxSettings | null;
+  discount_policy: DiscountPolicy | null;
+  // Lets the server accept the prices charged on sales queued while offline
+  offline_pass: string | null;
+  cached_at: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  conflicts: StockConflict[];
+  priceConflicts: PriceConflict[];
+}
+
+const catalogKey = (branchId: number) => `pos_catalog_${branchId}`;
+const queueKey = (branchId: number) => `pos_sale_queue_${branchId}`;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// True when the request never got an answer, as opposed to the server rejecting it
+export function isNetworkError(error: unknown): boolean {
+  return axios.isAxiosError(error) && !error.response;
+}
+
+export function createClientReference(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function getCachedCatalog(branchId: number): PosCatalog | null {
+  return readJson<PosCatalog | null>(catalogKey(branchId), null);
+}
+
+export function cacheCatalog(branchId: number, catalog: Partial<Omit<PosCatalog, 'cached_at'>>) {
+  const current = getCachedCatalog(branchId) || { items: [], packages: [], payment_methods: [], tax_settings: null, discount_policy: null, offline_pass: null, cached_at: '' };
+  localStorage.setItem(
+    catalogKey(branchId),
+    JSON.stringify({ ...current, ...catalog, cached_at: new Date().toISOString() })
+  );
+}
+
+export function getQueuedSales(branchId: number): QueuedSale[] {
+  return readJson<QueuedSale[]>(queueKey(branchId), []);
+}
+
+function saveQueuedSales(branchId: number, sales: QueuedSale[]) {
+  localStorage.setItem(queueKey(branchId), JSON.stringify(sales));
+}
+
+export function queueSale(branchId: number, sale: SaleRequest): QueuedSale {
+  const queued: QueuedSale = {
+    client_reference: sale.client_reference || createClientReference(),
+    sale: {
+      ...sale,
+      sold_at: sale.sold_at || new Date().toISOString(),
+      offline_pass: sale.offline_pass ?? getCachedCatalog(branchId)?.offline_pass ?? null
+    },
+    queued_at: new Date().toISOString()
+  };
+  queued.sale.client_reference = queued.client_reference;
+
+  saveQueuedSales(branchId, [...getQueuedSales(branchId), queued]);
+  return queued;
+}
+
+export function discardQueuedSale(branchId: number, clientReference: string) {
+  saveQueuedSales(branchId, getQueuedSales(branchId).filter(sale => sale.client_reference !== clientReference));
+}
+
+// Send queued sales oldest first. The server ignores references it has already
+// recorded, so a sync interrupted halfway is safe to repeat. For sales queued under
+// an offline pass the server keeps the prices the terminal charged and flags any that
+// have since changed; sales it rejects stay queued with the reason so the cashier can
+// decide what to do.
+export async function syncQueuedSales(branchId: number): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, failed: 0, conflicts: [], priceConflicts: [] };
+
+  for (const queued of getQueuedSales(branchId)) {
+    try {
+      const response = await api.post('/api/sales', queued.sale);
+      discardQueuedSale(branchId, queued.client_reference);
+      result.synced += 1;
+      result.conflicts.push(...(response.data.stock_conflicts || []));
+      result.priceConflicts.push(...(response.data.price_conflicts || []));
+    } catch (error) {
+      if (isNetworkError(error)) break;
+
+      const message = getApiErrorMessage(error, 'Rejected by the server');
+      saveQueuedSales(
+        branchId,
+        getQueuedSales(branchId).map(sale =>
+          sale.client_reference === queued.client_reference ? { ...sale, error: message } : sale
+        )
+      );
+      result.failed += 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,33 @@
+import { PaymentMethod, PaymentMethodType } from '@/types';
+
+export const PAYMENT_METHOD_TYPE_LABELS: Record<PaymentMethodType, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank transfer',
+  mobile_money: 'Mobile money',
+  cheque: 'Cheque',
+  other: 'Other',
+};
+
+// Tenders paid from balances the company keeps itself rather than from its payment methods
+export const BUILT_IN_PAYMENT_METHOD_LABELS: Record<string, string> = {
+  stored_value: 'Gift Card / Wallet',
+  points: 'Points',
+};
+
+// Name to show for a payment method code, including retired methods the list may not have
+export function getPaymentMethodLabel(code: string, methods: PaymentMethod[]): string {
+  const method = methods.find(candidate => candidate.code === code);
+  if (method) return method.name;
+  return BUILT_IN_PAYMENT_METHOD_LABELS[code] || code.charAt(0).toUpperCase() + code.slice(1).replace(/_/g, ' ');
+}
+
+// Where a new payment starts: the first method that goes in the till, or the first one there is
+export function getDefaultPaymentMethod(methods: PaymentMethod[]): string {
+  const active = methods.filter(method => method.is_active);
+  return (active.find(method => method.opens_drawer) || active[0])?.code || 'cash';
+}
+
+export function requiresReference(code: string, methods: PaymentMethod[]): boolean {
+  return methods.some(method => method.code === code && method.requires_reference);
+}
@@ -0,0 +1,177 @@
+import { CartDiscount, CartItem, DiscountReason, InventoryItem, MemberPricing, PaymentMethod, SaleQuote, SaleRequestItem, SaleTender, TaxSettings } from '@/types';
+import { requiresReference } from '@/lib/payment-methods';
+
+// Totals for the tenders entered at checkout against the sale total.
+// Change can only come out of the drawer, so drawerTendered caps it.
+export function getTenderTotals(tenders: SaleTender[], total: number, methods: PaymentMethod[]) {
+  const drawerMethods = methods.filter(method => method.opens_drawer).map(method => method.code);
+  const tendered = tenders.reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0);
+  const drawerTendered = tenders
+    .filter(tender => drawerMethods.includes(tender.payment_method))
+    .reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0);
+
+  return {
+    tendered,
+    remaining: Math.max(Math.round((total - tendered) * 100) / 100, 0),
+    change: Math.max(Math.round((tendered - total) * 100) / 100, 0),
+    drawerTendered,
+    missingReference: tenders.some(tender => requiresReference(tender.payment_method, methods) && !tender.reference?.trim())
+  };
+}
+
+export const DISCOUNT_REASON_LABELS: Record<DiscountReason, string> = {
+  damaged: 'Damaged item',
+  loyalty: 'Loyal customer',
+  price_match: 'Price match',
+  promotion: 'Promotion',
+  staff: 'Staff discount',
+  manager_discretion: 'Manager discretion',
+  other: 'Other',
+};
+
+// What a discount takes off an amount; mirrors the server's pricing so the cart can show it
+export function getDiscountAmount(discount: CartDiscount | null | undefined, base: number): number {
+  if (!discount || !discount.value) return 0;
+  const amount = discount.type === 'percent' ? base * Math.min(discount.value, 100) / 100 : discount.value;
+  return Math.round(Math.min(amount, base) * 100) / 100;
+}
+
+// The biggest discount on the cart as a share of what it came off, like the server's max_discount_percent,
+// for checking against the cashier's limit when there's no quote
+export function getMaxDiscountPercent(cartItems: CartItem[], cartDiscount: CartDiscount | null): number {
+  const percentOf = (amount: number, base: number) => (base > 0 ? Math.round(amount / base * 100 * 100) / 100 : 0);
+  const subtotal = cartItems.reduce((sum, item) => sum + getCartLineTotal(item), 0);
+
+  return Math.max(
+    0,
+    ...cartItems.map(item => percentOf(getDiscountAmount(item.discount, item.totalPrice), item.totalPrice)),
+    percentOf(getDiscountAmount(cartDiscount, subtotal), subtotal)
+  );
+}
+
+// A cart line's total after its own discount
+export function getCartLineTotal(item: CartItem): number {
+  return Math.round((item.totalPrice - getDiscountAmount(item.discount, item.totalPrice)) * 100) / 100;
+}
+
+export function describeDiscount(discount: CartDiscount): string {
+  return discount.type === 'percent' ? `${discount.value}% off` : `$${discount.value.toFixed(2)} off`;
+}
+
+// What an item costs the customer on the sale; mirrors the server's member pricing
+export function getItemUnitPrice(item: InventoryItem, membership: MemberPricing | null): number {
+  if (!membership) return item.price;
+  if (item.memberPrice !== null && item.memberPrice !== undefined) return Math.min(item.memberPrice, item.price);
+  if (membership.discount_percent <= 0) return item.price;
+  return Math.round(item.price * (100 - membership.discount_percent) / 100 * 100) / 100;
+}
+
+// Re-price the shop items in the cart when a member is added to or taken off the sale
+export function repriceCartForMember(cartItems: CartItem[], items: InventoryItem[], membership: MemberPricing | null): CartItem[] {
+  return cartItems.map(cartItem => {
+    const item = cartItem.type === 'package' ? null : items.find(i => i.id === cartItem.itemId);
+    if (!item) return cartItem;
+
+    const price = getItemUnitPrice(item, membership);
+    return {
+      ...cartItem,
+      price,
+      listPrice: price < item.price ? item.price : undefined,
+      totalPrice: price * cartItem.quantity
+    };
+  });
+}
+
+// The tax rate for a cart line; mirrors the server: item rules over category ones, a branch's own over the company's
+export function resolveTaxRate(settings: TaxSettings, cartItem: CartItem, items: InventoryItem[]): number {
+  const item = cartItem.type === 'package' ? null : items.find(i => i.id === cartItem.itemId);
+  const matching = settings.rules
+    .filter(rule => {
+      if (cartItem.type === 'package') return rule.target_type === 'membership';
+      if (rule.target_type === 'item') return String(rule.item_id) === String(cartItem.itemId);
+      return rule.target_type === 'category' && !!item?.category && rule.category === item.category;
+    })
+    .sort((a, b) =>
+      (a.target_type === 'item' ? 0 : 1) - (b.target_type === 'item' ? 0 : 1)
+      || (a.branch_id ? 0 : 1) - (b.branch_id ? 0 : 1)
+    );
+
+  return Number(matching.length > 0 ? matching[0].rate : settings.rate) || 0;
+}
+
+// The cart's totals worked out on the terminal, for when the server can't quote them.
+// Tax is per line on its share of the cart discount, as the server does it.
+export function estimateCartTotals(cartItems: CartItem[], items: InventoryItem[], cartDiscount: CartDiscount | null, settings: TaxSettings) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const subtotal = round(cartItems.reduce((sum, item) => sum + getCartLineTotal(item), 0));
+  const discount = getDiscountAmount(cartDiscount, subtotal);
+
+  const tax = round(cartItems.reduce((sum, cartItem) => {
+    const lineAmount = getCartLineTotal(cartItem);
+    const taxable = subtotal > 0 ? lineAmount - discount * (lineAmount / subtotal) : 0;
+    const rate = resolveTaxRate(settings, cartItem, items);
+    return sum + round(settings.prices_include_tax ? taxable * rate / (100 + rate) : taxable * rate / 100);
+  }, 0));
+
+  return {
+    subtotal,
+    discount,
+    tax,
+    total: round(subtotal - discount + (settings.prices_include_tax ? 0 : tax)),
+    prices_include_tax: settings.prices_include_tax
+  };
+}
+
+// Take the cart's shop items off the stock; bundles come out of their components, and what's left of
+// each bundle is worked out again from them
+export function deductSoldStock(items: InventoryItem[], cartItems: CartItem[]): InventoryItem[] {
+  const sold: Record<string, number> = {};
+  for (const cartItem of cartItems) {
+    const item = cartItem.type === 'package' ? null : items.find(i => i.id === cartItem.itemId);
+    if (!item) continue;
+
+    const components = item.isBundle ? item.components || [] : [{ itemId: item.id, quantity: 1 }];
+    for (const component of components) {
+      sold[component.itemId] = (sold[component.itemId] || 0) + component.quantity * cartItem.quantity;
+    }
+  }
+
+  const updatedItems = items.map(item => (sold[item.id] ? { ...item, quantity: item.quantity - sold[item.id] } : item));
+  return updatedItems.map(item => {
+    if (!item.isBundle || !item.components?.length) return item;
+
+    const quantity = Math.min(...item.components.map(component => {
+      const stock = updatedItems.find(i => i.id === component.itemId);
+      return stock ? Math.floor(stock.quantity / component.quantity) : 0;
+    }));
+    return { ...item, quantity: Math.max(0, quantity) };
+  });
+}
+
+// Cart lines in the shape POST /api/sales and /api/sales/quote expect
+export function toSaleRequestItems(cartItems: CartItem[]): SaleRequestItem[] {
+  return cartItems.map(item => ({
+    type: item.type || 'item',
+    id: item.itemId,
+    quantity: item.quantity,
+    price: item.price,
+    total: getCartLineTotal(item),
+    subscriber_id: item.subscriberId,
+    start_date: item.startDate,
+    discount: item.discount
+  }));
+}
+
+// Bring cart prices in line with the server's quote; quote lines follow cart order
+export function applyQuoteToCart(cartItems: CartItem[], quote: SaleQuote): CartItem[] {
+  return cartItems.map((item, index) => {
+    const line = quote.lines[index];
+    if (!line || line.unit_price === item.price) return item;
+    return {
+      ...item,
+      price: line.unit_price,
+      listPrice: line.member_pricing ? line.list_price : undefined,
+      totalPrice: line.gross_total
+    };
+  });
+}
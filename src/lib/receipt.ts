@@ -0,0 +1,56 @@
+import axios from 'axios';
+import api from '@/lib/axios';
+
+export type ReceiptDestination = 'printer' | 'browser';
+
+// Print a page through a hidden frame so the till stays where it is
+function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Give the print dialog time to take its copy before the frame goes away
+    setTimeout(() => document.body.removeChild(frame), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
+
+// Print a sale's receipt on the branch's thermal printer, or from the browser when the branch has none
+export async function printReceipt(saleId: number): Promise<ReceiptDestination> {
+  try {
+    await api.post(`/api/sales/${saleId}/receipt/print`);
+    return 'printer';
+  } catch (error) {
+    if (!axios.isAxiosError(error) || !error.response?.data?.no_printer) throw error;
+  }
+
+  const response = await api.get(`/api/sales/${saleId}/receipt`, {
+    params: { format: 'html' },
+    responseType: 'text',
+    headers: { Accept: 'text/html' }
+  });
+  printHtml(response.data);
+  return 'browser';
+}
+
+// Save a sale's receipt as raw ESC/POS commands, for printers attached to another machine
+export async function downloadEscPosReceipt(saleId: number) {
+  const response = await api.get(`/api/sales/${saleId}/receipt`, {
+    params: { format: 'escpos' },
+    responseType: 'blob'
+  });
+
+  const url = window.URL.createObjectURL(response.data);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `receipt-${saleId}.bin`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
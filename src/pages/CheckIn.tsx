@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Building2, CreditCard, LogIn, LogOut, Search, Loader2 } from 'lucide-react';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { CheckIn as CheckInRecord, Subscriber } from '@/types';
+
+const CheckIn = () => {
+  const { selectedBranch } = useAuth();
+  const [checkIns, setCheckIns] = useState<CheckInRecord[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Subscriber[]>([]);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [lastCheckIn, setLastCheckIn] = useState<CheckInRecord | null>(null);
+
+  const cardInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchCheckIns = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.get(`/api/check-ins?date=${date}`);
+      setCheckIns(response.data);
+    } catch (error) {
+      console.error('Error fetching check-ins:', error);
+      toast.error('Failed to load check-ins');
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    fetchCheckIns();
+  }, [fetchCheckIns, selectedBranch]);
+
+  useEffect(() => {
+    // Keep the card input ready for the next scan
+    cardInputRef.current?.focus();
+  }, []);
+
+  // Search members as the receptionist types
+  useEffect(() => {
+    if (searchQuery.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await api.get('/api/subscribers/search', { params: { q: searchQuery.trim() } });
+        setSearchResults(response.data);
+      } catch (error) {
+        console.error('Error searching subscribers:', error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const checkIn = async (payload: { subscriber_id?: number; card_number?: string }) => {
+    try {
+      setProcessing(true);
+      const response = await api.post('/api/check-ins', payload);
+      setLastCheckIn(response.data);
+      toast.success(`${response.data.subscriber_name} checked in`);
+      fetchCheckIns();
+      return true;
+    } catch (error) {
+      console.error('Error checking in:', error);
+      toast.error(getApiErrorMessage(error, 'Check-in failed'));
+      return false;
+    } finally {
+      setProcessing(false);
+      cardInputRef.current?.focus();
+    }
+  };
+
+  const handleCardScan = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!cardInputRef.current) return;
+
+    const cardNumber = cardInputRef.current.value.trim();
+    if (!cardNumber) return;
+
+    await checkIn({ card_number: cardNumber });
+    cardInputRef.current.value = '';
+  };
+
+  const handleSearchCheckIn = async (subscriber: Subscriber) => {
+    const success = await checkIn({ subscriber_id: subscriber.id });
+    if (success) {
+      setSearchQuery('');
+      setSearchResults([]);
+    }
+  };
+
+  const handleCheckOut = async (checkInRecord: CheckInRecord) => {
+    try {
+      await api.post(`/api/check-ins/${checkInRecord.id}/check-out`);
+      toast.success(`${checkInRecord.subscriber_name} checked out`);
+      fetchCheckIns();
+    } catch (error) {
+      console.error('Error checking out:', error);
+      toast.error(getApiErrorMessage(error, 'Check-out failed'));
+    }
+  };
+
+  const insideCount = checkIns.filter(c => !c.checked_out_at).length;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Front Desk Check-In</h2>
+        {selectedBranch && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Building2 className="h-4 w-4" />
+            <p>Branch: <span className="font-medium">{selectedBranch.name}</span></p>
+            <Badge variant="outline" className="ml-2">{selectedBranch.company_name}</Badge>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle>Scan Card</CardTitle>
+            <CardDescription>Scan a member card to check in instantly.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleCardScan} className="flex gap-2">
+              <div className="relative flex-1">
+                <CreditCard className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input ref={cardInputRef} placeholder="Scan member card..." className="pl-9" disabled={processing} />
+              </div>
+              <Button type="submit" disabled={processing}>
+                {processing ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4 mr-2" />}
+                Check In
+              </Button>
+            </form>
+
+            {lastCheckIn && (
+              <div className="border rounded-lg p-4 bg-muted/50">
+                <p className="font-medium text-lg">{lastCheckIn.subscriber_name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {lastCheckIn.package_name}
+                  {lastCheckIn.subscription_end_date &&
+                    ` · valid until ${format(new Date(lastCheckIn.subscription_end_date), 'MMM d, yyyy')}`}
+                </p>
+                {lastCheckIn.visits_remaining != null && (
+                  <p className="text-sm font-medium">{lastCheckIn.visits_remaining} visits remaining</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle>Find Member</CardTitle>
+            <CardDescription>Search by name, phone or email.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search members..."
+                className="pl-9"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+            <div className="max-h-[220px] overflow-y-auto space-y-1">
+              {searchResults.map((subscriber) => (
+                <div key={subscriber.id} className="flex items-center justify-between border-b py-2">
+                  <div>
+                    <p className="font-medium">{subscriber.name}</p>
+                    <p className="text-xs text-muted-foreground">{subscriber.phone || subscriber.email || 'No contact'}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={subscriber.current_status === 'active' ? 'default' : 'secondary'}>
+                      {subscriber.current_status}
+                    </Badge>
+                    <Button
+                      size="sm"
+                      onClick={() => handleSearchCheckIn(subscriber)}
+                      disabled={processing}
+                    >
+                      <LogIn className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Attendance</CardTitle>
+            <CardDescription>
+              {checkIns.length} visits · {insideCount} currently inside
+            </CardDescription>
+          </div>
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-auto"
+          />
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Package</TableHead>
+                <TableHead>Checked In</TableHead>
+                <TableHead>Checked Out</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">Loading...</TableCell>
+                </TableRow>
+              ) : checkIns.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">No check-ins for this day.</TableCell>
+                </TableRow>
+              ) : (
+                checkIns.map((checkInRecord) => (
+                  <TableRow key={checkInRecord.id}>
+                    <TableCell className="font-medium">{checkInRecord.subscriber_name}</TableCell>
+                    <TableCell>{checkInRecord.package_name || '-'}</TableCell>
+                    <TableCell>{format(new Date(checkInRecord.checked_in_at), 'HH:mm')}</TableCell>
+                    <TableCell>
+                      {checkInRecord.checked_out_at ? format(new Date(checkInRecord.checked_out_at), 'HH:mm') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{checkInRecord.method}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!checkInRecord.checked_out_at && (
+                        <Button variant="ghost" size="sm" onClick={() => handleCheckOut(checkInRecord)}>
+                          <LogOut className="h-4 w-4 mr-1" />
+                          Check Out
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CheckIn;
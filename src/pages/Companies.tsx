@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Plus, Pencil, Trash2, Image as ImageIcon } from 'lucide-react';
@@ -22,6 +23,8 @@ interface Company {
   id_nat: string;
   logo?: string;
   logo_type?: string;
+  tax_rate: number;
+  prices_include_tax: number | boolean;
   created_at: string;
   updated_at: string;
 }
@@ -39,7 +42,9 @@ export default function Companies() {
     address: '',
     id_nat: '',
     logo: null as File | null,
-    logo_type: ''
+    logo_type: '',
+    tax_rate: '0',
+    prices_include_tax: 'true'
   });
 
   // Check if user is admin
@@ -98,7 +103,9 @@ export default function Companies() {
         address: '',
         id_nat: '',
         logo: null,
-        logo_type: ''
+        logo_type: '',
+        tax_rate: '0',
+        prices_include_tax: 'true'
       });
       fetchCompanies();
     } catch (error) {
@@ -116,7 +123,9 @@ export default function Companies() {
       address: company.address,
       id_nat: company.id_nat,
       logo: null,
-      logo_type: company.logo_type || ''
+      logo_type: company.logo_type || '',
+      tax_rate: String(Number(company.tax_rate) || 0),
+      prices_include_tax: company.prices_include_tax ? 'true' : 'false'
     });
     setIsDialogOpen(true);
   };
@@ -214,6 +223,30 @@ export default function Companies() {
                   required
                 />
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tax_rate">Default Tax Rate (%)</Label>
+                  <Input
+                    id="tax_rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.tax_rate}
+                    onChange={(e) => setFormData({ ...formData, tax_rate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="prices_include_tax">Prices Include Tax</Label>
+                  <div className="flex items-center h-10">
+                    <Switch
+                      id="prices_include_tax"
+                      checked={formData.prices_include_tax === 'true'}
+                      onCheckedChange={(checked) => setFormData({ ...formData, prices_include_tax: checked ? 'true' : 'false' })}
+                    />
+                  </div>
+                </div>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="address">Address</Label>
                 <Textarea
@@ -0,0 +1,469 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Pencil, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Navigate } from 'react-router-dom';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { Coupon, CouponTarget, CouponTargetType, CouponType, InventoryItem, SubscriptionPackage } from '@/types';
+
+const COUPON_TYPE_LABELS: Record<CouponType, string> = {
+  percent: 'Percentage off',
+  fixed: 'Amount off',
+  free_days: 'Free days',
+};
+
+const emptyForm = {
+  code: '',
+  name: '',
+  discount_type: 'percent' as CouponType,
+  value: '',
+  starts_on: '',
+  ends_on: '',
+  max_uses: '',
+  max_uses_per_subscriber: '',
+  branch_only: false,
+  is_active: true,
+  targets: [] as CouponTarget[],
+};
+
+const describeValue = (coupon: Coupon) => {
+  const value = Number(coupon.value);
+  if (coupon.discount_type === 'percent') return `${value}% off`;
+  if (coupon.discount_type === 'fixed') return `$${value.toFixed(2)} off`;
+  return `${value} free days`;
+};
+
+const describeTarget = (target: CouponTarget) => {
+  if (target.target_type === 'membership') return 'All memberships';
+  if (target.target_type === 'package') return target.package_name || `Package #${target.package_id}`;
+  return `Category: ${target.category}`;
+};
+
+export default function Coupons() {
+  const { user, selectedBranch } = useAuth();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [packages, setPackages] = useState<SubscriptionPackage[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [newTarget, setNewTarget] = useState({ target_type: 'membership' as CouponTargetType, package_id: '', category: '' });
+
+  const fetchCoupons = async () => {
+    try {
+      const response = await api.get('/api/coupons');
+      setCoupons(response.data);
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      toast.error('Failed to load coupons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!selectedBranch) return;
+
+    fetchCoupons();
+    api.get('/api/packages')
+      .then(response => setPackages(response.data))
+      .catch(error => console.error('Error fetching packages:', error));
+    api.get('/api/inventory')
+      .then(response => setCategories(
+        Array.from(new Set((response.data as InventoryItem[]).map(item => item.category).filter(Boolean))).sort()
+      ))
+      .catch(error => console.error('Error fetching inventory items:', error));
+  }, [selectedBranch]);
+
+  if (user?.role_name !== 'admin') {
+    return <Navigate to="/" replace />;
+  }
+
+  const openCreate = () => {
+    setEditingCoupon(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setFormData({
+      code: coupon.code,
+      name: coupon.name || '',
+      discount_type: coupon.discount_type,
+      value: String(Number(coupon.value)),
+      starts_on: coupon.starts_on || '',
+      ends_on: coupon.ends_on || '',
+      max_uses: coupon.max_uses === null ? '' : String(coupon.max_uses),
+      max_uses_per_subscriber: coupon.max_uses_per_subscriber === null ? '' : String(coupon.max_uses_per_subscriber),
+      branch_only: coupon.branch_id !== null,
+      is_active: coupon.is_active,
+      targets: coupon.targets,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleAddTarget = () => {
+    const pkg = packages.find(p => String(p.id) === newTarget.package_id);
+    setFormData({
+      ...formData,
+      targets: [...formData.targets, {
+        target_type: newTarget.target_type,
+        package_id: newTarget.target_type === 'package' ? Number(newTarget.package_id) : null,
+        package_name: pkg?.name || null,
+        category: newTarget.target_type === 'category' ? newTarget.category : null,
+      }],
+    });
+    setNewTarget({ ...newTarget, package_id: '', category: '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingCoupon) {
+        await api.put(`/api/coupons/${editingCoupon.id}`, formData);
+        toast.success('Coupon updated successfully');
+      } else {
+        await api.post('/api/coupons', formData);
+        toast.success('Coupon created successfully');
+      }
+      setIsDialogOpen(false);
+      fetchCoupons();
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save coupon'));
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!window.confirm(`Delete the coupon ${coupon.code}?`)) return;
+
+    try {
+      await api.delete(`/api/coupons/${coupon.id}`);
+      toast.success('Coupon deleted successfully');
+      fetchCoupons();
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to delete coupon'));
+    }
+  };
+
+  const canAddTarget = newTarget.target_type === 'membership'
+    || (newTarget.target_type === 'package' && !!newTarget.package_id)
+    || (newTarget.target_type === 'category' && !!newTarget.category);
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Coupons</h2>
+          <p className="text-muted-foreground">Promo codes for memberships and POS sales</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Coupon
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Offer</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-10">
+                    Loading coupons...
+                  </TableCell>
+                </TableRow>
+              ) : coupons.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-10">
+                    No coupons found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                coupons.map((coupon) => (
+                  <TableRow key={coupon.id}>
+                    <TableCell>
+                      <div className="font-medium">{coupon.code}</div>
+                      {coupon.name && <div className="text-xs text-muted-foreground">{coupon.name}</div>}
+                    </TableCell>
+                    <TableCell>{describeValue(coupon)}</TableCell>
+                    <TableCell>
+                      {coupon.targets.length === 0 ? 'Everything' : coupon.targets.map(describeTarget).join(', ')}
+                      <div className="text-xs text-muted-foreground">{coupon.branch_name || 'All branches'}</div>
+                    </TableCell>
+                    <TableCell>
+                      {coupon.starts_on || coupon.ends_on
+                        ? `${coupon.starts_on || '…'} to ${coupon.ends_on || '…'}`
+                        : 'Always'}
+                    </TableCell>
+                    <TableCell>
+                      {coupon.uses}{coupon.max_uses !== null && ` / ${coupon.max_uses}`}
+                      {coupon.max_uses_per_subscriber !== null && (
+                        <div className="text-xs text-muted-foreground">{coupon.max_uses_per_subscriber} per member</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={coupon.is_active ? 'default' : 'secondary'}>
+                        {coupon.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(coupon)}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(coupon)}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingCoupon ? 'Edit Coupon' : 'Add New Coupon'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
+                <Input
+                  id="code"
+                  className="uppercase"
+                  placeholder="e.g. NEWYEAR25"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  placeholder="Optional"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.discount_type}
+                  onValueChange={(value) => setFormData({ ...formData, discount_type: value as CouponType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COUPON_TYPE_LABELS) as CouponType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{COUPON_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="value">
+                  {formData.discount_type === 'percent' ? 'Percent' : formData.discount_type === 'fixed' ? 'Amount' : 'Days'}
+                </Label>
+                <Input
+                  id="value"
+                  type="number"
+                  min="0"
+                  step={formData.discount_type === 'free_days' ? '1' : '0.01'}
+                  value={formData.value}
+                  onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="starts_on">Valid From</Label>
+                <Input
+                  id="starts_on"
+                  type="date"
+                  value={formData.starts_on}
+                  onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ends_on">Valid Until</Label>
+                <Input
+                  id="ends_on"
+                  type="date"
+                  value={formData.ends_on}
+                  onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max_uses">Total Uses</Label>
+                <Input
+                  id="max_uses"
+                  type="number"
+                  min="0"
+                  placeholder="Unlimited"
+                  value={formData.max_uses}
+                  onChange={(e) => setFormData({ ...formData, max_uses: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max_uses_per_subscriber">Uses per Member</Label>
+                <Input
+                  id="max_uses_per_subscriber"
+                  type="number"
+                  min="0"
+                  placeholder="Unlimited"
+                  value={formData.max_uses_per_subscriber}
+                  onChange={(e) => setFormData({ ...formData, max_uses_per_subscriber: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              {formData.targets.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {formData.discount_type === 'free_days' ? 'All memberships' : 'Everything in the sale'}
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {formData.targets.map((target, index) => (
+                    <Badge key={index} variant="outline" className="flex items-center gap-1">
+                      {describeTarget(target)}
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, targets: formData.targets.filter((_, i) => i !== index) })}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Select
+                  value={newTarget.target_type}
+                  onValueChange={(value) => setNewTarget({ ...newTarget, target_type: value as CouponTargetType })}
+                >
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="membership">All memberships</SelectItem>
+                    <SelectItem value="package">Package</SelectItem>
+                    <SelectItem value="category">Category</SelectItem>
+                  </SelectContent>
+                </Select>
+                {newTarget.target_type === 'package' && (
+                  <Select value={newTarget.package_id} onValueChange={(value) => setNewTarget({ ...newTarget, package_id: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select a package" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {packages.map((pkg) => (
+                        <SelectItem key={pkg.id} value={String(pkg.id)}>{pkg.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {newTarget.target_type === 'category' && (
+                  <Select value={newTarget.category} onValueChange={(value) => setNewTarget({ ...newTarget, category: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button type="button" variant="outline" onClick={handleAddTarget} disabled={!canAddTarget}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="branch_only"
+                  checked={formData.branch_only}
+                  onCheckedChange={(checked) => setFormData({ ...formData, branch_only: checked })}
+                />
+                <Label htmlFor="branch_only">Only for {selectedBranch?.name || 'this branch'}</Label>
+              </div>
+              {editingCoupon && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="is_active"
+                    checked={formData.is_active}
+                    onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                  />
+                  <Label htmlFor="is_active">Active</Label>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingCoupon ? 'Update' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Users, Package, ShoppingCart, AlertTriangle, DollarSign, Activity, Building2 } from 'lucide-react';
+import { Users, Package, ShoppingCart, AlertTriangle, DollarSign, Activity, Building2, Wallet } from 'lucide-react';
 import api from '@/lib/axios';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
@@ -13,6 +13,10 @@ interface DashboardStats {
   totalSales: number;
   totalInventory: number;
   totalRevenue: number;
+  subscriptionRevenue: number;
+  totalRefunds: number;
+  totalOutstanding: number;
+  membersWithBalance: number;
 }
 
 interface RecentActivity {
@@ -100,7 +104,7 @@ export default function Dashboard() {
       </div>
 
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         <Link to="/subscribers">
           <Card className="hover:bg-accent transition-colors cursor-pointer">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -142,6 +146,24 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">${stats?.totalRevenue.toFixed(2) || '0.00'}</div>
+              {stats && (stats.subscriptionRevenue > 0 || stats.totalRefunds > 0) && (
+                <p className="text-xs text-muted-foreground">
+                  Memberships ${stats.subscriptionRevenue.toFixed(2)}
+                  {stats.totalRefunds > 0 && ` · refunds -$${stats.totalRefunds.toFixed(2)}`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </Link>
+        <Link to="/subscribers">
+          <Card className="hover:bg-accent transition-colors cursor-pointer">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Outstanding Balance</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">${stats?.totalOutstanding.toFixed(2) || '0.00'}</div>
+              <p className="text-xs text-muted-foreground">{stats?.membersWithBalance || 0} members owing</p>
             </CardContent>
           </Card>
         </Link>
@@ -0,0 +1,560 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Ban, Gift, History, Plus, Search, UserPlus, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { MemberPicker } from '@/components/pos/MemberPicker';
+import { PaymentMethodSelect } from '@/components/sales/PaymentMethodSelect';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { getDefaultPaymentMethod, getPaymentMethodLabel, requiresReference } from '@/lib/payment-methods';
+import {
+  StoredValueAccount,
+  StoredValueLiability,
+  StoredValueTransaction,
+  StoredValueTransactionType,
+  StoredValueType,
+  Subscriber
+} from '@/types';
+
+const TRANSACTION_LABELS: Record<StoredValueTransactionType, string> = {
+  issue: 'Issued',
+  top_up: 'Top-up',
+  redeem: 'Spent',
+  refund: 'Refund',
+  expire: 'Expired',
+};
+
+const emptyIssueForm = {
+  account_type: 'gift_card' as StoredValueType,
+  code: '',
+  amount: '',
+  payment_method: 'cash',
+  payment_reference: '',
+  expires_on: '',
+  notes: '',
+};
+
+export default function GiftCards() {
+  const { user, selectedBranch } = useAuth();
+  const isAdmin = user?.role_name === 'admin';
+  const paymentMethods = usePaymentMethods({ includeInactive: true });
+  const [accounts, setAccounts] = useState<StoredValueAccount[]>([]);
+  const [liability, setLiability] = useState<StoredValueLiability[]>([]);
+  const [search, setSearch] = useState('');
+  // The search last submitted, which the list is filtered by
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isIssueOpen, setIsIssueOpen] = useState(false);
+  const [issueForm, setIssueForm] = useState(emptyIssueForm);
+  const [member, setMember] = useState<Subscriber | null>(null);
+  const [isMemberPickerOpen, setIsMemberPickerOpen] = useState(false);
+  const [topUpTarget, setTopUpTarget] = useState<StoredValueAccount | null>(null);
+  const [topUpAmount, setTopUpAmount] = useState('');
+  const [topUpMethod, setTopUpMethod] = useState('cash');
+  const [topUpReference, setTopUpReference] = useState('');
+  const [historyTarget, setHistoryTarget] = useState<StoredValueAccount | null>(null);
+  const [transactions, setTransactions] = useState<StoredValueTransaction[]>([]);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/api/stored-value', { params: { search: appliedSearch || undefined } });
+      setAccounts(response.data);
+    } catch (error) {
+      console.error('Error fetching gift cards:', error);
+      toast.error('Failed to load gift cards and wallets');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedSearch]);
+
+  const fetchLiability = useCallback(async () => {
+    try {
+      const response = await api.get('/api/stored-value/liability');
+      setLiability(response.data);
+    } catch (error) {
+      console.error('Error fetching liability report:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedBranch) fetchAccounts();
+  }, [selectedBranch, fetchAccounts]);
+
+  useEffect(() => {
+    if (selectedBranch && isAdmin) fetchLiability();
+  }, [selectedBranch, isAdmin, fetchLiability]);
+
+  const refresh = () => {
+    fetchAccounts();
+    if (isAdmin) fetchLiability();
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedSearch(search.trim());
+  };
+
+  const openIssue = () => {
+    setIssueForm({ ...emptyIssueForm, payment_method: getDefaultPaymentMethod(paymentMethods) });
+    setMember(null);
+    setIsIssueOpen(true);
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const response = await api.post('/api/stored-value', {
+        ...issueForm,
+        subscriber_id: issueForm.account_type === 'wallet' ? member?.id : null,
+        code: issueForm.code || null,
+        expires_on: issueForm.expires_on || null,
+      });
+      toast.success(issueForm.account_type === 'wallet'
+        ? `Wallet opened for ${member?.name}`
+        : `Gift card ${response.data.code} issued`);
+      setIsIssueOpen(false);
+      refresh();
+    } catch (error) {
+      console.error('Error issuing gift card:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to issue'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openTopUp = (account: StoredValueAccount) => {
+    setTopUpTarget(account);
+    setTopUpAmount('');
+    setTopUpMethod(getDefaultPaymentMethod(paymentMethods));
+    setTopUpReference('');
+  };
+
+  const handleTopUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!topUpTarget) return;
+
+    try {
+      setSaving(true);
+      const response = await api.post(`/api/stored-value/${topUpTarget.id}/top-up`, {
+        amount: topUpAmount,
+        payment_method: topUpMethod,
+        payment_reference: topUpReference.trim() || null,
+      });
+      toast.success(`New balance $${response.data.balance.toFixed(2)}`);
+      setTopUpTarget(null);
+      refresh();
+    } catch (error) {
+      console.error('Error topping up:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to top up'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openHistory = async (account: StoredValueAccount) => {
+    setHistoryTarget(account);
+    setTransactions([]);
+
+    try {
+      const response = await api.get(`/api/stored-value/${account.id}/transactions`);
+      setTransactions(response.data);
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      toast.error('Failed to load history');
+    }
+  };
+
+  const handleExpire = async (account: StoredValueAccount) => {
+    if (!window.confirm(`Expire ${account.code}? The remaining $${account.balance.toFixed(2)} will be written off.`)) return;
+
+    try {
+      await api.post(`/api/stored-value/${account.id}/expire`);
+      toast.success(`${account.code} expired`);
+      refresh();
+    } catch (error) {
+      console.error('Error expiring account:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to expire'));
+    }
+  };
+
+  // The method a card is paid for with, plus its reference number when the method needs one
+  const paymentFields = (method: string, reference: string, onMethodChange: (value: string) => void, onReferenceChange: (value: string) => void) => (
+    <>
+      <PaymentMethodSelect value={method} onValueChange={onMethodChange} methods={paymentMethods} />
+      {requiresReference(method, paymentMethods) && (
+        <Input
+          placeholder="Reference number"
+          value={reference}
+          onChange={(e) => onReferenceChange(e.target.value)}
+          required
+        />
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Gift Cards & Wallets</h2>
+          <p className="text-muted-foreground">Sell gift cards and keep prepaid balances for members</p>
+        </div>
+        <Button onClick={openIssue}>
+          <Plus className="mr-2 h-4 w-4" />
+          Issue
+        </Button>
+      </div>
+
+      {isAdmin && liability.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Outstanding Balances</CardTitle>
+            <CardDescription>Money held on gift cards and wallets that has not been spent yet</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead className="text-right">Accounts</TableHead>
+                  <TableHead className="text-right">Gift Cards</TableHead>
+                  <TableHead className="text-right">Wallets</TableHead>
+                  <TableHead className="text-right">Expiring in 30 Days</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {liability.map((row) => (
+                  <TableRow key={row.company_id}>
+                    <TableCell className="font-medium">{row.company_name}</TableCell>
+                    <TableCell className="text-right">{row.accounts}</TableCell>
+                    <TableCell className="text-right">${row.gift_card_balance.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.wallet_balance.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.expiring_soon.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-bold">${row.total_balance.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <form onSubmit={handleSearch} className="flex gap-2 max-w-md">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Card code, member name or member card..."
+            className="pl-9"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Button type="submit" variant="outline">Look Up</Button>
+      </form>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Holder</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-10">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : accounts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-10">
+                    No gift cards or wallets found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                accounts.map((account) => (
+                  <TableRow key={account.id}>
+                    <TableCell className="font-mono">{account.code}</TableCell>
+                    <TableCell>
+                      <span className="flex items-center">
+                        {account.account_type === 'wallet'
+                          ? <Wallet className="h-4 w-4 mr-2" />
+                          : <Gift className="h-4 w-4 mr-2" />}
+                        {account.account_type === 'wallet' ? 'Wallet' : 'Gift card'}
+                      </span>
+                    </TableCell>
+                    <TableCell>{account.subscriber_name || '-'}</TableCell>
+                    <TableCell>{account.expires_on || 'Never'}</TableCell>
+                    <TableCell>
+                      <Badge variant={account.status === 'active' ? 'default' : 'secondary'}>
+                        {account.status === 'active' ? 'Active' : 'Expired'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">${account.balance.toFixed(2)}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {account.status === 'active' && (
+                        <Button variant="outline" size="sm" onClick={() => openTopUp(account)}>
+                          <Plus className="h-4 w-4" />
+                          <span className="sr-only">Top Up</span>
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => openHistory(account)}>
+                        <History className="h-4 w-4" />
+                        <span className="sr-only">History</span>
+                      </Button>
+                      {isAdmin && account.status === 'active' && (
+                        <Button variant="outline" size="sm" onClick={() => handleExpire(account)}>
+                          <Ban className="h-4 w-4" />
+                          <span className="sr-only">Expire</span>
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Issue Dialog */}
+      <Dialog open={isIssueOpen} onOpenChange={setIsIssueOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Issue Gift Card or Wallet</DialogTitle>
+            <DialogDescription>
+              The opening balance is paid for now and goes in your drawer.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleIssue} className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={issueForm.account_type}
+                  onValueChange={(value) => setIssueForm({ ...issueForm, account_type: value as StoredValueType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="gift_card">Gift card</SelectItem>
+                    <SelectItem value="wallet">Member wallet</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {issueForm.account_type === 'gift_card' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="issue-code">Card Code</Label>
+                  <Input
+                    id="issue-code"
+                    className="uppercase"
+                    placeholder="Generated if blank"
+                    value={issueForm.code}
+                    onChange={(e) => setIssueForm({ ...issueForm, code: e.target.value.toUpperCase() })}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Member</Label>
+                  <Button type="button" variant="outline" className="w-full justify-start" onClick={() => setIsMemberPickerOpen(true)}>
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    {member ? member.name : 'Select member'}
+                  </Button>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="issue-amount">Amount ($)</Label>
+                <Input
+                  id="issue-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={issueForm.amount}
+                  onChange={(e) => setIssueForm({ ...issueForm, amount: e.target.value })}
+                  required={issueForm.account_type === 'gift_card'}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Paid By</Label>
+                {paymentFields(
+                  issueForm.payment_method,
+                  issueForm.payment_reference,
+                  (value) => setIssueForm({ ...issueForm, payment_method: value }),
+                  (value) => setIssueForm({ ...issueForm, payment_reference: value })
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issue-expires">Expires On</Label>
+                <Input
+                  id="issue-expires"
+                  type="date"
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  value={issueForm.expires_on}
+                  onChange={(e) => setIssueForm({ ...issueForm, expires_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issue-notes">Notes</Label>
+                <Input
+                  id="issue-notes"
+                  placeholder="Optional"
+                  value={issueForm.notes}
+                  onChange={(e) => setIssueForm({ ...issueForm, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsIssueOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || (issueForm.account_type === 'wallet' && !member)}>
+                Issue
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <MemberPicker
+        open={isMemberPickerOpen}
+        onOpenChange={setIsMemberPickerOpen}
+        onSelect={(subscriber) => {
+          setMember(subscriber);
+          setIsMemberPickerOpen(false);
+        }}
+      />
+
+      {/* Top Up Dialog */}
+      <Dialog open={!!topUpTarget} onOpenChange={(open) => !open && setTopUpTarget(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Top Up {topUpTarget?.code}</DialogTitle>
+            <DialogDescription>
+              Current balance ${topUpTarget?.balance.toFixed(2)}
+              {topUpTarget?.subscriber_name && ` · ${topUpTarget.subscriber_name}`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleTopUp} className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="top-up-amount">Amount ($)</Label>
+                <Input
+                  id="top-up-amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={topUpAmount}
+                  onChange={(e) => setTopUpAmount(e.target.value)}
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Paid By</Label>
+                {paymentFields(topUpMethod, topUpReference, setTopUpMethod, setTopUpReference)}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setTopUpTarget(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !topUpAmount}>
+                Top Up
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* History Dialog */}
+      <Dialog open={!!historyTarget} onOpenChange={(open) => !open && setHistoryTarget(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>{historyTarget?.code}</DialogTitle>
+            <DialogDescription>
+              Balance ${historyTarget?.balance.toFixed(2)}
+              {historyTarget?.subscriber_name && ` · ${historyTarget.subscriber_name}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[400px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => (
+                  <TableRow key={transaction.id}>
+                    <TableCell>{format(new Date(transaction.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                    <TableCell>{TRANSACTION_LABELS[transaction.type]}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {[
+                        transaction.notes,
+                        transaction.payment_method && `paid by ${getPaymentMethodLabel(transaction.payment_method, paymentMethods)}`,
+                        transaction.reference,
+                        transaction.branch_name,
+                        transaction.created_by_name
+                      ].filter(Boolean).join(' · ')}
+                    </TableCell>
+                    <TableCell className={transaction.amount < 0 ? 'text-right text-destructive' : 'text-right'}>
+                      {transaction.amount < 0 ? '-' : '+'}${Math.abs(transaction.amount).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">${transaction.balance_after.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -67,6 +67,7 @@ import {
 import { toast } from 'sonner';
 import { InventoryItem, InventoryTransaction, TransactionType } from '@/types';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { 
@@ -74,9 +75,11 @@ import {
   ResizablePanel,
   ResizableHandle
 } from '@/components/ui/resizable';
-import api from '@/lib/axios';
+import api, { getApiErrorMessage } from '@/lib/axios';
 import { useAuth } from '@/contexts/AuthContext';
 import { Badge } from '@/components/ui/badge';
+import { BundleComponentLine, BundleComponentsEditor } from '@/components/inventory/BundleComponentsEditor';
+import { SaleConflictsCard } from '@/components/sales/SaleConflictsCard';
 
 // Type for transaction line items
 interface TransactionLineItem {
@@ -104,6 +107,8 @@ const Inventory = () => {
   const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
   const [isAddItemDialogOpen, setIsAddItemDialogOpen] = useState(false);
+  const [isBundle, setIsBundle] = useState(false);
+  const [bundleComponents, setBundleComponents] = useState<BundleComponentLine[]>([]);
   const [isAdjustDialogOpen, setIsAdjustDialogOpen] = useState(false);
   const [adjustmentType, setAdjustmentType] = useState<TransactionType>('adjustment_in');
   const [searchTerm, setSearchTerm] = useState('');
@@ -172,7 +177,8 @@ const Inventory = () => {
     item.sku.toLowerCase().includes(searchTerm.toLowerCase())
   );
   
-  const filteredLineItems = items.filter(item => 
+  // Bundles have no stock of their own, so stock is only recorded against their components
+  const filteredLineItems = items.filter(item => !item.isBundle).filter(item => 
     item.name.toLowerCase().includes(itemSearchTerm.toLowerCase()) ||
     item.barcode?.includes(itemSearchTerm) ||
     item.sku.toLowerCase().includes(itemSearchTerm.toLowerCase())
@@ -206,6 +212,8 @@ const Inventory = () => {
       const barcode = formData.get('barcode') as string;
       const quantity = parseInt(formData.get('quantity') as string);
       const price = parseFloat(formData.get('price') as string);
+      // Left empty, members pay the shelf price less any branch member discount
+      const memberPrice = formData.get('memberPrice') as string;
       const cost = parseFloat(formData.get('cost') as string);
       const category = formData.get('category') as string;
       
@@ -213,11 +221,14 @@ const Inventory = () => {
         name,
         description,
         barcode,
-        quantity,
+        quantity: isBundle ? 0 : quantity,
         price,
-        cost,
+        memberPrice: memberPrice ? parseFloat(memberPrice) : null,
+        cost: isBundle ? undefined : cost,
         category,
-        imageSrc: 'https://placehold.co/100x100'
+        imageSrc: 'https://placehold.co/100x100',
+        isBundle,
+        components: isBundle ? bundleComponents : undefined
       };
       
       if (selectedItem) {
@@ -236,7 +247,7 @@ const Inventory = () => {
       setIsAddItemDialogOpen(false);
     } catch (error) {
       console.error('Error saving item:', error);
-      toast.error(selectedItem ? 'Failed to update item' : 'Failed to add item');
+      toast.error(getApiErrorMessage(error, selectedItem ? 'Failed to update item' : 'Failed to add item'));
     } finally {
       setIsLoading(false);
     }
@@ -270,7 +281,7 @@ const Inventory = () => {
       setIsAdjustDialogOpen(false);
     } catch (error) {
       console.error('Error adjusting inventory:', error);
-      toast.error('Failed to adjust inventory');
+      toast.error(getApiErrorMessage(error, 'Failed to adjust inventory'));
     } finally {
       setIsLoading(false);
     }
@@ -395,6 +406,7 @@ const Inventory = () => {
     const types = {
       purchase: 'Purchase',
       sale: 'Sale',
+      return: 'Return',
       adjustment_in: 'Adjustment (In)',
       adjustment_out: 'Adjustment (Out)',
       beginning: 'Initial Stock'
@@ -404,6 +416,8 @@ const Inventory = () => {
   
   const handleEditItem = (item: InventoryItem) => {
     setSelectedItem(item);
+    setIsBundle(!!item.isBundle);
+    setBundleComponents((item.components || []).map(component => ({ itemId: component.itemId, quantity: component.quantity })));
     setIsAddItemDialogOpen(true);
   };
   
@@ -421,7 +435,7 @@ const Inventory = () => {
         fetchItems();
       } catch (error) {
         console.error('Error deleting item:', error);
-        toast.error('Failed to delete item');
+        toast.error(getApiErrorMessage(error, 'Failed to delete item'));
       }
     }
   };
@@ -456,6 +470,8 @@ const Inventory = () => {
           </div>
           <Button onClick={() => {
             setSelectedItem(null);
+            setIsBundle(false);
+            setBundleComponents([]);
             setIsAddItemDialogOpen(true);
           }}>
             <Plus className="mr-2 h-4 w-4" />
@@ -494,6 +510,8 @@ const Inventory = () => {
         </TabsList>
         
         <TabsContent value="items" className="space-y-4">
+          <SaleConflictsCard type="stock" />
+
           <Card>
             <CardHeader>
               <CardTitle>Inventory Items</CardTitle>
@@ -527,8 +545,15 @@ const Inventory = () => {
                       </TableCell>
                       <TableCell>
                         <div>
-                          <p className="font-medium">{item.name}</p>
-                          <p className="text-xs text-muted-foreground">{item.description}</p>
+                          <p className="font-medium">
+                            {item.name}
+                            {item.isBundle && <Badge variant="secondary" className="ml-2">Bundle</Badge>}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.isBundle
+                              ? (item.components || []).map(component => `${component.quantity} × ${component.name}`).join(', ')
+                              : item.description}
+                          </p>
                         </div>
                       </TableCell>
                       <TableCell>
@@ -554,6 +579,11 @@ const Inventory = () => {
                       </TableCell>
                       <TableCell className="text-right font-medium">
                         ${item.price.toFixed(2)}
+                        {item.memberPrice !== null && item.memberPrice !== undefined && (
+                          <span className="block text-xs text-muted-foreground">
+                            Members ${item.memberPrice.toFixed(2)}
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <DropdownMenu>
@@ -569,14 +599,18 @@ const Inventory = () => {
                               <Edit className="h-4 w-4 mr-2" />
                               Edit Item
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleAdjustItem(item, 'adjustment_in')}>
-                              <ArrowUp className="h-4 w-4 mr-2" />
-                              Add Stock
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleAdjustItem(item, 'adjustment_out')}>
-                              <ArrowDown className="h-4 w-4 mr-2" />
-                              Remove Stock
-                            </DropdownMenuItem>
+                            {!item.isBundle && (
+                              <>
+                                <DropdownMenuItem onClick={() => handleAdjustItem(item, 'adjustment_in')}>
+                                  <ArrowUp className="h-4 w-4 mr-2" />
+                                  Add Stock
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleAdjustItem(item, 'adjustment_out')}>
+                                  <ArrowDown className="h-4 w-4 mr-2" />
+                                  Remove Stock
+                                </DropdownMenuItem>
+                              </>
+                            )}
                             <DropdownMenuSeparator />
                             <DropdownMenuItem 
                               className="text-red-500"
@@ -726,19 +760,43 @@ const Inventory = () => {
                 </Select>
               </div>
               <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="quantity" className="text-right">
-                  Quantity
+                <Label htmlFor="isBundle" className="text-right">
+                  Bundle
                 </Label>
-                <Input
-                  id="quantity"
-                  name="quantity"
-                  type="number"
-                  min="0"
-                  defaultValue={selectedItem?.quantity || 0}
-                  className="col-span-3"
-                  required
-                />
+                <div className="col-span-3 flex items-center space-x-2">
+                  <Switch id="isBundle" checked={isBundle} onCheckedChange={setIsBundle} disabled={!!selectedItem} />
+                  <span className="text-sm text-muted-foreground">Sold as a set of other items, from their stock</span>
+                </div>
               </div>
+              {isBundle ? (
+                <div className="grid grid-cols-4 items-start gap-4">
+                  <Label className="text-right pt-2">
+                    Components
+                  </Label>
+                  <div className="col-span-3">
+                    <BundleComponentsEditor
+                      items={items.filter(item => !item.isBundle && item.id !== selectedItem?.id)}
+                      value={bundleComponents}
+                      onChange={setBundleComponents}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="quantity" className="text-right">
+                    Quantity
+                  </Label>
+                  <Input
+                    id="quantity"
+                    name="quantity"
+                    type="number"
+                    min="0"
+                    defaultValue={selectedItem?.quantity || 0}
+                    className="col-span-3"
+                    required
+                  />
+                </div>
+              )}
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="price" className="text-right">
                   Price ($)
@@ -755,24 +813,41 @@ const Inventory = () => {
                 />
               </div>
               <div className="grid grid-cols-4 items-center gap-4">
-                <Label htmlFor="cost" className="text-right">
-                  Cost ($)
+                <Label htmlFor="memberPrice" className="text-right">
+                  Member Price ($)
                 </Label>
                 <Input
-                  id="cost"
-                  name="cost"
+                  id="memberPrice"
+                  name="memberPrice"
                   type="number"
                   step="0.01"
                   min="0"
-                  defaultValue={selectedItem?.cost || 0}
+                  defaultValue={selectedItem?.memberPrice ?? ''}
+                  placeholder="Optional"
                   className="col-span-3"
-                  required
                 />
               </div>
+              {!isBundle && (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="cost" className="text-right">
+                    Cost ($)
+                  </Label>
+                  <Input
+                    id="cost"
+                    name="cost"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    defaultValue={selectedItem?.cost || 0}
+                    className="col-span-3"
+                    required
+                  />
+                </div>
+              )}
             </div>
             
             <DialogFooter>
-              <Button type="submit" disabled={isLoading}>
+              <Button type="submit" disabled={isLoading || (isBundle && bundleComponents.length === 0)}>
                 {isLoading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -1151,6 +1226,10 @@ const TransactionTypeBadge = ({ type }: TransactionTypeBadgeProps) => {
       label = 'Sale';
       className = 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300';
       break;
+    case 'return':
+      label = 'Return';
+      className = 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300';
+      break;
     case 'adjustment_in':
       label = 'Added';
       className = 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300';
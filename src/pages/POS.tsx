@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { 
   Card, 
@@ -27,6 +27,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   ShoppingCart, 
   XCircle, 
@@ -35,27 +36,94 @@ import {
   Plus, 
   Minus, 
   Barcode, 
-  Banknote, 
   Check, 
-  XIcon
+  XIcon,
+  CreditCard,
+  PauseCircle,
+  ListRestart,
+  Percent,
+  UserPlus,
+  BadgeCheck
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { InventoryItem, CartItem, Sale } from '@/types';
+import { InventoryItem, CartDiscount, CartItem, DiscountApproval, DiscountPolicy, MemberPoints, MemberPricing, ParkedCart, PaymentMethod, QueuedSale, Sale, SaleQuote, SaleRequest, SaleTender, Subscriber, SubscriptionPackage, TaxSettings } from '@/types';
 import { cn } from '@/lib/utils';
-import api from '@/lib/axios';
+import axios from 'axios';
+import api, { getApiErrorMessage } from '@/lib/axios';
 import { useAuth } from '@/contexts/AuthContext';
+import { SellPackageDialog } from '@/components/pos/SellPackageDialog';
+import { TenderEntry } from '@/components/pos/TenderEntry';
+import { ShiftPanel } from '@/components/pos/ShiftPanel';
+import { ParkedCartsDialog } from '@/components/pos/ParkedCartsDialog';
+import { OfflineQueueBanner } from '@/components/pos/OfflineQueueBanner';
+import { DiscountDialog } from '@/components/pos/DiscountDialog';
+import { ManagerApproval } from '@/components/pos/ManagerApproval';
+import { PromoCodeEntry } from '@/components/pos/PromoCodeEntry';
+import { MemberPicker } from '@/components/pos/MemberPicker';
+import {
+  applyQuoteToCart,
+  deductSoldStock,
+  describeDiscount,
+  estimateCartTotals,
+  getMaxDiscountPercent,
+  getCartLineTotal,
+  getDiscountAmount,
+  getItemUnitPrice,
+  getTenderTotals,
+  repriceCartForMember,
+  toSaleRequestItems
+} from '@/lib/pos';
+import {
+  cacheCatalog,
+  createClientReference,
+  discardQueuedSale,
+  getCachedCatalog,
+  getQueuedSales,
+  isNetworkError,
+  queueSale,
+  syncQueuedSales
+} from '@/lib/offline';
+import { printReceipt } from '@/lib/receipt';
+import { getDefaultPaymentMethod } from '@/lib/payment-methods';
 
-const POS = () => {
+const PointOfSale = () => {
   const [items, setItems] = useState<InventoryItem[]>([]);
+  const [packages, setPackages] = useState<SubscriptionPackage[]>([]);
+  const [packageToSell, setPackageToSell] = useState<SubscriptionPackage | null>(null);
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isCheckoutDialogOpen, setIsCheckoutDialogOpen] = useState(false);
-  const paymentMethod = 'cash';
+  const [tenders, setTenders] = useState<SaleTender[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  // Kept so tax can still be worked out while offline
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null);
+  const [quote, setQuote] = useState<SaleQuote | null>(null);
+  const [cartDiscount, setCartDiscount] = useState<CartDiscount | null>(null);
+  // 'cart' or the id of the cart line being discounted
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  const [discountPolicy, setDiscountPolicy] = useState<DiscountPolicy>({ max_discount_percent: 0, reasons: [] });
+  const [discountApproval, setDiscountApproval] = useState<DiscountApproval | null>(null);
+  const [couponCode, setCouponCode] = useState('');
+  const [allowSplitPayments, setAllowSplitPayments] = useState(false);
+  const [autoPrintReceipts, setAutoPrintReceipts] = useState(false);
+  const [completedSales, setCompletedSales] = useState(0);
+  const [isParkDialogOpen, setIsParkDialogOpen] = useState(false);
+  const [isParkedCartsOpen, setIsParkedCartsOpen] = useState(false);
+  const [parkName, setParkName] = useState('');
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  // Guards against overlapping syncs without making syncSales change identity while one runs
+  const syncingRef = useRef(false);
   const [loading, setLoading] = useState(false);
-  const [selectedCustomer, setSelectedCustomer] = useState<any | null>(null);
+  const [selectedCustomer, setSelectedCustomer] = useState<Subscriber | null>(null);
+  // The customer's active membership, if any, which gets them member prices
+  const [membership, setMembership] = useState<MemberPricing | null>(null);
+  const [memberPoints, setMemberPoints] = useState<MemberPoints | null>(null);
+  const [isMemberPickerOpen, setIsMemberPickerOpen] = useState(false);
   
   // Get current user from auth context
-  const { user } = useAuth();
+  const { user, selectedBranch } = useAuth();
   
   const barcodeInputRef = useRef<HTMLInputElement>(null);
   
@@ -67,7 +135,7 @@ const POS = () => {
       )
     : items;
 
-  const fetchItems = async () => {
+  const fetchItems = useCallback(async () => {
     try {
       setLoading(true);
       const response = await api.get('/api/inventory');
@@ -80,19 +148,190 @@ const POS = () => {
       }));
       
       setItems(formattedItems);
+      if (selectedBranch) cacheCatalog(selectedBranch.branch_id, { items: formattedItems });
     } catch (error) {
       console.error('Error fetching inventory items:', error);
-      toast.error('Failed to fetch items');
+      
+      // Keep selling from the last catalog this terminal saw
+      const cached = selectedBranch && isNetworkError(error) ? getCachedCatalog(selectedBranch.branch_id) : null;
+      if (cached && cached.items.length > 0) {
+        setItems(cached.items);
+        toast.warning(`Offline: using the product list from ${new Date(cached.cached_at).toLocaleString()}`);
+      } else {
+        toast.error('Failed to fetch items');
+      }
     } finally {
       setLoading(false);
     }
+  }, [selectedBranch]);
+
+  const fetchPaymentMethods = useCallback(async () => {
+    try {
+      const response = await api.get('/api/payment-methods');
+      setPaymentMethods(response.data);
+      if (selectedBranch) cacheCatalog(selectedBranch.branch_id, { payment_methods: response.data });
+    } catch (error) {
+      console.error('Error fetching payment methods:', error);
+      
+      const cached = selectedBranch && isNetworkError(error) ? getCachedCatalog(selectedBranch.branch_id) : null;
+      if (cached && cached.payment_methods) {
+        setPaymentMethods(cached.payment_methods);
+      } else {
+        toast.error('Failed to fetch payment methods');
+      }
+    }
+  }, [selectedBranch]);
+
+  const fetchTaxSettings = useCallback(async () => {
+    try {
+      const response = await api.get('/api/tax-settings');
+      setTaxSettings(response.data);
+      if (selectedBranch) cacheCatalog(selectedBranch.branch_id, { tax_settings: response.data });
+    } catch (error) {
+      console.error('Error fetching tax settings:', error);
+      
+      const cached = selectedBranch && isNetworkError(error) ? getCachedCatalog(selectedBranch.branch_id) : null;
+      if (cached && cached.tax_settings) {
+        setTaxSettings(cached.tax_settings);
+      }
+    }
+  }, [selectedBranch]);
+
+  const fetchPackages = useCallback(async () => {
+    try {
+      const response = await api.get('/api/packages');
+      setPackages(response.data);
+      if (selectedBranch) cacheCatalog(selectedBranch.branch_id, { packages: response.data });
+    } catch (error) {
+      console.error('Error fetching packages:', error);
+      
+      const cached = selectedBranch && isNetworkError(error) ? getCachedCatalog(selectedBranch.branch_id) : null;
+      if (cached) {
+        setPackages(cached.packages);
+      } else {
+        toast.error('Failed to fetch packages');
+      }
+    }
+  }, [selectedBranch]);
+
+  // Offline sales only keep the prices they were charged at under the cashier's pass
+  const fetchOfflinePass = useCallback(async () => {
+    if (!selectedBranch) return;
+    
+    try {
+      const response = await api.get('/api/sales/offline-pass');
+      cacheCatalog(selectedBranch.branch_id, { offline_pass: response.data.token });
+    } catch (error) {
+      console.error('Error fetching offline pass:', error);
+    }
+  }, [selectedBranch]);
+
+  const fetchDiscountPolicy = useCallback(async () => {
+    try {
+      const response = await api.get('/api/discounts/policy');
+      const policy = { ...response.data, max_discount_percent: Number(response.data.max_discount_percent) };
+      setDiscountPolicy(policy);
+      if (selectedBranch) cacheCatalog(selectedBranch.branch_id, { discount_policy: policy });
+    } catch (error) {
+      console.error('Error fetching discount policy:', error);
+      
+      // Offline the cashier keeps the limit they had last time
+      const cached = selectedBranch && isNetworkError(error) ? getCachedCatalog(selectedBranch.branch_id) : null;
+      if (cached && cached.discount_policy) setDiscountPolicy(cached.discount_policy);
+    }
+  }, [selectedBranch]);
+
+  useEffect(() => {
+    if (!selectedBranch) return;
+    
+    api.get(`/api/branches/${selectedBranch.branch_id}/settings`)
+      .then(response => {
+        setAllowSplitPayments(Boolean(response.data.allow_split_payments));
+        setAutoPrintReceipts(Boolean(response.data.receipt_auto_print));
+      })
+      .catch(error => console.error('Error fetching branch settings:', error));
+  }, [selectedBranch]);
+
+  const syncSales = useCallback(async () => {
+    if (!selectedBranch || syncingRef.current || getQueuedSales(selectedBranch.branch_id).length === 0) return;
+    
+    try {
+      syncingRef.current = true;
+      setSyncing(true);
+      const result = await syncQueuedSales(selectedBranch.branch_id);
+      
+      if (result.synced > 0) {
+        toast.success(`Synced ${result.synced} offline ${result.synced === 1 ? 'sale' : 'sales'}`);
+        setCompletedSales(count => count + 1);
+        fetchItems();
+      }
+      if (result.conflicts.length > 0) {
+        toast.warning(
+          `Stock went negative for ${result.conflicts.map(conflict => `${conflict.name} (${conflict.quantity})`).join(', ')}. They're listed under Inventory for a manager to check.`,
+          { duration: 10000 }
+        );
+      }
+      if (result.priceConflicts.length > 0) {
+        toast.warning(
+          `Offline sales were charged differently from current prices: ${result.priceConflicts
+            .map(conflict => `${conflict.name} $${conflict.charged.toFixed(2)} (now $${conflict.expected.toFixed(2)})`)
+            .join(', ')}. They're listed in the sales report for a manager to check.`,
+          { duration: 10000 }
+        );
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed} offline ${result.failed === 1 ? 'sale was' : 'sales were'} rejected by the server`);
+      }
+    } finally {
+      setQueuedSales(getQueuedSales(selectedBranch.branch_id));
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [selectedBranch, fetchItems]);
+
+  const handleDiscardQueuedSale = (sale: QueuedSale) => {
+    if (!selectedBranch) return;
+    if (!window.confirm(`Discard the offline sale of $${sale.sale.total.toFixed(2)}? It will not be recorded.`)) return;
+    
+    discardQueuedSale(selectedBranch.branch_id, sale.client_reference);
+    setQueuedSales(getQueuedSales(selectedBranch.branch_id));
   };
 
-  // Fetch inventory items on component mount
   useEffect(() => {
-    fetchItems();
+    if (!selectedBranch) return;
+    
+    setQueuedSales(getQueuedSales(selectedBranch.branch_id));
+    if (navigator.onLine) syncSales();
+  }, [selectedBranch, syncSales]);
+
+  // Send queued sales as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncSales();
+    };
+    const handleOffline = () => setIsOnline(false);
     
-    // Focus on the barcode input when the component mounts
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncSales]);
+
+  // Load the catalog for the selected branch
+  useEffect(() => {
+    fetchItems();
+    fetchPackages();
+    fetchPaymentMethods();
+    fetchTaxSettings();
+    fetchDiscountPolicy();
+    fetchOfflinePass();
+  }, [fetchItems, fetchPackages, fetchPaymentMethods, fetchTaxSettings, fetchDiscountPolicy, fetchOfflinePass]);
+
+  // Focus on the barcode input when the component mounts
+  useEffect(() => {
     if (barcodeInputRef.current) {
       barcodeInputRef.current.focus();
     }
@@ -123,11 +362,11 @@ const POS = () => {
       return;
     }
     
-    // Ensure price is a number
-    const itemPrice = typeof item.price === 'string' ? parseFloat(item.price) : item.price;
+    const itemPrice = getItemUnitPrice(item, membership);
+    const listPrice = itemPrice < item.price ? item.price : undefined;
     
     // Check if item already exists in cart
-    const existingItemIndex = cartItems.findIndex(cartItem => cartItem.itemId === item.id);
+    const existingItemIndex = cartItems.findIndex(cartItem => cartItem.type !== 'package' && cartItem.itemId === item.id);
     
     if (existingItemIndex >= 0) {
       // Update quantity of existing item
@@ -143,6 +382,8 @@ const POS = () => {
       
       updatedCartItems[existingItemIndex] = {
         ...existingItem,
+        price: itemPrice,
+        listPrice,
         quantity: totalQuantity,
         totalPrice: itemPrice * totalQuantity
       };
@@ -151,11 +392,13 @@ const POS = () => {
       toast.success('Updated quantity in cart');
     } else {
       // Add new item to cart
-      const newCartItem = {
+      const newCartItem: CartItem = {
         id: Date.now().toString(),
+        type: 'item',
         itemId: item.id,
         name: item.name,
         price: itemPrice,
+        listPrice,
         quantity: 1,
         totalPrice: itemPrice
       };
@@ -165,6 +408,54 @@ const POS = () => {
     }
   };
 
+  const handleAddPackageToCart = (pkg: SubscriptionPackage, subscriber: Subscriber, startDate: string) => {
+    const newCartItem: CartItem = {
+      id: Date.now().toString(),
+      type: 'package',
+      itemId: pkg.id,
+      name: pkg.name,
+      price: pkg.price,
+      quantity: 1,
+      totalPrice: pkg.price,
+      subscriberId: subscriber.id,
+      subscriberName: subscriber.name,
+      startDate
+    };
+
+    setCartItems([...cartItems, newCartItem]);
+    setPackageToSell(null);
+    toast.success(`${pkg.name} for ${subscriber.name} added to cart`);
+  };
+
+  const handleSelectMember = async (subscriber: Subscriber) => {
+    try {
+      setLoading(true);
+      const response = await api.get(`/api/subscribers/${subscriber.id}/membership`);
+      const memberPricing: MemberPricing | null = response.data.membership;
+      
+      setSelectedCustomer(subscriber);
+      setMembership(memberPricing);
+      setMemberPoints(response.data.points);
+      setCartItems(repriceCartForMember(cartItems, items, memberPricing));
+      setIsMemberPickerOpen(false);
+      toast.success(memberPricing
+        ? `${subscriber.name} added. Member prices applied.`
+        : `${subscriber.name} added. No active membership, so shelf prices apply.`);
+    } catch (error) {
+      console.error('Error fetching membership:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to look up the membership'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveMember = () => {
+    setSelectedCustomer(null);
+    setMembership(null);
+    setMemberPoints(null);
+    setCartItems(repriceCartForMember(cartItems, items, null));
+  };
+
   const handleUpdateQuantity = (id: string, change: number) => {
     setCartItems(cartItems.map(cartItem => {
       if (cartItem.id === id) {
@@ -193,11 +484,199 @@ const POS = () => {
   };
 
   const calculateSubtotal = () => {
-    return cartItems.reduce((total, item) => total + item.totalPrice, 0);
+    return cartItems.reduce((total, item) => total + getCartLineTotal(item), 0);
   };
 
   const calculateTotal = () => {
-    return calculateSubtotal(); // No tax, price is all-inclusive
+    return calculateSubtotal() - getDiscountAmount(cartDiscount, calculateSubtotal());
+  };
+
+  // Without a quote the terminal works out the totals from its cached tax settings
+  const offlineTotals = taxSettings ? estimateCartTotals(cartItems, items, cartDiscount, taxSettings) : null;
+
+  const discountTargetItem = cartItems.find(item => item.id === discountTarget);
+
+  const handleApplyDiscount = (discount: CartDiscount | null) => {
+    if (discountTarget === 'cart') {
+      setCartDiscount(discount);
+    } else {
+      setCartItems(cartItems.map(item =>
+        item.id === discountTarget ? { ...item, discount: discount || undefined } : item
+      ));
+    }
+    setDiscountApproval(null);
+  };
+
+  // Use the server's prices, updating the cart if the catalog on screen is out of date
+  const applyQuote = (newQuote: SaleQuote) => {
+    const repriced = applyQuoteToCart(cartItems, newQuote);
+    if (repriced.some((item, index) => item !== cartItems[index])) {
+      setCartItems(repriced);
+      toast.warning('Some prices have changed. The cart has been updated.');
+      fetchItems();
+    }
+    setQuote(newQuote);
+    setTenders([{ payment_method: getDefaultPaymentMethod(paymentMethods), amount: newQuote.total.toFixed(2) }]);
+  };
+
+  const requestQuote = (code: string) => api.post('/api/sales/quote', {
+    items: toSaleRequestItems(cartItems),
+    discount: cartDiscount,
+    coupon_code: code || null,
+    customer_id: selectedCustomer?.id || null
+  });
+
+  const openCheckout = async () => {
+    try {
+      setLoading(true);
+      const response = await requestQuote(couponCode);
+      applyQuote(response.data);
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        console.error('Error pricing sale:', error);
+        toast.error(getApiErrorMessage(error, 'Failed to price the cart'));
+        // A code that no longer fits the cart is dropped so the sale can go ahead without it
+        setCouponCode('');
+        return;
+      }
+      
+      // Offline the cached prices are all we have; the server checks them again on sync.
+      // Promo codes can't be checked offline, so they're left off.
+      setCouponCode('');
+      setQuote(null);
+      setTenders([{ payment_method: getDefaultPaymentMethod(paymentMethods), amount: (offlineTotals ? offlineTotals.total : calculateTotal()).toFixed(2) }]);
+    } finally {
+      setLoading(false);
+    }
+    setIsCheckoutDialogOpen(true);
+  };
+
+  const handleApplyCoupon = async (code: string) => {
+    try {
+      setLoading(true);
+      const response = await requestQuote(code);
+      applyQuote(response.data);
+      setCouponCode(code);
+      toast.success(`${code} applied`);
+      return true;
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to apply promo code'));
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveCoupon = async () => {
+    setCouponCode('');
+    
+    try {
+      setLoading(true);
+      const response = await requestQuote('');
+      applyQuote(response.data);
+    } catch (error) {
+      console.error('Error pricing sale:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to price the cart'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleParkCart = async () => {
+    if (!parkName.trim() || cartItems.length === 0) return;
+
+    try {
+      setLoading(true);
+      await api.post('/api/parked-carts', { name: parkName.trim(), items: cartItems });
+      toast.success(`Cart parked as "${parkName.trim()}"`);
+      setCartItems([]);
+      setCartDiscount(null);
+      setCouponCode('');
+      setSelectedCustomer(null);
+      setMembership(null);
+      setMemberPoints(null);
+      setParkName('');
+      setIsParkDialogOpen(false);
+    } catch (error) {
+      console.error('Error parking cart:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to park cart'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openParkedCarts = () => {
+    if (cartItems.length > 0) {
+      toast.error('Park or clear the current cart first');
+      return;
+    }
+    setIsParkedCartsOpen(true);
+  };
+
+  const handleResumeCart = (cart: ParkedCart) => {
+    setCartItems(repriceCartForMember(cart.items, items, membership));
+    toast.success(`Resumed "${cart.name}"`);
+  };
+
+  const checkoutTotal = quote ? quote.total : offlineTotals ? offlineTotals.total : calculateTotal();
+  const tenderTotals = getTenderTotals(tenders, checkoutTotal, paymentMethods);
+  const maxDiscountPercent = quote ? quote.max_discount_percent : getMaxDiscountPercent(cartItems, cartDiscount);
+  // Approvals are given by the server, so offline a discount over the cashier's limit can't go through
+  const overDiscountLimit = maxDiscountPercent > discountPolicy.max_discount_percent;
+  const needsDiscountApproval = overDiscountLimit
+    && !(quote && discountApproval && discountApproval.max_percent >= maxDiscountPercent);
+  const canCompleteSale = tenders.length > 0
+    && tenderTotals.remaining === 0
+    && tenderTotals.change <= tenderTotals.drawerTendered + 0.005
+    && !tenderTotals.missingReference
+    && !needsDiscountApproval;
+
+  const handlePrintReceipt = async (saleId: number) => {
+    try {
+      await printReceipt(saleId);
+    } catch (error) {
+      console.error('Error printing receipt:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to print receipt'));
+    }
+  };
+
+  // Offline sales have no receipt until they sync, so there's nothing to print for them yet
+  const completeCheckout = (changeGiven: number, message: string, saleId?: number) => {
+    toast.success(
+      changeGiven > 0 ? `${message} Change due: $${changeGiven.toFixed(2)}` : message,
+      saleId && !autoPrintReceipts ? { action: { label: 'Print receipt', onClick: () => handlePrintReceipt(saleId) } } : undefined
+    );
+    if (saleId && autoPrintReceipts) {
+      handlePrintReceipt(saleId);
+    }
+    setCartItems([]);
+    setCartDiscount(null);
+    setDiscountApproval(null);
+    setCouponCode('');
+    setSelectedCustomer(null);
+    setMembership(null);
+    setMemberPoints(null);
+    setIsCheckoutDialogOpen(false);
+  };
+
+  // Record the sale on this device and take its items off the cached stock
+  const queueOfflineSale = (sale: SaleRequest) => {
+    if (!selectedBranch) return;
+    
+    if (overDiscountLimit) {
+      toast.error(`Discounts over ${discountPolicy.max_discount_percent}% need a manager's approval, which can't be given offline`);
+      return;
+    }
+    
+    queueSale(selectedBranch.branch_id, sale);
+    setQueuedSales(getQueuedSales(selectedBranch.branch_id));
+    
+    const updatedItems = deductSoldStock(items, cartItems);
+    setItems(updatedItems);
+    cacheCatalog(selectedBranch.branch_id, { items: updatedItems });
+    
+    completeCheckout(tenderTotals.change, 'Offline: sale saved and will sync when the connection is back.');
   };
 
   const handleCheckout = async () => {
@@ -206,39 +685,85 @@ const POS = () => {
       return;
     }
     
+    const sale: SaleRequest = {
+      items: toSaleRequestItems(cartItems),
+      subtotal: quote ? quote.subtotal : calculateSubtotal(),
+      tax: quote ? quote.tax : offlineTotals ? offlineTotals.tax : 0,
+      discount: cartDiscount,
+      total: checkoutTotal,
+      payments: tenders.map(tender => ({
+        payment_method: tender.payment_method,
+        amount: parseFloat(tender.amount) || 0,
+        account_code: tender.payment_method === 'stored_value' ? tender.account_code || undefined : undefined,
+        reference: tender.reference?.trim() || undefined
+      })),
+      customer_id: selectedCustomer?.id || null,
+      customer_name: selectedCustomer?.name || null,
+      customer_email: selectedCustomer?.email || null,
+      // Lets the server recognise this sale if it ends up being sent twice
+      client_reference: createClientReference(),
+      discount_approval: discountApproval?.token,
+      coupon_code: couponCode || null
+    };
+    
+    // Gift card, wallet and points balances live on the server, so those sales can't be queued
+    const usesStoredValue = tenders.some(tender => tender.payment_method === 'stored_value' || tender.payment_method === 'points');
+    
+    if (!navigator.onLine) {
+      if (usesStoredValue) {
+        toast.error('Gift cards, wallets and points can only be used online');
+        return;
+      }
+      queueOfflineSale(sale);
+      return;
+    }
+    
     try {
-      const subtotalValue = calculateSubtotal();
-      const totalValue = calculateTotal();
-      
-      await api.post('/api/sales', {
-        items: cartItems.map(item => ({
-          id: item.itemId,
-          quantity: item.quantity,
-          price: item.price,
-          total: item.totalPrice
-        })),
-        subtotal: subtotalValue,
-        tax: 0, // No tax, price is all-inclusive
-        discount: 0,
-        total: totalValue,
-        payment_method: 'cash',
-        customer_id: selectedCustomer?.id || null,
-        customer_name: selectedCustomer?.name || null,
-        customer_email: selectedCustomer?.email || null
-      });
-      toast.success('Sale completed successfully');
-      setCartItems([]);
-      setSelectedCustomer(null);
-      setIsCheckoutDialogOpen(false);
+      setLoading(true);
+      const response = await api.post('/api/sales', sale);
+      const pointsEarned = Number(response.data.points_earned) || 0;
+      completeCheckout(
+        Number(response.data.change_given),
+        pointsEarned > 0 ? `Sale completed successfully. ${pointsEarned} points earned.` : 'Sale completed successfully.',
+        response.data.id
+      );
+      setCompletedSales(count => count + 1);
       fetchItems();
     } catch (error) {
       console.error('Error completing sale:', error);
-      toast.error('Failed to complete sale');
+      
+      if (isNetworkError(error) && usesStoredValue) {
+        toast.error('Gift cards, wallets and points can only be used online');
+      } else if (isNetworkError(error)) {
+        queueOfflineSale(sale);
+      } else if (axios.isAxiosError(error) && error.response?.data?.approval_required) {
+        // The approval expired while the dialog was open
+        setDiscountApproval(null);
+        toast.error(getApiErrorMessage(error, 'Manager approval is required'));
+      } else if (axios.isAxiosError(error) && error.response?.status === 409 && error.response.data.pricing) {
+        // Prices moved while the dialog was open; show the new total before taking payment
+        applyQuote(error.response.data.pricing);
+        toast.error(getApiErrorMessage(error, 'Prices have changed'));
+      } else {
+        toast.error(getApiErrorMessage(error, 'Failed to complete sale'));
+      }
+    } finally {
+      setLoading(false);
     }
   };
 
   return (
     <div className="space-y-4 animate-fade-in">
+      <OfflineQueueBanner
+        isOnline={isOnline}
+        queuedSales={queuedSales}
+        syncing={syncing}
+        onSync={syncSales}
+        onDiscard={handleDiscardQueuedSale}
+      />
+
+      <ShiftPanel refreshKey={completedSales} />
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
         {/* Left Column - Product Search and Products Grid */}
         <div className="lg:col-span-8 space-y-4">
@@ -279,46 +804,83 @@ const POS = () => {
             </CardContent>
           </Card>
 
-          {/* Product Grid */}
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-            {loading ? (
-              <div className="col-span-full text-center py-10">
-                <p>Loading inventory items...</p>
+          <Tabs defaultValue="products">
+            <TabsList>
+              <TabsTrigger value="products">Products</TabsTrigger>
+              <TabsTrigger value="memberships">Memberships</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="products">
+              {/* Product Grid */}
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                {loading ? (
+                  <div className="col-span-full text-center py-10">
+                    <p>Loading inventory items...</p>
+                  </div>
+                ) : filteredItems.length === 0 ? (
+                  <div className="col-span-full text-center py-10">
+                    <p>No products found</p>
+                  </div>
+                ) : (
+                  filteredItems.map((item) => (
+                    <Card 
+                      key={item.id} 
+                      className={cn(
+                        "cursor-pointer hover:shadow-md transition-all duration-200",
+                        "hover:translate-y-[-2px]",
+                        item.quantity <= 0 && "opacity-50"
+                      )}
+                      onClick={() => handleAddToCart(item)}
+                    >
+                      <CardContent className="p-3 text-center">
+                        <div className="aspect-square mb-2 bg-muted rounded-md flex items-center justify-center overflow-hidden">
+                          <img 
+                            src={item.imageSrc || 'https://placehold.co/100x100'} 
+                            alt={item.name} 
+                            className="w-full h-full object-cover"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <p className="font-medium text-sm truncate">{item.name}</p>
+                          <p className="text-muted-foreground text-xs">{item.sku}</p>
+                          <p className="font-bold">${item.price.toFixed(2)}</p>
+                          <p className="text-xs text-muted-foreground">Stock: {item.quantity}</p>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
               </div>
-            ) : filteredItems.length === 0 ? (
-              <div className="col-span-full text-center py-10">
-                <p>No products found</p>
+            </TabsContent>
+
+            <TabsContent value="memberships">
+              {/* Package Grid */}
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                {packages.length === 0 ? (
+                  <div className="col-span-full text-center py-10">
+                    <p>No packages found</p>
+                  </div>
+                ) : (
+                  packages.map((pkg) => (
+                    <Card
+                      key={pkg.id}
+                      className="cursor-pointer hover:shadow-md transition-all duration-200 hover:translate-y-[-2px]"
+                      onClick={() => setPackageToSell(pkg)}
+                    >
+                      <CardContent className="p-3 text-center space-y-1">
+                        <CreditCard className="mx-auto h-8 w-8 mb-2 text-muted-foreground" />
+                        <p className="font-medium text-sm truncate">{pkg.name}</p>
+                        <p className="text-muted-foreground text-xs">
+                          {pkg.type === 'sessions' ? `${pkg.visits} sessions · ` : ''}{pkg.days} days
+                        </p>
+                        <p className="font-bold">${pkg.price.toFixed(2)}</p>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
               </div>
-            ) : (
-              filteredItems.map((item) => (
-                <Card 
-                  key={item.id} 
-                  className={cn(
-                    "cursor-pointer hover:shadow-md transition-all duration-200",
-                    "hover:translate-y-[-2px]",
-                    item.quantity <= 0 && "opacity-50"
-                  )}
-                  onClick={() => handleAddToCart(item)}
-                >
-                  <CardContent className="p-3 text-center">
-                    <div className="aspect-square mb-2 bg-muted rounded-md flex items-center justify-center overflow-hidden">
-                      <img 
-                        src={item.imageSrc || 'https://placehold.co/100x100'} 
-                        alt={item.name} 
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
-                    <div className="space-y-1">
-                      <p className="font-medium text-sm truncate">{item.name}</p>
-                      <p className="text-muted-foreground text-xs">{item.sku}</p>
-                      <p className="font-bold">${item.price.toFixed(2)}</p>
-                      <p className="text-xs text-muted-foreground">Stock: {item.quantity}</p>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
-            )}
-          </div>
+            </TabsContent>
+          </Tabs>
         </div>
         
         {/* Right Column - Shopping Cart */}
@@ -330,10 +892,44 @@ const POS = () => {
                   <ShoppingCart className="mr-2 h-5 w-5" />
                   Cart
                 </CardTitle>
-                <span className="text-muted-foreground text-sm">
-                  {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
-                </span>
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground text-sm">
+                    {cartItems.length} {cartItems.length === 1 ? 'item' : 'items'}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={openParkedCarts}>
+                    <ListRestart className="h-4 w-4 mr-1" />
+                    Parked
+                  </Button>
+                </div>
               </div>
+              {selectedCustomer ? (
+                <div className="flex items-center justify-between text-sm border rounded-lg p-2 mt-2">
+                  <span className="flex items-center">
+                    <BadgeCheck className={cn("h-4 w-4 mr-2", membership ? "text-green-600" : "text-muted-foreground")} />
+                    <span>
+                      <span className="font-medium">{selectedCustomer.name}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {membership ? `${membership.package_name} · member prices` : 'No active membership'}
+                        {memberPoints?.enabled && ` · ${memberPoints.balance} points`}
+                      </span>
+                    </span>
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleRemoveMember}>
+                    <XIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full mt-2"
+                  disabled={!isOnline}
+                  onClick={() => setIsMemberPickerOpen(true)}
+                >
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Add Member
+                </Button>
+              )}
             </CardHeader>
             <CardContent className="h-[300px] overflow-y-auto">
               {cartItems.length === 0 ? (
@@ -348,31 +944,60 @@ const POS = () => {
                     <div key={item.id} className="flex items-center justify-between border-b pb-3">
                       <div className="space-y-1">
                         <p className="font-medium">{item.name}</p>
-                        <p className="text-sm text-muted-foreground">${item.price.toFixed(2)} each</p>
+                        {item.type === 'package' ? (
+                          <p className="text-sm text-muted-foreground">
+                            ${item.price.toFixed(2)} · for {item.subscriberName}
+                          </p>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            {item.listPrice !== undefined && (
+                              <span className="line-through mr-1">${item.listPrice.toFixed(2)}</span>
+                            )}
+                            ${item.price.toFixed(2)} each
+                            {item.listPrice !== undefined && <span className="text-green-700"> · Member price</span>}
+                          </p>
+                        )}
+                        {item.discount && (
+                          <p className="text-xs text-green-700">
+                            {describeDiscount(item.discount)} · ${getCartLineTotal(item).toFixed(2)}
+                          </p>
+                        )}
                       </div>
                       
                       <div className="flex items-center space-x-2">
-                        <div className="flex items-center border rounded-md">
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 rounded-none"
-                            onClick={() => handleUpdateQuantity(item.id, -1)}
-                          >
-                            <Minus className="h-3 w-3" />
-                          </Button>
-                          <span className="w-8 text-center font-medium">{item.quantity}</span>
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 rounded-none"
-                            onClick={() => handleUpdateQuantity(item.id, 1)}
-                          >
-                            <Plus className="h-3 w-3" />
-                          </Button>
-                        </div>
+                        {item.type !== 'package' && (
+                          <div className="flex items-center border rounded-md">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 rounded-none"
+                              onClick={() => handleUpdateQuantity(item.id, -1)}
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <span className="w-8 text-center font-medium">{item.quantity}</span>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 rounded-none"
+                              onClick={() => handleUpdateQuantity(item.id, 1)}
+                            >
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                        
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setDiscountTarget(item.id)}
+                        >
+                          <Percent className="h-4 w-4" />
+                        </Button>
                         
                         <Button
                           type="button"
@@ -396,6 +1021,19 @@ const POS = () => {
                   <span className="text-muted-foreground">Subtotal</span>
                   <span>${calculateSubtotal().toFixed(2)}</span>
                 </div>
+                <div className="flex justify-between items-center text-sm">
+                  <Button
+                    variant="link"
+                    className="h-auto p-0"
+                    disabled={cartItems.length === 0}
+                    onClick={() => setDiscountTarget('cart')}
+                  >
+                    {cartDiscount ? `Cart discount (${describeDiscount(cartDiscount)})` : 'Add cart discount'}
+                  </Button>
+                  {cartDiscount && (
+                    <span>-${getDiscountAmount(cartDiscount, calculateSubtotal()).toFixed(2)}</span>
+                  )}
+                </div>
                 <Separator />
                 <div className="flex justify-between items-center font-bold text-lg">
                   <span>Total</span>
@@ -407,42 +1045,175 @@ const POS = () => {
                 className="w-full" 
                 size="lg"
                 disabled={cartItems.length === 0 || loading}
-                onClick={() => setIsCheckoutDialogOpen(true)}
+                onClick={openCheckout}
               >
                 <ShoppingCart className="mr-2 h-4 w-4" />
                 Checkout
               </Button>
+              <Button
+                className="w-full mt-2"
+                variant="outline"
+                disabled={cartItems.length === 0 || loading}
+                onClick={() => setIsParkDialogOpen(true)}
+              >
+                <PauseCircle className="mr-2 h-4 w-4" />
+                Park Cart
+              </Button>
             </CardFooter>
           </Card>
         </div>
       </div>
       
+      <SellPackageDialog
+        pkg={packageToSell}
+        onOpenChange={(open) => !open && setPackageToSell(null)}
+        onConfirm={handleAddPackageToCart}
+      />
+
+      <MemberPicker
+        open={isMemberPickerOpen}
+        onOpenChange={setIsMemberPickerOpen}
+        onSelect={handleSelectMember}
+      />
+
+      <DiscountDialog
+        open={discountTarget !== null}
+        target={discountTarget === 'cart' ? 'the whole cart' : discountTargetItem?.name || ''}
+        base={discountTarget === 'cart' ? calculateSubtotal() : discountTargetItem?.totalPrice || 0}
+        discount={discountTarget === 'cart' ? cartDiscount : discountTargetItem?.discount}
+        reasons={discountPolicy.reasons}
+        maxPercent={discountPolicy.max_discount_percent}
+        onOpenChange={(open) => !open && setDiscountTarget(null)}
+        onApply={handleApplyDiscount}
+      />
+
+      <ParkedCartsDialog
+        open={isParkedCartsOpen}
+        onOpenChange={setIsParkedCartsOpen}
+        onResume={handleResumeCart}
+      />
+
+      {/* Park Cart Dialog */}
+      <Dialog open={isParkDialogOpen} onOpenChange={setIsParkDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Park Cart</DialogTitle>
+            <DialogDescription>
+              Name this cart so it can be found and resumed later from any terminal at this branch.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleParkCart();
+            }}
+            className="space-y-2 py-2"
+          >
+            <Label htmlFor="park-name">Name</Label>
+            <Input
+              id="park-name"
+              value={parkName}
+              onChange={(e) => setParkName(e.target.value)}
+              placeholder="e.g. Customer in red jacket"
+              autoFocus
+            />
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsParkDialogOpen(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button onClick={handleParkCart} disabled={loading || !parkName.trim()}>
+              <PauseCircle className="h-4 w-4 mr-2" />
+              Park
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Checkout Dialog */}
       <Dialog open={isCheckoutDialogOpen} onOpenChange={setIsCheckoutDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
             <DialogTitle>Complete Sale</DialogTitle>
             <DialogDescription>
-              Finalize the transaction for cash payment.
+              {allowSplitPayments
+                ? 'Enter how the customer is paying. Payments can be split across methods.'
+                : 'Enter how the customer is paying.'}
             </DialogDescription>
           </DialogHeader>
           
           <div className="py-4 space-y-4">
-            {/* Cash payment info */}
-            <div className="flex items-center justify-center p-4 border rounded-lg bg-muted/50">
-              <Banknote className="h-8 w-8 mr-3" />
-              <span className="text-lg font-medium">Cash Payment Only</span>
-            </div>
-            
-            <div className="border rounded-lg p-4 bg-muted/50">
-              <h3 className="font-medium mb-2">Order Summary</h3>
-              <div className="space-y-1">
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Total (Tax Included):</span>
-                  <span>${calculateTotal().toFixed(2)}</span>
+            {quote && (
+              <div className="space-y-1 text-sm">
+                {quote.lines.some(line => line.discount_amount > 0) && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Item discounts</span>
+                    <span>-${quote.lines.reduce((sum, line) => sum + line.discount_amount, 0).toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>${quote.subtotal.toFixed(2)}</span>
                 </div>
+                {quote.coupon_discount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Promo code</span>
+                    <span>-${quote.coupon_discount.toFixed(2)}</span>
+                  </div>
+                )}
+                {quote.discount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Cart discount</span>
+                    <span>-${quote.discount.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{quote.prices_include_tax ? 'Tax (included)' : 'Tax'}</span>
+                  <span>${quote.tax.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+            
+            {!quote && offlineTotals && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{offlineTotals.prices_include_tax ? 'Tax (included)' : 'Tax'}</span>
+                <span>${offlineTotals.tax.toFixed(2)}</span>
               </div>
-            </div>
+            )}
+            
+            {quote && (
+              <PromoCodeEntry
+                coupon={quote.coupon}
+                disabled={loading || !isOnline}
+                onApply={handleApplyCoupon}
+                onRemove={handleRemoveCoupon}
+              />
+            )}
+            
+            {!quote && overDiscountLimit && (
+              <p className="text-sm text-destructive">
+                Discounts over {discountPolicy.max_discount_percent}% need a manager's approval, which can't be given offline.
+              </p>
+            )}
+            
+            {quote && overDiscountLimit && (
+              <ManagerApproval
+                percent={quote.max_discount_percent}
+                approval={discountApproval}
+                onApproved={setDiscountApproval}
+              />
+            )}
+            
+            <TenderEntry
+              total={checkoutTotal}
+              tenders={tenders}
+              paymentMethods={paymentMethods}
+              allowSplit={allowSplitPayments}
+              allowStoredValue={isOnline}
+              subscriberId={selectedCustomer?.id}
+              points={isOnline ? memberPoints : null}
+              onChange={setTenders}
+            />
           </div>
           
           <DialogFooter className="flex justify-between items-center">
@@ -456,7 +1227,7 @@ const POS = () => {
             </Button>
             <Button 
               onClick={handleCheckout}
-              disabled={loading}
+              disabled={loading || !canCompleteSale}
             >
               {loading ? (
                 <span>Processing...</span>
@@ -474,4 +1245,4 @@ const POS = () => {
   );
 };
 
-export default POS;
+export default PointOfSale;
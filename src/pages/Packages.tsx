@@ -41,10 +41,11 @@ import {
 } from '@/components/ui/table';
 import { toast } from 'sonner';
 import { Check, Plus, Pencil, Trash2, Package, Loader2, Building2 } from 'lucide-react';
-import { SubscriptionPackage } from '@/types';
+import { PackageType, SubscriptionPackage } from '@/types';
 import { Link } from "react-router-dom";
 import api from '@/lib/axios';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/contexts/AuthContext';
 import { Badge } from '@/components/ui/badge';
 
@@ -60,9 +61,13 @@ const Packages = () => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [days, setDays] = useState('');
+  const [packageType, setPackageType] = useState<PackageType>('days');
+  const [visits, setVisits] = useState('');
   const [price, setPrice] = useState('');
   const [features, setFeatures] = useState('');
   const [isPopular, setIsPopular] = useState(false);
+  const [maxFreezes, setMaxFreezes] = useState('');
+  const [maxFreezeDays, setMaxFreezeDays] = useState('');
 
   // Fetch packages from API
   const fetchPackages = async () => {
@@ -88,9 +93,13 @@ const Packages = () => {
     setName(pkg.name);
     setDescription(pkg.description || '');
     setDays(pkg.days.toString());
+    setPackageType(pkg.type || 'days');
+    setVisits(pkg.visits != null ? pkg.visits.toString() : '');
     setPrice(pkg.price.toString());
     setFeatures(Array.isArray(pkg.features) ? pkg.features.join('\n') : '');
     setIsPopular(pkg.isPopular || false);
+    setMaxFreezes(pkg.maxFreezes != null ? pkg.maxFreezes.toString() : '');
+    setMaxFreezeDays(pkg.maxFreezeDays != null ? pkg.maxFreezeDays.toString() : '');
     setIsEditMode(true);
     setDialogOpen(true);
   };
@@ -102,7 +111,7 @@ const Packages = () => {
   };
 
   const handleCreatePackage = async () => {
-    if (!name || !price || !days) {
+    if (!name || !price || !days || (packageType === 'sessions' && !visits)) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -119,9 +128,13 @@ const Packages = () => {
         name,
         description,
         days: parseInt(days),
+        type: packageType,
+        visits: packageType === 'sessions' ? parseInt(visits) : null,
         price: parseFloat(price),
         features: features.split('\n'),
         isPopular,
+        maxFreezes: maxFreezes === '' ? null : parseInt(maxFreezes),
+        maxFreezeDays: maxFreezeDays === '' ? null : parseInt(maxFreezeDays),
         branch_id: selectedBranch.branch_id
       };
 
@@ -140,7 +153,7 @@ const Packages = () => {
 
   const handleUpdatePackage = async () => {
     if (!selectedPackage) return;
-    if (!name || !price || !days) {
+    if (!name || !price || !days || (packageType === 'sessions' && !visits)) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -157,9 +170,13 @@ const Packages = () => {
         name,
         description,
         days: parseInt(days),
+        type: packageType,
+        visits: packageType === 'sessions' ? parseInt(visits) : null,
         price: parseFloat(price),
         features: features.split('\n'),
         isPopular,
+        maxFreezes: maxFreezes === '' ? null : parseInt(maxFreezes),
+        maxFreezeDays: maxFreezeDays === '' ? null : parseInt(maxFreezeDays),
         branch_id: selectedBranch.branch_id
       };
 
@@ -208,9 +225,13 @@ const Packages = () => {
     setName('');
     setDescription('');
     setDays('');
+    setPackageType('days');
+    setVisits('');
     setPrice('');
     setFeatures('');
     setIsPopular(false);
+    setMaxFreezes('');
+    setMaxFreezeDays('');
   };
 
   return (
@@ -270,7 +291,9 @@ const Packages = () => {
                   {packages.map((pkg) => (
                     <TableRow key={pkg.id}>
                       <TableCell className="font-medium">{pkg.name}</TableCell>
-                      <TableCell>{pkg.days} days</TableCell>
+                      <TableCell>
+                        {pkg.type === 'sessions' ? `${pkg.visits} visits / ${pkg.days} days` : `${pkg.days} days`}
+                      </TableCell>
                       <TableCell>${pkg.price.toFixed(2)}</TableCell>
                       <TableCell className="text-right">
                         <Button 
@@ -339,9 +362,40 @@ const Packages = () => {
                   required
                 />
               </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="packageType" className="text-right">
+                  Type
+                </Label>
+                <Select value={packageType} onValueChange={(value) => setPackageType(value as PackageType)}>
+                  <SelectTrigger id="packageType" className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="days">Time-based (unlimited visits)</SelectItem>
+                    <SelectItem value="sessions">Session pack (limited visits)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {packageType === 'sessions' && (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="visits" className="text-right">
+                    Visits
+                  </Label>
+                  <Input
+                    id="visits"
+                    name="visits"
+                    type="number"
+                    min="1"
+                    value={visits}
+                    onChange={(e) => setVisits(e.target.value)}
+                    className="col-span-3"
+                    required
+                  />
+                </div>
+              )}
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="days" className="text-right">
-                  Days
+                  {packageType === 'sessions' ? 'Valid For (Days)' : 'Days'}
                 </Label>
                 <Input
                   id="days"
@@ -385,6 +439,36 @@ const Packages = () => {
                   required
                 />
               </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="maxFreezes" className="text-right">
+                  Max Freezes
+                </Label>
+                <Input
+                  id="maxFreezes"
+                  name="maxFreezes"
+                  type="number"
+                  min="0"
+                  value={maxFreezes}
+                  onChange={(e) => setMaxFreezes(e.target.value)}
+                  placeholder="No limit"
+                  className="col-span-3"
+                />
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="maxFreezeDays" className="text-right">
+                  Max Freeze Days
+                </Label>
+                <Input
+                  id="maxFreezeDays"
+                  name="maxFreezeDays"
+                  type="number"
+                  min="0"
+                  value={maxFreezeDays}
+                  onChange={(e) => setMaxFreezeDays(e.target.value)}
+                  placeholder="No limit"
+                  className="col-span-3"
+                />
+              </div>
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="isPopular" className="text-right">
                   Popular
@@ -462,8 +546,22 @@ const PackageCard = ({ package: pkg, onEdit, onDelete, disabled = false }: Packa
       <CardContent>
         <div className="mb-4">
           <span className="text-3xl font-bold">${pkg.price.toFixed(2)}</span>
-          <span className="text-muted-foreground"> / {pkg.days} days</span>
+          <span className="text-muted-foreground">
+            {pkg.type === 'sessions' ? ` / ${pkg.visits} visits` : ` / ${pkg.days} days`}
+          </span>
+          {pkg.type === 'sessions' && (
+            <p className="text-sm text-muted-foreground">Valid for {pkg.days} days</p>
+          )}
         </div>
+
+        {pkg.maxFreezes === 0 || pkg.maxFreezeDays === 0 ? (
+          <p className="text-sm text-muted-foreground mb-4">Freezing not allowed</p>
+        ) : (pkg.maxFreezes != null || pkg.maxFreezeDays != null) && (
+          <p className="text-sm text-muted-foreground mb-4">
+            Freeze up to {pkg.maxFreezes != null ? `${pkg.maxFreezes} times` : 'any number of times'}
+            {pkg.maxFreezeDays != null && `, ${pkg.maxFreezeDays} days total`}
+          </p>
+        )}
         
         <ul className="space-y-2">
           {pkg.features.map((feature, index) => (
@@ -1,15 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { CalendarIcon, Download, Building2 } from 'lucide-react';
+import { CalendarIcon, Download, Building2, Mail, Printer, Undo2 } from 'lucide-react';
 import { format } from 'date-fns';
-import api from '@/lib/axios';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { downloadEscPosReceipt, printReceipt } from '@/lib/receipt';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import { BundleMarginRow, CouponRedemptionSummary, SaleRecord as Sale, SaleRecordItem as SaleItem, StaffDiscountSummary, TaxReportRow } from '@/types';
+import { ReturnSaleDialog } from '@/components/sales/ReturnSaleDialog';
+import { SendEmailDialog } from '@/components/sales/SendEmailDialog';
+import { SaleConflictsCard } from '@/components/sales/SaleConflictsCard';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { getPaymentMethodLabel } from '@/lib/payment-methods';
 import { Badge } from '@/components/ui/badge';
 import {
   Table,
@@ -31,33 +38,14 @@ import {
   Bar,
 } from 'recharts';
 
-interface Sale {
-  id: string;
-  created_at: string;
-  subtotal: number;
-  tax: number;
-  discount: number;
-  total: number;
-  payment_method: string;
-  customer_name: string;
-  customer_email: string;
-  items: SaleItem[];
-}
-
-interface SaleItem {
-  id: string;
-  item_id: string;
-  name: string;
-  quantity: number;
-  price: number;
-  total: number;
-}
-
 interface SalesSummary {
   total_sales: number;
   total_revenue: number;
+  total_refunds: number;
   average_sale: number;
   total_items_sold: number;
+  memberships_sold: number;
+  membership_revenue: number;
   payment_methods: {
     [key: string]: number;
   };
@@ -65,21 +53,32 @@ interface SalesSummary {
 
 export default function SalesReport() {
   const { selectedBranch } = useAuth();
+  const paymentMethods = usePaymentMethods({ includeInactive: true });
   const [startDate, setStartDate] = useState<Date | undefined>(new Date());
   const [endDate, setEndDate] = useState<Date | undefined>(new Date());
   const [sales, setSales] = useState<Sale[]>([]);
   const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [taxReport, setTaxReport] = useState<TaxReportRow[]>([]);
+  const [staffDiscounts, setStaffDiscounts] = useState<StaffDiscountSummary[]>([]);
+  const [couponRedemptions, setCouponRedemptions] = useState<CouponRedemptionSummary[]>([]);
+  const [bundleMargins, setBundleMargins] = useState<BundleMarginRow[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [returningSale, setReturningSale] = useState<Sale | null>(null);
+  const [emailingSale, setEmailingSale] = useState<Sale | null>(null);
 
-  const fetchSales = async () => {
+  const fetchSales = useCallback(async () => {
     try {
       setIsLoading(true);
       const start = startDate ? format(startDate, 'yyyy-MM-dd') : '';
       const end = endDate ? format(endDate, 'yyyy-MM-dd') : '';
       
-      const [salesResponse, summaryResponse] = await Promise.all([
+      const [salesResponse, summaryResponse, taxResponse, discountsResponse, couponsResponse, bundlesResponse] = await Promise.all([
         api.get(`/api/sales/by-date?startDate=${start}&endDate=${end}`),
-        api.get(`/api/sales/summary?startDate=${start}&endDate=${end}`)
+        api.get(`/api/sales/summary?startDate=${start}&endDate=${end}`),
+        api.get(`/api/sales/tax-report?startDate=${start}&endDate=${end}`),
+        api.get(`/api/sales/discounts-by-staff?startDate=${start}&endDate=${end}`),
+        api.get(`/api/coupons/redemptions?startDate=${start}&endDate=${end}`),
+        api.get(`/api/sales/bundle-margins?startDate=${start}&endDate=${end}`)
       ]);
 
       // Normalize the sales data to ensure numeric fields are numbers
@@ -92,8 +91,19 @@ export default function SalesReport() {
         items: Array.isArray(sale.items) ? sale.items.map(item => ({
           ...item,
           quantity: typeof item.quantity === 'number' ? item.quantity : parseInt(item.quantity) || 0,
+          returned_quantity: parseInt(item.returned_quantity) || 0,
           price: typeof item.price === 'number' ? item.price : parseFloat(item.price) || 0,
-          total: typeof item.total === 'number' ? item.total : parseFloat(item.total) || 0
+          total: typeof item.total === 'number' ? item.total : parseFloat(item.total) || 0,
+          tax_amount: parseFloat(item.tax_amount) || 0
+        })) : [],
+        payments: Array.isArray(sale.payments) ? sale.payments.map(payment => ({
+          ...payment,
+          amount: parseFloat(payment.amount) || 0,
+          tendered: parseFloat(payment.tendered) || 0
+        })) : [],
+        returns: Array.isArray(sale.returns) ? sale.returns.map(saleReturn => ({
+          ...saleReturn,
+          total: parseFloat(saleReturn.total) || 0
         })) : []
       }));
       
@@ -102,65 +112,126 @@ export default function SalesReport() {
       if (Array.isArray(summaryData)) {
         // Calculate aggregated summary from the array of data
         const totalSales = summaryData.length;
+        // Revenue is net of returns refunded against these sales
         const totalRevenue = summaryData.reduce((sum, item) => {
-          const itemTotal = typeof item.total === 'number' ? item.total : parseFloat(item.total) || 0;
+          const itemTotal = parseFloat(item.net_total ?? item.total) || 0;
           return sum + itemTotal;
         }, 0);
+        const totalRefunds = summaryData.reduce((sum, item) => sum + (parseFloat(item.returns_total) || 0), 0);
         
         const totalItems = salesData.reduce((sum, sale) => {
           return sum + (Array.isArray(sale.items) ? sale.items.reduce((itemSum, item) => {
+            if (item.item_type === 'package') return itemSum;
             const quantity = typeof item.quantity === 'number' ? item.quantity : parseInt(item.quantity) || 0;
             return itemSum + quantity;
           }, 0) : 0);
         }, 0);
         
-        // Aggregate payment methods
-        const paymentMethods = {};
-        summaryData.forEach(item => {
-          const method = item.payment_method || 'Unknown';
-          const itemTotal = typeof item.total === 'number' ? item.total : parseFloat(item.total) || 0;
-          paymentMethods[method] = (paymentMethods[method] || 0) + itemTotal;
+        // Membership packages sold at the till
+        const membershipLines = salesData.flatMap(sale => sale.items.filter(item => item.item_type === 'package'));
+        
+        // Each period comes broken down by every payment method, net of refunds
+        const methodTotals = {};
+        summaryData.forEach(row => {
+          Object.entries(row.payment_methods || {}).forEach(([method, amount]) => {
+            methodTotals[method] = (methodTotals[method] || 0) + (parseFloat(String(amount)) || 0);
+          });
         });
         
         // Create a standardized summary object
         summaryData = {
           total_sales: totalSales,
           total_revenue: totalRevenue,
+          total_refunds: totalRefunds,
           average_sale: totalSales > 0 ? totalRevenue / totalSales : 0,
           total_items_sold: totalItems,
-          payment_methods: paymentMethods
+          memberships_sold: membershipLines.length,
+          membership_revenue: membershipLines.reduce((sum, item) => sum + item.total, 0),
+          payment_methods: methodTotals
         };
       }
 
       setSales(salesData);
       setSummary(summaryData);
+      setTaxReport((taxResponse.data || []).map(row => ({
+        tax_rate: parseFloat(row.tax_rate) || 0,
+        net_sales: parseFloat(row.net_sales) || 0,
+        tax: parseFloat(row.tax) || 0,
+        returned_tax: parseFloat(row.returned_tax) || 0
+      })));
+      setStaffDiscounts((discountsResponse.data || []).map(row => ({
+        ...row,
+        discount_count: parseInt(row.discount_count) || 0,
+        discount_total: parseFloat(row.discount_total) || 0,
+        approved_count: parseInt(row.approved_count) || 0
+      })));
+      setCouponRedemptions((couponsResponse.data || []).map(row => ({
+        ...row,
+        redemptions: parseInt(row.redemptions) || 0,
+        sale_redemptions: parseInt(row.sale_redemptions) || 0,
+        subscription_redemptions: parseInt(row.subscription_redemptions) || 0,
+        subscribers: parseInt(row.subscribers) || 0,
+        discount_total: parseFloat(row.discount_total) || 0,
+        free_days_total: parseInt(row.free_days_total) || 0
+      })));
+      setBundleMargins(bundlesResponse.data || []);
     } catch (error) {
       console.error('Error fetching sales:', error);
       toast.error('Failed to fetch sales data');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [startDate, endDate]);
 
   useEffect(() => {
     fetchSales();
-  }, [startDate, endDate, selectedBranch]);
+  }, [fetchSales, selectedBranch]);
+
+  const describeItem = (item: SaleItem) => item.item_type === 'package'
+    ? `${item.name || 'Unknown'} membership for ${item.subscriber_name || 'Unknown'}`
+    : `${item.name || 'Unknown'} (${item.quantity || 0}${item.returned_quantity > 0 ? `, ${item.returned_quantity} returned` : ''})`;
+
+  const handlePrintReceipt = async (sale: Sale) => {
+    try {
+      const destination = await printReceipt(sale.id);
+      if (destination === 'printer') toast.success('Receipt sent to the printer');
+    } catch (error) {
+      console.error('Error printing receipt:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to print receipt'));
+    }
+  };
+
+  const handleDownloadReceipt = async (sale: Sale) => {
+    try {
+      await downloadEscPosReceipt(sale.id);
+    } catch (error) {
+      console.error('Error downloading receipt:', error);
+      toast.error('Failed to download receipt');
+    }
+  };
+
+  const getRefundedTotal = (sale: Sale) => sale.returns.reduce((sum, saleReturn) => sum + saleReturn.total, 0);
+
+  const describePayments = (sale: Sale) => sale.payments.length > 0
+    ? sale.payments.map(payment => `${getPaymentMethodLabel(payment.payment_method, paymentMethods)} $${payment.amount.toFixed(2)}`).join(' + ')
+    : sale.payment_method ? getPaymentMethodLabel(sale.payment_method, paymentMethods) : 'Unknown';
 
   const handleExport = () => {
     try {
       // Create CSV content
-      const headers = ['Date', 'Customer', 'Items', 'Subtotal', 'Tax', 'Discount', 'Total', 'Payment Method'];
+      const headers = ['Date', 'Customer', 'Items', 'Subtotal', 'Tax', 'Discount', 'Total', 'Refunded', 'Payment Method'];
       const rows = sales.map(sale => [
         format(new Date(sale.created_at || new Date()), 'yyyy-MM-dd'),
         sale.customer_name || 'Walk-in',
         Array.isArray(sale.items) 
-          ? sale.items.map(item => `${item.name || 'Unknown'} (${item.quantity || 0})`).join(', ')
+          ? sale.items.map(describeItem).join('; ')
           : 'No items',
         typeof sale.subtotal === 'number' ? sale.subtotal.toFixed(2) : '0.00',
         typeof sale.tax === 'number' ? sale.tax.toFixed(2) : '0.00',
         typeof sale.discount === 'number' ? sale.discount.toFixed(2) : '0.00',
         typeof sale.total === 'number' ? sale.total.toFixed(2) : '0.00',
-        sale.payment_method || 'Unknown'
+        getRefundedTotal(sale).toFixed(2),
+        describePayments(sale)
       ]);
 
       const csvContent = [
@@ -189,7 +260,7 @@ export default function SalesReport() {
     try {
       const date = format(new Date(sale.created_at || new Date()), 'yyyy-MM-dd');
       const existing = acc.find(item => item.date === date);
-      const saleTotal = typeof sale.total === 'number' ? sale.total : parseFloat(sale.total) || 0;
+      const saleTotal = (typeof sale.total === 'number' ? sale.total : parseFloat(sale.total) || 0) - getRefundedTotal(sale);
       
       if (existing) {
         existing.sales += 1;
@@ -210,7 +281,7 @@ export default function SalesReport() {
 
   const paymentMethodData = summary?.payment_methods ? 
     Object.entries(summary.payment_methods).map(([method, amount]) => ({
-      method,
+      method: getPaymentMethodLabel(method, paymentMethods),
       amount: typeof amount === 'number' ? amount : 0
     })) : [];
 
@@ -279,7 +350,7 @@ export default function SalesReport() {
       </div>
 
       {summary && (
-        <div className="grid gap-4 md:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-5">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Sales</CardTitle>
@@ -294,6 +365,9 @@ export default function SalesReport() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">${(summary.total_revenue || 0).toFixed(2)}</div>
+              {summary.total_refunds > 0 && (
+                <p className="text-xs text-muted-foreground">after ${summary.total_refunds.toFixed(2)} in returns</p>
+              )}
             </CardContent>
           </Card>
           <Card>
@@ -312,9 +386,20 @@ export default function SalesReport() {
               <div className="text-2xl font-bold">{summary.total_items_sold || 0}</div>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Memberships Sold</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{summary.memberships_sold || 0}</div>
+              <p className="text-xs text-muted-foreground">${(summary.membership_revenue || 0).toFixed(2)} revenue</p>
+            </CardContent>
+          </Card>
         </div>
       )}
 
+      <SaleConflictsCard type="price" />
+
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -355,6 +440,151 @@ export default function SalesReport() {
         </Card>
       </div>
 
+      {taxReport.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Tax by Rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rate</TableHead>
+                  <TableHead className="text-right">Net Sales</TableHead>
+                  <TableHead className="text-right">Tax Collected</TableHead>
+                  <TableHead className="text-right">Tax Refunded</TableHead>
+                  <TableHead className="text-right">Tax Due</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taxReport.map((row) => (
+                  <TableRow key={row.tax_rate}>
+                    <TableCell>{row.tax_rate}%</TableCell>
+                    <TableCell className="text-right">${row.net_sales.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.tax.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.returned_tax.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-medium">${(row.tax - row.returned_tax).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {staffDiscounts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Discounts by Staff</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Staff Member</TableHead>
+                  <TableHead className="text-right">Discounts</TableHead>
+                  <TableHead className="text-right">Total Given</TableHead>
+                  <TableHead>Manager Approvals</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staffDiscounts.map((row) => (
+                  <TableRow key={row.user_id ?? 'unknown'}>
+                    <TableCell>{row.user_name || 'Unknown'}</TableCell>
+                    <TableCell className="text-right">{row.discount_count}</TableCell>
+                    <TableCell className="text-right">${row.discount_total.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {row.approved_count > 0
+                        ? `${row.approved_count} by ${row.approved_by_names}`
+                        : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {bundleMargins.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Bundle Margins</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bundle</TableHead>
+                  <TableHead className="text-right">Units Sold</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Component Cost</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bundleMargins.map((row) => (
+                  <TableRow key={row.item_id}>
+                    <TableCell>
+                      {row.name}
+                      <span className="block text-xs text-muted-foreground">{row.sku}</span>
+                    </TableCell>
+                    <TableCell className="text-right">{row.units_sold}</TableCell>
+                    <TableCell className="text-right">${row.revenue.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.cost.toFixed(2)}</TableCell>
+                    <TableCell className={`text-right font-medium ${row.margin < 0 ? 'text-red-500' : ''}`}>
+                      ${row.margin.toFixed(2)}
+                      {row.margin_percent !== null && (
+                        <span className="block text-xs text-muted-foreground">{row.margin_percent.toFixed(1)}%</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {couponRedemptions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Promo Code Redemptions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead className="text-right">Uses</TableHead>
+                  <TableHead className="text-right">POS Sales</TableHead>
+                  <TableHead className="text-right">Subscriptions</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead className="text-right">Discount Given</TableHead>
+                  <TableHead className="text-right">Free Days</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {couponRedemptions.map((row) => (
+                  <TableRow key={row.coupon_id}>
+                    <TableCell>
+                      <div className="font-medium">{row.code}</div>
+                      {row.name && <div className="text-xs text-muted-foreground">{row.name}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{row.redemptions}</TableCell>
+                    <TableCell className="text-right">{row.sale_redemptions}</TableCell>
+                    <TableCell className="text-right">{row.subscription_redemptions}</TableCell>
+                    <TableCell className="text-right">{row.subscribers}</TableCell>
+                    <TableCell className="text-right">${row.discount_total.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{row.free_days_total}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Sales Details</CardTitle>
@@ -372,6 +602,7 @@ export default function SalesReport() {
                   <TableHead className="text-right">Discount</TableHead>
                   <TableHead className="text-right">Total</TableHead>
                   <TableHead>Payment Method</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -381,15 +612,46 @@ export default function SalesReport() {
                     <TableCell>{sale.customer_name || 'Walk-in'}</TableCell>
                     <TableCell>
                       {Array.isArray(sale.items) ? 
-                        sale.items.map(item => `${item.name || 'Unknown'} (${item.quantity || 0})`).join(', ') : 
+                        sale.items.map(describeItem).join(', ') : 
                         'No items'
                       }
                     </TableCell>
                     <TableCell className="text-right">${typeof sale.subtotal === 'number' ? sale.subtotal.toFixed(2) : '0.00'}</TableCell>
                     <TableCell className="text-right">${typeof sale.tax === 'number' ? sale.tax.toFixed(2) : '0.00'}</TableCell>
                     <TableCell className="text-right">${typeof sale.discount === 'number' ? sale.discount.toFixed(2) : '0.00'}</TableCell>
-                    <TableCell className="text-right">${typeof sale.total === 'number' ? sale.total.toFixed(2) : '0.00'}</TableCell>
-                    <TableCell>{sale.payment_method || 'Unknown'}</TableCell>
+                    <TableCell className="text-right">
+                      ${typeof sale.total === 'number' ? sale.total.toFixed(2) : '0.00'}
+                      {sale.returns.length > 0 && (
+                        <div className="text-xs text-destructive">-${getRefundedTotal(sale).toFixed(2)} returned</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{describePayments(sale)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => handlePrintReceipt(sale)}>
+                        <Printer className="h-4 w-4 mr-1" />
+                        Receipt
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Download for a thermal printer (ESC/POS)"
+                        onClick={() => handleDownloadReceipt(sale)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Email receipt" onClick={() => setEmailingSale(sale)}>
+                        <Mail className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReturningSale(sale)}
+                        disabled={!sale.items.some(item => item.item_type !== 'package' && item.quantity > item.returned_quantity)}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Return
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -397,6 +659,21 @@ export default function SalesReport() {
           </div>
         </CardContent>
       </Card>
+
+      <ReturnSaleDialog
+        sale={returningSale}
+        onOpenChange={(open) => !open && setReturningSale(null)}
+        onReturned={fetchSales}
+      />
+
+      <SendEmailDialog
+        open={!!emailingSale}
+        onOpenChange={(open) => !open && setEmailingSale(null)}
+        title={`Email Receipt #${emailingSale?.id ?? ''}`}
+        description="Send the receipt for this sale to the customer."
+        endpoint={`/api/sales/${emailingSale?.id}/email`}
+        defaultEmail={emailingSale?.customer_email}
+      />
     </div>
   );
 } 
\ No newline at end of file
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { 
   Card, 
@@ -15,20 +15,72 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
-import { Settings as SettingsIcon, Save, Building, CreditCard, Receipt, User, BellRing } from 'lucide-react';
+import { Settings as SettingsIcon, Save, Building, CreditCard, Receipt, User, BellRing, CalendarClock } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { BackgroundJobCard } from '@/components/settings/BackgroundJobCard';
+import { ReminderSettingsCard } from '@/components/settings/ReminderSettingsCard';
+import { TaxSettingsCard } from '@/components/settings/TaxSettingsCard';
+import { DiscountSettingsCard } from '@/components/settings/DiscountSettingsCard';
+import { LoyaltySettingsCard } from '@/components/settings/LoyaltySettingsCard';
+import { PaymentMethodsSettingsCard } from '@/components/settings/PaymentMethodsSettingsCard';
+import { EmailLogCard } from '@/components/settings/EmailLogCard';
 
 const Settings = () => {
+  const { user, selectedBranch } = useAuth();
+  const isAdmin = user?.role_name === 'admin';
   const [businessName, setBusinessName] = useState('FlexiGym Fitness');
   const [address, setAddress] = useState('123 Fitness Avenue, Healthytown, CA 90210');
   const [phone, setPhone] = useState('(555) 123-4567');
   const [email, setEmail] = useState('info@flexigym.com');
-  const [taxRate, setTaxRate] = useState('10');
-  const [receiptFooter, setReceiptFooter] = useState('Thank you for choosing FlexiGym Fitness!');
+  const [receiptHeader, setReceiptHeader] = useState('');
+  const [receiptFooter, setReceiptFooter] = useState('');
+  const [receiptShowTax, setReceiptShowTax] = useState(true);
+  const [receiptAutoPrint, setReceiptAutoPrint] = useState(false);
+  const [receiptPaperWidth, setReceiptPaperWidth] = useState('80');
+  const [receiptPrinterHost, setReceiptPrinterHost] = useState('');
+  const [emailReceipts, setEmailReceipts] = useState(false);
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [lowStockAlerts, setLowStockAlerts] = useState(true);
   const [dailyReports, setDailyReports] = useState(false);
+  const [allowSplitPayments, setAllowSplitPayments] = useState(false);
+  const [requireShift, setRequireShift] = useState(false);
+  const [parkedCartTtl, setParkedCartTtl] = useState('240');
+  const [memberDiscount, setMemberDiscount] = useState('0');
+  
+  useEffect(() => {
+    if (!selectedBranch) return;
+    
+    const fetchPOSSettings = async () => {
+      try {
+        const response = await api.get(`/api/branches/${selectedBranch.branch_id}/settings`);
+        setAllowSplitPayments(Boolean(response.data.allow_split_payments));
+        setRequireShift(Boolean(response.data.require_shift));
+        setParkedCartTtl(String(response.data.parked_cart_ttl_minutes ?? 240));
+        setMemberDiscount(String(Number(response.data.member_discount_percent ?? 0)));
+        setReceiptHeader(response.data.receipt_header ?? '');
+        setReceiptFooter(response.data.receipt_footer ?? '');
+        setReceiptShowTax(response.data.receipt_show_tax === null ? true : Boolean(response.data.receipt_show_tax));
+        setReceiptAutoPrint(Boolean(response.data.receipt_auto_print));
+        setReceiptPaperWidth(String(response.data.receipt_paper_width ?? 80));
+        setReceiptPrinterHost(response.data.receipt_printer_host ?? '');
+        setEmailReceipts(Boolean(response.data.email_receipts));
+      } catch (error) {
+        console.error('Error fetching POS settings:', error);
+      }
+    };
+    
+    fetchPOSSettings();
+  }, [selectedBranch]);
   
   const handleSaveGeneralSettings = (e: React.FormEvent) => {
     e.preventDefault();
@@ -40,9 +92,29 @@ const Settings = () => {
     toast.success('Notification settings saved successfully');
   };
   
-  const handleSavePOSSettings = (e: React.FormEvent) => {
+  const handleSavePOSSettings = async (e: React.FormEvent) => {
     e.preventDefault();
-    toast.success('POS settings saved successfully');
+    if (!selectedBranch) return;
+    
+    try {
+      await api.put(`/api/branches/${selectedBranch.branch_id}/settings`, {
+        allow_split_payments: allowSplitPayments,
+        require_shift: requireShift,
+        parked_cart_ttl_minutes: parseInt(parkedCartTtl) || 240,
+        ...(isAdmin && { member_discount_percent: parseFloat(memberDiscount) || 0 }),
+        receipt_header: receiptHeader,
+        receipt_footer: receiptFooter,
+        receipt_show_tax: receiptShowTax,
+        receipt_auto_print: receiptAutoPrint,
+        receipt_paper_width: parseInt(receiptPaperWidth),
+        ...(isAdmin && { receipt_printer_host: receiptPrinterHost }),
+        email_receipts: emailReceipts
+      });
+      toast.success('POS settings saved successfully');
+    } catch (error) {
+      console.error('Error saving POS settings:', error);
+      toast.error(getApiErrorMessage(error, 'Failed to save POS settings'));
+    }
   };
   
   return (
@@ -55,7 +127,7 @@ const Settings = () => {
       </div>
 
       <Tabs defaultValue="general" className="w-full">
-        <TabsList className="grid grid-cols-3 w-full max-w-xl">
+        <TabsList className={cn("grid w-full", isAdmin ? "grid-cols-4 max-w-2xl" : "grid-cols-3 max-w-xl")}>
           <TabsTrigger value="general" className="flex items-center">
             <Building className="h-4 w-4 mr-2" />
             General
@@ -68,6 +140,12 @@ const Settings = () => {
             <BellRing className="h-4 w-4 mr-2" />
             Notifications
           </TabsTrigger>
+          {isAdmin && (
+            <TabsTrigger value="jobs" className="flex items-center">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Jobs
+            </TabsTrigger>
+          )}
         </TabsList>
         
         <TabsContent value="general" className="space-y-4 mt-6">
@@ -121,18 +199,6 @@ const Settings = () => {
                       onChange={(e) => setPhone(e.target.value)} 
                     />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="tax-rate">Tax Rate (%)</Label>
-                    <Input 
-                      id="tax-rate" 
-                      type="number" 
-                      min="0" 
-                      max="100" 
-                      step="0.01" 
-                      value={taxRate} 
-                      onChange={(e) => setTaxRate(e.target.value)} 
-                    />
-                  </div>
                 </div>
               </CardContent>
               <CardFooter className="flex justify-end">
@@ -213,27 +279,63 @@ const Settings = () => {
                   <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                     <div className="space-y-2">
                       <Label htmlFor="receipt-header">Receipt Header</Label>
-                      <Input id="receipt-header" value={businessName} onChange={(e) => setBusinessName(e.target.value)} />
+                      <Input 
+                        id="receipt-header" 
+                        placeholder="Company name"
+                        value={receiptHeader} 
+                        onChange={(e) => setReceiptHeader(e.target.value)} 
+                      />
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="receipt-footer">Receipt Footer</Label>
                       <Input 
                         id="receipt-footer" 
+                        placeholder="Thank you for your visit!"
                         value={receiptFooter} 
                         onChange={(e) => setReceiptFooter(e.target.value)} 
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="receipt-paper-width">Paper Width</Label>
+                      <Select value={receiptPaperWidth} onValueChange={setReceiptPaperWidth}>
+                        <SelectTrigger id="receipt-paper-width">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="58">58mm</SelectItem>
+                          <SelectItem value="80">80mm</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="receipt-printer-host">Network Printer</Label>
+                      <Input 
+                        id="receipt-printer-host" 
+                        placeholder="e.g. 192.168.1.50:9100"
+                        value={receiptPrinterHost} 
+                        onChange={(e) => setReceiptPrinterHost(e.target.value)} 
+                        disabled={!isAdmin}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Leave empty to print receipts from the browser. Ports 9100 to 9109 only.
+                      </p>
+                    </div>
                   </div>
                   
                   <div className="flex items-center space-x-2">
-                    <Switch id="show-tax" defaultChecked />
+                    <Switch id="show-tax" checked={receiptShowTax} onCheckedChange={setReceiptShowTax} />
                     <Label htmlFor="show-tax">Show Tax Details on Receipt</Label>
                   </div>
                   
                   <div className="flex items-center space-x-2">
-                    <Switch id="auto-print" defaultChecked />
+                    <Switch id="auto-print" checked={receiptAutoPrint} onCheckedChange={setReceiptAutoPrint} />
                     <Label htmlFor="auto-print">Automatically Print Receipts</Label>
                   </div>
+                  
+                  <div className="flex items-center space-x-2">
+                    <Switch id="email-receipts" checked={emailReceipts} onCheckedChange={setEmailReceipts} />
+                    <Label htmlFor="email-receipts">Email Receipts to Customers with an Email Address</Label>
+                  </div>
                 </div>
                 
                 <Separator />
@@ -242,18 +344,41 @@ const Settings = () => {
                   <h3 className="text-sm font-medium">Payment Options</h3>
                   
                   <div className="flex items-center space-x-2">
-                    <Switch id="accept-cash" defaultChecked />
-                    <Label htmlFor="accept-cash">Accept Cash Payments</Label>
+                    <Switch id="allow-split" checked={allowSplitPayments} onCheckedChange={setAllowSplitPayments} />
+                    <Label htmlFor="allow-split">Allow Split Payments</Label>
                   </div>
                   
                   <div className="flex items-center space-x-2">
-                    <Switch id="accept-card" defaultChecked />
-                    <Label htmlFor="accept-card">Accept Card Payments</Label>
+                    <Switch id="require-shift" checked={requireShift} onCheckedChange={setRequireShift} />
+                    <Label htmlFor="require-shift">Require an Open Shift to Sell</Label>
                   </div>
                   
-                  <div className="flex items-center space-x-2">
-                    <Switch id="allow-split" />
-                    <Label htmlFor="allow-split">Allow Split Payments</Label>
+                  <div className="space-y-2">
+                    <Label htmlFor="parked-cart-ttl">Parked Cart Expiry (minutes)</Label>
+                    <Input
+                      id="parked-cart-ttl"
+                      type="number"
+                      min="1"
+                      value={parkedCartTtl}
+                      onChange={(e) => setParkedCartTtl(e.target.value)}
+                    />
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="member-discount">Member Discount (%)</Label>
+                    <Input
+                      id="member-discount"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={memberDiscount}
+                      onChange={(e) => setMemberDiscount(e.target.value)}
+                      disabled={!isAdmin}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Taken off items without a member price when the customer has an active membership
+                    </p>
                   </div>
                 </div>
               </CardContent>
@@ -266,6 +391,14 @@ const Settings = () => {
             </form>
           </Card>
           
+          <PaymentMethodsSettingsCard />
+          
+          <TaxSettingsCard />
+          
+          <DiscountSettingsCard />
+          
+          <LoyaltySettingsCard />
+          
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center">
@@ -307,6 +440,8 @@ const Settings = () => {
         </TabsContent>
         
         <TabsContent value="notifications" className="space-y-4 mt-6">
+          <ReminderSettingsCard />
+          <EmailLogCard />
           <Card>
             <form onSubmit={handleSaveNotificationSettings}>
               <CardHeader>
@@ -459,6 +594,48 @@ const Settings = () => {
             </CardFooter>
           </Card>
         </TabsContent>
+
+        {isAdmin && (
+          <TabsContent value="jobs" className="space-y-4 mt-6">
+            <BackgroundJobCard
+              job="subscription-lifecycle"
+              title="Subscription Lifecycle"
+              description="Runs nightly to expire finished subscriptions and activate pending ones."
+              summaryColumns={[
+                { key: 'activated', label: 'Activated' },
+                { key: 'expired', label: 'Expired' },
+              ]}
+            />
+            <BackgroundJobCard
+              job="expiry-reminders"
+              title="Expiry Reminders"
+              description="Runs daily to email and text members whose membership is about to expire."
+              summaryColumns={[
+                { key: 'queued', label: 'Queued' },
+                { key: 'sent', label: 'Sent' },
+                { key: 'failed', label: 'Failed' },
+              ]}
+            />
+            <BackgroundJobCard
+              job="stored-value-expiry"
+              title="Gift Card Expiry"
+              description="Runs nightly to expire gift cards and wallets past their expiry date and write off what was left on them."
+              summaryColumns={[
+                { key: 'expired', label: 'Expired' },
+                { key: 'amount', label: 'Written Off ($)' },
+              ]}
+            />
+            <BackgroundJobCard
+              job="loyalty-expiry"
+              title="Points Expiry"
+              description="Runs nightly to write off loyalty points that have passed their expiry date."
+              summaryColumns={[
+                { key: 'expired', label: 'Batches' },
+                { key: 'points', label: 'Points' },
+              ]}
+            />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
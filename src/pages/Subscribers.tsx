@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import axios from 'axios';
 import { toast } from 'sonner';
@@ -40,51 +40,27 @@ import { useForm } from 'react-hook-form';
 import * as z from 'zod';
 import { format } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit, Trash2, CreditCard, Calendar, Search, X, Building2 } from 'lucide-react';
+import { Plus, Edit, Trash2, CreditCard, Calendar, Search, X, Building2, Eye, Wallet, Clock } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuCheckboxItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import api from '@/lib/axios';
-
-interface Subscriber {
-  id: number;
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  date_of_birth: string;
-  gender: 'male' | 'female' | 'other';
-  emergency_contact: string;
-  emergency_phone: string;
-  total_subscriptions: number;
-  current_status: string;
-  latest_end_date: string;
-}
+import api, { getApiErrorMessage } from '@/lib/axios';
+import { CouponPackageQuote, PackageType, Subscriber } from '@/types';
+import { SubscriberDetailsDialog } from '@/components/subscribers/SubscriberDetailsDialog';
+import { ExpiringSubscriptions } from '@/components/subscribers/ExpiringSubscriptions';
+import { usePaymentMethods } from '@/hooks/use-payment-methods';
+import { BUILT_IN_PAYMENT_METHOD_LABELS, getDefaultPaymentMethod, requiresReference } from '@/lib/payment-methods';
 
 interface Package {
   id: string;
   name: string;
   price: number;
   days: number;
-}
-
-interface Subscription {
-  id: number;
-  subscriber_id: number;
-  package_id: number;
-  start_date: string;
-  end_date: string;
-  status: 'active' | 'expired' | 'cancelled' | 'pending';
-  payment_status: 'paid' | 'pending' | 'failed';
-  total_amount: number;
-  amount_paid: number;
-  payment_method: string;
-  package_name: string;
-  package_days: number;
-  package_price: number;
+  type?: PackageType;
+  visits?: number | null;
 }
 
 const subscriberSchema = z.object({
@@ -96,12 +72,17 @@ const subscriberSchema = z.object({
   gender: z.enum(['male', 'female', 'other']).optional(),
   emergency_contact: z.string().optional(),
   emergency_phone: z.string().optional(),
+  card_number: z.string().optional(),
 });
 
 const subscriptionSchema = z.object({
   package_id: z.string().min(1, 'Package is required'),
   start_date: z.string().min(1, 'Start date is required'),
   payment_method: z.string().min(1, 'Payment method is required'),
+  payment_reference: z.string().optional(),
+  account_code: z.string().optional(),
+  amount_paid: z.string().optional(),
+  coupon_code: z.string().optional(),
   notes: z.string().optional(),
 });
 
@@ -113,10 +94,15 @@ const Subscribers = () => {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isSubscriptionDialogOpen, setIsSubscriptionDialogOpen] = useState(false);
+  const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [balanceOnly, setBalanceOnly] = useState(false);
+  const [showExpiring, setShowExpiring] = useState(false);
+  const [couponQuote, setCouponQuote] = useState<CouponPackageQuote | null>(null);
   const { token, selectedBranch } = useAuth();
+  const paymentMethods = usePaymentMethods();
 
   const form = useForm<z.infer<typeof subscriberSchema>>({
     resolver: zodResolver(subscriberSchema),
@@ -129,6 +115,7 @@ const Subscribers = () => {
       gender: 'other',
       emergency_contact: '',
       emergency_phone: '',
+      card_number: '',
     },
   });
 
@@ -138,6 +125,10 @@ const Subscribers = () => {
       package_id: '',
       start_date: format(new Date(), 'yyyy-MM-dd'),
       payment_method: 'cash',
+      payment_reference: '',
+      account_code: '',
+      amount_paid: '',
+      coupon_code: '',
       notes: '',
     },
   });
@@ -146,11 +137,7 @@ const Subscribers = () => {
     fetchData();
   }, [selectedBranch]);
 
-  useEffect(() => {
-    applyFilters();
-  }, [subscribers, searchQuery, statusFilter]);
-
-  const applyFilters = () => {
+  const applyFilters = useCallback(() => {
     let filtered = [...subscribers];
 
     if (searchQuery) {
@@ -168,8 +155,18 @@ const Subscribers = () => {
       );
     }
 
+    if (balanceOnly) {
+      filtered = filtered
+        .filter(subscriber => Number(subscriber.outstanding_balance) > 0)
+        .sort((a, b) => Number(b.outstanding_balance) - Number(a.outstanding_balance));
+    }
+
     setFilteredSubscribers(filtered);
-  };
+  }, [subscribers, searchQuery, statusFilter, balanceOnly]);
+
+  useEffect(() => {
+    applyFilters();
+  }, [applyFilters]);
 
   const fetchData = async () => {
     try {
@@ -225,6 +222,10 @@ const Subscribers = () => {
         end_date: format(endDate, 'yyyy-MM-dd'),
         total_amount: selectedPackage.price,
         payment_method: values.payment_method,
+        payment_reference: values.payment_reference?.trim() || null,
+        account_code: values.payment_method === 'stored_value' ? values.account_code || null : null,
+        amount_paid: values.amount_paid || 0,
+        coupon_code: couponQuote?.coupon?.code || null,
         notes: values.notes,
       });
 
@@ -233,7 +234,32 @@ const Subscribers = () => {
       fetchData();
     } catch (error) {
       console.error('Error creating subscription:', error);
-      toast.error('Failed to create subscription');
+      toast.error(getApiErrorMessage(error, 'Failed to create subscription'));
+    }
+  };
+
+  // Check the promo code against the chosen package and charge the discounted price
+  const handleApplyCoupon = async () => {
+    if (!selectedSubscriber) return;
+    const { package_id, coupon_code } = subscriptionForm.getValues();
+
+    if (!package_id) {
+      toast.error('Select a package first');
+      return;
+    }
+
+    try {
+      const response = await api.post('/api/coupons/validate', {
+        code: coupon_code,
+        package_id,
+        subscriber_id: selectedSubscriber.id,
+      });
+      setCouponQuote(response.data);
+      subscriptionForm.setValue('amount_paid', String(response.data.price));
+    } catch (error) {
+      console.error('Error validating promo code:', error);
+      setCouponQuote(null);
+      toast.error(getApiErrorMessage(error, 'Failed to apply promo code'));
     }
   };
 
@@ -261,6 +287,7 @@ const Subscribers = () => {
       gender: subscriber.gender || 'other',
       emergency_contact: subscriber.emergency_contact || '',
       emergency_phone: subscriber.emergency_phone || '',
+      card_number: subscriber.card_number || '',
     });
     setIsEditDialogOpen(true);
   };
@@ -270,15 +297,26 @@ const Subscribers = () => {
     subscriptionForm.reset({
       package_id: '',
       start_date: format(new Date(), 'yyyy-MM-dd'),
-      payment_method: 'cash',
+      payment_method: getDefaultPaymentMethod(paymentMethods),
+      payment_reference: '',
+      account_code: '',
+      amount_paid: '',
+      coupon_code: '',
       notes: '',
     });
+    setCouponQuote(null);
     setIsSubscriptionDialogOpen(true);
   };
 
+  const handleViewDetails = (subscriber: Subscriber) => {
+    setSelectedSubscriber(subscriber);
+    setIsDetailsDialogOpen(true);
+  };
+
   const clearFilters = () => {
     setSearchQuery('');
     setStatusFilter(null);
+    setBalanceOnly(false);
   };
 
   if (loading) {
@@ -350,6 +388,19 @@ const Subscribers = () => {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="card_number"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Member Card Number</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Scan or type card number" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="address"
@@ -462,12 +513,30 @@ const Subscribers = () => {
             >
               Active
             </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={statusFilter === 'pending'}
+              onCheckedChange={() => setStatusFilter('pending')}
+            >
+              Pending
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={statusFilter === 'frozen'}
+              onCheckedChange={() => setStatusFilter('frozen')}
+            >
+              Frozen
+            </DropdownMenuCheckboxItem>
             <DropdownMenuCheckboxItem
               checked={statusFilter === 'expired'}
               onCheckedChange={() => setStatusFilter('expired')}
             >
               Expired
             </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={statusFilter === 'cancelled'}
+              onCheckedChange={() => setStatusFilter('cancelled')}
+            >
+              Cancelled
+            </DropdownMenuCheckboxItem>
             <DropdownMenuCheckboxItem
               checked={statusFilter === 'no_subscription'}
               onCheckedChange={() => setStatusFilter('no_subscription')}
@@ -476,7 +545,23 @@ const Subscribers = () => {
             </DropdownMenuCheckboxItem>
           </DropdownMenuContent>
         </DropdownMenu>
-        {(searchQuery || statusFilter) && (
+        <Button
+          variant={balanceOnly ? 'default' : 'outline'}
+          className="w-full sm:w-auto"
+          onClick={() => setBalanceOnly(!balanceOnly)}
+        >
+          <Wallet className="h-4 w-4 mr-2" />
+          Outstanding Balance
+        </Button>
+        <Button
+          variant={showExpiring ? 'default' : 'outline'}
+          className="w-full sm:w-auto"
+          onClick={() => setShowExpiring(!showExpiring)}
+        >
+          <Clock className="h-4 w-4 mr-2" />
+          Expiring Soon
+        </Button>
+        {(searchQuery || statusFilter || balanceOnly) && (
           <Button
             variant="ghost"
             size="sm"
@@ -489,7 +574,7 @@ const Subscribers = () => {
         )}
       </div>
 
-      {(searchQuery || statusFilter) && (
+      {(searchQuery || statusFilter || balanceOnly) && (
         <div className="flex flex-wrap gap-2">
           {searchQuery && (
             <Badge variant="secondary" className="flex items-center gap-1">
@@ -509,9 +594,20 @@ const Subscribers = () => {
               />
             </Badge>
           )}
+          {balanceOnly && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              With outstanding balance
+              <X
+                className="h-3 w-3 cursor-pointer"
+                onClick={() => setBalanceOnly(false)}
+              />
+            </Badge>
+          )}
         </div>
       )}
 
+      {showExpiring && <ExpiringSubscriptions onRenewed={fetchData} />}
+
       <Table>
         <TableHeader>
           <TableRow>
@@ -544,6 +640,16 @@ const Subscribers = () => {
                 <TableCell>
                   <div>
                     <div>{subscriber.total_subscriptions} subscriptions</div>
+                    {subscriber.remaining_visits != null && (
+                      <div className="text-sm text-muted-foreground">
+                        {Number(subscriber.remaining_visits)} sessions remaining
+                      </div>
+                    )}
+                    {Number(subscriber.outstanding_balance) > 0 && (
+                      <div className="text-sm font-medium text-destructive">
+                        Balance due: ${Number(subscriber.outstanding_balance).toFixed(2)}
+                      </div>
+                    )}
                     {subscriber.latest_end_date && (
                       <div className="text-sm text-muted-foreground">
                         Expires: {format(new Date(subscriber.latest_end_date), 'MMM d, yyyy')}
@@ -558,6 +664,8 @@ const Subscribers = () => {
                         ? 'default'
                         : subscriber.current_status === 'expired'
                         ? 'destructive'
+                        : subscriber.current_status === 'frozen'
+                        ? 'outline'
                         : 'secondary'
                     }
                   >
@@ -566,6 +674,13 @@ const Subscribers = () => {
                 </TableCell>
                 <TableCell>
                   <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleViewDetails(subscriber)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="icon"
@@ -595,6 +710,13 @@ const Subscribers = () => {
         </TableBody>
       </Table>
 
+      <SubscriberDetailsDialog
+        subscriber={selectedSubscriber}
+        open={isDetailsDialogOpen}
+        onOpenChange={setIsDetailsDialogOpen}
+        onChanged={fetchData}
+      />
+
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -641,6 +763,19 @@ const Subscribers = () => {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="card_number"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Member Card Number</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Scan or type card number" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="address"
@@ -736,7 +871,16 @@ const Subscribers = () => {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Package</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Default to paying in full; staff can lower it for installments
+                        const pkg = packages.find(p => String(p.id) === String(value));
+                        if (pkg) subscriptionForm.setValue('amount_paid', String(pkg.price));
+                        setCouponQuote(null);
+                      }}
+                      defaultValue={field.value}
+                    >
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select a package" />
@@ -745,7 +889,7 @@ const Subscribers = () => {
                       <SelectContent>
                         {packages.map((pkg) => (
                           <SelectItem key={pkg.id} value={pkg.id}>
-                            {pkg.name} - ${pkg.price} ({pkg.days} days)
+                            {pkg.name} - ${pkg.price} ({pkg.type === 'sessions' ? `${pkg.visits} visits in ${pkg.days} days` : `${pkg.days} days`})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -780,15 +924,92 @@ const Subscribers = () => {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="cash">Cash</SelectItem>
-                        <SelectItem value="card">Card</SelectItem>
-                        <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                        {paymentMethods.map((method) => (
+                          <SelectItem key={method.code} value={method.code}>{method.name}</SelectItem>
+                        ))}
+                        <SelectItem value="stored_value">{BUILT_IN_PAYMENT_METHOD_LABELS.stored_value}</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              {requiresReference(subscriptionForm.watch('payment_method'), paymentMethods) && (
+                <FormField
+                  control={subscriptionForm.control}
+                  name="payment_reference"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reference Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Needed when a payment is taken now" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {subscriptionForm.watch('payment_method') === 'stored_value' && (
+                <FormField
+                  control={subscriptionForm.control}
+                  name="account_code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gift Card Code</FormLabel>
+                      <FormControl>
+                        <Input className="uppercase" placeholder="Leave blank to use the member's wallet" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={subscriptionForm.control}
+                name="coupon_code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Promo Code</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input
+                          className="uppercase"
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            setCouponQuote(null);
+                          }}
+                        />
+                      </FormControl>
+                      <Button type="button" variant="outline" onClick={handleApplyCoupon} disabled={!field.value}>
+                        Apply
+                      </Button>
+                    </div>
+                    {couponQuote?.coupon && (
+                      <p className="text-sm text-green-700">
+                        {couponQuote.coupon.code} applied:{' '}
+                        {couponQuote.free_days > 0
+                          ? `${couponQuote.free_days} free days`
+                          : `$${couponQuote.discount.toFixed(2)} off, new price $${couponQuote.price.toFixed(2)}`}
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={subscriptionForm.control}
+                name="amount_paid"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount Paid Now ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="0.00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={subscriptionForm.control}
                 name="notes"
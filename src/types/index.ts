@@ -1,19 +1,358 @@
 
 // Package Types
+export type PackageType = 'days' | 'sessions';
+
 export interface SubscriptionPackage {
   id: string;
   name: string;
   description: string;
   days: number;
+  type?: PackageType;
+  visits?: number | null;
   price: number;
   features: string[];
   isPopular?: boolean;
+  maxFreezes?: number | null;
+  maxFreezeDays?: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Subscriber Types
+export type SubscriberStatus = 'active' | 'pending' | 'frozen' | 'expired' | 'cancelled' | 'no_subscription';
+
+export interface Subscriber {
+  id: number;
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  date_of_birth: string;
+  gender: 'male' | 'female' | 'other';
+  emergency_contact: string;
+  emergency_phone: string;
+  card_number: string | null;
+  total_subscriptions: number;
+  current_status: SubscriberStatus;
+  latest_end_date: string;
+  remaining_visits: number | null;
+  outstanding_balance: number;
+}
+
+export interface Subscription {
+  id: number;
+  subscriber_id: number;
+  package_id: number;
+  start_date: string;
+  end_date: string;
+  status: 'active' | 'expired' | 'cancelled' | 'pending';
+  payment_status: 'paid' | 'partial' | 'pending' | 'failed';
+  total_amount: number;
+  amount_paid: number;
+  visits_total: number | null;
+  visits_remaining: number | null;
+  payment_method: string;
+  notes?: string;
+  cancelled_at: string | null;
+  cancellation_reason: string | null;
+  refunded_amount: number;
+  previous_subscription_id: number | null;
+  change_type: PackageChangeType | null;
+  change_credit: number | null;
+  change_carried_balance: number | null;
+  change_wallet_credit: number | null;
+  change_difference: number | null;
+  previous_package_name: string | null;
+  next_package_name: string | null;
+  changed_at: string | null;
+  package_name: string;
+  package_days: number;
+  package_price: number;
+  package_type: PackageType;
+  package_max_freezes: number | null;
+  package_max_freeze_days: number | null;
+  freeze_count: number;
+  frozen_days: number;
+  is_frozen: number;
+  created_at: string;
+}
+
+export interface SubscriptionFreeze {
+  id: number;
+  subscription_id: number;
+  start_date: string;
+  end_date: string;
+  original_end_date: string | null;
+  days: number;
+  reason: string;
+  status: 'active' | 'cancelled';
+  created_by_name: string;
+  created_at: string;
+}
+
+export interface RefundQuote {
+  amount_paid: number;
+  refundable: number;
+  term_days: number;
+  unused_days: number;
+  refund_amount: number;
+}
+
+export interface SubscriptionPayment {
+  id: number;
+  subscription_id: number;
+  amount: number;
+  payment_method: string;
+  reference: string | null;
+  payment_date: string;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export type PackageChangeType = 'upgrade' | 'downgrade';
+
+export interface PackageChangeQuote {
+  change_type: PackageChangeType;
+  effective_date: string;
+  unused_days: number;
+  credit_amount: number;
+  carried_balance: number;
+  wallet_credit: number;
+  new_price: number;
+  difference: number;
+}
+
+export interface JobRun {
+  id: number;
+  job_name: string;
+  trigger_type: 'schedule' | 'startup' | 'manual';
+  status: 'running' | 'success' | 'failed';
+  summary: Record<string, number> | null;
+  error: string | null;
+  triggered_by_name: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface BranchSettings {
+  reminders_enabled: number | boolean;
+  reminder_days: number;
+  allow_split_payments: number | boolean;
+  require_shift: number | boolean;
+  parked_cart_ttl_minutes: number;
+  // Null means the company's setting applies
+  tax_rate: number | null;
+  prices_include_tax: number | boolean | null;
+  member_discount_percent: number;
+  receipt_header: string | null;
+  receipt_footer: string | null;
+  receipt_show_tax: number | boolean;
+  receipt_auto_print: number | boolean;
+  receipt_paper_width: 58 | 80;
+  receipt_printer_host: string | null;
+  email_receipts: number | boolean;
+}
+
+export type TaxRuleTarget = 'category' | 'item' | 'membership';
+
+// A tax rate override; rules without a branch apply to the whole company
+export interface TaxRule {
+  id: number;
+  company_id: number;
+  branch_id: number | null;
+  branch_name: string | null;
+  target_type: TaxRuleTarget;
+  category: string | null;
+  item_id: number | null;
+  item_name: string | null;
+  rate: number;
+  name: string | null;
+}
+
+// What the POS needs to work out tax itself, from GET /api/tax-settings
+export interface TaxSettings {
+  rate: number;
+  prices_include_tax: boolean;
+  rules: TaxRule[];
+}
+
+// Tax collected at one rate, from GET /api/sales/tax-report
+export interface TaxReportRow {
+  tax_rate: number;
+  net_sales: number;
+  tax: number;
+  returned_tax: number;
+}
+
+// A bundle's sales less returns, from GET /api/sales/bundle-margins
+export interface BundleMarginRow {
+  item_id: number;
+  name: string;
+  sku: string;
+  units_sold: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  margin_percent: number | null;
+}
+
+export type CouponType = 'percent' | 'fixed' | 'free_days';
+
+export type CouponTargetType = 'membership' | 'package' | 'category';
+
+export interface CouponTarget {
+  target_type: CouponTargetType;
+  package_id: number | null;
+  package_name?: string | null;
+  category: string | null;
+}
+
+export interface Coupon {
+  id: number;
+  company_id: number;
+  branch_id: number | null;
+  branch_name: string | null;
+  code: string;
+  name: string | null;
+  discount_type: CouponType;
+  value: number;
+  starts_on: string | null;
+  ends_on: string | null;
+  max_uses: number | null;
+  max_uses_per_subscriber: number | null;
+  is_active: boolean;
+  uses: number;
+  targets: CouponTarget[];
+}
+
+// A package's price with a promo code, from POST /api/coupons/validate
+export interface CouponPackageQuote {
+  coupon: AppliedCoupon | null;
+  price: number;
+  discount: number;
+  free_days: number;
+}
+
+export interface CouponRedemptionSummary {
+  coupon_id: number;
+  code: string;
+  name: string | null;
+  discount_type: CouponType;
+  redemptions: number;
+  sale_redemptions: number;
+  subscription_redemptions: number;
+  subscribers: number;
+  discount_total: number;
+  free_days_total: number;
+}
+
+// Gift cards are bearer cards found by their code; wallets belong to a member
+export type StoredValueType = 'gift_card' | 'wallet';
+
+export interface StoredValueAccount {
+  id: number;
+  company_id: number;
+  branch_id: number | null;
+  branch_name: string | null;
+  account_type: StoredValueType;
+  code: string;
+  subscriber_id: number | null;
+  subscriber_name: string | null;
+  balance: number;
+  expires_on: string | null;
+  status: 'active' | 'expired';
+  created_at: string;
+}
+
+export type StoredValueTransactionType = 'issue' | 'top_up' | 'redeem' | 'refund' | 'expire';
+
+export interface StoredValueTransaction {
+  id: number;
+  account_id: number;
+  type: StoredValueTransactionType;
+  // Positive for money put on the account, negative for money taken off
+  amount: number;
+  balance_after: number;
+  payment_method: string | null;
+  reference: string | null;
+  sale_id: number | null;
+  subscription_id: number | null;
+  branch_name: string | null;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+// Outstanding balances for one company, from GET /api/stored-value/liability
+export interface StoredValueLiability {
+  company_id: number;
+  company_name: string;
+  accounts: number;
+  gift_card_balance: number;
+  wallet_balance: number;
+  total_balance: number;
+  // Balance on accounts that expire within 30 days
+  expiring_soon: number;
+}
+
+export interface ExpiringSubscription {
+  subscription_id: number;
+  end_date: string;
+  payment_method: string;
+  days_left: number;
+  subscriber_id: number;
+  subscriber_name: string;
+  email: string | null;
+  phone: string | null;
+  package_id: number;
+  package_name: string;
+  package_price: number;
+  branch_id: number;
+  last_reminded_at: string | null;
+}
+
+export type EmailKind = 'receipt' | 'invoice';
+
+export type EmailStatus = 'queued' | 'sent' | 'failed';
+
+// One receipt or invoice email in the delivery log
+export interface EmailMessage {
+  id: number;
+  branch_id: number | null;
+  kind: EmailKind;
+  sale_id: number | null;
+  subscription_id: number | null;
+  recipient: string;
+  subject: string;
+  status: EmailStatus;
+  error: string | null;
+  created_by: number | null;
+  created_by_name: string | null;
+  subscriber_name: string | null;
+  customer_name: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface CheckIn {
+  id: number;
+  subscriber_id: number;
+  subscription_id: number | null;
+  branch_id: number | null;
+  method: 'card' | 'search' | 'manual';
+  checked_in_at: string;
+  checked_out_at: string | null;
+  subscriber_name: string;
+  card_number: string | null;
+  package_name: string | null;
+  subscription_end_date: string | null;
+  visits_remaining: number | null;
+  created_by_name: string | null;
+}
+
 // Inventory Types
-export type TransactionType = 'purchase' | 'sale' | 'adjustment_in' | 'adjustment_out' | 'beginning';
+export type TransactionType = 'purchase' | 'sale' | 'return' | 'adjustment_in' | 'adjustment_out' | 'beginning';
 
 export interface InventoryItem {
   id: string;
@@ -23,13 +362,28 @@ export interface InventoryItem {
   barcode: string;
   quantity: number;
   price: number;
+  // What members with an active subscription pay; null means the shelf price
+  memberPrice?: number | null;
   cost: number;
   category: string;
   imageSrc?: string;
+  // A bundle holds no stock: its quantity is how many can be made up from the components, and its
+  // cost is theirs added up
+  isBundle?: boolean;
+  components?: BundleComponent[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BundleComponent {
+  itemId: string;
+  name: string;
+  sku: string;
+  // Units of the component in one bundle
+  quantity: number;
+  cost: number;
+}
+
 export interface InventoryTransaction {
   id: string;
   itemId: string;
@@ -43,13 +397,64 @@ export interface InventoryTransaction {
 }
 
 // Sale/POS Types
+export type CartItemType = 'item' | 'package';
+
+export type DiscountType = 'percent' | 'fixed';
+
+export type DiscountReason = 'damaged' | 'loyalty' | 'price_match' | 'promotion' | 'staff' | 'manager_discretion' | 'other';
+
+// A discount on one cart line or on the whole cart
+export interface CartDiscount {
+  type: DiscountType;
+  value: number;
+  reason: DiscountReason;
+  note?: string;
+}
+
 export interface CartItem {
   id: string;
+  type?: CartItemType;
   itemId: string;
   name: string;
   price: number;
+  // The shelf price when a member is paying less
+  listPrice?: number;
   quantity: number;
   totalPrice: number;
+  // Membership package lines are sold to a specific member
+  subscriberId?: number;
+  subscriberName?: string;
+  startDate?: string;
+  discount?: CartDiscount;
+}
+
+export type PaymentMethodType = 'cash' | 'card' | 'bank_transfer' | 'mobile_money' | 'cheque' | 'other';
+
+// A way the company takes money; sales and payments keep its code, which never changes
+export interface PaymentMethod {
+  id: number;
+  company_id: number;
+  code: string;
+  name: string;
+  type: PaymentMethodType;
+  // Money taken this way goes in the till and can be handed back as change
+  opens_drawer: boolean;
+  requires_reference: boolean;
+  is_active: boolean;
+  sort_order: number;
+}
+
+// A code from the company's payment methods, or the built-in 'stored_value' and 'points' tenders
+export type SalePaymentMethod = string;
+
+// A tender being entered at checkout; amount is what the customer hands over
+export interface SaleTender {
+  payment_method: SalePaymentMethod;
+  amount: string;
+  // Gift card code for stored_value tenders; left empty to use the member's wallet
+  account_code?: string;
+  // Transaction or cheque number, for methods that require one
+  reference?: string;
 }
 
 export interface Sale {
@@ -59,7 +464,7 @@ export interface Sale {
   tax: number;
   discount: number;
   total: number;
-  paymentMethod: 'cash' | 'card' | 'other';
+  paymentMethod: SalePaymentMethod;
   customer?: {
     id: string;
     name: string;
@@ -69,6 +474,341 @@ export interface Sale {
   createdAt: string;
 }
 
+// A completed sale as returned by the sales API
+export interface SaleRecord {
+  id: number;
+  created_at: string;
+  subtotal: number;
+  tax: number;
+  discount: number;
+  total: number;
+  payment_method: string;
+  customer_id: number | null;
+  customer_name: string;
+  customer_email: string;
+  change_given: number;
+  prices_include_tax: number | boolean;
+  items: SaleRecordItem[];
+  payments: SaleRecordPayment[];
+  returns: SaleReturn[];
+}
+
+export interface SaleRecordItem {
+  id: number;
+  item_type: CartItemType;
+  item_id: number | null;
+  package_id: number | null;
+  subscriber_name: string | null;
+  name: string;
+  quantity: number;
+  returned_quantity: number;
+  price: number;
+  // The shelf price when the item was sold at a member price
+  list_price: number | null;
+  total: number;
+  discount_amount: number;
+  net_amount: number | null;
+  tax_rate: number;
+  tax_amount: number;
+}
+
+export interface SaleRecordPayment {
+  id: number;
+  payment_method: string;
+  amount: number;
+  tendered: number;
+  reference: string | null;
+}
+
+export interface SaleReturn {
+  id: number;
+  sale_id: number;
+  total: number;
+  refund_method: string;
+  reason: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+// A cart put on hold at the till so it can be resumed later
+export interface ParkedCart {
+  id: number;
+  name: string;
+  items: CartItem[];
+  created_by_name: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+// Body of POST /api/sales
+export interface SaleRequestItem {
+  type: CartItemType;
+  id: string;
+  quantity: number;
+  price: number;
+  total: number;
+  subscriber_id?: number;
+  start_date?: string;
+  discount?: CartDiscount;
+}
+
+export interface SaleRequest {
+  items: SaleRequestItem[];
+  subtotal: number;
+  tax: number;
+  // The cart discount as entered; the amount is worked out by the server
+  discount: CartDiscount | number | null;
+  total: number;
+  payments: { payment_method: SalePaymentMethod; amount: number; account_code?: string; reference?: string }[];
+  discount_approval?: string;
+  coupon_code?: string | null;
+  customer_id?: number | null;
+  customer_name?: string | null;
+  customer_email?: string | null;
+  client_reference?: string;
+  sold_at?: string;
+  // The cashier's offline pass, sent with sales queued while offline
+  offline_pass?: string | null;
+}
+
+// Server pricing for a cart, returned by POST /api/sales/quote
+export interface SaleQuoteLine {
+  type: CartItemType;
+  id: number;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  list_price?: number;
+  member_pricing?: boolean;
+  gross_total: number;
+  discount_amount: number;
+  total: number;
+  // This line's share of a promo code
+  coupon_amount: number;
+  coupon_free_days: number;
+  net_amount: number;
+  tax_rate: number;
+  tax_amount: number;
+}
+
+export interface AppliedCoupon {
+  id: number;
+  code: string;
+  name: string | null;
+  discount_type: CouponType;
+  value: number;
+  amount: number;
+  free_days: number;
+}
+
+export interface SaleQuote {
+  lines: SaleQuoteLine[];
+  subtotal: number;
+  discount: number;
+  coupon: AppliedCoupon | null;
+  coupon_discount: number;
+  tax: number;
+  total: number;
+  prices_include_tax: boolean;
+  // Largest discount on the cart as a share of the price it came off
+  max_discount_percent: number;
+  member: MemberPricing | null;
+}
+
+// A subscriber's active membership at the branch, which gets them member prices
+export interface MemberPricing {
+  subscriber_id: number;
+  subscription_id: number;
+  package_name: string;
+  end_date: string;
+  discount_percent: number;
+}
+
+// A member's loyalty points at the current branch's company
+export interface MemberPoints {
+  // Whether the company's program is running; points can only be earned and spent while it is
+  enabled: boolean;
+  balance: number;
+  // What one point is worth when spent
+  point_value: number;
+  value: number;
+  // Points that expire within 30 days, and the first date they do
+  expiring_soon: number;
+  next_expiry: string | null;
+}
+
+export type LoyaltyTransactionType = 'earn' | 'bonus' | 'redeem' | 'refund' | 'reverse' | 'adjust' | 'expire';
+
+export interface LoyaltyTransaction {
+  id: number;
+  type: LoyaltyTransactionType;
+  // Positive for points given, negative for points taken off
+  points: number;
+  balance_after: number;
+  expires_on: string | null;
+  sale_id: number | null;
+  subscription_id: number | null;
+  branch_name: string | null;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export type LoyaltyRuleTarget = 'category' | 'package';
+
+export interface LoyaltyRule {
+  id: number;
+  target_type: LoyaltyRuleTarget;
+  category: string | null;
+  package_id: number | null;
+  package_name: string | null;
+  // Category rules multiply the points earned; package rules add bonus points
+  multiplier: number;
+  bonus_points: number;
+}
+
+export interface LoyaltyProgram {
+  enabled: boolean;
+  // Points earned per unit of currency paid
+  points_per_unit: number;
+  point_value: number;
+  // Days points last before they expire; null when they never do
+  expiry_days: number | null;
+  rules: LoyaltyRule[];
+}
+
+// A POS sale on a subscriber's profile
+export interface MemberPurchase extends SaleRecord {
+  branch_name: string | null;
+  created_by_name: string | null;
+  returned_total: number;
+}
+
+export interface DiscountPolicy {
+  max_discount_percent: number;
+  reasons: DiscountReason[];
+}
+
+export interface DiscountApprover {
+  id: number;
+  name: string;
+  role_name: string;
+  max_discount_percent: number;
+}
+
+// A manager's sign-off, valid for a few minutes, sent along with the sale
+export interface DiscountApproval {
+  token: string;
+  approver_id: number;
+  approver_name: string;
+  max_percent: number;
+}
+
+// Discounts given by one staff member, from GET /api/sales/discounts-by-staff
+export interface StaffDiscountSummary {
+  user_id: number | null;
+  user_name: string | null;
+  discount_count: number;
+  discount_total: number;
+  approved_count: number;
+  approved_by_names: string | null;
+}
+
+// A sale rung up while the server was unreachable, waiting to be synced
+export interface QueuedSale {
+  client_reference: string;
+  sale: SaleRequest;
+  queued_at: string;
+  error?: string;
+}
+
+// An item a synced sale took below zero stock
+export interface StockConflict {
+  item_id: number;
+  name: string;
+  quantity: number;
+}
+
+export type SaleConflictType = 'stock' | 'price';
+
+// A problem kept from when a sale was recorded, from GET /api/sales/conflicts
+export interface SaleConflict {
+  id: number;
+  sale_id: number;
+  conflict_type: SaleConflictType;
+  item_id: number | null;
+  name: string;
+  // Stock left after the sale, for stock conflicts
+  quantity: number | null;
+  // What the terminal charged and what we'd have charged, for price conflicts
+  charged: number | null;
+  expected: number | null;
+  sold_at: string;
+  cashier_name: string | null;
+  resolved_by_name: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// An offline sale that was charged differently from what the server would charge now
+export interface PriceConflict {
+  name: string;
+  charged: number;
+  expected: number;
+}
+
+// Cash drawer shifts
+export interface CashShift {
+  id: number;
+  branch_id: number | null;
+  user_id: number | null;
+  user_name: string | null;
+  branch_name: string | null;
+  status: 'open' | 'closed';
+  opening_float: number;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  variance: number | null;
+  notes: string | null;
+  opened_at: string;
+  closed_at: string | null;
+}
+
+export type CashMovementType = 'paid_in' | 'paid_out';
+
+export interface CashMovement {
+  id: number;
+  shift_id: number;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export interface ShiftReport {
+  report_type: 'X' | 'Z';
+  shift: CashShift;
+  sales_count: number;
+  sales_total: number;
+  tenders: { payment_method: string; amount: number }[];
+  refunds: { payment_method: string; count: number; amount: number }[];
+  refunds_total: number;
+  // Gift cards and top-ups sold on the shift, by how they were paid for
+  stored_value_sold: { payment_method: string; amount: number }[];
+  // Subscription payments and refunds the cashier took while the shift was open
+  subscription_payments: { payment_method: string; amount: number }[];
+  subscription_refunds: { payment_method: string; count: number; amount: number }[];
+  movements: CashMovement[];
+  opening_float: number;
+  paid_in: number;
+  paid_out: number;
+  expected_cash: number;
+  counted_cash: number | null;
+  variance: number | null;
+  generated_at: string;
+}
+
 // User Management Types
 export type UserRole = 'admin' | 'manager' | 'staff' | 'member';
 